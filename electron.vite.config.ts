@@ -8,6 +8,7 @@ export default defineConfig({
         input: {
           index: "src/main/bootstrap.ts",
           app: "src/main/index.ts",
+          "localhost-dashboard": "src/cli/localhost-dashboard.ts",
           "cleaner-accounting-worker":
             "src/main/cleaner/workers/accounting-worker.ts",
         },
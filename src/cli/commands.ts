@@ -0,0 +1,79 @@
+import { validatePortNumber } from "../main/port-owners";
+
+export type CliRequest = {
+  method: "GET" | "POST" | "PUT";
+  path: string;
+  body?: unknown;
+};
+
+// "up" exits 1 when nothing healthy listens on the port, "free" exits 1
+// when something still holds it after a kill.
+export type CliCommand = { request: CliRequest; check?: "up" | "free" };
+
+export const CLI_USAGE = `Usage: localhost-dashboard <command>
+
+Commands:
+  servers             Detected servers with their latest health check
+  status <port>       Whether a healthy server is on the port (exit 1 if not)
+  kill <port>         Stop whatever listens on the port (exit 1 if still taken)
+  health              Latest health check results
+  notes               All port notes
+  note <port> [text]  Print the port's note, or set it ("" clears it)
+  scan                Scan now and list servers
+
+Prints JSON. Exit codes: 0 ok, 1 negative answer, 2 usage or API error.
+
+Environment:
+  LOCALHOST_DASHBOARD_URL    Control API address, e.g. http://127.0.0.1:1356
+  LOCALHOST_DASHBOARD_TOKEN  Bearer token; both are read from control-api.json
+                             in the app data folder when not set`;
+
+function portArg(value: string | undefined): number {
+  if (value === undefined) throw new Error("A port is required.");
+  return validatePortNumber(value);
+}
+
+// Returns undefined for help; throws with a message for bad arguments.
+export function parseCliArgs(args: string[]): CliCommand | undefined {
+  const [name, ...rest] = args;
+  switch (name) {
+    case undefined:
+    case "help":
+    case "-h":
+    case "--help":
+      return undefined;
+    case "servers":
+      return { request: { method: "GET", path: "/v1/servers" } };
+    case "status":
+      return {
+        request: { method: "GET", path: `/v1/ports/${portArg(rest[0])}` },
+        check: "up",
+      };
+    case "kill":
+      return {
+        request: { method: "POST", path: `/v1/ports/${portArg(rest[0])}/kill` },
+        check: "free",
+      };
+    case "health":
+      return { request: { method: "GET", path: "/v1/health" } };
+    case "notes":
+      return { request: { method: "GET", path: "/v1/notes" } };
+    case "note": {
+      const path = `/v1/notes/${portArg(rest[0])}`;
+      if (rest.length < 2) return { request: { method: "GET", path } };
+      const note = rest.slice(1).join(" ");
+      return { request: { method: "PUT", path, body: { note } } };
+    }
+    case "scan":
+      return { request: { method: "POST", path: "/v1/scan" } };
+    default:
+      throw new Error(`Unknown command: ${name}`);
+  }
+}
+
+export function cliExitCode(command: CliCommand, data: unknown): number {
+  const result = data as { up?: unknown; owners?: unknown[] } | undefined;
+  if (command.check === "up") return result?.up === true ? 0 : 1;
+  if (command.check === "free") return result?.owners?.length ? 1 : 0;
+  return 0;
+}
@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+import http from "node:http";
+import {
+  CLI_USAGE,
+  cliExitCode,
+  parseCliArgs,
+  type CliRequest,
+} from "./commands";
+import {
+  controlApiFileCandidates,
+  readControlApiInfo,
+} from "../main/control-api-info";
+
+type Endpoint = { url: string; token: string };
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+function isRunning(pid: number): boolean {
+  if (!pid) return true;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: alive, but owned by someone else
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// Environment variables win; otherwise the file a running dashboard wrote.
+function resolveEndpoint(): Endpoint {
+  const envUrl = process.env.LOCALHOST_DASHBOARD_URL;
+  const envToken = process.env.LOCALHOST_DASHBOARD_TOKEN;
+  if (envUrl && envToken) return { url: envUrl, token: envToken };
+  for (const file of controlApiFileCandidates()) {
+    const info = readControlApiInfo(file);
+    if (info && isRunning(info.pid)) {
+      return {
+        url: envUrl ?? `http://127.0.0.1:${info.port}`,
+        token: envToken ?? info.token,
+      };
+    }
+  }
+  throw new Error(
+    "Localhost Dashboard is not running with the control API turned on " +
+      "(Settings → Control API).",
+  );
+}
+
+function send(
+  endpoint: Endpoint,
+  request: CliRequest,
+): Promise<{ status: number; data: unknown }> {
+  const payload =
+    request.body === undefined ? undefined : JSON.stringify(request.body);
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      new URL(request.path, endpoint.url),
+      {
+        method: request.method,
+        headers: {
+          authorization: `Bearer ${endpoint.token}`,
+          ...(payload ? { "content-type": "application/json" } : {}),
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+      },
+      (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (text += chunk));
+        res.on("end", () => {
+          try {
+            resolve({ status: res.statusCode ?? 0, data: JSON.parse(text) });
+          } catch {
+            reject(new Error(`Unexpected response: ${text.slice(0, 200)}`));
+          }
+        });
+      },
+    );
+    req.on("timeout", () => req.destroy(new Error("Request timed out")));
+    req.on("error", reject);
+    req.end(payload);
+  });
+}
+
+async function main(): Promise<number> {
+  let command;
+  try {
+    command = parseCliArgs(process.argv.slice(2));
+  } catch (err) {
+    process.stderr.write(`${(err as Error).message}\n\n${CLI_USAGE}\n`);
+    return 2;
+  }
+  if (!command) {
+    process.stdout.write(`${CLI_USAGE}\n`);
+    return 0;
+  }
+  try {
+    const { status, data } = await send(resolveEndpoint(), command.request);
+    if (status >= 400) {
+      process.stderr.write(`${JSON.stringify(data, null, 2)}\n`);
+      return 2;
+    }
+    process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+    return cliExitCode(command, data);
+  } catch (err) {
+    process.stderr.write(
+      `${JSON.stringify({ error: (err as Error).message }, null, 2)}\n`,
+    );
+    return 2;
+  }
+}
+
+void main().then((code) => {
+  process.exitCode = code;
+});
@@ -1,11 +1,10 @@
 import si from 'systeminformation';
 import pidusage from 'pidusage';
 import { EventEmitter } from 'node:events';
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
 import { settings } from './settings';
+import { createProcessMetadataProvider } from './process-metadata';
 
-const execAsync = promisify(exec);
+const processMetadata = createProcessMetadataProvider('win32');
 
 export type AHKScriptInfo = {
   key: string; // pid
@@ -138,20 +137,22 @@ async function getAHKProcesses(): Promise<AHKProcess[]> {
         }
       }
 
-      // If we couldn't get it from command, try WMIC
-      if (!ahkProcess.scriptPath) {
-        try {
-          const scriptPath = await getScriptPathViaWMIC(proc.pid);
-          if (scriptPath) {
-            ahkProcess.scriptPath = scriptPath;
-            ahkProcess.scriptName = extractFileName(scriptPath);
-          }
-        } catch {
-          // ignore
+      results.push(ahkProcess);
+    }
+
+    // If we couldn't get it from command, ask Windows for the full command
+    // lines of the rest in one query
+    const missing = results.filter((r) => !r.scriptPath);
+    if (missing.length > 0) {
+      const metadata = await processMetadata.read(missing.map((r) => r.pid));
+      for (const ahkProcess of missing) {
+        const commandLine = metadata.get(ahkProcess.pid)?.commandLine;
+        const scriptPath = commandLine && extractAHKScriptPath(commandLine);
+        if (scriptPath) {
+          ahkProcess.scriptPath = scriptPath;
+          ahkProcess.scriptName = extractFileName(scriptPath);
         }
       }
-
-      results.push(ahkProcess);
     }
   } catch (err) {
     console.error('Error scanning AHK processes:', err);
@@ -189,22 +190,3 @@ function extractFileName(filePath: string): string {
   const parts = filePath.split(/[/\\]/);
   return parts[parts.length - 1] || filePath;
 }
-
-async function getScriptPathViaWMIC(pid: number): Promise<string | undefined> {
-  try {
-    const { stdout } = await execAsync(
-      `wmic process where processid=${pid} get commandline /format:list`
-    );
-    const lines = stdout.split(/\r?\n/);
-    for (const line of lines) {
-      if (line.startsWith('CommandLine=')) {
-        const cmd = line.substring('CommandLine='.length);
-        return extractAHKScriptPath(cmd);
-      }
-    }
-  } catch {
-    // ignore
-  }
-  return undefined;
-}
-
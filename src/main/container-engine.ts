@@ -0,0 +1,456 @@
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { detectLogLevel, stripAnsi, type LogEntry } from "./log-buffer";
+import type { ListenerProtocol } from "./server-detection";
+
+export type ContainerEngine = "docker" | "podman";
+
+export type ContainerAction = "start" | "stop" | "restart";
+
+// The subset of GET /containers/json we use. Podman's Docker-compatible API
+// returns the same shape.
+export type EngineContainer = {
+  Id: string;
+  Names?: string[];
+  Image?: string;
+  State?: string;
+  Status?: string;
+  Ports?: {
+    IP?: string;
+    PrivatePort: number;
+    PublicPort?: number;
+    Type?: string;
+  }[];
+  Labels?: Record<string, string> | null;
+};
+
+export type ContainerInfo = {
+  id: string;
+  name: string;
+  image: string;
+  state: string; // "running", "exited", "paused", ...
+  status?: string; // "Up 5 minutes"
+  composeProject?: string;
+  composeService?: string;
+  engine: ContainerEngine;
+};
+
+export type ContainerPort = ContainerInfo & {
+  hostPort: number;
+  containerPort: number;
+  protocol: ListenerProtocol;
+};
+
+// A container that published ports earlier this session and is now stopped,
+// so it can still be started from the dashboard.
+export type StoppedContainer = ContainerInfo & {
+  ports: {
+    hostPort: number;
+    containerPort: number;
+    protocol: ListenerProtocol;
+  }[];
+};
+
+export type EngineSocket = { socketPath: string; engine: ContainerEngine };
+
+// Injectable so tests can point the scanner at a fake engine.
+export type ContainerEngineClient = {
+  engine: ContainerEngine;
+  socketPath: string;
+  ping: () => Promise<void>;
+  listContainers: () => Promise<EngineContainer[]>;
+  runAction: (id: string, action: ContainerAction) => Promise<void>;
+  readLogs: (id: string, tail: number) => Promise<LogEntry[]>;
+};
+
+const ENGINE_REQUEST_TIMEOUT_MS = 3000;
+const ENGINE_RETRY_MS = 30_000;
+const MAX_LOG_BYTES = 2 * 1024 * 1024;
+export const CONTAINER_LOG_TAIL = 500;
+
+const CONTAINER_ACTIONS = new Set<ContainerAction>([
+  "start",
+  "stop",
+  "restart",
+]);
+
+export function validateContainerId(value: unknown): string {
+  if (typeof value !== "string" || !/^[a-f0-9]{12,64}$/i.test(value)) {
+    throw new Error("Container id must be 12-64 hex characters.");
+  }
+  return value;
+}
+
+export function validateContainerAction(value: unknown): ContainerAction {
+  if (!CONTAINER_ACTIONS.has(value as ContainerAction)) {
+    throw new Error("Container action must be start, stop or restart.");
+  }
+  return value as ContainerAction;
+}
+
+// DOCKER_HOST wins; otherwise the usual Docker Desktop, Colima, rootful and
+// rootless Podman locations are tried in order.
+export function engineSocketCandidates(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform,
+  home = os.homedir(),
+): EngineSocket[] {
+  const candidates: EngineSocket[] = [];
+  const dockerHost = env.DOCKER_HOST?.trim();
+  if (dockerHost) {
+    const match = /^(?:unix|npipe):\/\/(.+)$/.exec(dockerHost);
+    if (match) {
+      candidates.push({
+        socketPath: match[1],
+        engine: /podman/i.test(match[1]) ? "podman" : "docker",
+      });
+    }
+  }
+  if (platform === "win32") {
+    candidates.push(
+      { socketPath: "//./pipe/docker_engine", engine: "docker" },
+      { socketPath: "//./pipe/podman-machine-default", engine: "podman" },
+    );
+    return candidates;
+  }
+  candidates.push(
+    { socketPath: "/var/run/docker.sock", engine: "docker" },
+    {
+      socketPath: path.join(home, ".docker/run/docker.sock"),
+      engine: "docker",
+    },
+    {
+      socketPath: path.join(home, ".colima/default/docker.sock"),
+      engine: "docker",
+    },
+  );
+  if (env.XDG_RUNTIME_DIR) {
+    candidates.push({
+      socketPath: path.join(env.XDG_RUNTIME_DIR, "podman/podman.sock"),
+      engine: "podman",
+    });
+  }
+  candidates.push({ socketPath: "/run/podman/podman.sock", engine: "podman" });
+  if (platform === "darwin") {
+    candidates.push({
+      socketPath: path.join(
+        home,
+        ".local/share/containers/podman/machine/podman.sock",
+      ),
+      engine: "podman",
+    });
+  }
+  return candidates;
+}
+
+function containerInfo(
+  container: EngineContainer,
+  engine: ContainerEngine,
+): ContainerInfo {
+  const labels = container.Labels ?? {};
+  return {
+    id: container.Id,
+    name: (container.Names?.[0] ?? container.Id.slice(0, 12)).replace(
+      /^\//,
+      "",
+    ),
+    image: container.Image ?? "",
+    state: container.State ?? "unknown",
+    status: container.Status,
+    composeProject:
+      labels["com.docker.compose.project"] ??
+      labels["io.podman.compose.project"],
+    composeService: labels["com.docker.compose.service"],
+    engine,
+  };
+}
+
+// One entry per published host port; the IPv4 and IPv6 bindings of the same
+// port collapse into one.
+export function mapPublishedPorts(
+  containers: readonly EngineContainer[],
+  engine: ContainerEngine,
+): ContainerPort[] {
+  const ports = new Map<string, ContainerPort>();
+  for (const container of containers) {
+    if (container.State && container.State !== "running") continue;
+    for (const port of container.Ports ?? []) {
+      if (!port.PublicPort) continue;
+      const protocol: ListenerProtocol = port.Type === "udp" ? "udp" : "tcp";
+      const key = `${port.PublicPort}/${protocol}`;
+      if (ports.has(key)) continue;
+      ports.set(key, {
+        ...containerInfo(container, engine),
+        hostPort: port.PublicPort,
+        containerPort: port.PrivatePort,
+        protocol,
+      });
+    }
+  }
+  return Array.from(ports.values()).sort((a, b) => a.hostPort - b.hostPort);
+}
+
+// Without a TTY the logs endpoint multiplexes stdout and stderr into frames
+// with an 8-byte header: stream (1 byte), 3 bytes padding, size (uint32 BE).
+// A TTY container sends plain text instead.
+export function demuxDockerLogs(
+  buffer: Buffer,
+): { stream: "stdout" | "stderr"; text: string }[] {
+  const looksFramed =
+    buffer.length >= 8 &&
+    buffer[0] <= 2 &&
+    buffer[1] === 0 &&
+    buffer[2] === 0 &&
+    buffer[3] === 0;
+  if (!looksFramed) {
+    return [{ stream: "stdout", text: buffer.toString("utf8") }];
+  }
+
+  const chunks: { stream: "stdout" | "stderr"; text: string }[] = [];
+  let offset = 0;
+  while (offset + 8 <= buffer.length) {
+    const stream = buffer[offset] === 2 ? "stderr" : "stdout";
+    const size = buffer.readUInt32BE(offset + 4);
+    const end = Math.min(buffer.length, offset + 8 + size);
+    chunks.push({ stream, text: buffer.toString("utf8", offset + 8, end) });
+    offset = end;
+  }
+  return chunks;
+}
+
+const LOG_TIMESTAMP_PATTERN =
+  /^(\d{4}-\d{2}-\d{2}T[\d:.]+(?:Z|[+-]\d{2}:\d{2})) ?(.*)$/;
+
+// Lines are requested with timestamps=1, so each starts with an RFC 3339 time.
+export function parseContainerLogs(buffer: Buffer): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const chunk of demuxDockerLogs(buffer)) {
+    for (const raw of chunk.text.split(/\r?\n/)) {
+      if (!raw) continue;
+      const match = LOG_TIMESTAMP_PATTERN.exec(raw);
+      const text = stripAnsi(match ? match[2] : raw);
+      const time = match ? Date.parse(match[1]) : NaN;
+      entries.push({
+        seq: entries.length + 1,
+        time: Number.isFinite(time) ? time : Date.now(),
+        stream: chunk.stream,
+        level: detectLogLevel(text),
+        text,
+      });
+    }
+  }
+  return entries;
+}
+
+// Bodies past MAX_LOG_BYTES are cut off and flagged rather than read to the
+// end; the connection is dropped once the limit is reached.
+function engineRequest(
+  socketPath: string,
+  method: string,
+  requestPath: string,
+): Promise<{ statusCode: number; body: Buffer; truncated: boolean }> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let statusCode = 0;
+    const settle = (result: Error | { truncated: boolean }) => {
+      if (settled) return;
+      settled = true;
+      if (result instanceof Error) {
+        reject(result);
+        return;
+      }
+      resolve({
+        statusCode,
+        body: Buffer.concat(chunks),
+        truncated: result.truncated,
+      });
+    };
+    const chunks: Buffer[] = [];
+    const req = http.request(
+      {
+        socketPath,
+        method,
+        path: requestPath,
+        headers: { Host: "localhost" },
+        timeout: ENGINE_REQUEST_TIMEOUT_MS,
+      },
+      (res) => {
+        statusCode = res.statusCode ?? 0;
+        let size = 0;
+        res.on("data", (chunk: Buffer) => {
+          if (settled) return;
+          const room = MAX_LOG_BYTES - size;
+          size += chunk.length;
+          if (size > MAX_LOG_BYTES) {
+            chunks.push(chunk.subarray(0, room));
+            settle({ truncated: true });
+            req.destroy();
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on("end", () => settle({ truncated: false }));
+        res.on("error", settle);
+        res.on("close", () =>
+          settle(new Error("Container engine closed the connection")),
+        );
+      },
+    );
+    req.on("timeout", () =>
+      req.destroy(new Error("Container engine timed out")),
+    );
+    req.on("error", settle);
+    req.end();
+  });
+}
+
+function engineError(statusCode: number, body: Buffer): Error {
+  try {
+    const message = JSON.parse(body.toString("utf8")).message;
+    if (typeof message === "string") return new Error(message);
+  } catch {
+    // not JSON
+  }
+  return new Error(`Container engine returned HTTP ${statusCode}`);
+}
+
+export function createEngineClient(
+  socket: EngineSocket,
+): ContainerEngineClient {
+  const { socketPath, engine } = socket;
+  return {
+    engine,
+    socketPath,
+    async ping() {
+      const res = await engineRequest(socketPath, "GET", "/_ping");
+      if (res.statusCode !== 200) throw engineError(res.statusCode, res.body);
+    },
+    async listContainers() {
+      const res = await engineRequest(
+        socketPath,
+        "GET",
+        "/containers/json?all=1",
+      );
+      if (res.statusCode !== 200) throw engineError(res.statusCode, res.body);
+      if (res.truncated) {
+        throw new Error("Container engine listed too many containers");
+      }
+      const list = JSON.parse(res.body.toString("utf8"));
+      return Array.isArray(list) ? list : [];
+    },
+    async runAction(id, action) {
+      const res = await engineRequest(
+        socketPath,
+        "POST",
+        `/containers/${encodeURIComponent(id)}/${action}`,
+      );
+      // 304: already started / already stopped.
+      if (res.statusCode !== 204 && res.statusCode !== 304) {
+        throw engineError(res.statusCode, res.body);
+      }
+    },
+    async readLogs(id, tail) {
+      const res = await engineRequest(
+        socketPath,
+        "GET",
+        `/containers/${encodeURIComponent(id)}/logs?` +
+          `stdout=1&stderr=1&timestamps=1&tail=${tail}`,
+      );
+      if (res.statusCode !== 200) throw engineError(res.statusCode, res.body);
+      return parseContainerLogs(res.body);
+    },
+  };
+}
+
+// Returns a client for the first socket that answers a ping, or null when
+// no engine is running.
+export async function connectContainerEngine(
+  candidates: EngineSocket[] = engineSocketCandidates(),
+): Promise<ContainerEngineClient | null> {
+  for (const candidate of candidates) {
+    const client = createEngineClient(candidate);
+    try {
+      await client.ping();
+      return client;
+    } catch {
+      // not running here; try the next one
+    }
+  }
+  return null;
+}
+
+// Keeps the engine connection and the last known ports of each container.
+// When no engine answers, it waits ENGINE_RETRY_MS before trying again so a
+// machine without Docker pays nothing per scan.
+export class ContainerPortSource {
+  private client: ContainerEngineClient | null = null;
+  private retryAt = 0;
+  private published = new Map<string, StoppedContainer["ports"]>();
+  private stopped: StoppedContainer[] = [];
+
+  constructor(
+    private readonly connect: () => Promise<ContainerEngineClient | null> =
+      () => connectContainerEngine(),
+    private readonly retryMs = ENGINE_RETRY_MS,
+  ) {}
+
+  getClient(): ContainerEngineClient | null {
+    return this.client;
+  }
+
+  getStopped(): StoppedContainer[] {
+    return this.stopped;
+  }
+
+  async listPorts(now = Date.now()): Promise<ContainerPort[]> {
+    if (!this.client) {
+      if (now < this.retryAt) return [];
+      this.client = await this.connect();
+      if (!this.client) {
+        this.retryAt = now + this.retryMs;
+        return [];
+      }
+    }
+    let containers: EngineContainer[];
+    try {
+      containers = await this.client.listContainers();
+    } catch {
+      this.client = null;
+      this.retryAt = now + this.retryMs;
+      this.stopped = [];
+      return [];
+    }
+
+    const ports = mapPublishedPorts(containers, this.client.engine);
+    const present = new Set(containers.map((container) => container.Id));
+    for (const id of this.published.keys()) {
+      if (!present.has(id)) this.published.delete(id);
+    }
+    for (const port of ports) {
+      const list = this.published.get(port.id) ?? [];
+      const known = list.some(
+        (p) => p.hostPort === port.hostPort && p.protocol === port.protocol,
+      );
+      if (!known) {
+        list.push({
+          hostPort: port.hostPort,
+          containerPort: port.containerPort,
+          protocol: port.protocol,
+        });
+      }
+      this.published.set(port.id, list);
+    }
+    const engine = this.client.engine;
+    this.stopped = containers
+      .filter(
+        (container) =>
+          container.State !== "running" && this.published.has(container.Id),
+      )
+      .map((container) => ({
+        ...containerInfo(container, engine),
+        ports: this.published.get(container.Id)!,
+      }));
+    return ports;
+  }
+}
@@ -0,0 +1,66 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// How a running dashboard tells scripts and the CLI where its control API
+// listens. The file holds the bearer token, so only its owner may read it.
+export type ControlApiInfo = {
+  port: number;
+  token: string;
+  pid: number; // dashboard process that wrote the file
+};
+
+export const DEFAULT_CONTROL_API_PORT = 1356;
+export const CONTROL_API_FILE = "control-api.json";
+// Folder names under the OS app data directory: the packaged app's product
+// name, then the package name used when running from a checkout.
+const APP_DATA_NAMES = ["Localhost Dashboard", "local-dashboard"];
+
+export function createControlApiToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+export function readControlApiInfo(file: string): ControlApiInfo | undefined {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (
+      Number.isInteger(parsed?.port) &&
+      typeof parsed?.token === "string" &&
+      parsed.token
+    ) {
+      return {
+        port: parsed.port,
+        token: parsed.token,
+        pid: Number(parsed.pid) || 0,
+      };
+    }
+  } catch {
+    // missing or unreadable: the API is not running
+  }
+  return undefined;
+}
+
+export function writeControlApiInfo(file: string, info: ControlApiInfo) {
+  fs.writeFileSync(file, `${JSON.stringify(info, null, 2)}\n`, {
+    mode: 0o600,
+  });
+  // mode only applies when the file is created
+  fs.chmodSync(file, 0o600);
+}
+
+// Where the CLI looks for the file, most likely first.
+export function controlApiFileCandidates(
+  platform: NodeJS.Platform = process.platform,
+  env: NodeJS.ProcessEnv = process.env,
+  home: string = os.homedir(),
+): string[] {
+  const appData =
+    platform === "win32"
+      ? env.APPDATA || path.join(home, "AppData", "Roaming")
+      : platform === "darwin"
+        ? path.join(home, "Library", "Application Support")
+        : env.XDG_CONFIG_HOME || path.join(home, ".config");
+  const join = platform === "win32" ? path.win32.join : path.posix.join;
+  return APP_DATA_NAMES.map((name) => join(appData, name, CONTROL_API_FILE));
+}
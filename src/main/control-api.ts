@@ -0,0 +1,243 @@
+import crypto from "node:crypto";
+import http from "node:http";
+import net from "node:net";
+import { validatePortNumber } from "./port-owners";
+import { closeServer, listenServer } from "./reverse-proxy";
+
+// What the API reads from the scanner and health checker. Servers and
+// results are passed through to JSON as they are.
+export type ControlServer = { key: string; port: number; protocol?: string };
+export type ControlHealth = { key: string; status: string };
+
+export type ControlApiHandlers = {
+  servers(): ControlServer[];
+  health(): ControlHealth[];
+  scan(): Promise<void>;
+  freePort(port: number): Promise<unknown>;
+  notes(): Record<string, string>;
+  setNote(port: number, note: string): Record<string, string>;
+};
+
+export type ControlPortStatus = {
+  port: number;
+  up: boolean; // an HTTP server answered its health check, or a UDP socket
+  servers: (ControlServer & { health?: ControlHealth })[];
+};
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_NOTE_LENGTH = 1000;
+const LOCAL_HOSTS = new Set(["127.0.0.1", "localhost", "[::1]"]);
+
+class ControlApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// Validation errors become 400s; anything else thrown later is a 500.
+function badRequest<T>(check: () => T): T {
+  try {
+    return check();
+  } catch (err) {
+    throw new ControlApiError(400, (err as Error)?.message ?? String(err));
+  }
+}
+
+function validateNote(value: unknown): string {
+  const note = (value as { note?: unknown } | undefined)?.note;
+  if (typeof note !== "string" || note.length > MAX_NOTE_LENGTH) {
+    throw new Error(
+      `Body must be {"note": string} of at most ${MAX_NOTE_LENGTH} characters.`,
+    );
+  }
+  return note;
+}
+
+function sameToken(header: string | undefined, token: string): boolean {
+  const match = /^Bearer (.+)$/.exec(header ?? "");
+  if (!match) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return (
+    given.length === expected.length && crypto.timingSafeEqual(given, expected)
+  );
+}
+
+// Browsers send the page's host name; anything but a loopback name means a
+// web page is trying to reach the API through DNS rebinding.
+function isLocalHost(host: string | undefined): boolean {
+  if (!host) return false;
+  const name = host.replace(/:\d+$/, "").toLowerCase();
+  return LOCAL_HOSTS.has(name);
+}
+
+function readJson(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ControlApiError(413, "Request body is too large."));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8");
+      try {
+        resolve(text.trim() ? JSON.parse(text) : undefined);
+      } catch {
+        reject(new ControlApiError(400, "Request body must be JSON."));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+export function portStatus(
+  port: number,
+  servers: ControlServer[],
+  health: ControlHealth[],
+): ControlPortStatus {
+  const byKey = new Map(health.map((result) => [result.key, result]));
+  const matching = servers
+    .filter((server) => server.port === port)
+    .map((server) => ({ ...server, health: byKey.get(server.key) }));
+  return {
+    port,
+    up: matching.some(
+      (server) =>
+        server.protocol === "udp" ||
+        server.health?.status === "healthy" ||
+        server.health?.status === "slow",
+    ),
+    servers: matching,
+  };
+}
+
+// Token-protected JSON API on loopback for scripts and the CLI:
+//
+//   GET  /v1/servers             servers with their latest health result
+//   GET  /v1/ports/:port         { port, up, servers } for one port
+//   POST /v1/ports/:port/kill    stops whatever listens on the port
+//   POST /v1/scan                scans now, then lists servers
+//   GET  /v1/health              latest health results
+//   GET  /v1/notes               port notes
+//   GET  /v1/notes/:port         { port, note }
+//   PUT  /v1/notes/:port         { "note": "..." }; empty clears it
+export class ControlApi {
+  private server?: http.Server;
+  private port?: number;
+
+  constructor(
+    private readonly handlers: ControlApiHandlers,
+    readonly token: string,
+  ) {}
+
+  get listeningPort(): number | undefined {
+    return this.port;
+  }
+
+  // Listening again on another port closes the old listener first.
+  async start(port: number): Promise<void> {
+    if (this.server && this.port === port) return;
+    await this.stop();
+    const server = http.createServer((req, res) => {
+      void this.respond(req, res);
+    });
+    await listenServer(server, port, "127.0.0.1");
+    this.server = server;
+    this.port = (server.address() as net.AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    this.port = undefined;
+    if (server) {
+      server.closeAllConnections();
+      await closeServer(server);
+    }
+  }
+
+  private async respond(req: http.IncomingMessage, res: http.ServerResponse) {
+    let status = 200;
+    let body: unknown;
+    try {
+      if (!isLocalHost(req.headers.host)) {
+        throw new ControlApiError(403, "Requests must be sent to localhost.");
+      }
+      if (!sameToken(req.headers.authorization, this.token)) {
+        throw new ControlApiError(401, "Missing or wrong bearer token.");
+      }
+      body = await this.route(req);
+    } catch (err) {
+      status = err instanceof ControlApiError ? err.status : 500;
+      body = { error: (err as Error)?.message ?? String(err) };
+    }
+    res.writeHead(status, {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "no-store",
+    });
+    res.end(`${JSON.stringify(body)}\n`);
+  }
+
+  private async route(req: http.IncomingMessage): Promise<unknown> {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    const parts = pathname.split("/").filter(Boolean);
+    if (parts[0] !== "v1" || parts.length > 4) {
+      throw new ControlApiError(404, `No such endpoint: ${pathname}`);
+    }
+    const [, resource, id, action] = parts;
+    const route = `${method} ${resource ?? ""}${id ? "/:id" : ""}${
+      action ? `/${action}` : ""
+    }`;
+    const handlers = this.handlers;
+    const port = () => badRequest(() => validatePortNumber(id));
+
+    switch (route) {
+      case "GET servers":
+        return this.servers();
+      case "GET ports/:id":
+        return portStatus(port(), handlers.servers(), handlers.health());
+      case "POST ports/:id/kill":
+        return handlers.freePort(port());
+      case "POST scan":
+        await handlers.scan();
+        return this.servers();
+      case "GET health":
+        return handlers.health();
+      case "GET notes":
+        return handlers.notes();
+      case "GET notes/:id": {
+        const target = port();
+        return { port: target, note: handlers.notes()[String(target)] ?? "" };
+      }
+      case "PUT notes/:id": {
+        const target = port();
+        const body = await readJson(req);
+        return handlers.setNote(target, badRequest(() => validateNote(body)));
+      }
+      default:
+        throw new ControlApiError(
+          404,
+          `No such endpoint: ${method} ${pathname}`,
+        );
+    }
+  }
+
+  private servers() {
+    const health = new Map(
+      this.handlers.health().map((result) => [result.key, result]),
+    );
+    return this.handlers
+      .servers()
+      .map((server) => ({ ...server, health: health.get(server.key) }));
+  }
+}
@@ -0,0 +1,558 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+
+// Where a guess came from, roughly from most to least reliable.
+export type FrameworkSource = "manifest" | "header" | "config" | "command";
+
+export type FrameworkDetection = {
+  name: string; // also the health probe key, e.g. "framework:next.js"
+  version?: string;
+  confidence: number; // 0-1
+  source: FrameworkSource;
+};
+
+// Raw file contents from the project directory; each one is optional.
+export type ProjectManifests = {
+  packageJson?: string;
+  installedVersions?: Record<string, string>; // from node_modules/<pkg>
+  pyproject?: string;
+  requirements?: string;
+  gemfile?: string;
+  gemfileLock?: string;
+  goMod?: string;
+  csproj?: string;
+  files: string[]; // names in the project root, for config file hints
+};
+
+export type ServerHeaders = {
+  poweredBy?: string; // X-Powered-By
+  server?: string;
+};
+
+// The language toolchain a manifest or a running process belongs to.
+export type FrameworkRuntime = "node" | "python" | "ruby" | "go" | "dotnet";
+
+export type FrameworkEvidence = {
+  manifests?: ProjectManifests;
+  headers?: ServerHeaders;
+  command?: string;
+  processName?: string;
+};
+
+const MAX_MANIFEST_BYTES = 256 * 1024;
+const AGREEMENT_BONUS = 0.1;
+
+type PackageRule = {
+  pkg: string;
+  name: string;
+  // Dev servers run through their own CLI, so a command that doesn't mention
+  // it means some other script in the same project owns the port.
+  cli?: RegExp;
+};
+
+// Most specific first: Astro and SvelteKit projects also depend on Vite.
+const PACKAGE_RULES: PackageRule[] = [
+  { pkg: "next", name: "Next.js", cli: /\bnext\b|next-server/i },
+  { pkg: "nuxt", name: "Nuxt", cli: /\bnuxi?\b/i },
+  { pkg: "@remix-run/dev", name: "Remix", cli: /\bremix\b/i },
+  { pkg: "@sveltejs/kit", name: "SvelteKit", cli: /\bvite\b|svelte-kit/i },
+  { pkg: "astro", name: "Astro", cli: /\bastro\b/i },
+  { pkg: "@angular/core", name: "Angular", cli: /\bng\b|@angular/i },
+  { pkg: "react-scripts", name: "CRA", cli: /react-scripts/i },
+  { pkg: "@nestjs/core", name: "NestJS" },
+  { pkg: "vite", name: "Vite", cli: /\bvite\b/i },
+  {
+    pkg: "webpack-dev-server",
+    name: "Webpack Dev Server",
+    cli: /webpack/i,
+  },
+  { pkg: "express", name: "Express" },
+  { pkg: "fastify", name: "Fastify" },
+  { pkg: "koa", name: "Koa" },
+  { pkg: "hono", name: "Hono" },
+];
+
+const PYTHON_RULES = [
+  { pkg: "django", name: "Django" },
+  { pkg: "fastapi", name: "FastAPI" },
+  { pkg: "flask", name: "Flask" },
+  { pkg: "starlette", name: "Starlette" },
+  { pkg: "uvicorn", name: "Uvicorn" },
+  { pkg: "gunicorn", name: "Gunicorn" },
+];
+
+const RUBY_RULES = [
+  { gem: "rails", name: "Rails" },
+  { gem: "hanami", name: "Hanami" },
+  { gem: "sinatra", name: "Sinatra" },
+];
+
+const GO_RULES = [
+  { module: "github.com/gin-gonic/gin", name: "Gin" },
+  { module: "github.com/labstack/echo", name: "Echo" },
+  { module: "github.com/gofiber/fiber", name: "Fiber" },
+  { module: "github.com/go-chi/chi", name: "Chi" },
+];
+
+const CONFIG_RULES: {
+  pattern: RegExp;
+  name: string;
+  runtime: FrameworkRuntime;
+}[] = [
+  {
+    pattern: /^next\.config\.(js|cjs|mjs|ts)$/,
+    name: "Next.js",
+    runtime: "node",
+  },
+  { pattern: /^nuxt\.config\.(js|mjs|ts)$/, name: "Nuxt", runtime: "node" },
+  { pattern: /^remix\.config\.(js|cjs|mjs)$/, name: "Remix", runtime: "node" },
+  { pattern: /^svelte\.config\.(js|mjs)$/, name: "SvelteKit", runtime: "node" },
+  { pattern: /^astro\.config\.(js|mjs|ts)$/, name: "Astro", runtime: "node" },
+  { pattern: /^angular\.json$/, name: "Angular", runtime: "node" },
+  {
+    pattern: /^vite\.config\.(js|cjs|mjs|ts|mts)$/,
+    name: "Vite",
+    runtime: "node",
+  },
+  { pattern: /^manage\.py$/, name: "Django", runtime: "python" },
+  { pattern: /^config\.ru$/, name: "Rails", runtime: "ruby" },
+  { pattern: /^deno\.jsonc?$/, name: "Deno", runtime: "node" },
+];
+
+// Executable names (lowercased, without .exe or a version suffix) that tell
+// which toolchain a server runs on. Deno and Bun read package.json too.
+const RUNTIME_EXECUTABLES: Record<string, FrameworkRuntime> = {
+  node: "node",
+  nodejs: "node",
+  npm: "node",
+  npx: "node",
+  pnpm: "node",
+  yarn: "node",
+  bun: "node",
+  deno: "node",
+  tsx: "node",
+  "ts-node": "node",
+  python: "python",
+  py: "python",
+  uvicorn: "python",
+  gunicorn: "python",
+  hypercorn: "python",
+  daphne: "python",
+  flask: "python",
+  ruby: "ruby",
+  rails: "ruby",
+  puma: "ruby",
+  bundle: "ruby",
+  rackup: "ruby",
+  go: "go",
+  dotnet: "dotnet",
+};
+
+// Matched against X-Powered-By first, then Server.
+const HEADER_RULES: { pattern: RegExp; name: string }[] = [
+  { pattern: /^Next\.js(?:[ /]([\d.]+))?/i, name: "Next.js" },
+  { pattern: /^Nuxt/i, name: "Nuxt" },
+  { pattern: /^Express/i, name: "Express" },
+  { pattern: /^PHP\/([\d.]+)/i, name: "PHP" },
+  { pattern: /^ASP\.NET/i, name: "ASP.NET Core" },
+  { pattern: /^Kestrel/i, name: "ASP.NET Core" },
+  { pattern: /^uvicorn/i, name: "Uvicorn" },
+  { pattern: /^gunicorn(?:\/([\d.]+))?/i, name: "Gunicorn" },
+  { pattern: /^Werkzeug(?:\/([\d.]+))?/i, name: "Flask" },
+  { pattern: /^WSGIServer\/[\d.]+ CPython/i, name: "Django" },
+  { pattern: /^Deno(?:\/([\d.]+))?/i, name: "Deno" },
+];
+
+// The old substring checks, tightened to whole words so "nextcloud" or
+// "cargo " no longer read as Next.js or Go.
+const COMMAND_RULES: { pattern: RegExp; name: string }[] = [
+  {
+    pattern: /\bnext\s+(?:dev|start)\b|next-server|next[\\/]dist/,
+    name: "Next.js",
+  },
+  { pattern: /\bnuxi?\s+(?:dev|start|preview)\b/, name: "Nuxt" },
+  { pattern: /\bremix\s+(?:dev|vite:dev)\b/, name: "Remix" },
+  { pattern: /\bastro\s+(?:dev|preview)\b/, name: "Astro" },
+  { pattern: /\bng\s+serve\b|@angular[\\/]cli/, name: "Angular" },
+  { pattern: /\breact-scripts\s+start\b/, name: "CRA" },
+  { pattern: /\bvite(?:\.js)?\b/, name: "Vite" },
+  {
+    pattern: /\bwebpack-dev-server\b|\bwebpack\s+serve\b/,
+    name: "Webpack Dev Server",
+  },
+  { pattern: /\buvicorn\b/, name: "Uvicorn" },
+  { pattern: /\bgunicorn\b/, name: "Gunicorn" },
+  { pattern: /\bmanage\.py\s+runserver\b/, name: "Django" },
+  { pattern: /\bflask\s+run\b/, name: "Flask" },
+  { pattern: /\brails\s+(?:s|server)\b|\bpuma\b/, name: "Rails" },
+  { pattern: /\bdotnet\b/, name: ".NET" },
+  { pattern: /(?:^|[\s\\/])php(?:\.exe)?\s+(?:-s|artisan)\b/, name: "PHP" },
+  { pattern: /(?:^|[\s\\/])deno(?:\.exe)?\s/, name: "Deno" },
+  { pattern: /\bgo\s+run\b|[\\/]go-build\d*[\\/]/, name: "Go" },
+  { pattern: /autohotkey/, name: "AutoHotkey" },
+];
+
+// "^14.2.3" -> "14.2.3"; workspace: and git URLs have no usable version.
+export function cleanVersion(spec?: string): string | undefined {
+  const match = /(\d+(?:\.\d+){0,2}(?:-[\w.]+)?)/.exec(spec ?? "");
+  return match?.[1];
+}
+
+export function detectFromPackageJson(
+  text: string,
+  installedVersions: Record<string, string> = {},
+  command?: string,
+): FrameworkDetection[] {
+  let pkg: Record<string, unknown>;
+  try {
+    pkg = JSON.parse(text);
+  } catch {
+    return [];
+  }
+  const deps = {
+    ...(pkg.devDependencies as Record<string, string> | undefined),
+    ...(pkg.dependencies as Record<string, string> | undefined),
+  };
+  const found = PACKAGE_RULES.filter(
+    (rule) => typeof deps[rule.pkg] === "string",
+  );
+  return found.map((rule, index) => {
+    let confidence = index === 0 ? 0.85 : 0.6;
+    if (rule.cli && command) {
+      confidence = rule.cli.test(command) ? 0.95 : 0.4;
+    }
+    return {
+      name: rule.name,
+      version: installedVersions[rule.pkg] ?? cleanVersion(deps[rule.pkg]),
+      confidence,
+      source: "manifest",
+    };
+  });
+}
+
+// Covers PEP 621 and Poetry pyproject files and requirements.txt, which all
+// name a dependency followed by an optional version constraint.
+export function detectFromPythonManifest(text: string): FrameworkDetection[] {
+  const out: FrameworkDetection[] = [];
+  for (const [index, rule] of PYTHON_RULES.entries()) {
+    const match = new RegExp(
+      `(?:^|[\\[,])\\s*["']?${rule.pkg}(?:\\[[^\\]]*\\])?(?![\\w.-])["']?` +
+        `\\s*(?:=\\s*(?:\\{\\s*version\\s*=\\s*)?["']|[=<>~!]=?)?\\s*[\\^~=]*([\\d.]+)?`,
+      "im",
+    ).exec(text);
+    if (!match) continue;
+    out.push({
+      name: rule.name,
+      version: cleanVersion(match[1]),
+      // The web framework beats the server it happens to run under.
+      confidence: index < 4 ? 0.85 : 0.6,
+      source: "manifest",
+    });
+  }
+  return out;
+}
+
+export function detectFromGemfile(
+  gemfile?: string,
+  lock?: string,
+): FrameworkDetection[] {
+  const out: FrameworkDetection[] = [];
+  for (const rule of RUBY_RULES) {
+    const declared =
+      gemfile &&
+      new RegExp(`^\\s*gem\\s+["']${rule.gem}["']`, "m").test(gemfile);
+    const locked = lock
+      ? new RegExp(`^ {4}${rule.gem} \\(([^)]+)\\)`, "m").exec(lock)
+      : null;
+    if (!declared && !locked) continue;
+    out.push({
+      name: rule.name,
+      version: cleanVersion(locked?.[1]),
+      confidence: 0.85,
+      source: "manifest",
+    });
+  }
+  return out;
+}
+
+export function detectFromGoMod(text: string): FrameworkDetection[] {
+  const out: FrameworkDetection[] = [];
+  for (const rule of GO_RULES) {
+    const match = new RegExp(
+      `${rule.module.replace(/[.]/g, "\\.")}(?:/v\\d+)?\\s+v([\\w.-]+)`,
+    ).exec(text);
+    if (match) {
+      out.push({
+        name: rule.name,
+        version: cleanVersion(match[1]),
+        confidence: 0.85,
+        source: "manifest",
+      });
+    }
+  }
+  const goVersion = /^go\s+([\d.]+)/m.exec(text);
+  if (/^module\s+\S+/m.test(text)) {
+    out.push({
+      name: "Go",
+      version: goVersion?.[1],
+      confidence: 0.6,
+      source: "manifest",
+    });
+  }
+  return out;
+}
+
+export function detectFromCsproj(text: string): FrameworkDetection[] {
+  const sdk = /<Project\s+Sdk="([^"]+)"/i.exec(text)?.[1];
+  if (!sdk) return [];
+  const target = /<TargetFrameworks?>\s*net(\d+\.\d+)/i.exec(text)?.[1];
+  return [
+    {
+      name: /\.Web$/i.test(sdk) ? "ASP.NET Core" : ".NET",
+      version: target,
+      confidence: 0.85,
+      source: "manifest",
+    },
+  ];
+}
+
+export function detectFromConfigFiles(
+  files: string[],
+  runtime?: FrameworkRuntime,
+): FrameworkDetection[] {
+  const names = new Set(files.map((file) => file.toLowerCase()));
+  return CONFIG_RULES.filter(
+    (rule) =>
+      (!runtime || rule.runtime === runtime) &&
+      Array.from(names).some((file) => rule.pattern.test(file)),
+  ).map((rule) => ({ name: rule.name, confidence: 0.7, source: "config" }));
+}
+
+export function detectFromHeaders(
+  headers: ServerHeaders,
+): FrameworkDetection[] {
+  for (const value of [headers.poweredBy, headers.server]) {
+    if (!value) continue;
+    for (const rule of HEADER_RULES) {
+      const match = rule.pattern.exec(value.trim());
+      if (match) {
+        return [
+          {
+            name: rule.name,
+            version: match[1],
+            confidence: 0.8,
+            source: "header",
+          },
+        ];
+      }
+    }
+  }
+  return [];
+}
+
+export function detectFromCommand(
+  command?: string,
+  processName?: string,
+): FrameworkDetection[] {
+  const text = `${command ?? ""} ${processName ?? ""}`.toLowerCase();
+  const rule = COMMAND_RULES.find((candidate) => candidate.pattern.test(text));
+  return rule ? [{ name: rule.name, confidence: 0.5, source: "command" }] : [];
+}
+
+function executableName(value: string): string {
+  const first = /^\s*(?:"([^"]+)"|(\S+))/.exec(value);
+  const file = (first?.[1] ?? first?.[2] ?? "").split(/[\\/]/).pop() ?? "";
+  return file.toLowerCase().replace(/\.exe$/, "").replace(/[\d.]+$/, "");
+}
+
+// The toolchain of the listening process, from its executable name or the
+// temporary binary `go run` builds. Undefined when it can't be told.
+export function detectRuntime(
+  command?: string,
+  processName?: string,
+): FrameworkRuntime | undefined {
+  if (command && /[\\/]go-build\d*[\\/]/.test(command)) return "go";
+  for (const value of [processName, command]) {
+    const runtime = value && RUNTIME_EXECUTABLES[executableName(value)];
+    if (runtime) return runtime;
+  }
+  return undefined;
+}
+
+const SOURCE_ORDER: FrameworkSource[] = [
+  "manifest",
+  "header",
+  "config",
+  "command",
+];
+
+// Independent sources agreeing on a name raise its confidence; the version
+// comes from whichever source had one, preferring manifests.
+export function combineDetections(
+  candidates: FrameworkDetection[],
+): FrameworkDetection | undefined {
+  const byName = new Map<string, FrameworkDetection[]>();
+  for (const candidate of candidates) {
+    const list = byName.get(candidate.name) ?? [];
+    list.push(candidate);
+    byName.set(candidate.name, list);
+  }
+
+  let best: FrameworkDetection | undefined;
+  for (const [name, list] of byName) {
+    list.sort(
+      (a, b) =>
+        b.confidence - a.confidence ||
+        SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source),
+    );
+    const sources = new Set(list.map((candidate) => candidate.source));
+    const confidence = Math.min(
+      0.99,
+      list[0].confidence + (sources.size - 1) * AGREEMENT_BONUS,
+    );
+    const version = [...list]
+      .sort(
+        (a, b) =>
+          SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source),
+      )
+      .find((candidate) => candidate.version)?.version;
+    const detection: FrameworkDetection = {
+      name,
+      confidence: Math.round(confidence * 100) / 100,
+      source: list[0].source,
+      ...(version ? { version } : {}),
+    };
+    if (
+      !best ||
+      detection.confidence > best.confidence ||
+      (detection.confidence === best.confidence &&
+        SOURCE_ORDER.indexOf(detection.source) <
+          SOURCE_ORDER.indexOf(best.source))
+    ) {
+      best = detection;
+    }
+  }
+  return best;
+}
+
+export function detectFramework(
+  evidence: FrameworkEvidence,
+): FrameworkDetection | undefined {
+  const { manifests, headers, command, processName } = evidence;
+  const candidates: FrameworkDetection[] = [];
+  // A Python server in a repo with root JS tooling is still a Python server:
+  // manifests from another toolchain than the process's are left out.
+  const runtime = detectRuntime(command, processName);
+  const uses = (toolchain: FrameworkRuntime) =>
+    !runtime || runtime === toolchain;
+  if (manifests?.packageJson && uses("node")) {
+    candidates.push(
+      ...detectFromPackageJson(
+        manifests.packageJson,
+        manifests.installedVersions,
+        command,
+      ),
+    );
+  }
+  if (manifests?.pyproject && uses("python")) {
+    candidates.push(...detectFromPythonManifest(manifests.pyproject));
+  }
+  if (manifests?.requirements && uses("python")) {
+    candidates.push(...detectFromPythonManifest(manifests.requirements));
+  }
+  if ((manifests?.gemfile || manifests?.gemfileLock) && uses("ruby")) {
+    candidates.push(
+      ...detectFromGemfile(manifests.gemfile, manifests.gemfileLock),
+    );
+  }
+  if (manifests?.goMod && uses("go")) {
+    candidates.push(...detectFromGoMod(manifests.goMod));
+  }
+  if (manifests?.csproj && uses("dotnet")) {
+    candidates.push(...detectFromCsproj(manifests.csproj));
+  }
+  if (manifests) {
+    candidates.push(...detectFromConfigFiles(manifests.files, runtime));
+  }
+  if (headers) candidates.push(...detectFromHeaders(headers));
+  candidates.push(...detectFromCommand(command, processName));
+  return combineDetections(candidates);
+}
+
+async function readSmallFile(file: string): Promise<string | undefined> {
+  try {
+    const text = await readFile(file, "utf8");
+    return text.length > MAX_MANIFEST_BYTES ? undefined : text;
+  } catch {
+    return undefined;
+  }
+}
+
+// Reads the manifests detectFramework understands from a project directory.
+// Missing files are simply left out.
+export async function readProjectManifests(
+  cwd: string,
+): Promise<ProjectManifests> {
+  let files: string[] = [];
+  try {
+    files = await readdir(cwd);
+  } catch {
+    return { files };
+  }
+  const has = new Set(files);
+  const read = (name: string) =>
+    has.has(name)
+      ? readSmallFile(path.join(cwd, name))
+      : Promise.resolve(undefined);
+  const csprojName = files.find((file) =>
+    file.toLowerCase().endsWith(".csproj"),
+  );
+
+  const [
+    packageJson,
+    pyproject,
+    requirements,
+    gemfile,
+    gemfileLock,
+    goMod,
+    csproj,
+  ] = await Promise.all([
+    read("package.json"),
+    read("pyproject.toml"),
+    read("requirements.txt"),
+    read("Gemfile"),
+    read("Gemfile.lock"),
+    read("go.mod"),
+    csprojName ? read(csprojName) : Promise.resolve(undefined),
+  ]);
+
+  const installedVersions: Record<string, string> = {};
+  if (packageJson) {
+    await Promise.all(
+      PACKAGE_RULES.map(async ({ pkg }) => {
+        if (!packageJson.includes(`"${pkg}"`)) return;
+        const installed = await readSmallFile(
+          path.join(cwd, "node_modules", pkg, "package.json"),
+        );
+        try {
+          const version = installed && JSON.parse(installed).version;
+          if (typeof version === "string") installedVersions[pkg] = version;
+        } catch {
+          // A half-written install; fall back to the declared range.
+        }
+      }),
+    );
+  }
+
+  return {
+    packageJson,
+    installedVersions,
+    pyproject,
+    requirements,
+    gemfile,
+    gemfileLock,
+    goMod,
+    csproj,
+    files,
+  };
+}
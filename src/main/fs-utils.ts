@@ -0,0 +1,79 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+const MAX_DEPTH = 32;
+
+export async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.stat(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function readText(file: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(file, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+export async function readJson(file: string): Promise<unknown> {
+  const text = await readText(file);
+  if (text === undefined) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// A non-empty string property of parsed JSON, e.g. a package.json "name".
+export function stringField(value: unknown, key: string): string | undefined {
+  const field = isObject(value) ? value[key] : undefined;
+  return typeof field === "string" && field.length > 0 ? field : undefined;
+}
+
+// Calls `visit` on `start` and then each parent until it returns something.
+// A repository or workspace at the home directory (dotfiles) is not a
+// project, so the walk stops below it.
+export async function walkUp<T>(
+  start: string,
+  visit: (dir: string) => Promise<T | undefined>,
+  home = os.homedir(),
+): Promise<T | undefined> {
+  let dir = path.resolve(start);
+  for (let depth = 0; depth < MAX_DEPTH && dir !== home; depth++) {
+    const found = await visit(dir);
+    if (found !== undefined) return found;
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return undefined;
+}
+
+// The nearest working tree above `start`. `.git` may be a directory or, in
+// worktrees and submodules, a file pointing at the real git directory.
+export function findDotGit(
+  start: string,
+  home = os.homedir(),
+): Promise<{ root: string; dotGit: string; isFile: boolean } | undefined> {
+  return walkUp(
+    start,
+    async (dir) => {
+      const dotGit = path.join(dir, ".git");
+      const stat = await fs.stat(dotGit).catch(() => undefined);
+      if (!stat || (!stat.isDirectory() && !stat.isFile())) return undefined;
+      return { root: dir, dotGit, isFile: stat.isFile() };
+    },
+    home,
+  );
+}
@@ -0,0 +1,141 @@
+import { execFile } from "node:child_process";
+import path from "node:path";
+import { promisify } from "node:util";
+import { findDotGit, readText } from "./fs-utils";
+
+const execFileAsync = promisify(execFile);
+
+// Where a server's working tree stands. `dirty`, `ahead` and `behind` need
+// the git binary; read from `.git` files alone they are left undefined.
+export type GitStatus = {
+  root: string;
+  head?: string; // abbreviated commit, undefined before the first commit
+  branch?: string; // undefined on a detached HEAD
+  upstream?: string; // "origin/main"
+  dirty?: boolean; // staged, unstaged or untracked changes
+  ahead?: number;
+  behind?: number;
+};
+
+export type GitRunner = (
+  cwd: string,
+  args: string[],
+  timeoutMs: number,
+) => Promise<string>;
+
+export const GIT_TIMEOUT_MS = 5000;
+const SHORT_SHA = 7;
+
+export const runGit: GitRunner = async (cwd, args, timeoutMs) => {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    windowsHide: true,
+    timeout: timeoutMs,
+    maxBuffer: 4 * 1024 * 1024,
+    // Never prompt, and don't take index.lock away from the user's own git.
+    env: { ...process.env, GIT_TERMINAL_PROMPT: "0", GIT_OPTIONAL_LOCKS: "0" },
+  });
+  return stdout;
+};
+
+// Parses `git status --porcelain=v2 --branch` (header lines start with "# ").
+export function parseGitStatusOutput(
+  output: string,
+  root: string,
+): GitStatus {
+  const status: GitStatus = { root, dirty: false };
+  for (const line of output.split(/\r?\n/)) {
+    if (!line) continue;
+    if (!line.startsWith("# ")) {
+      status.dirty = true;
+      continue;
+    }
+    const [, key, ...rest] = line.split(" ");
+    const value = rest.join(" ");
+    if (key === "branch.oid" && value !== "(initial)") {
+      status.head = value.slice(0, SHORT_SHA);
+    } else if (key === "branch.head" && value !== "(detached)") {
+      status.branch = value;
+    } else if (key === "branch.upstream") {
+      status.upstream = value;
+    } else if (key === "branch.ab") {
+      const match = /^\+(\d+) -(\d+)$/.exec(value);
+      if (match) {
+        status.ahead = Number(match[1]);
+        status.behind = Number(match[2]);
+      }
+    }
+  }
+  return status;
+}
+
+// Finds the working tree root and its git directory. A `.git` file in a
+// worktree or submodule reads "gitdir: ...".
+async function findGitDir(
+  cwd: string,
+): Promise<{ root: string; gitDir: string; commonDir: string } | undefined> {
+  const found = await findDotGit(cwd);
+  if (!found) return undefined;
+  const { root, dotGit } = found;
+  if (!found.isFile) return { root, gitDir: dotGit, commonDir: dotGit };
+  const pointer = /^gitdir:\s*(.+)$/m.exec((await readText(dotGit)) ?? "");
+  if (!pointer) return undefined;
+  const gitDir = path.resolve(root, pointer[1].trim());
+  const common = (await readText(path.join(gitDir, "commondir")))?.trim();
+  return {
+    root,
+    gitDir,
+    commonDir: common ? path.resolve(gitDir, common) : gitDir,
+  };
+}
+
+async function resolveRef(
+  commonDir: string,
+  ref: string,
+): Promise<string | undefined> {
+  const loose = (await readText(path.join(commonDir, ref)))?.trim();
+  if (loose) return loose;
+  const packed = await readText(path.join(commonDir, "packed-refs"));
+  for (const line of packed?.split(/\r?\n/) ?? []) {
+    const [sha, name] = line.split(" ");
+    if (name === ref && /^[0-9a-f]{40,64}$/.test(sha)) return sha;
+  }
+  return undefined;
+}
+
+// Branch and commit straight from `.git`, for machines without git on PATH.
+export async function readGitHead(cwd: string): Promise<GitStatus | undefined> {
+  const found = await findGitDir(cwd);
+  if (!found) return undefined;
+  const head = (await readText(path.join(found.gitDir, "HEAD")))?.trim();
+  if (!head) return undefined;
+  const ref = /^ref:\s*(\S+)$/.exec(head)?.[1];
+  const sha = ref ? await resolveRef(found.commonDir, ref) : head;
+  return {
+    root: found.root,
+    head: sha?.slice(0, SHORT_SHA),
+    branch: ref?.replace(/^refs\/heads\//, ""),
+  };
+}
+
+// Asks git for the full picture and falls back to reading `.git` when git is
+// missing or refuses (e.g. "dubious ownership" on another user's checkout).
+export async function readGitStatus(
+  cwd: string,
+  run: GitRunner = runGit,
+  timeoutMs = GIT_TIMEOUT_MS,
+): Promise<GitStatus | undefined> {
+  try {
+    const root = (
+      await run(cwd, ["rev-parse", "--show-toplevel"], timeoutMs)
+    ).trim();
+    const output = await run(
+      cwd,
+      ["status", "--porcelain=v2", "--branch", "--untracked-files=normal"],
+      timeoutMs,
+    );
+    return parseGitStatusOutput(output, path.resolve(root));
+  } catch {
+    return readGitHead(cwd);
+  }
+}
@@ -1,28 +1,48 @@
 import { EventEmitter } from 'node:events';
 import http from 'node:http';
 import https from 'node:https';
+import {
+  evaluateProbeResponse,
+  MAX_PROBE_BODY_BYTES,
+  resolveHealthProbe,
+  type HealthProbe,
+  type HealthProbeKey,
+  type HealthProbes,
+  type ProbeResponse,
+} from './health-probes';
+import type { ServerHeaders } from './framework-detection';
 
 export type HealthStatus = {
   key: string; // server key (pid:port)
   url: string;
   status: 'healthy' | 'slow' | 'down';
   responseTime?: number; // ms
+  httpStatus?: number;
+  probeKey?: HealthProbeKey; // custom probe used, if any
   lastChecked: number;
   error?: string;
+  serverHeaders?: ServerHeaders; // fed back to framework detection
 };
 
-// Thresholds
-const SLOW_THRESHOLD_MS = 500;
-const DOWN_THRESHOLD_MS = 2000;
-const CHECK_TIMEOUT_MS = 3000;
+export type HealthTarget = {
+  key: string;
+  url: string;
+  port: number;
+  framework?: string;
+};
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
 
 export class HealthChecker extends EventEmitter {
   private timer?: NodeJS.Timeout;
   private results = new Map<string, HealthStatus>();
-  private servers: Array<{ key: string; url: string }> = [];
+  private servers: HealthTarget[] = [];
+  private probes: HealthProbes = {};
   private intervalMs = 5000;
 
-  setServers(servers: Array<{ key: string; url: string }>) {
+  setServers(servers: HealthTarget[]) {
     this.servers = servers;
     // Clean up results for servers that no longer exist
     const validKeys = new Set(servers.map(s => s.key));
@@ -33,6 +53,10 @@ export class HealthChecker extends EventEmitter {
     }
   }
 
+  setProbes(probes: HealthProbes) {
+    this.probes = probes;
+  }
+
   setInterval(ms: number) {
     this.intervalMs = ms;
     if (this.timer) {
@@ -62,50 +86,95 @@ export class HealthChecker extends EventEmitter {
     this.emit('update', this.getResults());
   }
 
-  private async checkServer(server: { key: string; url: string }): Promise<void> {
-    const start = Date.now();
-    
+  private async checkServer(server: HealthTarget): Promise<void> {
+    const { key: probeKey, probe } = resolveHealthProbe(
+      this.probes,
+      server.port,
+      server.framework,
+    );
+
     try {
-      const responseTime = await this.pingUrl(server.url);
-      const status: HealthStatus['status'] = 
-        responseTime < SLOW_THRESHOLD_MS ? 'healthy' :
-        responseTime < DOWN_THRESHOLD_MS ? 'slow' : 'down';
+      const response = await this.runProbe(server.url, probe);
+      const verdict = evaluateProbeResponse(probe, response);
 
       this.results.set(server.key, {
         key: server.key,
         url: server.url,
-        status,
-        responseTime,
+        status: verdict.status,
+        responseTime: response.responseTime,
+        httpStatus: response.statusCode,
+        probeKey,
         lastChecked: Date.now(),
+        error: verdict.error,
+        serverHeaders: response.headers,
       });
     } catch (err) {
       this.results.set(server.key, {
         key: server.key,
         url: server.url,
         status: 'down',
+        probeKey,
         lastChecked: Date.now(),
         error: err instanceof Error ? err.message : String(err),
       });
     }
   }
 
-  private pingUrl(url: string): Promise<number> {
+  private runProbe(
+    url: string,
+    probe: HealthProbe,
+  ): Promise<ProbeResponse & { headers?: ServerHeaders }> {
     return new Promise((resolve, reject) => {
       const start = Date.now();
       const parsedUrl = new URL(url);
       const client = parsedUrl.protocol === 'https:' ? https : http;
+      const readBody = probe.method === 'GET' && Boolean(probe.bodyIncludes);
 
       const req = client.request(
         {
-          hostname: parsedUrl.hostname,
+          // IPv6 listeners get [::1] URLs; the brackets are URL syntax only.
+          hostname: parsedUrl.hostname.replace(/^\[|\]$/g, ''),
           port: parsedUrl.port || (parsedUrl.protocol === 'https:' ? 443 : 80),
-          path: parsedUrl.pathname || '/',
-          method: 'HEAD',
-          timeout: CHECK_TIMEOUT_MS,
+          path: probe.path,
+          method: probe.method,
+          headers: probe.headers,
+          timeout: probe.timeoutMs,
+          // Local dev certificates are self-signed or from an untrusted CA;
+          // the scanner reports on the certificate, the probe only needs a reply.
+          rejectUnauthorized: false,
         },
         (res) => {
-          res.destroy();
-          resolve(Date.now() - start);
+          const statusCode = res.statusCode ?? 0;
+          const poweredBy = firstHeader(res.headers['x-powered-by']);
+          const server = firstHeader(res.headers.server);
+          const headers =
+            poweredBy || server ? { poweredBy, server } : undefined;
+          if (!readBody) {
+            res.destroy();
+            resolve({
+              statusCode,
+              body: '',
+              responseTime: Date.now() - start,
+              headers,
+            });
+            return;
+          }
+          // Stop reading once the body is large enough to have matched.
+          let body = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => {
+            body += chunk;
+            if (body.length >= MAX_PROBE_BODY_BYTES) res.destroy();
+          });
+          const finish = () =>
+            resolve({
+              statusCode,
+              body: body.slice(0, MAX_PROBE_BODY_BYTES),
+              responseTime: Date.now() - start,
+              headers,
+            });
+          res.on('end', finish);
+          res.on('close', finish);
         }
       );
 
@@ -122,4 +191,3 @@ export class HealthChecker extends EventEmitter {
     });
   }
 }
-
@@ -0,0 +1,38 @@
+import Store from 'electron-store';
+import type { HealthHistories } from './health-history';
+
+type HealthHistoryStore = {
+  histories: HealthHistories; // "3000@/path/to/project" -> samples and transitions
+};
+
+// Checks land every few seconds; writing the file that often is wasted I/O.
+const SAVE_DELAY_MS = 30_000;
+
+export const healthHistoryStore = new Store<HealthHistoryStore>({
+  name: 'health-history',
+  fileExtension: 'json',
+  defaults: {
+    histories: {},
+  },
+});
+
+let pending: HealthHistories | undefined;
+let saveTimer: NodeJS.Timeout | undefined;
+
+export function getHealthHistories(): HealthHistories {
+  return healthHistoryStore.get('histories');
+}
+
+export function saveHealthHistories(histories: HealthHistories): void {
+  pending = histories;
+  if (saveTimer) return;
+  saveTimer = setTimeout(flushHealthHistories, SAVE_DELAY_MS);
+}
+
+export function flushHealthHistories(): void {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = undefined;
+  if (!pending) return;
+  healthHistoryStore.set('histories', pending);
+  pending = undefined;
+}
@@ -0,0 +1,164 @@
+import { projectKey } from "./port-owners";
+
+export type HealthState = "healthy" | "slow" | "down";
+
+export type HealthSample = {
+  t: number;
+  status: HealthState;
+  responseTime?: number; // ms
+  error?: string;
+};
+
+export type HealthTransition = {
+  t: number;
+  from?: HealthState; // undefined for the first check ever recorded
+  to: HealthState;
+  error?: string;
+};
+
+export type HealthHistory = {
+  samples: HealthSample[];
+  transitions: HealthTransition[];
+};
+
+// "3000@/home/me/api", or just "3000" when the project is unknown, so a
+// restarted server (new PID) continues the same history.
+export type HealthHistories = Record<string, HealthHistory>;
+
+export type HealthTimelineBucket = {
+  start: number;
+  status?: HealthState; // worst status seen in the bucket
+  responseTime?: number; // average of the answered checks
+  error?: string;
+};
+
+export type HealthHistorySummary = {
+  uptime?: number; // percent of checks in the window that were not down
+  averageMs?: number;
+  timeline: HealthTimelineBucket[];
+  transitions: HealthTransition[]; // newest first
+};
+
+export const HEALTH_HISTORY_WINDOW_MS = 60 * 60 * 1000;
+export const MAX_HEALTH_SAMPLES = 720; // an hour at the default 5 s interval
+export const MAX_HEALTH_TRANSITIONS = 50;
+export const MAX_HEALTH_HISTORIES = 200;
+// Histories of servers that have not been checked for this long are dropped.
+export const HEALTH_HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const SEVERITY: Record<HealthState, number> = { healthy: 0, slow: 1, down: 2 };
+
+export function healthHistoryKey(port: number, cwd?: string): string {
+  const project = projectKey(cwd);
+  return project ? `${port}@${project}` : String(port);
+}
+
+export function recordHealthSample(
+  history: HealthHistory | undefined,
+  sample: HealthSample,
+): HealthHistory {
+  const samples = history?.samples ?? [];
+  const transitions = history?.transitions ?? [];
+  const previous = samples[samples.length - 1];
+
+  const nextTransitions =
+    previous?.status === sample.status
+      ? transitions
+      : [
+          ...transitions,
+          {
+            t: sample.t,
+            from: previous?.status,
+            to: sample.status,
+            ...(sample.error ? { error: sample.error } : {}),
+          },
+        ].slice(-MAX_HEALTH_TRANSITIONS);
+
+  const cutoff = sample.t - HEALTH_HISTORY_WINDOW_MS;
+  const nextSamples = [...samples, sample]
+    .filter((entry) => entry.t > cutoff)
+    .slice(-MAX_HEALTH_SAMPLES);
+
+  return { samples: nextSamples, transitions: nextTransitions };
+}
+
+function lastActivity(history: HealthHistory): number {
+  return Math.max(
+    history.samples[history.samples.length - 1]?.t ?? 0,
+    history.transitions[history.transitions.length - 1]?.t ?? 0,
+  );
+}
+
+// Drops stale histories and keeps the most recently active ones when there
+// are more than the store should hold.
+export function pruneHealthHistories(
+  histories: HealthHistories,
+  now: number,
+): HealthHistories {
+  const kept = Object.entries(histories)
+    .filter(
+      ([, history]) =>
+        now - lastActivity(history) < HEALTH_HISTORY_RETENTION_MS,
+    )
+    .sort(([, a], [, b]) => lastActivity(b) - lastActivity(a))
+    .slice(0, MAX_HEALTH_HISTORIES);
+  return Object.fromEntries(kept);
+}
+
+export function summarizeHealthHistory(
+  history: HealthHistory | undefined,
+  now: number,
+  buckets = 60,
+  windowMs = HEALTH_HISTORY_WINDOW_MS,
+): HealthHistorySummary {
+  const start = now - windowMs;
+  const bucketMs = windowMs / buckets;
+  const samples = (history?.samples ?? []).filter(
+    (sample) => sample.t > start && sample.t <= now,
+  );
+
+  const timeline: HealthTimelineBucket[] = Array.from(
+    { length: buckets },
+    (_, index) => ({ start: start + index * bucketMs }),
+  );
+  const latency = timeline.map(() => ({ total: 0, count: 0 }));
+  for (const sample of samples) {
+    const index = Math.min(
+      buckets - 1,
+      Math.floor((sample.t - start) / bucketMs),
+    );
+    const bucket = timeline[index];
+    if (!bucket.status || SEVERITY[sample.status] > SEVERITY[bucket.status]) {
+      bucket.status = sample.status;
+      if (sample.error) bucket.error = sample.error;
+    }
+    if (sample.status !== "down" && sample.responseTime !== undefined) {
+      latency[index].total += sample.responseTime;
+      latency[index].count += 1;
+    }
+  }
+  latency.forEach(({ total, count }, index) => {
+    if (count > 0) timeline[index].responseTime = Math.round(total / count);
+  });
+
+  const up = samples.filter((sample) => sample.status !== "down");
+  const answered = up.filter((sample) => sample.responseTime !== undefined);
+  return {
+    uptime:
+      samples.length > 0 ? (up.length / samples.length) * 100 : undefined,
+    averageMs:
+      answered.length > 0
+        ? Math.round(
+            answered.reduce(
+              (sum, sample) => sum + (sample.responseTime ?? 0),
+              0,
+            ) / answered.length,
+          )
+        : undefined,
+    timeline,
+    transitions: (history?.transitions ?? [])
+      .filter((transition) => transition.t > start)
+      .reverse()
+      .slice(0, 10),
+  };
+}
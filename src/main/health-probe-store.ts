@@ -0,0 +1,38 @@
+import Store from 'electron-store';
+import type { HealthProbe, HealthProbeKey, HealthProbes } from './health-probes';
+
+type HealthProbeStore = {
+  probes: HealthProbes; // "port:3000" / "framework:vite" -> probe
+};
+
+const MAX_HEALTH_PROBES = 200;
+
+export const healthProbeStore = new Store<HealthProbeStore>({
+  name: 'health-probes',
+  fileExtension: 'json',
+  defaults: {
+    probes: {},
+  },
+});
+
+export function getHealthProbes(): HealthProbes {
+  return healthProbeStore.get('probes');
+}
+
+// Passing null removes the probe so the target falls back to the next match.
+export function setHealthProbe(
+  key: HealthProbeKey,
+  probe: HealthProbe | null,
+): HealthProbes {
+  const probes = { ...healthProbeStore.get('probes') };
+  if (probe) {
+    if (!probes[key] && Object.keys(probes).length >= MAX_HEALTH_PROBES) {
+      throw new Error(`At most ${MAX_HEALTH_PROBES} health checks can be saved.`);
+    }
+    probes[key] = probe;
+  } else {
+    delete probes[key];
+  }
+  healthProbeStore.set('probes', probes);
+  return probes;
+}
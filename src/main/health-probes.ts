@@ -0,0 +1,207 @@
+export type HealthProbeMethod = "GET" | "HEAD" | "OPTIONS";
+
+export type HealthProbe = {
+  method: HealthProbeMethod;
+  path: string;
+  headers: Record<string, string>;
+  expectStatus: { min: number; max: number };
+  bodyIncludes?: string; // GET only; matched against the first 64 KB
+  slowMs: number;
+  downMs: number;
+  timeoutMs: number;
+};
+
+// "port:3000" or "framework:next.js"; a port probe wins over a framework one.
+export type HealthProbeKey = `port:${number}` | `framework:${string}`;
+
+export type HealthProbes = Record<string, HealthProbe>;
+
+export type ProbeResponse = {
+  statusCode: number;
+  body: string;
+  responseTime: number;
+};
+
+export type ProbeVerdict = {
+  status: "healthy" | "slow" | "down";
+  error?: string;
+};
+
+// Matches the checker's historical behaviour: any answer to HEAD / counts.
+export const DEFAULT_HEALTH_PROBE: HealthProbe = {
+  method: "HEAD",
+  path: "/",
+  headers: {},
+  expectStatus: { min: 100, max: 599 },
+  slowMs: 500,
+  downMs: 2000,
+  timeoutMs: 3000,
+};
+
+export const MAX_PROBE_BODY_BYTES = 64 * 1024;
+const MAX_PROBE_HEADERS = 20;
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]{1,64}$/;
+const FRAMEWORK_KEY_PATTERN = /^[a-z0-9 .+#_-]{1,40}$/;
+// Set by the checker itself or meaningless for a probe.
+const RESERVED_HEADERS = new Set(["host", "content-length", "connection"]);
+
+export function healthProbeKeyForPort(port: number): HealthProbeKey {
+  return `port:${port}`;
+}
+
+export function healthProbeKeyForFramework(framework: string): HealthProbeKey {
+  return `framework:${framework.trim().toLowerCase()}`;
+}
+
+export function validateHealthProbeKey(value: unknown): HealthProbeKey {
+  if (typeof value === "string") {
+    const portMatch = /^port:(\d{1,5})$/.exec(value);
+    if (portMatch) {
+      const port = Number(portMatch[1]);
+      if (port >= 1 && port <= 65535) return `port:${port}`;
+    }
+    const frameworkMatch = /^framework:(.+)$/.exec(value);
+    if (frameworkMatch && FRAMEWORK_KEY_PATTERN.test(frameworkMatch[1])) {
+      return `framework:${frameworkMatch[1]}`;
+    }
+  }
+  throw new Error("Health check target must be a port or a framework.");
+}
+
+export function validateHealthProbe(value: unknown): HealthProbe {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Health check details are required.");
+  }
+  const input = value as Record<string, unknown>;
+
+  const method =
+    typeof input.method === "string" ? input.method.toUpperCase() : "";
+  if (method !== "GET" && method !== "HEAD" && method !== "OPTIONS") {
+    throw new Error("Health check method must be GET, HEAD or OPTIONS.");
+  }
+
+  const path = typeof input.path === "string" ? input.path.trim() : "";
+  if (!path.startsWith("/") || path.length > 512 || /[\s\0]/.test(path)) {
+    throw new Error("Health check path must start with / and contain no spaces.");
+  }
+
+  const status = (input.expectStatus ?? {}) as Record<string, unknown>;
+  const min = requireInteger(status.min, "Expected status", 100, 599);
+  const max = requireInteger(status.max, "Expected status", 100, 599);
+  if (min > max) {
+    throw new Error("Expected status range is reversed.");
+  }
+
+  let bodyIncludes: string | undefined;
+  if (typeof input.bodyIncludes === "string" && input.bodyIncludes.trim()) {
+    if (method !== "GET") {
+      throw new Error("Body matching needs a GET health check.");
+    }
+    bodyIncludes = input.bodyIncludes.trim();
+    if (bodyIncludes.length > 256) {
+      throw new Error("Body match must be 256 characters or fewer.");
+    }
+  }
+
+  const slowMs = requireInteger(input.slowMs, "Slow threshold", 1, 60_000);
+  const downMs = requireInteger(input.downMs, "Down threshold", 1, 60_000);
+  const timeoutMs = requireInteger(input.timeoutMs, "Timeout", 100, 60_000);
+  if (slowMs > downMs || downMs > timeoutMs) {
+    throw new Error("Thresholds must satisfy slow ≤ down ≤ timeout.");
+  }
+
+  return {
+    method,
+    path,
+    headers: validateProbeHeaders(input.headers),
+    expectStatus: { min, max },
+    ...(bodyIncludes ? { bodyIncludes } : {}),
+    slowMs,
+    downMs,
+    timeoutMs,
+  };
+}
+
+function validateProbeHeaders(value: unknown): Record<string, string> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Health check headers must be a name/value map.");
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length > MAX_PROBE_HEADERS) {
+    throw new Error(
+      `Health checks support at most ${MAX_PROBE_HEADERS} headers.`,
+    );
+  }
+  const headers: Record<string, string> = {};
+  for (const [name, raw] of entries) {
+    if (
+      !HEADER_NAME_PATTERN.test(name) ||
+      RESERVED_HEADERS.has(name.toLowerCase())
+    ) {
+      throw new Error(`Header "${name}" cannot be used in a health check.`);
+    }
+    if (typeof raw !== "string" || raw.length > 2048 || /[\r\n\0]/.test(raw)) {
+      throw new Error(`Header "${name}" has an invalid value.`);
+    }
+    headers[name] = raw;
+  }
+  return headers;
+}
+
+function requireInteger(
+  value: unknown,
+  label: string,
+  min: number,
+  max: number,
+): number {
+  const n = typeof value === "string" ? Number(value.trim()) : value;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < min || n > max) {
+    throw new Error(`${label} must be a whole number from ${min} to ${max}.`);
+  }
+  return n;
+}
+
+export function resolveHealthProbe(
+  probes: HealthProbes,
+  port: number,
+  framework?: string,
+): { key?: HealthProbeKey; probe: HealthProbe } {
+  const portKey = healthProbeKeyForPort(port);
+  if (probes[portKey]) return { key: portKey, probe: probes[portKey] };
+  if (framework) {
+    const frameworkKey = healthProbeKeyForFramework(framework);
+    if (probes[frameworkKey]) {
+      return { key: frameworkKey, probe: probes[frameworkKey] };
+    }
+  }
+  return { probe: DEFAULT_HEALTH_PROBE };
+}
+
+export function evaluateProbeResponse(
+  probe: HealthProbe,
+  response: ProbeResponse,
+): ProbeVerdict {
+  const { min, max } = probe.expectStatus;
+  if (response.statusCode < min || response.statusCode > max) {
+    return {
+      status: "down",
+      error:
+        min === max
+          ? `Expected status ${min}, got ${response.statusCode}`
+          : `Expected status ${min}-${max}, got ${response.statusCode}`,
+    };
+  }
+  if (probe.bodyIncludes && !response.body.includes(probe.bodyIncludes)) {
+    return {
+      status: "down",
+      error: `Response body does not contain "${probe.bodyIncludes}"`,
+    };
+  }
+  if (response.responseTime >= probe.downMs) {
+    return { status: "down", error: `Took ${response.responseTime}ms` };
+  }
+  return {
+    status: response.responseTime < probe.slowMs ? "healthy" : "slow",
+  };
+}
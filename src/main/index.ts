@@ -9,6 +9,7 @@ import {
   Notification,
   nativeImage,
   globalShortcut,
+  powerMonitor,
   type NativeImage,
 } from "electron";
 import path from "node:path";
@@ -19,10 +20,101 @@ import { promisify } from "node:util";
 
 const execAsync = promisify(exec);
 const execFileAsync = promisify(execFile);
-import { Scanner } from "./scanner";
+import {
+  Scanner,
+  type LaunchedProcessRef,
+  type ServerInfo,
+} from "./scanner";
 import { AHKScanner } from "./ahk-scanner";
 import { AutomatorScanner } from "./automator-scanner";
-import { HealthChecker } from "./health-checker";
+import { HealthChecker, type HealthStatus } from "./health-checker";
+import {
+  healthHistoryKey,
+  pruneHealthHistories,
+  recordHealthSample,
+  summarizeHealthHistory,
+  type HealthHistories,
+  type HealthHistorySummary,
+} from "./health-history";
+import {
+  flushHealthHistories,
+  getHealthHistories,
+  saveHealthHistories,
+} from "./health-history-store";
+import {
+  validateHealthProbe,
+  validateHealthProbeKey,
+} from "./health-probes";
+import { getHealthProbes, setHealthProbe } from "./health-probe-store";
+import { capturePageThumbnail } from "./page-capture";
+import {
+  ThumbnailCache,
+  thumbnailPageUrl,
+  type ThumbnailTarget,
+} from "./page-thumbnails";
+import { ProcessSupervisor } from "./process-supervisor";
+import {
+  describeGiveUp,
+  planRestart,
+  recordRestart,
+  type RestartStatus,
+} from "./restart-policy";
+import { proxyTarget, validateProxyPort } from "./proxy-routes";
+import { ControlApi, type ControlApiHandlers } from "./control-api";
+import {
+  CONTROL_API_FILE,
+  createControlApiToken,
+  readControlApiInfo,
+  writeControlApiInfo,
+} from "./control-api-info";
+import { ReverseProxy } from "./reverse-proxy";
+import { TrafficInspector } from "./traffic-inspector";
+import {
+  companionPort,
+  validateServerKey,
+  type InspectorSession,
+  type TrafficEntry,
+} from "./traffic-log";
+import {
+  stopProcessTree,
+  validatePid,
+  validateStopGraceMs,
+  type StopResult,
+} from "./process-stop";
+import {
+  querySessions,
+  ServerSessionLog,
+  validateSessionQuery,
+} from "./server-sessions";
+import {
+  flushServerSessions,
+  getServerSessions,
+  saveServerSessions,
+} from "./server-session-store";
+import type { LogEntry } from "./log-buffer";
+import {
+  validateLaunchProfileId,
+  validateLaunchProfileInput,
+  type LaunchedProcess,
+  type LaunchProfilesState,
+} from "./launch-profiles";
+import {
+  deleteLaunchProfile,
+  getLaunchProfileById,
+  getLaunchProfiles,
+  saveLaunchProfile,
+} from "./launch-profile-store";
+import {
+  describePortOwner,
+  expandConfiguredPorts,
+  findPortConflicts,
+  parseAddressInUsePort,
+  validatePortNumber,
+  validatePortQuery,
+  type PortClaim,
+  type PortConflict,
+  type PortResolution,
+} from "./port-owners";
 import { initUpdater } from "./updater";
 import {
   getElectronLoginItemSettings,
@@ -32,7 +124,23 @@ import {
 } from "./startup-visibility";
 import { bumpPort, stats as statsStore } from "./stats";
 import { getNote, setNote, getAllNotes } from "./notes";
+import {
+  getThumbnailDisabledPorts,
+  setThumbnailEnabled,
+} from "./thumbnail-store";
 import { getPlatformFeatures } from "./platform-features";
+import {
+  CONTAINER_LOG_TAIL,
+  ContainerPortSource,
+  validateContainerAction,
+  validateContainerId,
+} from "./container-engine";
+import {
+  WslListenerSource,
+  parseWslUncPath,
+  stopWslProcess,
+  validateWslDistro,
+} from "./wsl";
 import {
   deleteEnvironmentVariable,
   getEnvironmentVariableValue,
@@ -88,8 +196,48 @@ let currentGlobalHotkey: string | null = null;
 let cleanerController: CleanerController | null = null;
 let cliController: CliController | null = null;
 const scanner = new Scanner();
+const containerSource = new ContainerPortSource();
+scanner.setContainerSource(containerSource);
+if (process.platform === "win32") scanner.setWslSource(new WslListenerSource());
+const reverseProxy = new ReverseProxy();
+scanner.setReverseProxy(reverseProxy);
 const healthChecker = new HealthChecker();
+let controlApi: ControlApi | undefined;
+const launchSupervisor = new ProcessSupervisor({
+  stopGraceMs: () => settings.get("stopGraceMs"),
+});
+const pendingLogOutput = new Map<string, LogEntry[]>();
+// Auto-restart state and pending restarts by launch profile id.
+const restartStatuses = new Map<string, RestartStatus>();
+const restartTimers = new Map<string, NodeJS.Timeout>();
+let logFlushTimer: NodeJS.Timeout | null = null;
+// Traffic inspectors by the server key they sit in front of.
+const inspectors = new Map<string, TrafficInspector>();
+// Inspectors still binding their port, so a second start waits for the first.
+const startingInspectors = new Map<string, Promise<unknown>>();
+const pendingTraffic = new Map<string, TrafficEntry[]>();
+let trafficFlushTimer: NodeJS.Timeout | null = null;
+const pageThumbnails = new ThumbnailCache();
+// Server key -> root page of each current non-UDP server.
+const thumbnailTargets = new Map<string, ThumbnailTarget>();
+let capturingThumbnails = false;
+let portConflicts: PortConflict[] = [];
+let healthHistories: HealthHistories = pruneHealthHistories(
+  getHealthHistories(),
+  Date.now(),
+);
+// Server key (pid:port) -> history key (port@project) for current servers.
+const healthHistoryKeys = new Map<string, string>();
+const serverSessions = new ServerSessionLog(getServerSessions());
+// Ports already explained in a profile's log, for its latest run only.
+const explainedAddressInUse = new Map<
+  string,
+  { startedAt: number; ports: Set<number> }
+>();
 let isQuitting = false;
+let shutdown: "running" | "stopping" | "done" = "running";
+// Extra time after the stop grace period for SIGKILL and closing listeners.
+const SHUTDOWN_MARGIN_MS = 3000;
 
 const isMac = process.platform === "darwin";
 const platformFeatures = getPlatformFeatures(process.platform);
@@ -98,6 +246,75 @@ const automatorScanner = platformFeatures.automatorScripts
   ? new AutomatorScanner()
   : null;
 
+// Starts, moves or stops the *.localhost proxy to match the settings. A port
+// that is already taken leaves the proxy off and is reported to the window.
+async function applyProxySettings(): Promise<string | null> {
+  const port = settings.get("proxyPort");
+  try {
+    if (settings.get("proxyEnabled")) await reverseProxy.start(port);
+    else await reverseProxy.stop();
+    return null;
+  } catch (err) {
+    await reverseProxy.stop();
+    const message = `Friendly URL proxy could not listen on port ${port}: ${
+      (err as Error)?.message ?? err
+    }`;
+    console.warn(message);
+    win?.webContents.send("scanner:error", message);
+    return message;
+  }
+}
+
+// Scripts and the CLI get the same views and actions as the window.
+const controlApiHandlers: ControlApiHandlers = {
+  servers: () => scanner.getItems(),
+  health: () => healthChecker.getResults(),
+  scan: () => scanner.scan(),
+  freePort: (port) => freePort(port),
+  notes: () => getAllNotes(),
+  setNote: (port, note) => {
+    setNote(port, note);
+    const notes = getAllNotes();
+    win?.webContents.send("notes:update", notes);
+    return notes;
+  },
+};
+
+// Starts, moves or stops the control API to match the settings and keeps
+// control-api.json (port and token, for the CLI) in step with it. The
+// token survives restarts so scripts that export it keep working.
+async function applyControlApiSettings(): Promise<string | null> {
+  const file = path.join(app.getPath("userData"), CONTROL_API_FILE);
+  const port = settings.get("controlApiPort");
+  try {
+    if (!settings.get("controlApiEnabled")) {
+      await controlApi?.stop();
+      fs.rmSync(file, { force: true });
+      return null;
+    }
+    controlApi ??= new ControlApi(
+      controlApiHandlers,
+      readControlApiInfo(file)?.token ?? createControlApiToken(),
+    );
+    await controlApi.start(port);
+    writeControlApiInfo(file, {
+      port,
+      token: controlApi.token,
+      pid: process.pid,
+    });
+    return null;
+  } catch (err) {
+    await controlApi?.stop();
+    fs.rmSync(file, { force: true });
+    const message = `Control API could not listen on port ${port}: ${
+      (err as Error)?.message ?? err
+    }`;
+    console.warn(message);
+    win?.webContents.send("scanner:error", message);
+    return message;
+  }
+}
+
 function requireCleanerController(): CleanerController {
   if (process.platform !== "win32" || !platformFeatures.cleaner) {
     throw new Error("Cleaner is available only on Windows.");
@@ -244,6 +461,414 @@ async function startAutomatorScript(scriptPath: string) {
   sendRecentScriptsUpdate();
 }
 
+function getLaunchProfilesState(): LaunchProfilesState {
+  return {
+    profiles: getLaunchProfiles(),
+    processes: launchSupervisor.getProcesses(),
+    restarts: Object.fromEntries(restartStatuses),
+  };
+}
+
+function sendLaunchProfilesUpdate() {
+  win?.webContents.send("profiles:update", getLaunchProfilesState());
+  updatePortConflicts(scanner.getItems());
+}
+
+function getPortClaims(): PortClaim[] {
+  return getLaunchProfiles().flatMap((profile) =>
+    profile.port
+      ? [
+          {
+            profileId: profile.id,
+            profileName: profile.name,
+            cwd: profile.cwd,
+            port: profile.port,
+          },
+        ]
+      : [],
+  );
+}
+
+// Re-evaluated after every scan and profile change; the renderer is only told
+// when the set of conflicts actually changes.
+function updatePortConflicts(items: ServerInfo[]) {
+  const next = findPortConflicts(
+    items.map(
+      ({
+        port,
+        pid,
+        protocol,
+        processName,
+        cwd,
+        profileId,
+        profileName,
+        processTree,
+      }) => ({
+        port,
+        pid,
+        protocol,
+        processName,
+        cwd,
+        profileId,
+        profileName,
+        treePids: processTree?.pids,
+      }),
+    ),
+    getPortClaims(),
+  );
+  if (JSON.stringify(next) === JSON.stringify(portConflicts)) return;
+  portConflicts = next;
+  win?.webContents.send("ports:conflicts", portConflicts);
+}
+
+async function resolvePortOwnership(ports?: number[]): Promise<PortResolution> {
+  const wanted = ports ?? expandConfiguredPorts(settings.get("ports"));
+  const owners = await scanner.resolvePorts(wanted);
+  const wantedSet = new Set(wanted);
+  return {
+    ports: wanted,
+    owners,
+    conflicts: findPortConflicts(
+      owners,
+      getPortClaims().filter((claim) => wantedSet.has(claim.port)),
+    ),
+  };
+}
+
+// When a launched server dies with EADDRINUSE, say who is holding the port
+// right in its log instead of leaving the user to hunt through the cards.
+function explainAddressInUse(profileId: string, entries: LogEntry[]) {
+  for (const entry of entries) {
+    if (entry.stream === "system") continue;
+    const port = parseAddressInUsePort(entry.text);
+    if (!port) continue;
+    const startedAt = launchSupervisor.getProcess(profileId)?.startedAt ?? 0;
+    let explained = explainedAddressInUse.get(profileId);
+    if (explained?.startedAt !== startedAt) {
+      explained = { startedAt, ports: new Set() };
+      explainedAddressInUse.set(profileId, explained);
+    }
+    if (explained.ports.has(port)) continue;
+    explained.ports.add(port);
+    scanner
+      .resolvePorts([port])
+      .then((owners) => {
+        const others = owners.filter((owner) => owner.profileId !== profileId);
+        launchSupervisor.appendSystemLog(
+          profileId,
+          others.length > 0
+            ? `Port ${port} is held by ${others
+                .map(
+                  (owner) =>
+                    `${describePortOwner(owner)}${owner.cwd ? ` in ${owner.cwd}` : ""}`,
+                )
+                .join(", ")}.`
+            : `Port ${port} was in use, but its owner has already exited.`,
+        );
+      })
+      .catch(() => {
+        // the log line itself is still there
+      });
+  }
+}
+
+function recordHealthHistory(results: HealthStatus[]) {
+  for (const result of results) {
+    const historyKey = healthHistoryKeys.get(result.key);
+    if (!historyKey) continue;
+    healthHistories[historyKey] = recordHealthSample(
+      healthHistories[historyKey],
+      {
+        t: result.lastChecked,
+        status: result.status,
+        responseTime: result.responseTime,
+        ...(result.error ? { error: result.error } : {}),
+      },
+    );
+  }
+  saveHealthHistories(healthHistories);
+  win?.webContents.send("health-history:update", getHealthHistorySummaries());
+}
+
+// Summaries are keyed by server key so cards can look theirs up directly.
+function getHealthHistorySummaries(): Record<string, HealthHistorySummary> {
+  const now = Date.now();
+  const summaries: Record<string, HealthHistorySummary> = {};
+  for (const [serverKey, historyKey] of healthHistoryKeys) {
+    const history = healthHistories[historyKey];
+    if (history) summaries[serverKey] = summarizeHealthHistory(history, now);
+  }
+  return summaries;
+}
+
+// Shared by the Kill button, Kill All and Free port; the grace period comes
+// from settings so slow-to-shut-down servers can be given longer.
+function stopPid(pid: number): Promise<StopResult> {
+  return stopProcessTree(pid, { graceMs: settings.get("stopGraceMs") });
+}
+
+// WSL servers carry Linux PIDs and are stopped from inside their distro.
+function stopWslPid(distro: string, pid: number): Promise<StopResult> {
+  return stopWslProcess(distro, pid, { graceMs: settings.get("stopGraceMs") });
+}
+
+// Stops whatever listens on the port: launched servers through the supervisor
+// so their status stays accurate, anything else by PID. Waits briefly for the
+// port to be released before reporting what is left.
+// Stops a container's server through its engine, reported like a process
+// stop so cards and Stop all handle both the same way.
+async function stopContainerServer(
+  id: string,
+  pid: number,
+): Promise<StopResult> {
+  const startedAt = Date.now();
+  try {
+    await requireContainerEngine().runAction(id, "stop");
+    return {
+      pid,
+      outcome: "exited",
+      elapsedMs: Date.now() - startedAt,
+      survivors: [],
+    };
+  } catch (err) {
+    return {
+      pid,
+      outcome: "failed",
+      elapsedMs: Date.now() - startedAt,
+      survivors: [],
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+async function freePort(port: number): Promise<PortResolution> {
+  const owners = await scanner.resolvePorts([port]);
+  const profileIds = new Set(
+    owners.flatMap((owner) => (owner.profileId ? [owner.profileId] : [])),
+  );
+  await Promise.allSettled([
+    ...owners.flatMap((owner) => {
+      if (owner.profileId) return [];
+      const container = scanner
+        .getItems()
+        .find(
+          (item) => item.port === owner.port && item.pid === owner.pid,
+        )?.container;
+      if (container) return [stopContainerServer(container.id, owner.pid)];
+      return [
+        owner.wslDistro
+          ? stopWslPid(owner.wslDistro, owner.pid)
+          : stopPid(owner.pid),
+      ];
+    }),
+    ...Array.from(profileIds).map((profileId) =>
+      launchSupervisor.stop(profileId),
+    ),
+  ]);
+  for (let attempt = 0; attempt < 10; attempt++) {
+    if ((await scanner.resolvePorts([port])).length === 0) break;
+    await new Promise((resolve) => setTimeout(resolve, 300));
+  }
+  await scanner.scan();
+  return resolvePortOwnership([port]);
+}
+
+// Busy servers can print hundreds of lines a second, so output is coalesced
+// into one IPC message per profile per flush.
+function flushLogOutput() {
+  logFlushTimer = null;
+  for (const [profileId, entries] of pendingLogOutput) {
+    win?.webContents.send("logs:append", { profileId, entries });
+  }
+  pendingLogOutput.clear();
+}
+
+function flushTraffic() {
+  trafficFlushTimer = null;
+  for (const [key, entries] of pendingTraffic) {
+    win?.webContents.send("inspector:append", { key, entries });
+  }
+  pendingTraffic.clear();
+}
+
+function getInspectorSessions(): InspectorSession[] {
+  return Array.from(inspectors, ([key, inspector]) => ({
+    key,
+    port: inspector.listeningPort!,
+    url: `http://localhost:${inspector.listeningPort}`,
+    target: `${inspector.target.host}:${inspector.target.port}`,
+  }));
+}
+
+function sendInspectorSessions() {
+  win?.webContents.send("inspector:sessions", getInspectorSessions());
+}
+
+async function startInspector(key: string): Promise<InspectorSession[]> {
+  const pending = startingInspectors.get(key);
+  if (pending) await pending;
+  if (inspectors.has(key)) return getInspectorSessions();
+  const item = scanner.getItems().find((i) => i.key === key);
+  if (!item) throw new Error("That server is no longer running.");
+  if (item.protocol === "udp") {
+    throw new Error("UDP sockets have no HTTP traffic to inspect.");
+  }
+  const inspector = new TrafficInspector({
+    ...proxyTarget(item),
+    secure: Boolean(item.tls),
+  });
+  inspector.on("entry", (entry: TrafficEntry) => {
+    const pending = pendingTraffic.get(key);
+    if (pending) pending.push(entry);
+    else pendingTraffic.set(key, [entry]);
+    if (!trafficFlushTimer) trafficFlushTimer = setTimeout(flushTraffic, 150);
+  });
+  const starting = inspector.start(companionPort(item.port));
+  startingInspectors.set(key, starting);
+  try {
+    await starting;
+  } finally {
+    startingInspectors.delete(key);
+  }
+  inspectors.set(key, inspector);
+  sendInspectorSessions();
+  return getInspectorSessions();
+}
+
+async function stopInspector(key: string): Promise<InspectorSession[]> {
+  await startingInspectors.get(key)?.catch(() => undefined);
+  const inspector = inspectors.get(key);
+  if (inspector) {
+    inspectors.delete(key);
+    await inspector.stop();
+    sendInspectorSessions();
+  }
+  return getInspectorSessions();
+}
+
+function sendThumbnails() {
+  win?.webContents.send("thumbnails:update", pageThumbnails.all());
+}
+
+// Captures run one at a time and only while the dashboard is on screen;
+// health results that arrive meanwhile are picked up on the next round.
+async function captureThumbnails(results: HealthStatus[]) {
+  if (capturingThumbnails || !win?.isVisible()) return;
+  const healthy = results.flatMap((result) => {
+    const target = thumbnailTargets.get(result.key);
+    return result.status === "healthy" && target ? [target] : [];
+  });
+  const due = pageThumbnails.due(
+    healthy,
+    getThumbnailDisabledPorts(),
+    Date.now(),
+  );
+  if (due.length === 0) return;
+  capturingThumbnails = true;
+  try {
+    for (const target of due) {
+      let dataUrl: string;
+      try {
+        dataUrl = await capturePageThumbnail(target.url);
+      } catch {
+        pageThumbnails.failed(target.key, Date.now());
+        continue;
+      }
+      // The server may have stopped or been opted out during the capture.
+      if (
+        !thumbnailTargets.has(target.key) ||
+        getThumbnailDisabledPorts().includes(target.port)
+      ) {
+        continue;
+      }
+      pageThumbnails.set({ ...target, dataUrl, capturedAt: Date.now() });
+      sendThumbnails();
+    }
+  } finally {
+    capturingThumbnails = false;
+  }
+}
+
+// A start, stop or edit by hand drops any pending restart; starting or
+// deleting also resets the restart count.
+function cancelAutoRestart(profileId: string, reset = false) {
+  clearTimeout(restartTimers.get(profileId));
+  restartTimers.delete(profileId);
+  const status = restartStatuses.get(profileId);
+  if (reset) restartStatuses.delete(profileId);
+  else if (status?.nextRestartAt !== undefined) {
+    restartStatuses.set(profileId, { ...status, nextRestartAt: undefined });
+  }
+}
+
+// Called from the supervisor's exit event, which is followed by an update
+// that carries the new restart status to the window.
+function scheduleAutoRestart(exit: LaunchedProcess) {
+  const profile = getLaunchProfileById(exit.profileId);
+  if (!profile?.autoRestart || exit.stopRequested || isQuitting) return;
+  cancelAutoRestart(profile.id);
+  const now = Date.now();
+  const status = planRestart(restartStatuses.get(profile.id), exit, now);
+  restartStatuses.set(profile.id, status);
+  if (status.nextRestartAt === undefined) {
+    giveUpAutoRestart(profile.name, profile.id, status);
+    return;
+  }
+  const delayMs = status.nextRestartAt - now;
+  launchSupervisor.appendSystemLog(
+    profile.id,
+    `Restarting automatically in ${Math.round(delayMs / 1000)}s`,
+  );
+  restartTimers.set(
+    profile.id,
+    setTimeout(() => autoRestart(profile.id), delayMs),
+  );
+}
+
+function autoRestart(profileId: string) {
+  restartTimers.delete(profileId);
+  const profile = getLaunchProfileById(profileId);
+  const status = restartStatuses.get(profileId);
+  if (!profile?.autoRestart || !status || isQuitting) return;
+  const current = launchSupervisor.getProcess(profileId)?.status;
+  // Started again by hand while the restart was waiting
+  if (current && current !== "exited" && current !== "failed") return;
+  try {
+    launchSupervisor.start(profile);
+    restartStatuses.set(profileId, recordRestart(status, Date.now()));
+  } catch (err) {
+    const failed: RestartStatus = {
+      ...status,
+      nextRestartAt: undefined,
+      gaveUp: "start-failed",
+      lastExitReason: err instanceof Error ? err.message : String(err),
+    };
+    restartStatuses.set(profileId, failed);
+    giveUpAutoRestart(profile.name, profileId, failed);
+  }
+  sendLaunchProfilesUpdate();
+}
+
+function giveUpAutoRestart(
+  name: string,
+  profileId: string,
+  status: RestartStatus,
+) {
+  if (!status.gaveUp) return;
+  const reason = describeGiveUp(status.gaveUp);
+  const message = `Auto-restart stopped because ${reason}.`;
+  launchSupervisor.appendSystemLog(profileId, message);
+  if (settings.get("notifyOnStop")) {
+    new Notification({ title: `${name} keeps stopping`, body: message }).show();
+  }
+}
+
+function requireLaunchProfile(id: unknown) {
+  const profile = getLaunchProfileById(validateLaunchProfileId(id));
+  if (!profile) throw new Error("Launch profile was not found.");
+  return profile;
+}
+
 async function startRecentScript(id: string) {
   const script = getRecentScriptById(id);
   if (!script) {
@@ -455,7 +1080,16 @@ async function createWindow(showWhenReady = true) {
   win.on("ready-to-show", () => {
     if (showWhenReady) showDashboard();
   });
-  win.on("closed", () => (win = null));
+  // Scans slow down while nobody is looking at the cards.
+  scanner.setWindowVisible(false);
+  win.on("show", () => scanner.setWindowVisible(true));
+  win.on("restore", () => scanner.setWindowVisible(true));
+  win.on("hide", () => scanner.setWindowVisible(false));
+  win.on("minimize", () => scanner.setWindowVisible(false));
+  win.on("closed", () => {
+    win = null;
+    scanner.setWindowVisible(false);
+  });
   win.on("close", (e) => {
     try {
       if (!isQuitting && settings.get("closeToTray")) {
@@ -697,9 +1331,15 @@ app.whenReady().then(async () => {
   await createWindow(!startInTray);
   setupTray();
   if (startInTray) void updateMacDockVisibility(false);
+  scanner.setOnBattery(powerMonitor.isOnBatteryPower());
+  powerMonitor.on("on-battery", () => scanner.setOnBattery(true));
+  powerMonitor.on("on-ac", () => scanner.setOnBattery(false));
+  await applyProxySettings();
+  await applyControlApiSettings();
   scanner.start();
   ahkScanner?.start();
   automatorScanner?.start();
+  healthChecker.setProbes(getHealthProbes());
   healthChecker.start();
   // Initialize auto-updater (IPC handlers registered always, but actual update checking only in packaged app)
   if (win) {
@@ -722,15 +1362,91 @@ app.on("activate", async () => {
   else showDashboard();
 });
 
-app.on("before-quit", () => {
+// Stops everything the session owns before the app exits. The limit leaves
+// time for launched servers that ignore SIGTERM to be killed after the grace
+// period, but never holds up quitting for long.
+async function shutDownSession(): Promise<void> {
+  const stops: Promise<unknown>[] = [
+    // Servers started from launch profiles belong to the dashboard session.
+    launchSupervisor.stopAll(),
+    reverseProxy.stop(),
+    ...Array.from(inspectors.values(), (inspector) => inspector.stop()),
+  ];
+  if (controlApi?.listeningPort !== undefined) {
+    stops.push(controlApi.stop());
+    fs.rmSync(path.join(app.getPath("userData"), CONTROL_API_FILE), {
+      force: true,
+    });
+  }
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    Promise.allSettled(stops),
+    new Promise((resolve) => {
+      timer = setTimeout(
+        resolve,
+        settings.get("stopGraceMs") + SHUTDOWN_MARGIN_MS,
+      );
+    }),
+  ]);
+  clearTimeout(timer);
+}
+
+// The first quit is held back until the session is shut down, then quits
+// again for real.
+app.on("before-quit", (event) => {
   isQuitting = true;
+  if (shutdown === "done") return;
+  event.preventDefault();
+  if (shutdown === "stopping") return;
+  shutdown = "stopping";
+  for (const timer of restartTimers.values()) clearTimeout(timer);
+  restartTimers.clear();
+  healthHistories = pruneHealthHistories(healthHistories, Date.now());
+  saveHealthHistories(healthHistories);
+  flushHealthHistories();
+  flushServerSessions();
+  void shutDownSession().finally(() => {
+    shutdown = "done";
+    app.quit();
+  });
 });
 
 // Scanner events → renderer
 scanner.on("update", (items) => {
   win?.webContents.send("scanner:update", items);
-  // Update health checker with current servers
-  healthChecker.setServers(items.map((i: any) => ({ key: i.key, url: i.url })));
+  // Update health checker with current servers; UDP sockets do not speak HTTP
+  healthChecker.setServers(
+    items
+      .filter((i: ServerInfo) => i.protocol !== "udp")
+      .map((i: ServerInfo) => ({
+        key: i.key,
+        url: i.url,
+        port: i.port,
+        framework: i.framework,
+      })),
+  );
+  healthHistoryKeys.clear();
+  for (const item of items as ServerInfo[]) {
+    if (item.protocol === "udp") continue;
+    healthHistoryKeys.set(item.key, healthHistoryKey(item.port, item.cwd));
+  }
+  thumbnailTargets.clear();
+  for (const item of items as ServerInfo[]) {
+    if (item.protocol === "udp") continue;
+    const url = thumbnailPageUrl(item.url);
+    if (url) {
+      thumbnailTargets.set(item.key, { key: item.key, port: item.port, url });
+    }
+  }
+  if (pageThumbnails.retain(thumbnailTargets.keys())) sendThumbnails();
+  updatePortConflicts(items);
+  // New and closed sessions are written right away; lastSeen can wait.
+  const sessionsChanged = serverSessions.sync(items);
+  saveServerSessions(serverSessions.list(), sessionsChanged);
+});
+
+scanner.on("containers", (stopped) => {
+  win?.webContents.send("containers:stopped", stopped);
 });
 
 scanner.on("new", (item) => {
@@ -738,17 +1454,18 @@ scanner.on("new", (item) => {
   if (settings.get("notifyOnStart")) {
     new Notification({
       title: "New local server",
-      body: `${item.processName ?? "Process"} on :${item.port}`,
+      body: `${item.processName ?? "Process"} on :${item.port}${item.protocol === "udp" ? " (UDP)" : ""}`,
     }).show();
   }
   win?.webContents.send("stats:update", statsStore.store);
 });
 
 scanner.on("stopped", (item) => {
+  void stopInspector(item.key);
   if (settings.get("notifyOnStop")) {
     new Notification({
       title: "Server stopped",
-      body: `${item.processName ?? "Process"} on :${item.port}`,
+      body: `${item.processName ?? "Process"} on :${item.port}${item.protocol === "udp" ? " (UDP)" : ""}`,
     }).show();
   }
 });
@@ -823,9 +1540,38 @@ if (automatorScanner) {
   });
 }
 
+// Launch supervisor events → scanner + renderer
+launchSupervisor.on("update", () => {
+  const profiles = new Map(getLaunchProfiles().map((p) => [p.id, p]));
+  const launched = new Map<number, LaunchedProcessRef>();
+  for (const [pid, profileId] of launchSupervisor.getActivePids()) {
+    launched.set(pid, {
+      profileId,
+      profileName: profiles.get(profileId)?.name ?? "Profile",
+    });
+  }
+  scanner.setLaunchedProcesses(launched);
+  sendLaunchProfilesUpdate();
+});
+
+launchSupervisor.on("exit", scheduleAutoRestart);
+
+launchSupervisor.on("output", (profileId, entries) => {
+  const pending = pendingLogOutput.get(profileId);
+  if (pending) pending.push(...entries);
+  else pendingLogOutput.set(profileId, [...entries]);
+  if (!logFlushTimer) logFlushTimer = setTimeout(flushLogOutput, 150);
+  explainAddressInUse(profileId, entries);
+});
+
 // Health checker events → renderer
 healthChecker.on("update", (results) => {
   win?.webContents.send("health:update", results);
+  for (const result of results) {
+    scanner.setServerHeaders(result.key, result.serverHeaders);
+  }
+  recordHealthHistory(results);
+  void captureThumbnails(results);
 });
 
 // IPC
@@ -835,46 +1581,70 @@ ipcMain.handle("scanner:refresh", async () => {
   await automatorScanner?.scan();
 });
 ipcMain.on("app:open-url", (_evt, url: string) => shell.openExternal(url));
-ipcMain.on("app:kill-pid", (_evt, pid: number) => {
-  if (process.platform === "win32") {
-    // On Windows, use taskkill directly with /F (force) and /T (tree - kill child processes)
-    // This is more reliable than process.kill() for Windows processes
-    exec(`taskkill /PID ${pid} /T /F`, (err) => {
-      if (err) {
-        // If taskkill fails (e.g., access denied for services), try process.kill as fallback
-        try {
-          process.kill(pid, "SIGTERM");
-        } catch {
-          // Process might be a protected service - requires admin privileges
-          console.error(`Failed to kill PID ${pid}:`, err.message);
-        }
-      }
-    });
-  } else {
-    try {
-      process.kill(pid, "SIGTERM");
-    } catch {
-      // ignore - process may have already exited
-    }
-  }
+ipcMain.handle("app:kill-pid", async (_evt, pid: unknown) => {
+  const checked = validatePid(pid);
+  // The PID of a published port is the engine's proxy; stopping its tree
+  // would take down the engine or every other container's ports.
+  const container = scanner
+    .getItems()
+    .find((item) => item.pid === checked && item.container)?.container;
+  if (container) return stopContainerServer(container.id, checked);
+  // Killing a launched server from its card is not a crash to restart from.
+  const profileId = scanner
+    .getItems()
+    .find((item) => item.pid === checked)?.profileId;
+  if (profileId) launchSupervisor.markStopRequested(profileId);
+  const result = await stopPid(checked);
+  void scanner.scan();
+  return result;
 });
+ipcMain.handle(
+  "app:kill-wsl-pid",
+  async (_evt, distro: unknown, pid: unknown) => {
+    const result = await stopWslPid(
+      validateWslDistro(distro),
+      validatePid(pid),
+    );
+    void scanner.scan();
+    return result;
+  },
+);
 ipcMain.handle("app:kill-all-servers", async () => {
-  const pids = scanner.getAllPids();
-  for (const pid of pids) {
-    try {
-      process.kill(pid, "SIGTERM");
-    } catch {
-      if (process.platform === "win32") {
-        exec(`taskkill /PID ${pid} /T /F`);
-      }
-    }
+  for (const profileId of launchSupervisor.getActivePids().values()) {
+    launchSupervisor.markStopRequested(profileId);
   }
-  return pids.length;
+  const items = scanner.getItems();
+  const containers = new Map(
+    items.flatMap((item) =>
+      item.container ? [[item.container.id, item.pid] as const] : [],
+    ),
+  );
+  const enginePids = new Set(containers.values());
+  const results = await Promise.all([
+    ...scanner
+      .getAllPids()
+      .filter((pid) => !enginePids.has(pid))
+      .map(stopPid),
+    ...Array.from(containers, ([id, pid]) => stopContainerServer(id, pid)),
+    ...items.flatMap((item) =>
+      item.wslDistro ? [stopWslPid(item.wslDistro, item.pid)] : [],
+    ),
+  ]);
+  void scanner.scan();
+  return results;
 });
 ipcMain.handle("app:open-terminal", async (_evt, dirPath: string) => {
   if (!dirPath) return;
+  const wslPath = parseWslUncPath(dirPath);
   try {
-    if (process.platform === "win32") {
+    if (process.platform === "win32" && wslPath) {
+      // cmd cannot cd into a UNC path; open a shell inside the distro.
+      spawn(
+        "cmd",
+        ["/c", "start", "wsl.exe", "-d", wslPath.distro, "--cd", wslPath.path],
+        { detached: true, stdio: "ignore" },
+      ).unref();
+    } else if (process.platform === "win32") {
       spawn("cmd", ["/c", "start", "cmd", "/k", `cd /d "${dirPath}"`], {
         detached: true,
         stdio: "ignore",
@@ -903,6 +1673,139 @@ ipcMain.handle("notes:set", (_evt, port: number | string, note: string) => {
   return getAllNotes();
 });
 ipcMain.handle("notes:all", () => getAllNotes());
+// Page thumbnails
+ipcMain.handle("thumbnails:get", () => pageThumbnails.all());
+ipcMain.handle("thumbnails:disabled-ports", () =>
+  getThumbnailDisabledPorts(),
+);
+ipcMain.handle(
+  "thumbnails:set-enabled",
+  (_evt, port: unknown, enabled: unknown) => {
+    const checked = validatePortNumber(port);
+    const disabledPorts = setThumbnailEnabled(checked, enabled === true);
+    if (enabled !== true && pageThumbnails.dropPort(checked)) {
+      sendThumbnails();
+    }
+    return disabledPorts;
+  },
+);
+// Health check probes
+ipcMain.handle("health-probes:get", () => getHealthProbes());
+ipcMain.handle("health-history:get", () => getHealthHistorySummaries());
+ipcMain.handle(
+  "health-probes:set",
+  (_evt, key: unknown, probe: unknown) => {
+    const probes = setHealthProbe(
+      validateHealthProbeKey(key),
+      probe === null ? null : validateHealthProbe(probe),
+    );
+    healthChecker.setProbes(probes);
+    return probes;
+  },
+);
+// Server session history
+ipcMain.handle("sessions:query", (_evt, query: unknown) =>
+  querySessions(serverSessions.list(), validateSessionQuery(query)),
+);
+ipcMain.handle("sessions:clear", () => {
+  serverSessions.clear();
+  saveServerSessions(serverSessions.list(), true);
+});
+// Containers
+function requireContainerEngine() {
+  const client = containerSource.getClient();
+  if (!client) throw new Error("No Docker or Podman engine is running.");
+  return client;
+}
+ipcMain.handle("containers:stopped", () => containerSource.getStopped());
+ipcMain.handle(
+  "containers:action",
+  async (_evt, id: unknown, action: unknown) => {
+    await requireContainerEngine().runAction(
+      validateContainerId(id),
+      validateContainerAction(action),
+    );
+    void scanner.scan();
+  },
+);
+ipcMain.handle("containers:logs", (_evt, id: unknown) =>
+  requireContainerEngine().readLogs(
+    validateContainerId(id),
+    CONTAINER_LOG_TAIL,
+  ),
+);
+// Launch profiles
+ipcMain.handle("profiles:get", () => getLaunchProfilesState());
+ipcMain.handle("profiles:save", (_evt, input: unknown) => {
+  const profile = saveLaunchProfile(validateLaunchProfileInput(input));
+  if (!profile.autoRestart) cancelAutoRestart(profile.id, true);
+  sendLaunchProfilesUpdate();
+  return getLaunchProfilesState();
+});
+ipcMain.handle("profiles:delete", async (_evt, id: unknown) => {
+  const profileId = validateLaunchProfileId(id);
+  cancelAutoRestart(profileId, true);
+  await launchSupervisor.stop(profileId);
+  launchSupervisor.forget(profileId);
+  explainedAddressInUse.delete(profileId);
+  deleteLaunchProfile(profileId);
+  sendLaunchProfilesUpdate();
+  return getLaunchProfilesState();
+});
+ipcMain.handle("profiles:start", async (_evt, id: unknown) => {
+  const profile = requireLaunchProfile(id);
+  cancelAutoRestart(profile.id, true);
+  launchSupervisor.start(profile);
+  return getLaunchProfilesState();
+});
+ipcMain.handle("profiles:stop", async (_evt, id: unknown) => {
+  const profileId = requireLaunchProfile(id).id;
+  cancelAutoRestart(profileId);
+  await launchSupervisor.stop(profileId);
+  await scanner.scan();
+  return getLaunchProfilesState();
+});
+ipcMain.handle("profiles:restart", async (_evt, id: unknown) => {
+  const profile = requireLaunchProfile(id);
+  cancelAutoRestart(profile.id, true);
+  await launchSupervisor.restart(profile);
+  return getLaunchProfilesState();
+});
+ipcMain.handle("logs:get", (_evt, id: unknown, sinceSeq: unknown) =>
+  launchSupervisor.getLogs(
+    validateLaunchProfileId(id),
+    typeof sinceSeq === "number" && Number.isFinite(sinceSeq) ? sinceSeq : 0,
+  ),
+);
+ipcMain.handle("logs:clear", (_evt, id: unknown) => {
+  launchSupervisor.clearLogs(validateLaunchProfileId(id));
+});
+// Traffic inspector
+ipcMain.handle("inspector:sessions", () => getInspectorSessions());
+ipcMain.handle("inspector:start", (_evt, key: unknown) =>
+  startInspector(validateServerKey(key)),
+);
+ipcMain.handle("inspector:stop", (_evt, key: unknown) =>
+  stopInspector(validateServerKey(key)),
+);
+ipcMain.handle("inspector:get", (_evt, key: unknown, sinceSeq: unknown) =>
+  inspectors
+    .get(validateServerKey(key))
+    ?.log.list(
+      typeof sinceSeq === "number" && Number.isFinite(sinceSeq) ? sinceSeq : 0,
+    ) ?? [],
+);
+ipcMain.handle("inspector:clear", (_evt, key: unknown) => {
+  inspectors.get(validateServerKey(key))?.log.clear();
+});
+// Port ownership
+ipcMain.handle("ports:resolve", (_evt, ports: unknown) =>
+  resolvePortOwnership(validatePortQuery(ports)),
+);
+ipcMain.handle("ports:free", (_evt, port: unknown) =>
+  freePort(validatePortNumber(port)),
+);
+ipcMain.handle("ports:conflicts", () => portConflicts);
 ipcMain.handle("scripts:recent:get", () => getPlatformRecentScripts());
 ipcMain.handle("scripts:recent:start", async (_evt, id: string) => {
   if (typeof id !== "string" || !id.trim()) {
@@ -930,12 +1833,34 @@ ipcMain.handle("environment:delete", (_evt, input: unknown) =>
   deleteEnvironmentVariable(input),
 );
 ipcMain.handle("settings:get", () => settings.store);
+ipcMain.handle("control-api:token", () => controlApi?.token ?? null);
 ipcMain.handle("stats:get", () => statsStore.store);
 ipcMain.handle("settings:update", async (_evt, incoming: any) => {
   // Type helper not available at runtime; trust payload shape from preload validation.
   let hotkeyError: string | null = null;
+  // Validate before changing anything so a bad value doesn't half-apply.
+  const stopGraceMs =
+    incoming.stopGraceMs !== undefined
+      ? validateStopGraceMs(incoming.stopGraceMs)
+      : undefined;
+  const proxyPort =
+    incoming.proxyPort !== undefined
+      ? validateProxyPort(incoming.proxyPort)
+      : undefined;
+  const controlApiPort =
+    incoming.controlApiPort !== undefined
+      ? validatePortNumber(incoming.controlApiPort)
+      : undefined;
   if (typeof incoming.scanIntervalMs === "number")
     settings.set("scanIntervalMs", incoming.scanIntervalMs);
+  if (stopGraceMs !== undefined) settings.set("stopGraceMs", stopGraceMs);
+  if (typeof incoming.proxyEnabled === "boolean")
+    settings.set("proxyEnabled", incoming.proxyEnabled);
+  if (proxyPort !== undefined) settings.set("proxyPort", proxyPort);
+  if (typeof incoming.controlApiEnabled === "boolean")
+    settings.set("controlApiEnabled", incoming.controlApiEnabled);
+  if (controlApiPort !== undefined)
+    settings.set("controlApiPort", controlApiPort);
   if (typeof incoming.startAtLogin === "boolean")
     await setAutoLaunch(
       incoming.startAtLogin,
@@ -974,6 +1899,8 @@ ipcMain.handle("settings:update", async (_evt, incoming: any) => {
     const ports = parsePorts((incoming as any).portsText);
     settings.set("ports", ports);
   }
+  const proxyError = await applyProxySettings();
+  const controlApiError = await applyControlApiSettings();
   scanner.start();
   ahkScanner?.start();
   automatorScanner?.start();
@@ -981,9 +1908,8 @@ ipcMain.handle("settings:update", async (_evt, incoming: any) => {
     ...settings.store,
     portsText: portsToString(settings.get("ports")),
   };
-  if (hotkeyError) {
-    return { ...payload, error: hotkeyError };
-  }
+  const error = hotkeyError ?? proxyError ?? controlApiError;
+  if (error) return { ...payload, error };
   return payload;
 });
 
@@ -991,6 +1917,8 @@ ipcMain.handle("settings:reset", async () => {
   const next = resetToDefaults();
   await setAutoLaunch(next.startAtLogin);
   registerGlobalHotkey();
+  await applyProxySettings();
+  await applyControlApiSettings();
   scanner.start();
   ahkScanner?.start();
   automatorScanner?.start();
@@ -1183,8 +2111,13 @@ ipcMain.handle("app:open-vscode", async (_evt, payload: any) => {
         detached: true,
       }).unref();
     } else if (process.platform === "win32") {
+      // Projects inside WSL open through the WSL remote, not the UNC share.
+      const wslPath = parseWslUncPath(projectPath);
+      const args = wslPath
+        ? ["--remote", `wsl+${wslPath.distro}`, wslPath.path]
+        : [projectPath];
       // Use spawn with shell:false and proper quoting for paths with spaces
-      const child = spawn("code", [projectPath], {
+      const child = spawn("code", args, {
         detached: true,
         shell: true,
         windowsHide: true,
@@ -0,0 +1,74 @@
+import Store from "electron-store";
+import { randomUUID } from "node:crypto";
+import type { LaunchProfile, LaunchProfileInput } from "./launch-profiles";
+
+type LaunchProfilesStore = {
+  profiles: LaunchProfile[];
+};
+
+const MAX_LAUNCH_PROFILES = 100;
+
+const launchProfilesStore = new Store<LaunchProfilesStore>({
+  name: "launch-profiles",
+  fileExtension: "json",
+  defaults: {
+    profiles: [],
+  },
+});
+
+export function getLaunchProfiles(): LaunchProfile[] {
+  return launchProfilesStore
+    .get("profiles")
+    .slice()
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getLaunchProfileById(id: string): LaunchProfile | undefined {
+  return launchProfilesStore.get("profiles").find((profile) => {
+    return profile.id === id;
+  });
+}
+
+export function saveLaunchProfile(input: LaunchProfileInput): LaunchProfile {
+  const profiles = launchProfilesStore.get("profiles");
+  const now = Date.now();
+  const existing = input.id
+    ? profiles.find((profile) => profile.id === input.id)
+    : undefined;
+  if (input.id && !existing) {
+    throw new Error("Launch profile was not found.");
+  }
+  if (!existing && profiles.length >= MAX_LAUNCH_PROFILES) {
+    throw new Error(
+      `You can save at most ${MAX_LAUNCH_PROFILES} launch profiles.`,
+    );
+  }
+
+  const next: LaunchProfile = {
+    id: existing?.id ?? randomUUID(),
+    name: input.name,
+    cwd: input.cwd,
+    command: input.command,
+    env: input.env,
+    ...(input.port ? { port: input.port } : {}),
+    ...(input.autoRestart ? { autoRestart: true } : {}),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  launchProfilesStore.set("profiles", [
+    next,
+    ...profiles.filter((profile) => profile.id !== next.id),
+  ]);
+  return next;
+}
+
+export function deleteLaunchProfile(id: string): LaunchProfile[] {
+  launchProfilesStore.set(
+    "profiles",
+    launchProfilesStore.get("profiles").filter((profile) => {
+      return profile.id !== id;
+    }),
+  );
+  return getLaunchProfiles();
+}
@@ -0,0 +1,174 @@
+import path from "node:path";
+import type { RestartStatus } from "./restart-policy";
+
+export type LaunchProfile = {
+  id: string;
+  name: string;
+  cwd: string;
+  command: string;
+  env: Record<string, string>;
+  port?: number; // expected listening port, used for display and linking
+  autoRestart?: boolean; // start again after exits nobody asked for
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type LaunchProfileInput = {
+  id?: string;
+  name: string;
+  cwd: string;
+  command: string;
+  env: Record<string, string>;
+  port?: number;
+  autoRestart?: boolean;
+};
+
+export type LaunchedProcessStatus =
+  | "starting"
+  | "running"
+  | "stopping"
+  | "exited"
+  | "failed";
+
+export type LaunchedProcess = {
+  profileId: string;
+  pid?: number;
+  status: LaunchedProcessStatus;
+  startedAt: number;
+  exitedAt?: number;
+  exitCode?: number | null;
+  signal?: string | null;
+  error?: string;
+  stopRequested?: boolean; // stopped by the user rather than on its own
+};
+
+export type LaunchProfilesState = {
+  profiles: LaunchProfile[];
+  processes: LaunchedProcess[];
+  restarts: Record<string, RestartStatus>; // by profile id
+};
+
+const PROFILE_ID_PATTERN = /^[0-9a-f-]{8,64}$/i;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_NAME_LENGTH = 80;
+const MAX_COMMAND_LENGTH = 4096;
+const MAX_ENV_ENTRIES = 64;
+const MAX_ENV_VALUE_LENGTH = 8192;
+
+export function validateLaunchProfileId(value: unknown): string {
+  if (typeof value !== "string" || !PROFILE_ID_PATTERN.test(value)) {
+    throw new Error("Launch profile id is invalid.");
+  }
+  return value;
+}
+
+export function validateLaunchProfileInput(value: unknown): LaunchProfileInput {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Launch profile details are required.");
+  }
+  const input = value as Record<string, unknown>;
+
+  const name = requireText(input.name, "Launch profile name", MAX_NAME_LENGTH);
+  const command = requireText(
+    input.command,
+    "Launch profile command",
+    MAX_COMMAND_LENGTH,
+  );
+  const cwd = requireText(input.cwd, "Launch profile directory", 1024);
+  if (!path.isAbsolute(cwd) && !path.win32.isAbsolute(cwd)) {
+    throw new Error("Launch profile directory must be an absolute path.");
+  }
+
+  return {
+    ...(input.id === undefined
+      ? {}
+      : { id: validateLaunchProfileId(input.id) }),
+    name,
+    cwd,
+    command,
+    env: validateProfileEnv(input.env),
+    ...(input.port === undefined || input.port === null || input.port === ""
+      ? {}
+      : { port: validateProfilePort(input.port) }),
+    ...(validateAutoRestart(input.autoRestart) ? { autoRestart: true } : {}),
+  };
+}
+
+function validateProfileEnv(value: unknown): Record<string, string> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Launch profile environment must be a key/value map.");
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length > MAX_ENV_ENTRIES) {
+    throw new Error(
+      `Launch profiles support at most ${MAX_ENV_ENTRIES} environment variables.`,
+    );
+  }
+  const env: Record<string, string> = {};
+  for (const [key, raw] of entries) {
+    if (!ENV_NAME_PATTERN.test(key) || key.length > 128) {
+      throw new Error(`Environment variable name "${key}" is invalid.`);
+    }
+    if (
+      typeof raw !== "string" ||
+      raw.length > MAX_ENV_VALUE_LENGTH ||
+      raw.includes("\0")
+    ) {
+      throw new Error(`Environment variable "${key}" has an invalid value.`);
+    }
+    env[key] = raw;
+  }
+  return env;
+}
+
+function validateAutoRestart(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value !== "boolean") {
+    throw new Error("Launch profile auto-restart must be true or false.");
+  }
+  return value;
+}
+
+function validateProfilePort(value: unknown): number {
+  const port = typeof value === "string" ? Number(value.trim()) : value;
+  if (
+    typeof port !== "number" ||
+    !Number.isInteger(port) ||
+    port < 1 ||
+    port > 65535
+  ) {
+    throw new Error("Launch profile port must be between 1 and 65535.");
+  }
+  return port;
+}
+
+function requireText(value: unknown, label: string, maxLength: number): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${label} is required.`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength || trimmed.includes("\0")) {
+    throw new Error(`${label} is invalid.`);
+  }
+  return trimmed;
+}
+
+// Walks up the parent chain from a listening PID until it reaches a process
+// the supervisor launched. Dev servers are usually grandchildren of the shell
+// we spawn (sh -> npm -> node), so an exact PID match is rarely enough.
+export function findLaunchedAncestor(
+  pid: number,
+  parentOf: (pid: number) => number | undefined,
+  launchedPids: ReadonlySet<number>,
+  maxDepth = 16,
+): number | undefined {
+  let current: number | undefined = pid;
+  for (let depth = 0; current && depth <= maxDepth; depth++) {
+    if (launchedPids.has(current)) return current;
+    const parent = parentOf(current);
+    if (!parent || parent === current) return undefined;
+    current = parent;
+  }
+  return undefined;
+}
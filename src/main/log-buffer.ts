@@ -0,0 +1,118 @@
+export type LogStream = "stdout" | "stderr" | "system";
+
+export type LogLevel = "error" | "warn" | "info" | "debug";
+
+export type LogEntry = {
+  seq: number;
+  time: number;
+  stream: LogStream;
+  level: LogLevel;
+  text: string;
+};
+
+export const DEFAULT_LOG_CAPACITY = 2000;
+const MAX_LINE_LENGTH = 4000;
+// Partial lines are flushed once they grow past this, so a process that never
+// prints a newline cannot grow the carry buffer without bound.
+const MAX_PENDING_LENGTH = 16_384;
+
+const ANSI_PATTERN = /\u001b\[[0-9;?]*[ -/]*[@-~]|\u001b\][^\u0007]*\u0007/g;
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+// Many dev tools print progress to stderr, so the level comes from the text
+// itself rather than from the stream it arrived on.
+export function detectLogLevel(text: string): LogLevel {
+  if (/\b(error|fatal|panic|exception|uncaught)\b|\bERR!|✖|✘/i.test(text)) {
+    return "error";
+  }
+  if (/\b(warn|warning|deprecated)\b|⚠/i.test(text)) return "warn";
+  if (/\b(debug|verbose|trace)\b/i.test(text)) return "debug";
+  return "info";
+}
+
+// Fixed-capacity line buffer. Chunks are split into lines as they arrive and
+// the oldest lines are overwritten once the buffer is full.
+export class LogRingBuffer {
+  private readonly entries: (LogEntry | undefined)[];
+  private head = 0;
+  private size = 0;
+  private nextSeq = 1;
+  private readonly pending: Record<"stdout" | "stderr", string> = {
+    stdout: "",
+    stderr: "",
+  };
+
+  constructor(private readonly capacity = DEFAULT_LOG_CAPACITY) {
+    this.entries = new Array(capacity);
+  }
+
+  append(stream: LogStream, chunk: string, time = Date.now()): LogEntry[] {
+    if (stream === "system") {
+      return chunk.split(/\r?\n/).map((line) => this.push(stream, line, time));
+    }
+    const text = this.pending[stream] + chunk;
+    const lines = text.split(/\r?\n/);
+    let rest = lines.pop() ?? "";
+    if (rest.length > MAX_PENDING_LENGTH) {
+      lines.push(rest);
+      rest = "";
+    }
+    this.pending[stream] = rest;
+    return lines.map((line) => this.push(stream, line, time));
+  }
+
+  // Emits any unterminated trailing output, e.g. when the process exits.
+  flush(time = Date.now()): LogEntry[] {
+    const flushed: LogEntry[] = [];
+    for (const stream of ["stdout", "stderr"] as const) {
+      if (this.pending[stream]) {
+        flushed.push(this.push(stream, this.pending[stream], time));
+        this.pending[stream] = "";
+      }
+    }
+    return flushed;
+  }
+
+  list(sinceSeq = 0): LogEntry[] {
+    const out: LogEntry[] = [];
+    for (let i = 0; i < this.size; i++) {
+      const entry = this.entries[(this.head + i) % this.capacity];
+      if (entry && entry.seq > sinceSeq) out.push(entry);
+    }
+    return out;
+  }
+
+  clear(): void {
+    this.entries.fill(undefined);
+    this.head = 0;
+    this.size = 0;
+    this.pending.stdout = "";
+    this.pending.stderr = "";
+  }
+
+  private push(stream: LogStream, rawLine: string, time: number): LogEntry {
+    const clean = stripAnsi(rawLine);
+    const text =
+      clean.length > MAX_LINE_LENGTH
+        ? `${clean.slice(0, MAX_LINE_LENGTH)}…`
+        : clean;
+    const entry: LogEntry = {
+      seq: this.nextSeq++,
+      time,
+      stream,
+      level: detectLogLevel(text),
+      text,
+    };
+    const index = (this.head + this.size) % this.capacity;
+    this.entries[index] = entry;
+    if (this.size < this.capacity) {
+      this.size++;
+    } else {
+      this.head = (this.head + 1) % this.capacity;
+    }
+    return entry;
+  }
+}
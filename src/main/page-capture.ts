@@ -0,0 +1,93 @@
+import { BrowserWindow, session, type Session } from "electron";
+import {
+  THUMBNAIL_VIEWPORT,
+  THUMBNAIL_WIDTH,
+  isThumbnailNavigationAllowed,
+} from "./page-thumbnails";
+
+// In-memory partition: captured pages never see the dashboard's storage
+// and nothing they set survives a restart.
+const CAPTURE_PARTITION = "page-thumbnails";
+const LOAD_TIMEOUT_MS = 10_000;
+// Time for client-rendered apps to paint after the load event.
+const SETTLE_MS = 1_000;
+const JPEG_QUALITY = 70;
+const LOCAL_HOSTS = new Set(["localhost", "127.0.0.1", "::1", "[::1]"]);
+
+let captureSession: Session | undefined;
+
+function getCaptureSession(): Session {
+  if (captureSession) return captureSession;
+  captureSession = session.fromPartition(CAPTURE_PARTITION);
+  captureSession.setPermissionRequestHandler((_contents, _perm, callback) =>
+    callback(false),
+  );
+  captureSession.setPermissionCheckHandler(() => false);
+  captureSession.on("will-download", (event) => event.preventDefault());
+  // Local dev servers often use self-signed certificates; anything else
+  // keeps Chromium's own verdict.
+  captureSession.setCertificateVerifyProc((request, callback) =>
+    callback(LOCAL_HOSTS.has(request.hostname) ? 0 : -3),
+  );
+  return captureSession;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Page did not load within ${ms / 1000}s`)),
+      ms,
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
+}
+
+// Loads the page in a hidden offscreen window and returns a scaled-down
+// JPEG of it as a data URL. The window is destroyed either way.
+export async function capturePageThumbnail(url: string): Promise<string> {
+  const capture = new BrowserWindow({
+    show: false,
+    width: THUMBNAIL_VIEWPORT.width,
+    height: THUMBNAIL_VIEWPORT.height,
+    webPreferences: {
+      offscreen: true,
+      sandbox: true,
+      contextIsolation: true,
+      nodeIntegration: false,
+      session: getCaptureSession(),
+      disableDialogs: true,
+      spellcheck: false,
+      autoplayPolicy: "document-user-activation-required",
+    },
+  });
+  const contents = capture.webContents;
+  contents.setAudioMuted(true);
+  contents.setWindowOpenHandler(() => ({ action: "deny" }));
+  contents.on("will-navigate", (event) => {
+    if (!isThumbnailNavigationAllowed(event.url, url)) event.preventDefault();
+  });
+  contents.on("will-redirect", (event) => {
+    if (!isThumbnailNavigationAllowed(event.url, url)) event.preventDefault();
+  });
+  try {
+    await withTimeout(contents.loadURL(url), LOAD_TIMEOUT_MS);
+    await new Promise((resolve) => setTimeout(resolve, SETTLE_MS));
+    const image = await contents.capturePage();
+    if (image.isEmpty()) throw new Error("Page rendered nothing");
+    const scaled = image.resize({ width: THUMBNAIL_WIDTH, quality: "good" });
+    return `data:image/jpeg;base64,${scaled
+      .toJPEG(JPEG_QUALITY)
+      .toString("base64")}`;
+  } finally {
+    capture.destroy();
+  }
+}
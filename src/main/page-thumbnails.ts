@@ -0,0 +1,107 @@
+// Snapshots of each healthy web server's root page, shown on its card.
+// They are kept in memory and keyed by ServerInfo.key, so a restarted
+// server (new PID) starts over with a fresh picture.
+export type PageThumbnail = {
+  key: string;
+  port: number;
+  url: string; // page that was captured
+  dataUrl: string; // scaled-down JPEG
+  capturedAt: number;
+};
+
+export type ThumbnailTarget = { key: string; port: number; url: string };
+
+export const THUMBNAIL_REFRESH_MS = 5 * 60_000;
+// A page that failed to load or timed out is tried again sooner.
+export const THUMBNAIL_RETRY_MS = 60_000;
+export const THUMBNAIL_VIEWPORT = { width: 1280, height: 800 };
+export const THUMBNAIL_WIDTH = 320;
+
+// The root page of an http(s) server; undefined for anything else.
+export function thumbnailPageUrl(url: string): string | undefined {
+  try {
+    const parsed = new URL("/", url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return undefined;
+    }
+    return parsed.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+// The capture window may only move around the page it was opened on:
+// links, redirects and scripts that lead to another origin are blocked.
+export function isThumbnailNavigationAllowed(
+  target: string,
+  pageUrl: string,
+): boolean {
+  try {
+    return new URL(target).origin === new URL(pageUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+export class ThumbnailCache {
+  private thumbnails = new Map<string, PageThumbnail>();
+  private nextCapture = new Map<string, number>();
+
+  // Servers whose picture is missing or stale, skipping opted-out ports.
+  due(
+    targets: ThumbnailTarget[],
+    disabledPorts: readonly number[],
+    now: number,
+  ): ThumbnailTarget[] {
+    const disabled = new Set(disabledPorts);
+    return targets.filter(
+      (target) =>
+        !disabled.has(target.port) &&
+        (this.nextCapture.get(target.key) ?? 0) <= now,
+    );
+  }
+
+  set(thumbnail: PageThumbnail) {
+    this.thumbnails.set(thumbnail.key, thumbnail);
+    this.nextCapture.set(
+      thumbnail.key,
+      thumbnail.capturedAt + THUMBNAIL_REFRESH_MS,
+    );
+  }
+
+  // Keeps the last good picture, if any, until the retry succeeds.
+  failed(key: string, now: number) {
+    this.nextCapture.set(key, now + THUMBNAIL_RETRY_MS);
+  }
+
+  all(): Record<string, PageThumbnail> {
+    return Object.fromEntries(this.thumbnails);
+  }
+
+  // Forgets servers that are gone; true when a picture was dropped.
+  retain(keys: Iterable<string>): boolean {
+    const keep = new Set(keys);
+    let changed = false;
+    for (const key of this.nextCapture.keys()) {
+      if (!keep.has(key)) this.nextCapture.delete(key);
+    }
+    for (const key of this.thumbnails.keys()) {
+      if (keep.has(key)) continue;
+      this.thumbnails.delete(key);
+      changed = true;
+    }
+    return changed;
+  }
+
+  // Drops pictures for a port that was opted out; true when one was dropped.
+  dropPort(port: number): boolean {
+    let changed = false;
+    for (const [key, thumbnail] of this.thumbnails) {
+      if (thumbnail.port !== port) continue;
+      this.thumbnails.delete(key);
+      this.nextCapture.delete(key);
+      changed = true;
+    }
+    return changed;
+  }
+}
@@ -0,0 +1,250 @@
+import type { ListenerProtocol } from "./server-detection";
+
+export type ProcessNode = {
+  pid: number;
+  name?: string;
+  command?: string;
+};
+
+export type PortOwner = {
+  port: number;
+  pid: number;
+  protocol: ListenerProtocol;
+  addresses: string[];
+  processName?: string;
+  command?: string;
+  cwd?: string;
+  framework?: string;
+  // The listening process first, then each parent up to the session root.
+  tree: ProcessNode[];
+  profileId?: string;
+  profileName?: string;
+  wslDistro?: string; // WSL2 distro the listener runs in; pid is a Linux PID
+};
+
+// The subset of an owner the conflict check needs, so scanner items can be
+// checked without resolving their process trees first. Either the parent
+// chain (tree) or the processes under it (treePids) ties a preforking
+// server's workers to their master.
+export type PortOwnerRef = Pick<
+  PortOwner,
+  "port" | "pid" | "processName" | "cwd" | "profileId" | "profileName"
+> &
+  Partial<Pick<PortOwner, "protocol" | "tree">> & { treePids?: number[] };
+
+export type PortClaim = {
+  profileId: string;
+  profileName: string;
+  cwd: string;
+  port: number;
+};
+
+export type PortConflictReason =
+  | "multiple-owners"
+  | "shared-profile-port"
+  | "held-by-other-project";
+
+export type PortConflict = {
+  port: number;
+  reason: PortConflictReason;
+  message: string;
+  owners: PortOwnerRef[];
+  claims: PortClaim[];
+};
+
+export type PortResolution = {
+  ports: number[];
+  owners: PortOwner[];
+  conflicts: PortConflict[];
+};
+
+// A range such as 1024-65535 in settings would otherwise turn one lookup into
+// tens of thousands of probes.
+export const MAX_RESOLVED_PORTS = 512;
+
+export function validatePortNumber(value: unknown): number {
+  const port = typeof value === "string" ? Number(value.trim()) : value;
+  if (
+    typeof port !== "number" ||
+    !Number.isInteger(port) ||
+    port < 1 ||
+    port > 65535
+  ) {
+    throw new Error("Port must be between 1 and 65535.");
+  }
+  return port;
+}
+
+// Accepts a single port, a list of ports or nothing (meaning the configured
+// ports from settings).
+export function validatePortQuery(value: unknown): number[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  const list = Array.isArray(value) ? value : [value];
+  if (list.length > MAX_RESOLVED_PORTS) {
+    throw new Error(`At most ${MAX_RESOLVED_PORTS} ports can be resolved at once.`);
+  }
+  return Array.from(new Set(list.map(validatePortNumber))).sort((a, b) => a - b);
+}
+
+export function expandConfiguredPorts(
+  ports: (number | [number, number])[],
+  limit = MAX_RESOLVED_PORTS,
+): number[] {
+  const out = new Set<number>();
+  for (const entry of ports) {
+    const [from, to] = Array.isArray(entry) ? entry : [entry, entry];
+    for (let port = from; port <= to && out.size < limit; port++) {
+      out.add(port);
+    }
+    if (out.size >= limit) break;
+  }
+  return Array.from(out).sort((a, b) => a - b);
+}
+
+export function buildProcessChain(
+  pid: number,
+  lookup: (pid: number) => (ProcessNode & { parentPid?: number }) | undefined,
+  maxDepth = 16,
+): ProcessNode[] {
+  const chain: ProcessNode[] = [];
+  const seen = new Set<number>();
+  let current: number | undefined = pid;
+  while (current && !seen.has(current) && chain.length <= maxDepth) {
+    seen.add(current);
+    const proc = lookup(current);
+    chain.push({ pid: current, name: proc?.name, command: proc?.command });
+    current = proc?.parentPid;
+  }
+  return chain;
+}
+
+// Node, Vite, Next and friends all report EADDRINUSE in slightly different
+// shapes; these cover the common ones.
+const ADDRESS_IN_USE_PATTERNS = [
+  /EADDRINUSE\b.*?:(\d{1,5})\b/,
+  /\bport (\d{1,5}) is (?:already )?in use\b/i,
+  /\baddress already in use\b.*?:(\d{1,5})\b/i,
+];
+
+export function parseAddressInUsePort(text: string): number | undefined {
+  for (const pattern of ADDRESS_IN_USE_PATTERNS) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+    const port = Number(match[1]);
+    if (port >= 1 && port <= 65535) return port;
+  }
+  return undefined;
+}
+
+// Compares project directories across platforms: one separator style, no
+// trailing slash, and case-insensitive drive paths.
+export function projectKey(dir: string | undefined): string | undefined {
+  if (!dir) return undefined;
+  const normalized = dir.replace(/\\/g, "/").replace(/\/+$/, "");
+  return /^[A-Za-z]:/.test(normalized) ? normalized.toLowerCase() : normalized;
+}
+
+function isSameOrInside(child: string, parent: string): boolean {
+  return child === parent || child.startsWith(`${parent}/`);
+}
+
+function inSameProcessTree(a: PortOwnerRef, b: PortOwnerRef): boolean {
+  const related = (owner: PortOwnerRef, pid: number) =>
+    Boolean(owner.tree?.some((node) => node.pid === pid)) ||
+    Boolean(owner.treePids?.includes(pid));
+  return related(a, b.pid) || related(b, a.pid);
+}
+
+// True when listeners from at least two known, different project directories
+// share the port. Processes of one tree count as one listener, and a listener
+// whose directory can't be read is not evidence of another project.
+function hasListenersFromProjects(owners: PortOwnerRef[]): boolean {
+  const groups: PortOwnerRef[][] = [];
+  for (const owner of owners) {
+    const group = groups.find((members) =>
+      members.some((member) => inSameProcessTree(member, owner)),
+    );
+    if (group) group.push(owner);
+    else groups.push([owner]);
+  }
+  const projects = new Set(
+    groups.flatMap((members) => {
+      const key = members
+        .map((member) => projectKey(member.cwd))
+        .find(Boolean);
+      return key ? [key] : [];
+    }),
+  );
+  return projects.size > 1;
+}
+
+export function describePortOwner(owner: PortOwnerRef): string {
+  const name = owner.profileName ?? owner.processName ?? "process";
+  return `${name} (PID ${owner.pid})`;
+}
+
+// Flags ports that more than one project wants: several processes from
+// different directories listening on it, several launch profiles expecting it,
+// or a profile's port already taken by something started elsewhere. TCP and
+// UDP sockets on the same number do not contend, and profiles expect TCP.
+export function findPortConflicts(
+  owners: PortOwnerRef[],
+  claims: PortClaim[],
+): PortConflict[] {
+  const ports = new Set([
+    ...owners.map((owner) => owner.port),
+    ...claims.map((claim) => claim.port),
+  ]);
+  const conflicts: PortConflict[] = [];
+
+  for (const port of Array.from(ports).sort((a, b) => a - b)) {
+    const portOwners = owners.filter(
+      (owner) => owner.port === port && owner.protocol !== "udp",
+    );
+    const udpOwners = owners.filter(
+      (owner) => owner.port === port && owner.protocol === "udp",
+    );
+    const portClaims = claims.filter((claim) => claim.port === port);
+
+    const contended = [portOwners, udpOwners].find(hasListenersFromProjects);
+    if (contended) {
+      const label = contended === udpOwners ? `UDP port ${port}` : `Port ${port}`;
+      conflicts.push({
+        port,
+        reason: "multiple-owners",
+        message: `${label} has ${contended.length} listeners from different projects: ${contended.map(describePortOwner).join(", ")}.`,
+        owners: contended,
+        claims: portClaims,
+      });
+      continue;
+    }
+
+    const claimProjects = new Set(portClaims.map((claim) => projectKey(claim.cwd)));
+    if (claimProjects.size > 1) {
+      conflicts.push({
+        port,
+        reason: "shared-profile-port",
+        message: `Port ${port} is expected by ${portClaims.map((claim) => claim.profileName).join(", ")}; only one can run at a time.`,
+        owners: portOwners,
+        claims: portClaims,
+      });
+      continue;
+    }
+
+    const claim = portClaims[0];
+    const owner = portOwners[0];
+    if (!claim || !owner || owner.profileId === claim.profileId) continue;
+    const ownerDir = projectKey(owner.cwd);
+    const claimDir = projectKey(claim.cwd);
+    if (ownerDir && claimDir && isSameOrInside(ownerDir, claimDir)) continue;
+    conflicts.push({
+      port,
+      reason: "held-by-other-project",
+      message: `${claim.profileName} expects port ${port}, but ${describePortOwner(owner)}${owner.cwd ? ` from ${owner.cwd}` : ""} is listening on it.`,
+      owners: portOwners,
+      claims: portClaims,
+    });
+  }
+
+  return conflicts;
+}
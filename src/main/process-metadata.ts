@@ -0,0 +1,311 @@
+import { execFile } from "node:child_process";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+// What the OS can tell about a process beyond what systeminformation lists.
+// Any field may be missing: the process exited, belongs to another user, or
+// the platform does not expose it.
+export type ProcessMetadata = {
+  pid: number;
+  commandLine?: string;
+  cwd?: string;
+  executablePath?: string;
+};
+
+export type MetadataCommandRunner = (
+  file: string,
+  args: string[],
+  timeoutMs: number,
+) => Promise<string>;
+
+export interface ProcessMetadataProvider {
+  // Looks up many PIDs at once; PIDs it knows nothing about are left out.
+  read(pids: number[]): Promise<Map<number, ProcessMetadata>>;
+}
+
+export const PROCESS_METADATA_TIMEOUT_MS = 10_000;
+
+export const runMetadataCommand: MetadataCommandRunner = async (
+  file,
+  args,
+  timeoutMs,
+) => {
+  const { stdout } = await execFileAsync(file, args, {
+    windowsHide: true,
+    timeout: timeoutMs,
+    maxBuffer: 16 * 1024 * 1024,
+  });
+  return stdout;
+};
+
+function validPids(pids: number[]): number[] {
+  return Array.from(
+    new Set(pids.filter((pid) => Number.isSafeInteger(pid) && pid > 0)),
+  );
+}
+
+// --- Windows ---------------------------------------------------------------
+
+// Reads RTL_USER_PROCESS_PARAMETERS.CurrentDirectory out of the target's PEB,
+// which is where Windows keeps a process's working directory. Only 64-bit
+// processes are read, from a 64-bit PowerShell; others report no cwd.
+const WINDOWS_CWD_READER = `
+using System;
+using System.Runtime.InteropServices;
+public static class DashboardProcessCwd {
+  [StructLayout(LayoutKind.Sequential)]
+  struct BasicInformation {
+    public IntPtr ExitStatus; public IntPtr PebBaseAddress;
+    public IntPtr AffinityMask; public IntPtr BasePriority;
+    public IntPtr UniqueProcessId; public IntPtr ParentProcessId;
+  }
+  [DllImport("ntdll.dll")]
+  static extern int NtQueryInformationProcess(IntPtr process, int infoClass,
+    ref BasicInformation info, int length, out int returned);
+  [DllImport("kernel32.dll")]
+  static extern IntPtr OpenProcess(int access, bool inherit, int pid);
+  [DllImport("kernel32.dll")]
+  static extern bool CloseHandle(IntPtr handle);
+  [DllImport("kernel32.dll")]
+  static extern bool IsWow64Process(IntPtr process, out bool wow64);
+  [DllImport("kernel32.dll")]
+  static extern bool ReadProcessMemory(IntPtr process, IntPtr address,
+    byte[] buffer, IntPtr size, out IntPtr read);
+  static byte[] Read(IntPtr process, IntPtr address, int size) {
+    var buffer = new byte[size];
+    IntPtr read;
+    return ReadProcessMemory(process, address, buffer, (IntPtr)size, out read)
+      ? buffer : null;
+  }
+  public static string Get(int pid) {
+    // PROCESS_QUERY_LIMITED_INFORMATION | PROCESS_VM_READ
+    IntPtr process = OpenProcess(0x1000 | 0x0010, false, pid);
+    if (process == IntPtr.Zero) return null;
+    try {
+      bool wow64;
+      if (IntPtr.Size != 8 || !IsWow64Process(process, out wow64) || wow64) {
+        return null;
+      }
+      var info = new BasicInformation();
+      int returned;
+      if (NtQueryInformationProcess(process, 0, ref info,
+          Marshal.SizeOf(info), out returned) != 0) return null;
+      var parameters = Read(process, info.PebBaseAddress + 0x20, 8);
+      if (parameters == null) return null;
+      var dosPath = Read(process,
+        (IntPtr)BitConverter.ToInt64(parameters, 0) + 0x38, 16);
+      if (dosPath == null) return null;
+      var text = Read(process, (IntPtr)BitConverter.ToInt64(dosPath, 8),
+        BitConverter.ToUInt16(dosPath, 0));
+      return text == null ? null : System.Text.Encoding.Unicode.GetString(text);
+    } finally {
+      CloseHandle(process);
+    }
+  }
+}
+`;
+
+// Win32_Process through CIM replaces the deprecated wmic.exe, which newer
+// Windows builds no longer ship.
+export function windowsMetadataScript(pids: number[]): string {
+  const filter = validPids(pids)
+    .map((pid) => `ProcessId=${pid}`)
+    .join(" OR ");
+  return [
+    "$ErrorActionPreference = 'SilentlyContinue'",
+    "[Console]::OutputEncoding = [System.Text.Encoding]::UTF8",
+    `Add-Type -TypeDefinition @'${WINDOWS_CWD_READER}'@`,
+    `$filter = '${filter}'`,
+    "$rows = @(Get-CimInstance Win32_Process -Filter $filter | ForEach-Object {",
+    "  [pscustomobject]@{",
+    "    pid = [int]$_.ProcessId",
+    "    commandLine = $_.CommandLine",
+    "    executablePath = $_.ExecutablePath",
+    "    cwd = [DashboardProcessCwd]::Get([int]$_.ProcessId)",
+    "  }",
+    "})",
+    "ConvertTo-Json -Compress -InputObject $rows",
+  ].join("\n");
+}
+
+function normalizeWindowsDirectory(dir: string): string {
+  // "C:\\code\\shop\\" -> "C:\\code\\shop", but "C:\\" stays a drive root.
+  return /^[A-Za-z]:\\$/.test(dir) ? dir : dir.replace(/\\+$/, "");
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+// ConvertTo-Json prints one object without the array brackets on older
+// PowerShell versions, so both shapes are accepted.
+export function parseWindowsMetadata(
+  output: string,
+): Map<number, ProcessMetadata> {
+  const result = new Map<number, ProcessMetadata>();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output.replace(/^\uFEFF/, "").trim() || "[]");
+  } catch {
+    return result;
+  }
+  const rows = Array.isArray(parsed) ? parsed : [parsed];
+  for (const row of rows) {
+    const pid = Number(row?.pid);
+    if (!Number.isSafeInteger(pid) || pid <= 0) continue;
+    const cwd = optionalString(row.cwd);
+    result.set(pid, {
+      pid,
+      commandLine: optionalString(row.commandLine),
+      executablePath: optionalString(row.executablePath),
+      cwd: cwd && normalizeWindowsDirectory(cwd),
+    });
+  }
+  return result;
+}
+
+export class WindowsProcessMetadata implements ProcessMetadataProvider {
+  constructor(
+    private run: MetadataCommandRunner = runMetadataCommand,
+    private timeoutMs = PROCESS_METADATA_TIMEOUT_MS,
+  ) {}
+
+  async read(pids: number[]): Promise<Map<number, ProcessMetadata>> {
+    if (validPids(pids).length === 0) return new Map();
+    const script = windowsMetadataScript(pids);
+    try {
+      const output = await this.run(
+        "powershell.exe",
+        [
+          "-NoProfile",
+          "-NonInteractive",
+          "-ExecutionPolicy",
+          "Bypass",
+          "-EncodedCommand",
+          Buffer.from(script, "utf16le").toString("base64"),
+        ],
+        this.timeoutMs,
+      );
+      return parseWindowsMetadata(output);
+    } catch {
+      return new Map();
+    }
+  }
+}
+
+// --- Linux -----------------------------------------------------------------
+
+// /proc/<pid>/cmdline separates arguments with NUL bytes.
+export function parseProcCmdline(raw: string): string | undefined {
+  const commandLine = raw.replace(/\0+$/, "").split("\0").join(" ").trim();
+  return commandLine || undefined;
+}
+
+export class LinuxProcessMetadata implements ProcessMetadataProvider {
+  constructor(private procRoot = "/proc") {}
+
+  async read(pids: number[]): Promise<Map<number, ProcessMetadata>> {
+    const result = new Map<number, ProcessMetadata>();
+    await Promise.all(
+      validPids(pids).map(async (pid) => {
+        const dir = path.join(this.procRoot, String(pid));
+        const [cmdline, cwd, exe] = await Promise.all([
+          fs.readFile(path.join(dir, "cmdline"), "utf8").catch(() => ""),
+          fs.readlink(path.join(dir, "cwd")).catch(() => undefined),
+          fs.readlink(path.join(dir, "exe")).catch(() => undefined),
+        ]);
+        const commandLine = parseProcCmdline(cmdline);
+        if (!commandLine && !cwd && !exe) return;
+        result.set(pid, {
+          pid,
+          commandLine,
+          cwd,
+          // A replaced binary reads "/usr/bin/node (deleted)".
+          executablePath: exe?.replace(/ \(deleted\)$/, ""),
+        });
+      }),
+    );
+    return result;
+  }
+}
+
+// --- macOS -----------------------------------------------------------------
+
+// `lsof -F pfn` prints one field per line: p<pid>, f<fd>, n<name>.
+export function parseLsofCwdOutput(
+  output: string,
+): Map<number, { cwd?: string; executablePath?: string }> {
+  const result = new Map<number, { cwd?: string; executablePath?: string }>();
+  let pid: number | undefined;
+  let fd: string | undefined;
+  for (const line of output.split(/\r?\n/)) {
+    const value = line.slice(1);
+    if (line.startsWith("p")) {
+      pid = Number(value);
+      if (!result.has(pid)) result.set(pid, {});
+    } else if (line.startsWith("f")) {
+      fd = value;
+    } else if (line.startsWith("n") && pid !== undefined) {
+      const entry = result.get(pid)!;
+      if (fd === "cwd") entry.cwd = value;
+      else if (fd === "txt" && !entry.executablePath) {
+        entry.executablePath = value; // the first txt entry is the binary
+      }
+    }
+  }
+  return result;
+}
+
+// `ps -o pid=,command=` prints the PID, padded, then the full command line.
+export function parsePsCommandOutput(output: string): Map<number, string> {
+  const result = new Map<number, string>();
+  for (const line of output.split(/\r?\n/)) {
+    const match = /^\s*(\d+)\s+(.*\S)\s*$/.exec(line);
+    if (match) result.set(Number(match[1]), match[2]);
+  }
+  return result;
+}
+
+export class MacProcessMetadata implements ProcessMetadataProvider {
+  constructor(
+    private run: MetadataCommandRunner = runMetadataCommand,
+    private timeoutMs = PROCESS_METADATA_TIMEOUT_MS,
+  ) {}
+
+  async read(pids: number[]): Promise<Map<number, ProcessMetadata>> {
+    const valid = validPids(pids);
+    const result = new Map<number, ProcessMetadata>();
+    if (valid.length === 0) return result;
+    const list = valid.join(",");
+    // lsof exits 1 when some PIDs are gone but still prints the others.
+    const [lsof, ps] = await Promise.all([
+      this.run(
+        "/usr/sbin/lsof",
+        ["-a", "-p", list, "-d", "cwd,txt", "-Fpfn"],
+        this.timeoutMs,
+      ).catch((err) => String(err?.stdout ?? "")),
+      this.run("/bin/ps", ["-o", "pid=,command=", "-p", list], this.timeoutMs)
+        .catch((err) => String(err?.stdout ?? "")),
+    ]);
+    const files = parseLsofCwdOutput(lsof);
+    const commands = parsePsCommandOutput(ps);
+    for (const pid of valid) {
+      const file = files.get(pid);
+      const commandLine = commands.get(pid);
+      if (!file && !commandLine) continue;
+      result.set(pid, { pid, commandLine, ...file });
+    }
+    return result;
+  }
+}
+
+export function createProcessMetadataProvider(
+  platform: NodeJS.Platform = process.platform,
+): ProcessMetadataProvider {
+  if (platform === "win32") return new WindowsProcessMetadata();
+  if (platform === "darwin") return new MacProcessMetadata();
+  return new LinuxProcessMetadata();
+}
@@ -0,0 +1,240 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+// "exited": left during the grace period. "forced": needed SIGKILL or
+// taskkill /F. "failed": something in the tree is still running.
+export type StopOutcome = "already-exited" | "exited" | "forced" | "failed";
+
+export type StopResult = {
+  pid: number;
+  outcome: StopOutcome;
+  elapsedMs: number;
+  survivors: number[]; // PIDs from the tree still running at the end
+  error?: string;
+};
+
+export type ProcessTableEntry = { pid: number; parentPid: number };
+
+export type StopOptions = {
+  graceMs?: number;
+  pollMs?: number;
+  platform?: NodeJS.Platform;
+};
+
+// Injectable so the escalation can be exercised without real processes.
+export type StopDeps = {
+  isAlive: (pid: number) => boolean;
+  sendSignal: (pid: number, signal: NodeJS.Signals) => void;
+  listProcesses: () => Promise<ProcessTableEntry[]>;
+  taskkill: (args: string[]) => Promise<void>;
+};
+
+export const DEFAULT_STOP_GRACE_MS = 5000;
+export const MAX_STOP_GRACE_MS = 60_000;
+const FORCE_WAIT_MS = 2000;
+const POLL_MS = 100;
+
+export function validateStopGraceMs(value: unknown): number {
+  const ms = typeof value === "string" ? Number(value.trim()) : value;
+  if (
+    typeof ms !== "number" ||
+    !Number.isInteger(ms) ||
+    ms < 0 ||
+    ms > MAX_STOP_GRACE_MS
+  ) {
+    throw new Error(
+      `Stop grace period must be a whole number from 0 to ${MAX_STOP_GRACE_MS} ms.`,
+    );
+  }
+  return ms;
+}
+
+export function validatePid(value: unknown): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new Error("PID must be a positive whole number.");
+  }
+  return value;
+}
+
+// Parses `ps -A -o pid=,ppid=`.
+export function parsePsProcessTable(stdout: string): ProcessTableEntry[] {
+  const entries: ProcessTableEntry[] = [];
+  for (const line of stdout.split(/\r?\n/)) {
+    const match = /^\s*(\d+)\s+(\d+)\s*$/.exec(line);
+    if (match) {
+      entries.push({ pid: Number(match[1]), parentPid: Number(match[2]) });
+    }
+  }
+  return entries;
+}
+
+export function collectDescendants(
+  root: number,
+  table: readonly ProcessTableEntry[],
+): number[] {
+  const children = new Map<number, number[]>();
+  for (const { pid, parentPid } of table) {
+    const list = children.get(parentPid) ?? [];
+    list.push(pid);
+    children.set(parentPid, list);
+  }
+  const seen = new Set<number>([root]);
+  const queue = [root];
+  const out: number[] = [];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift()!) ?? []) {
+      if (seen.has(child)) continue;
+      seen.add(child);
+      out.push(child);
+      queue.push(child);
+    }
+  }
+  return out;
+}
+
+export const systemStopDeps: StopDeps = {
+  isAlive(pid) {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (err) {
+      // EPERM: it exists, we just may not signal it.
+      return (err as NodeJS.ErrnoException).code === "EPERM";
+    }
+  },
+  sendSignal(pid, signal) {
+    process.kill(pid, signal);
+  },
+  async listProcesses() {
+    const { stdout } = await execFileAsync("ps", ["-A", "-o", "pid=,ppid="], {
+      timeout: 3000,
+      maxBuffer: 4 * 1024 * 1024,
+    });
+    return parsePsProcessTable(stdout);
+  },
+  async taskkill(args) {
+    await execFileAsync("taskkill", args, { windowsHide: true, timeout: 5000 });
+  },
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function waitForExit(
+  pids: number[],
+  timeoutMs: number,
+  pollMs: number,
+  deps: StopDeps,
+): Promise<number[]> {
+  const deadline = Date.now() + timeoutMs;
+  let alive = pids.filter(deps.isAlive);
+  while (alive.length > 0 && Date.now() < deadline) {
+    await sleep(Math.min(pollMs, Math.max(0, deadline - Date.now())));
+    alive = alive.filter(deps.isAlive);
+  }
+  return alive;
+}
+
+function errorMessage(err: unknown): string {
+  const code = (err as NodeJS.ErrnoException)?.code;
+  if (code === "EPERM") return "Permission denied";
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Stops a process and everything it started, politely first: SIGINT (what
+// Ctrl+C sends), SIGTERM halfway through the grace period, then SIGKILL. On
+// Windows, taskkill /T walks the tree itself and /F is the escalation.
+export async function stopProcessTree(
+  pid: number,
+  options: StopOptions = {},
+  deps: StopDeps = systemStopDeps,
+): Promise<StopResult> {
+  const platform = options.platform ?? process.platform;
+  const graceMs = options.graceMs ?? DEFAULT_STOP_GRACE_MS;
+  const pollMs = options.pollMs ?? POLL_MS;
+  const startedAt = Date.now();
+  const finish = (
+    outcome: StopOutcome,
+    survivors: number[] = [],
+    error?: string,
+  ): StopResult => ({
+    pid,
+    outcome,
+    elapsedMs: Date.now() - startedAt,
+    survivors,
+    ...(error ? { error } : {}),
+  });
+
+  if (!deps.isAlive(pid)) return finish("already-exited");
+
+  if (platform === "win32") {
+    let graceful = true;
+    try {
+      await deps.taskkill(["/PID", String(pid), "/T"]);
+    } catch {
+      // Console programs refuse a polite close; go straight to /F.
+      graceful = false;
+    }
+    if (graceful) {
+      const alive = await waitForExit([pid], graceMs, pollMs, deps);
+      if (alive.length === 0) return finish("exited");
+    }
+    let error: string | undefined;
+    try {
+      await deps.taskkill(["/PID", String(pid), "/T", "/F"]);
+    } catch (err) {
+      error = errorMessage(err);
+    }
+    const survivors = await waitForExit([pid], FORCE_WAIT_MS, pollMs, deps);
+    return survivors.length > 0
+      ? finish("failed", survivors, error ?? "Process did not exit")
+      : finish("forced");
+  }
+
+  const treeOf = async (roots: number[]): Promise<number[]> => {
+    try {
+      const table = await deps.listProcesses();
+      const all = new Set(roots);
+      for (const root of roots) {
+        collectDescendants(root, table).forEach((child) => all.add(child));
+      }
+      return Array.from(all);
+    } catch {
+      return roots;
+    }
+  };
+  let lastError: string | undefined;
+  const signalAll = (pids: number[], signal: NodeJS.Signals) => {
+    for (const target of pids) {
+      try {
+        deps.sendSignal(target, signal);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException)?.code !== "ESRCH") {
+          lastError = errorMessage(err);
+        }
+      }
+    }
+  };
+
+  // Snapshot the tree before signalling: once the root exits its children
+  // are re-parented and can no longer be found from it.
+  const tree = await treeOf([pid]);
+  signalAll(tree, "SIGINT");
+  let alive = await waitForExit(tree, graceMs / 2, pollMs, deps);
+  if (alive.length > 0) {
+    signalAll(alive, "SIGTERM");
+    alive = await waitForExit(alive, graceMs - graceMs / 2, pollMs, deps);
+  }
+  if (alive.length === 0) return finish("exited");
+
+  // Survivors may have started new children while shutting down.
+  const remaining = await treeOf(alive);
+  signalAll(remaining, "SIGKILL");
+  const survivors = await waitForExit(remaining, FORCE_WAIT_MS, pollMs, deps);
+  return survivors.length > 0
+    ? finish("failed", survivors, lastError ?? "Process did not exit")
+    : finish("forced");
+}
@@ -0,0 +1,289 @@
+import { EventEmitter } from "node:events";
+import { spawn, execFile, type ChildProcess } from "node:child_process";
+import fs from "node:fs";
+import type { LaunchProfile, LaunchedProcess } from "./launch-profiles";
+import { LogRingBuffer, type LogEntry, type LogStream } from "./log-buffer";
+
+type SupervisorEventMap = {
+  update: [LaunchedProcess[]];
+  exit: [LaunchedProcess];
+  output: [string, LogEntry[]];
+};
+
+type SupervisedRun = {
+  info: LaunchedProcess;
+  child?: ChildProcess;
+  stopRequested: boolean;
+  exited: Promise<void>;
+};
+
+type SupervisorOptions = {
+  // Read on every stop so a settings change applies without a restart.
+  stopGraceMs?: () => number;
+};
+
+const STOP_TIMEOUT_MS = 5000;
+
+function isActive(info: LaunchedProcess): boolean {
+  return (
+    info.status === "starting" ||
+    info.status === "running" ||
+    info.status === "stopping"
+  );
+}
+
+// Sends a termination signal to the whole tree we spawned. On POSIX the child
+// is started in its own process group, so a negative PID reaches the shell and
+// every server it started. On Windows, taskkill /T walks the tree for us.
+function signalProcessTree(pid: number, force: boolean): void {
+  if (process.platform === "win32") {
+    const args = ["/PID", String(pid), "/T"];
+    if (force) args.push("/F");
+    execFile("taskkill", args, { windowsHide: true }, () => {
+      // exit is observed through the child's exit event
+    });
+    return;
+  }
+  const signal = force ? "SIGKILL" : "SIGTERM";
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // already gone
+    }
+  }
+}
+
+export class ProcessSupervisor extends EventEmitter<SupervisorEventMap> {
+  private readonly runs = new Map<string, SupervisedRun>();
+  // Output survives restarts so the log pane keeps the previous run's tail.
+  private readonly logs = new Map<string, LogRingBuffer>();
+
+  constructor(private readonly options: SupervisorOptions = {}) {
+    super();
+  }
+
+  getProcesses(): LaunchedProcess[] {
+    return Array.from(this.runs.values()).map((run) => ({ ...run.info }));
+  }
+
+  getProcess(profileId: string): LaunchedProcess | undefined {
+    const run = this.runs.get(profileId);
+    return run ? { ...run.info } : undefined;
+  }
+
+  // Root PIDs of every active launch, used by the scanner to link listeners
+  // back to the profile that started them.
+  getActivePids(): Map<number, string> {
+    const pids = new Map<number, string>();
+    for (const run of this.runs.values()) {
+      if (run.info.pid && isActive(run.info)) {
+        pids.set(run.info.pid, run.info.profileId);
+      }
+    }
+    return pids;
+  }
+
+  getLogs(profileId: string, sinceSeq = 0): LogEntry[] {
+    return this.logs.get(profileId)?.list(sinceSeq) ?? [];
+  }
+
+  clearLogs(profileId: string): void {
+    this.logs.get(profileId)?.clear();
+  }
+
+  // Adds a line of our own to a profile's output, e.g. to explain a failure.
+  appendSystemLog(profileId: string, text: string): void {
+    this.appendLog(profileId, "system", text);
+  }
+
+  start(profile: LaunchProfile): LaunchedProcess {
+    const current = this.runs.get(profile.id);
+    if (current && isActive(current.info)) {
+      throw new Error(`${profile.name} is already running.`);
+    }
+    if (!isDirectory(profile.cwd)) {
+      throw new Error(`Directory was not found: ${profile.cwd}`);
+    }
+
+    const info: LaunchedProcess = {
+      profileId: profile.id,
+      status: "starting",
+      startedAt: Date.now(),
+    };
+    let resolveExited!: () => void;
+    const run: SupervisedRun = {
+      info,
+      stopRequested: false,
+      exited: new Promise<void>((resolve) => {
+        resolveExited = resolve;
+      }),
+    };
+    this.runs.set(profile.id, run);
+    this.appendLog(profile.id, "system", `$ ${profile.command}`);
+
+    let child: ChildProcess;
+    try {
+      child = spawn(profile.command, {
+        cwd: profile.cwd,
+        env: { ...process.env, ...profile.env },
+        shell: true,
+        detached: process.platform !== "win32",
+        windowsHide: true,
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+    } catch (err) {
+      info.status = "failed";
+      info.exitedAt = Date.now();
+      info.error = err instanceof Error ? err.message : String(err);
+      this.appendLog(profile.id, "system", info.error);
+      resolveExited();
+      this.emitUpdate();
+      return { ...info };
+    }
+
+    run.child = child;
+    info.pid = child.pid;
+    child.stdout?.setEncoding("utf8");
+    child.stderr?.setEncoding("utf8");
+    child.stdout?.on("data", (chunk: string) =>
+      this.appendLog(profile.id, "stdout", chunk),
+    );
+    child.stderr?.on("data", (chunk: string) =>
+      this.appendLog(profile.id, "stderr", chunk),
+    );
+
+    child.once("spawn", () => {
+      if (info.status === "starting") info.status = "running";
+      this.emitUpdate();
+    });
+    child.once("error", (err) => {
+      if (!isActive(info)) return;
+      info.status = "failed";
+      info.exitedAt = Date.now();
+      info.error = err.message;
+      this.appendLog(profile.id, "system", err.message);
+      resolveExited();
+      this.emit("exit", { ...info });
+      this.emitUpdate();
+    });
+    // "close" rather than "exit": it fires after the output pipes drain, so the
+    // last lines a crashing server prints are not lost.
+    child.once("close", (code, signal) => {
+      run.child = undefined;
+      // A spawn failure emits "error" and then "close"; report it once.
+      if (!isActive(info)) return;
+      info.exitedAt = Date.now();
+      info.exitCode = code;
+      info.signal = signal;
+      if (run.stopRequested) info.stopRequested = true;
+      if (run.stopRequested || code === 0) {
+        info.status = "exited";
+      } else {
+        info.status = "failed";
+        info.error =
+          code === null
+            ? `Terminated by ${signal ?? "signal"}`
+            : `Exited with code ${code}`;
+      }
+      this.flushLog(profile.id);
+      this.appendLog(
+        profile.id,
+        "system",
+        code === null
+          ? `Process terminated by ${signal ?? "signal"}`
+          : `Process exited with code ${code}`,
+      );
+      resolveExited();
+      this.emit("exit", { ...info });
+      this.emitUpdate();
+    });
+
+    this.emitUpdate();
+    return { ...info };
+  }
+
+  async stop(profileId: string): Promise<LaunchedProcess | undefined> {
+    const run = this.runs.get(profileId);
+    if (!run) return undefined;
+    if (!isActive(run.info) || !run.info.pid) return { ...run.info };
+
+    run.stopRequested = true;
+    run.info.status = "stopping";
+    this.emitUpdate();
+    signalProcessTree(run.info.pid, false);
+
+    const graceMs = this.options.stopGraceMs?.() ?? STOP_TIMEOUT_MS;
+    const stopped = await waitForExit(run, graceMs);
+    if (!stopped && run.info.pid) {
+      signalProcessTree(run.info.pid, true);
+      await waitForExit(run, STOP_TIMEOUT_MS);
+    }
+    return { ...run.info };
+  }
+
+  // For stops that bypass stop(), such as killing the listening process from
+  // its card, so the exit is still reported as requested.
+  markStopRequested(profileId: string): void {
+    const run = this.runs.get(profileId);
+    if (run && isActive(run.info)) run.stopRequested = true;
+  }
+
+  async restart(profile: LaunchProfile): Promise<LaunchedProcess> {
+    await this.stop(profile.id);
+    return this.start(profile);
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.allSettled(
+      Array.from(this.runs.keys()).map((profileId) => this.stop(profileId)),
+    );
+  }
+
+  forget(profileId: string): void {
+    const run = this.runs.get(profileId);
+    if (run && isActive(run.info)) return;
+    this.runs.delete(profileId);
+    this.logs.delete(profileId);
+    this.emitUpdate();
+  }
+
+  private appendLog(profileId: string, stream: LogStream, text: string): void {
+    let buffer = this.logs.get(profileId);
+    if (!buffer) {
+      buffer = new LogRingBuffer();
+      this.logs.set(profileId, buffer);
+    }
+    const entries = buffer.append(stream, text);
+    if (entries.length > 0) this.emit("output", profileId, entries);
+  }
+
+  private flushLog(profileId: string): void {
+    const entries = this.logs.get(profileId)?.flush() ?? [];
+    if (entries.length > 0) this.emit("output", profileId, entries);
+  }
+
+  private emitUpdate(): void {
+    this.emit("update", this.getProcesses());
+  }
+}
+
+function isDirectory(dirPath: string): boolean {
+  try {
+    return fs.statSync(dirPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function waitForExit(run: SupervisedRun, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(false), timeoutMs);
+    void run.exited.then(() => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+  });
+}
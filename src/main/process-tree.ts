@@ -0,0 +1,256 @@
+// A listening process is rarely the whole server: `npm run dev` starts a
+// shell, which starts the dev server, which forks workers. This module finds
+// the root of that group and totals its resource use.
+
+export type ProcessRow = {
+  pid: number;
+  parentPid?: number;
+  name?: string;
+  command?: string;
+};
+
+export type ProcessTreeNode = {
+  pid: number;
+  name?: string;
+  command?: string;
+  cpu?: number;
+  memory?: number;
+  listening: boolean; // owns one of the server's sockets
+  children: ProcessTreeNode[];
+};
+
+export type ProcessLauncher = {
+  // The interactive shell the group was started from, i.e. the terminal that
+  // owns the server.
+  shell?: { pid: number; name?: string };
+  // The package manager script, e.g. "npm run dev".
+  script?: string;
+};
+
+export type ServerProcessTree = {
+  root: ProcessTreeNode;
+  pids: number[];
+  cpu: number; // summed over the tree
+  memory: number;
+  launcher: ProcessLauncher;
+};
+
+export type ProcessUsage = { cpu: number; memory: number };
+
+export const MAX_TREE_PROCESSES = 64;
+const MAX_ANCESTOR_DEPTH = 16;
+
+const SHELL_NAMES = new Set([
+  "sh",
+  "bash",
+  "zsh",
+  "fish",
+  "dash",
+  "ksh",
+  "tcsh",
+  "nu",
+  "cmd",
+  "powershell",
+  "pwsh",
+]);
+
+// Runtimes and package managers that sit between a shell and the server.
+const WRAPPER_NAMES = new Set([
+  "node",
+  "npm",
+  "npx",
+  "pnpm",
+  "pnpx",
+  "yarn",
+  "bun",
+  "bunx",
+  "deno",
+  "tsx",
+  "ts-node",
+  "nodemon",
+]);
+
+const SCRIPT_PATTERN =
+  /(?:^|[\s/\\])(npm|pnpm|yarn|bun)(?:\.cmd|\.exe|-cli\.js|\.c?js)?"?\s+(run(?:-script)?\s+)?([\w:.-]+)/i;
+const PACKAGE_MANAGER_COMMANDS = new Set([
+  "install",
+  "i",
+  "ci",
+  "add",
+  "exec",
+  "x",
+  "dlx",
+]);
+
+// "C:\\Program Files\\nodejs\\node.exe" -> "node". npm also retitles its
+// process to "npm run dev", which is what ps reports as the name.
+export function baseProcessName(name?: string): string {
+  const file = (name ?? "").split(/[\\/]/).pop() ?? "";
+  return file.trim().split(/\s+/)[0].toLowerCase().replace(/\.exe$/, "");
+}
+
+// `sh -c "vite"` is how package managers run scripts; a shell without -c is
+// somebody's terminal.
+function isScriptShell(row: ProcessRow): boolean {
+  return (
+    SHELL_NAMES.has(baseProcessName(row.name)) &&
+    /(?:^|\s)(?:-c|\/c|-command)(?:\s|$)/i.test(row.command ?? "")
+  );
+}
+
+function isWrapper(row: ProcessRow): boolean {
+  return WRAPPER_NAMES.has(baseProcessName(row.name)) || isScriptShell(row);
+}
+
+export function isInteractiveShell(row: ProcessRow): boolean {
+  return SHELL_NAMES.has(baseProcessName(row.name)) && !isScriptShell(row);
+}
+
+// "node /usr/lib/node_modules/npm/bin/npm-cli.js run dev" -> "npm run dev".
+export function parseScriptName(command?: string): string | undefined {
+  const match = SCRIPT_PATTERN.exec(command ?? "");
+  if (!match || PACKAGE_MANAGER_COMMANDS.has(match[3].toLowerCase())) {
+    return undefined;
+  }
+  return `${match[1].toLowerCase()} ${match[2] ? "run " : ""}${match[3]}`;
+}
+
+function childrenByParent(rows: readonly ProcessRow[]) {
+  const children = new Map<number, ProcessRow[]>();
+  for (const row of rows) {
+    if (row.parentPid === undefined || row.parentPid === row.pid) continue;
+    const list = children.get(row.parentPid) ?? [];
+    list.push(row);
+    children.set(row.parentPid, list);
+  }
+  return children;
+}
+
+function subtreePids(
+  root: number,
+  children: Map<number, ProcessRow[]>,
+  limit = Infinity,
+): number[] {
+  const seen = new Set([root]);
+  const queue = [root];
+  while (queue.length > 0 && seen.size < limit) {
+    for (const child of children.get(queue.shift()!) ?? []) {
+      if (seen.has(child.pid) || seen.size >= limit) continue;
+      seen.add(child.pid);
+      queue.push(child.pid);
+    }
+  }
+  return Array.from(seen);
+}
+
+// Climbs from the listening process through wrappers (npm, node, `sh -c`)
+// and stops below the first interactive shell. It also stops before a parent
+// that owns another server's socket, so `concurrently` or turbo running
+// several servers does not merge them into one tree.
+export function findServerRoot(
+  pid: number,
+  rows: readonly ProcessRow[],
+  otherServerPids: ReadonlySet<number> = new Set(),
+): number {
+  const byPid = new Map(rows.map((row) => [row.pid, row]));
+  const children = childrenByParent(rows);
+  let root = pid;
+  for (let depth = 0; depth < MAX_ANCESTOR_DEPTH; depth++) {
+    const parentPid = byPid.get(root)?.parentPid;
+    const parent = parentPid ? byPid.get(parentPid) : undefined;
+    if (!parent || parent.pid === root || !isWrapper(parent)) break;
+    const owned = subtreePids(parent.pid, children);
+    if (owned.some((other) => otherServerPids.has(other))) break;
+    root = parent.pid;
+  }
+  return root;
+}
+
+export function findLauncher(
+  root: number,
+  rows: readonly ProcessRow[],
+): ProcessLauncher {
+  const byPid = new Map(rows.map((row) => [row.pid, row]));
+  const launcher: ProcessLauncher = {};
+  const seen = new Set<number>();
+  let current: ProcessRow | undefined = byPid.get(root);
+  for (
+    let depth = 0;
+    current && !seen.has(current.pid) && depth < MAX_ANCESTOR_DEPTH;
+    depth++
+  ) {
+    seen.add(current.pid);
+    const script = parseScriptName(current.command);
+    if (script && !launcher.script) launcher.script = script;
+    if (current.pid !== root && isInteractiveShell(current)) {
+      launcher.shell = { pid: current.pid, name: current.name };
+      break;
+    }
+    current =
+      current.parentPid !== undefined ? byPid.get(current.parentPid) : undefined;
+  }
+  return launcher;
+}
+
+export function buildServerProcessTree(
+  listeningPid: number,
+  rows: readonly ProcessRow[],
+  options: {
+    otherServerPids?: ReadonlySet<number>;
+    listeningPids?: ReadonlySet<number>;
+  } = {},
+): ServerProcessTree {
+  const rootPid = findServerRoot(listeningPid, rows, options.otherServerPids);
+  const byPid = new Map(rows.map((row) => [row.pid, row]));
+  const children = childrenByParent(rows);
+  const pids = subtreePids(rootPid, children, MAX_TREE_PROCESSES);
+  const included = new Set(pids);
+  const listening = options.listeningPids ?? new Set([listeningPid]);
+
+  const build = (pid: number): ProcessTreeNode => {
+    const row = byPid.get(pid);
+    return {
+      pid,
+      name: row?.name,
+      command: row?.command,
+      listening: listening.has(pid),
+      children: (children.get(pid) ?? [])
+        .filter((child) => included.has(child.pid))
+        .sort((a, b) => a.pid - b.pid)
+        .map((child) => build(child.pid)),
+    };
+  };
+
+  return {
+    root: build(rootPid),
+    pids,
+    cpu: 0,
+    memory: 0,
+    launcher: findLauncher(rootPid, rows),
+  };
+}
+
+// Fills in per-process usage and the totals. Processes that exited between
+// the process listing and the usage sample are simply left blank.
+export function applyProcessUsage(
+  tree: ServerProcessTree,
+  usage: ReadonlyMap<number, ProcessUsage>,
+): ServerProcessTree {
+  let cpu = 0;
+  let memory = 0;
+  const fill = (node: ProcessTreeNode): ProcessTreeNode => {
+    const sample = usage.get(node.pid);
+    if (sample) {
+      cpu += sample.cpu;
+      memory += sample.memory;
+    }
+    return {
+      ...node,
+      cpu: sample?.cpu,
+      memory: sample?.memory,
+      children: node.children.map(fill),
+    };
+  };
+  const root = fill(tree.root);
+  return { ...tree, root, cpu, memory };
+}
@@ -0,0 +1,47 @@
+import os from "node:os";
+import path from "node:path";
+import {
+  exists,
+  findDotGit,
+  readJson,
+  stringField,
+  walkUp,
+} from "./fs-utils";
+
+// The project a server belongs to: the git toplevel above its cwd, or the
+// nearest directory with a package.json when it is not in a repository.
+export type ProjectRoot = {
+  root: string;
+  name: string; // package.json name at the root, else the directory name
+  source: "git" | "package";
+};
+
+async function packageName(dir: string): Promise<string | undefined> {
+  return stringField(await readJson(path.join(dir, "package.json")), "name");
+}
+
+export async function findProjectRoot(
+  cwd: string,
+  home = os.homedir(),
+): Promise<ProjectRoot | undefined> {
+  const git = await findDotGit(cwd, home);
+  if (git) {
+    return {
+      root: git.root,
+      name: (await packageName(git.root)) ?? path.basename(git.root),
+      source: "git",
+    };
+  }
+  const nearestPackage = await walkUp(
+    cwd,
+    async (dir) =>
+      (await exists(path.join(dir, "package.json"))) ? dir : undefined,
+    home,
+  );
+  if (!nearestPackage) return undefined;
+  return {
+    root: nearestPackage,
+    name: (await packageName(nearestPackage)) ?? path.basename(nearestPackage),
+    source: "package",
+  };
+}
@@ -0,0 +1,131 @@
+import path from "node:path";
+import type { ListenerProtocol } from "./server-detection";
+
+// A stable `<name>.localhost` hostname pointing at whichever port a project
+// or launch profile is listening on right now.
+export type ProxyRoute = {
+  name: string;
+  key: string; // ServerInfo.key of the target
+  host: string; // address the proxy connects to
+  port: number;
+  secure: boolean; // the target speaks TLS
+};
+
+// The scanner fields a route is built from.
+export type ProxyRouteSource = {
+  key: string;
+  port: number;
+  protocol: ListenerProtocol;
+  addresses?: string[];
+  url: string;
+  firstSeen: number;
+  cwd?: string;
+  profileName?: string;
+  container?: { name: string; composeService?: string };
+  workspacePackage?: { name: string };
+  project?: { name: string };
+};
+
+export const DEFAULT_PROXY_PORT = 1355;
+
+const MAX_LABEL_LENGTH = 63;
+
+export function validateProxyPort(value: unknown): number {
+  const port = typeof value === "string" ? Number(value.trim()) : value;
+  if (
+    typeof port !== "number" ||
+    !Number.isInteger(port) ||
+    port < 1 ||
+    port > 65535
+  ) {
+    throw new Error("Proxy port must be a whole number from 1 to 65535.");
+  }
+  return port;
+}
+
+// Lowercase DNS label: "@acme/Web App" -> "web-app".
+export function proxyLabel(value: string | undefined): string | undefined {
+  const label = value
+    ?.replace(/^@[^/]+\//, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_LABEL_LENGTH)
+    .replace(/-+$/, "");
+  return label || undefined;
+}
+
+// A launch profile names the server on purpose; otherwise the most specific
+// package or project that owns it.
+export function proxyName(server: ProxyRouteSource): string | undefined {
+  return (
+    proxyLabel(server.profileName) ??
+    proxyLabel(
+      server.container?.composeService ?? server.container?.name,
+    ) ??
+    proxyLabel(server.workspacePackage?.name) ??
+    proxyLabel(server.project?.name) ??
+    proxyLabel(server.cwd ? path.basename(server.cwd) : undefined)
+  );
+}
+
+export function proxyTarget(
+  server: Pick<ProxyRouteSource, "url" | "addresses" | "port">,
+): { host: string; port: number } {
+  const hostname = new URL(server.url).hostname.replace(/^\[|\]$/g, "");
+  // "localhost" may resolve to ::1 first while the server only listens on
+  // IPv4; buildListenerUrl only says localhost when IPv4 loopback works.
+  const host =
+    hostname === "localhost" && (server.addresses ?? []).length > 0
+      ? "127.0.0.1"
+      : hostname;
+  return { host, port: server.port };
+}
+
+// One route per TCP server. When several servers want the same name, a
+// launch profile wins, then the one that has been up longest; the others are
+// reachable as `<name>-<port>`.
+export function buildProxyRoutes(servers: ProxyRouteSource[]): ProxyRoute[] {
+  const candidates = servers
+    .filter((server) => server.protocol !== "udp")
+    .map((server) => ({ server, name: proxyName(server) }))
+    .filter((c): c is { server: ProxyRouteSource; name: string } => !!c.name)
+    .sort(
+      (a, b) =>
+        Number(!!b.server.profileName) - Number(!!a.server.profileName) ||
+        a.server.firstSeen - b.server.firstSeen ||
+        a.server.port - b.server.port,
+    );
+  const routes = new Map<string, ProxyRoute>();
+  for (const { server, name } of candidates) {
+    let routeName = name;
+    if (routes.has(routeName)) routeName = `${name}-${server.port}`;
+    if (routes.has(routeName)) continue;
+    routes.set(routeName, {
+      name: routeName,
+      key: server.key,
+      ...proxyTarget(server),
+      secure: server.url.startsWith("https:"),
+    });
+  }
+  return Array.from(routes.values()).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+}
+
+// "web.localhost:1355" -> "web". Any other host is not a proxy route.
+export function routeNameFromHost(
+  hostHeader: string | undefined,
+): string | undefined {
+  const hostname = hostHeader
+    ?.trim()
+    .toLowerCase()
+    .replace(/:\d+$/, "")
+    .replace(/\.$/, "");
+  const match = hostname && /^([a-z0-9-]+)\.localhost$/.exec(hostname);
+  return match ? match[1] : undefined;
+}
+
+export function proxyUrl(name: string, port: number): string {
+  return `http://${name}.localhost${port === 80 ? "" : `:${port}`}`;
+}
@@ -0,0 +1,102 @@
+// Auto-restart bookkeeping for one launch profile, kept from the last time
+// it was started by hand. Restarts back off exponentially, are capped per
+// window, and stop for good once the server keeps dying right after start.
+export type RestartStatus = {
+  count: number; // automatic restarts so far
+  recent: number[]; // restart times inside RESTART_WINDOW_MS
+  quickExits: number; // runs in a row that died within QUICK_EXIT_MS
+  lastExitReason?: string;
+  lastExitAt?: number;
+  nextRestartAt?: number; // set while a restart is waiting for its delay
+  gaveUp?: RestartGiveUpReason;
+};
+
+export type RestartGiveUpReason = "crash-loop" | "limit" | "start-failed";
+
+// The parts of a finished run the policy looks at.
+export type RestartExit = {
+  startedAt: number;
+  exitedAt?: number;
+  exitCode?: number | null;
+  signal?: string | null;
+  error?: string;
+};
+
+export const RESTART_BASE_DELAY_MS = 1_000;
+export const RESTART_MAX_DELAY_MS = 30_000;
+export const RESTART_WINDOW_MS = 10 * 60_000;
+export const MAX_RESTARTS_PER_WINDOW = 5;
+export const QUICK_EXIT_MS = 10_000;
+export const CRASH_LOOP_EXITS = 3;
+
+export function describeExit(exit: RestartExit): string {
+  if (exit.error) return exit.error;
+  if (exit.exitCode === null || exit.exitCode === undefined) {
+    return `Terminated by ${exit.signal ?? "signal"}`;
+  }
+  return `Exited with code ${exit.exitCode}`;
+}
+
+export function describeGiveUp(reason: RestartGiveUpReason): string {
+  switch (reason) {
+    case "crash-loop":
+      return (
+        `it exited within ${QUICK_EXIT_MS / 1000}s of starting ` +
+        `${CRASH_LOOP_EXITS} times in a row`
+      );
+    case "limit":
+      return (
+        `it was restarted ${MAX_RESTARTS_PER_WINDOW} times in ` +
+        `${RESTART_WINDOW_MS / 60_000} minutes`
+      );
+    case "start-failed":
+      return "it could not be started again";
+  }
+}
+
+// Decides what follows an exit nobody asked for: a restart after a delay
+// (nextRestartAt) or giving up (gaveUp).
+export function planRestart(
+  previous: RestartStatus | undefined,
+  exit: RestartExit,
+  now: number,
+): RestartStatus {
+  const exitedAt = exit.exitedAt ?? now;
+  const quickExits =
+    exitedAt - exit.startedAt < QUICK_EXIT_MS
+      ? (previous?.quickExits ?? 0) + 1
+      : 0;
+  const recent = (previous?.recent ?? []).filter(
+    (time) => now - time < RESTART_WINDOW_MS,
+  );
+  const status: RestartStatus = {
+    count: previous?.count ?? 0,
+    recent,
+    quickExits,
+    lastExitReason: describeExit(exit),
+    lastExitAt: exitedAt,
+  };
+  if (quickExits >= CRASH_LOOP_EXITS) {
+    return { ...status, gaveUp: "crash-loop" };
+  }
+  if (recent.length >= MAX_RESTARTS_PER_WINDOW) {
+    return { ...status, gaveUp: "limit" };
+  }
+  const delayMs = Math.min(
+    RESTART_MAX_DELAY_MS,
+    RESTART_BASE_DELAY_MS * 2 ** recent.length,
+  );
+  return { ...status, nextRestartAt: now + delayMs };
+}
+
+export function recordRestart(
+  status: RestartStatus,
+  now: number,
+): RestartStatus {
+  return {
+    ...status,
+    count: status.count + 1,
+    recent: [...status.recent, now],
+    nextRestartAt: undefined,
+  };
+}
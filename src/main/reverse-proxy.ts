@@ -0,0 +1,261 @@
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+import tls from "node:tls";
+import { proxyUrl, routeNameFromHost, type ProxyRoute } from "./proxy-routes";
+
+// Loopback only: *.localhost resolves to 127.0.0.1 and ::1, and nothing on
+// the network should reach the developer's servers through the dashboard.
+const LISTEN_HOSTS = ["127.0.0.1", "::1"];
+
+// Per-connection headers that must not be forwarded as-is.
+const HOP_BY_HOP = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-connection",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "upgrade",
+]);
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => HTML_ENTITIES[c]);
+}
+
+export function forwardedFor(
+  req: http.IncomingMessage,
+): Record<string, string> {
+  return {
+    "x-forwarded-for": req.socket.remoteAddress ?? "127.0.0.1",
+    "x-forwarded-host": req.headers.host ?? "",
+    "x-forwarded-proto": "http",
+  };
+}
+
+export function withoutHopByHop(
+  headers: http.IncomingHttpHeaders,
+): http.OutgoingHttpHeaders {
+  const out: http.OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined && !HOP_BY_HOP.has(name)) out[name] = value;
+  }
+  return out;
+}
+
+// The request line and headers of an upgrade request, replayed to the
+// target verbatim (Host included, so dev servers build the right HMR URLs).
+export function upgradeRequestHead(req: http.IncomingMessage): string {
+  const lines = [`${req.method} ${req.url} HTTP/1.1`];
+  for (let i = 0; i < req.rawHeaders.length; i += 2) {
+    lines.push(`${req.rawHeaders[i]}: ${req.rawHeaders[i + 1]}`);
+  }
+  for (const [name, value] of Object.entries(forwardedFor(req))) {
+    lines.push(`${name}: ${value}`);
+  }
+  return lines.join("\r\n") + "\r\n\r\n";
+}
+
+// Forwards `<name>.localhost:<port>` to the server currently behind that
+// name, including WebSocket upgrades so dev-server HMR keeps working.
+export class ReverseProxy {
+  private servers: http.Server[] = [];
+  private sockets = new Set<net.Socket>();
+  private routes = new Map<string, ProxyRoute>();
+  private port?: number;
+
+  get listeningPort(): number | undefined {
+    return this.port;
+  }
+
+  // Port 0 picks a free port, shared by the IPv4 and IPv6 listeners.
+  async start(port: number): Promise<void> {
+    if (this.port === port) return;
+    await this.stop();
+    const servers: http.Server[] = [];
+    try {
+      for (const host of LISTEN_HOSTS) {
+        const server = this.createServer();
+        try {
+          await listenServer(server, port, host);
+          port = (server.address() as net.AddressInfo).port;
+          servers.push(server);
+        } catch (err) {
+          // ::1 is missing when IPv6 is disabled; IPv4 is required.
+          if (host === LISTEN_HOSTS[0] || !isAddressUnavailable(err)) throw err;
+        }
+      }
+    } catch (err) {
+      await Promise.all(servers.map(closeServer));
+      throw err;
+    }
+    this.servers = servers;
+    this.port = port;
+  }
+
+  async stop(): Promise<void> {
+    const servers = this.servers;
+    this.servers = [];
+    this.port = undefined;
+    for (const socket of this.sockets) socket.destroy();
+    this.sockets.clear();
+    await Promise.all(servers.map(closeServer));
+  }
+
+  // Replaces the route table and returns the friendly URL of each routed
+  // server key; empty while the proxy is not listening.
+  setRoutes(routes: ProxyRoute[]): Map<string, string> {
+    this.routes = new Map(routes.map((route) => [route.name, route]));
+    const urls = new Map<string, string>();
+    if (this.port === undefined) return urls;
+    for (const route of routes) {
+      urls.set(route.key, proxyUrl(route.name, this.port));
+    }
+    return urls;
+  }
+
+  private createServer(): http.Server {
+    const server = http.createServer((req, res) => this.forward(req, res));
+    server.on("upgrade", (req, socket, head) =>
+      this.forwardUpgrade(req, socket as net.Socket, head),
+    );
+    server.on("connection", (socket) => {
+      this.sockets.add(socket);
+      socket.on("close", () => this.sockets.delete(socket));
+    });
+    return server;
+  }
+
+  private lookup(req: http.IncomingMessage): ProxyRoute | undefined {
+    const name = routeNameFromHost(req.headers.host);
+    return name ? this.routes.get(name) : undefined;
+  }
+
+  private forward(req: http.IncomingMessage, res: http.ServerResponse) {
+    const route = this.lookup(req);
+    if (!route) {
+      res.writeHead(404, { "content-type": "text/html; charset=utf-8" });
+      res.end(this.notFoundPage(req.headers.host));
+      return;
+    }
+    const upstream = (route.secure ? https : http).request(
+      {
+        host: route.host,
+        port: route.port,
+        method: req.method,
+        path: req.url,
+        headers: { ...withoutHopByHop(req.headers), ...forwardedFor(req) },
+        // Dev servers use self-signed certificates.
+        rejectUnauthorized: false,
+      },
+      (upstreamRes) => {
+        res.writeHead(
+          upstreamRes.statusCode ?? 502,
+          upstreamRes.statusMessage,
+          withoutHopByHop(upstreamRes.headers),
+        );
+        upstreamRes.pipe(res);
+      },
+    );
+    upstream.on("error", (err) => {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.writeHead(502, { "content-type": "text/plain; charset=utf-8" });
+      res.end(
+        `${route.name}.localhost could not reach ${route.host}:${route.port} (${err.message})`,
+      );
+    });
+    req.pipe(upstream);
+  }
+
+  private forwardUpgrade(
+    req: http.IncomingMessage,
+    socket: net.Socket,
+    head: Buffer,
+  ) {
+    const route = this.lookup(req);
+    if (!route) {
+      socket.end("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+      return;
+    }
+    const upstream = route.secure
+      ? tls.connect({
+          host: route.host,
+          port: route.port,
+          rejectUnauthorized: false,
+        })
+      : net.connect({ host: route.host, port: route.port });
+    let connected = false;
+    const closeBoth = () => {
+      socket.destroy();
+      upstream.destroy();
+    };
+    upstream.once(route.secure ? "secureConnect" : "connect", () => {
+      connected = true;
+      upstream.write(upgradeRequestHead(req));
+      if (head.length > 0) upstream.write(head);
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    upstream.on("error", () => {
+      if (!connected) {
+        socket.end("HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n");
+      }
+      upstream.destroy();
+    });
+    upstream.on("close", () => {
+      if (connected) socket.destroy();
+    });
+    socket.on("error", closeBoth);
+    socket.on("close", () => upstream.destroy());
+  }
+
+  private notFoundPage(host: string | undefined): string {
+    const items = Array.from(this.routes.values())
+      .map((route) => {
+        const url = escapeHtml(proxyUrl(route.name, this.port ?? 80));
+        return `<li><a href="${url}">${url}</a> → ${escapeHtml(
+          `${route.host}:${route.port}`,
+        )}</li>`;
+      })
+      .join("");
+    return [
+      "<!doctype html><title>No server</title>",
+      `<p>No running server is named <b>${escapeHtml(host ?? "")}</b>.</p>`,
+      items ? `<ul>${items}</ul>` : "<p>No servers are running.</p>",
+    ].join("\n");
+  }
+}
+
+export function listenServer(
+  server: http.Server,
+  port: number,
+  host: string,
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+}
+
+export function closeServer(server: http.Server): Promise<void> {
+  return new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+function isAddressUnavailable(err: unknown): boolean {
+  const code = (err as NodeJS.ErrnoException)?.code;
+  return code === "EADDRNOTAVAIL" || code === "EAFNOSUPPORT";
+}
@@ -0,0 +1,54 @@
+// How often the scanner runs. The configured interval applies while the
+// dashboard is on screen and on AC power; hidden or on battery it backs off,
+// and right after a server starts or stops it briefly speeds up so follow-up
+// changes (a restart, a second port) show without waiting a full interval.
+export type ScanConditions = {
+  windowVisible: boolean;
+  onBattery: boolean;
+};
+
+export const HIDDEN_SLOWDOWN = 3;
+export const BATTERY_SLOWDOWN = 2;
+export const MAX_BACKOFF_INTERVAL_MS = 60_000;
+export const BURST_INTERVAL_MS = 1000;
+export const BURST_DURATION_MS = 10_000;
+
+export function nextScanDelay(
+  baseMs: number,
+  conditions: ScanConditions,
+  burstUntil: number,
+  now: number,
+): number {
+  if (now < burstUntil) return Math.min(baseMs, BURST_INTERVAL_MS);
+  let factor = 1;
+  if (!conditions.windowVisible) factor *= HIDDEN_SLOWDOWN;
+  if (conditions.onBattery) factor *= BATTERY_SLOWDOWN;
+  if (factor === 1) return baseMs;
+  return Math.max(baseMs, Math.min(baseMs * factor, MAX_BACKOFF_INTERVAL_MS));
+}
+
+export type ListenerSnapshotEntry = {
+  pid: number;
+  localPort: number;
+  protocol: string;
+  addresses: string[];
+};
+
+// A listener snapshot as a set of "pid/port/protocol/addresses" strings, so
+// two sweeps can be compared without looking at processes.
+export function listenerSnapshot(
+  listeners: ListenerSnapshotEntry[],
+): Set<string> {
+  return new Set(
+    listeners.map((l) => {
+      const addresses = [...l.addresses].sort().join(",");
+      return `${l.pid}/${l.localPort}/${l.protocol}/${addresses}`;
+    }),
+  );
+}
+
+export function snapshotsEqual(a: Set<string>, b: Set<string>): boolean {
+  if (a.size !== b.size) return false;
+  for (const entry of a) if (!b.has(entry)) return false;
+  return true;
+}
@@ -5,19 +5,84 @@ import { settings } from "./settings";
 import { exec, execFile } from "node:child_process";
 import { promisify } from "node:util";
 import {
+  addressFamily,
+  buildListenerUrl,
+  classifyBindExposure,
+  listenerKey,
+  normalizeBindAddress,
+  normalizeListenerProtocol,
   parseLsofListeningOutput,
+  parseNetstatTcpOutput,
+  parseNetstatUdpOutput,
   parseNumericPid,
   parseNumericPort,
   shouldIgnoreListener,
+  type AddressFamily,
+  type BindExposure,
+  type ListenerProtocol,
+  type ParsedListener,
 } from "./server-detection";
+import { findLaunchedAncestor } from "./launch-profiles";
+import { buildProcessChain, type PortOwner } from "./port-owners";
+import {
+  applyProcessUsage,
+  buildServerProcessTree,
+  type ProcessRow,
+  type ProcessUsage,
+  type ServerProcessTree,
+} from "./process-tree";
+import { detectTls, type TlsCertificate } from "./tls-detection";
+import type { ContainerPort, ContainerPortSource } from "./container-engine";
+import { findProjectRoot, type ProjectRoot } from "./project-root";
+import { readGitStatus, type GitStatus } from "./git-status";
+import {
+  listenerSnapshot,
+  nextScanDelay,
+  snapshotsEqual,
+  BURST_DURATION_MS,
+  type ScanConditions,
+} from "./scan-schedule";
+import {
+  createProcessMetadataProvider,
+  type ProcessMetadata,
+} from "./process-metadata";
+import { buildProxyRoutes } from "./proxy-routes";
+import type { ReverseProxy } from "./reverse-proxy";
+import {
+  resolveWorkspacePackage,
+  type WorkspacePackage,
+} from "./workspace-packages";
+import {
+  detectTunnel,
+  fetchTunnelPublicUrl,
+  hasPublicUrlApi,
+  type TunnelInfo,
+} from "./tunnels";
+import {
+  isWslRelayFor,
+  wslPortOwner,
+  wslUncPath,
+  type WslListener,
+  type WslListenerSource,
+} from "./wsl";
+import {
+  detectFramework,
+  readProjectManifests,
+  type FrameworkDetection,
+  type ProjectManifests,
+  type ServerHeaders,
+} from "./framework-detection";
 const execAsync = promisify(exec);
 const execFileAsync = promisify(execFile);
 
 export type ServerInfo = {
-  key: string; // pid:port
+  key: string; // pid:port, or pid:port/udp for UDP; wsl/<distro>/pid:port in WSL
   pid: number;
   port: number;
-  protocol: "tcp" | "udp";
+  protocol: ListenerProtocol;
+  addresses: string[]; // local addresses the socket is bound to
+  family?: AddressFamily;
+  exposure?: BindExposure;
   processName?: string;
   command?: string;
   path?: string;
@@ -25,15 +90,36 @@ export type ServerInfo = {
   firstSeen: number;
   lastSeen: number;
   url: string;
-  cpu?: number;
+  tls?: TlsCertificate; // present when the listener answered a TLS handshake
+  cpu?: number; // summed over processTree
   memory?: number;
-  framework?: string;
+  processTree?: ServerProcessTree;
+  framework?: string; // frameworkInfo.name, kept for probes and grouping
+  frameworkInfo?: FrameworkDetection;
   cpuHistory?: number[]; // Last 6 CPU readings for sparkline
   memoryHistory?: number[]; // Last 6 memory readings for sparkline
+  profileId?: string; // Launch profile that started this server, if any
+  profileName?: string;
+  container?: ContainerPort; // Docker/Podman container publishing this port
+  wslDistro?: string; // WSL2 distro the listener runs in; pid is then a Linux PID
+  tunnel?: TunnelInfo; // ssh/kubectl/cloudflared/ngrok forwarder owning the port
+  project?: ProjectRoot; // git toplevel or package.json dir above cwd
+  workspacePackage?: WorkspacePackage; // monorepo package owning the server
+  git?: GitStatus; // branch and working tree state of the cwd
+  proxyUrl?: string; // http://<name>.localhost:<port> while the proxy runs
+};
+
+export type LaunchedProcessRef = {
+  profileId: string;
+  profileName: string;
 };
 
 function inConfiguredPorts(port: number): boolean {
-  if (settings.get("scanAllPorts")) return true;
+  return settings.get("scanAllPorts") || inPortList(port);
+}
+
+// The ports named in settings, whether or not all ports are scanned.
+function inPortList(port: number): boolean {
   const ports = settings.get("ports");
   for (const p of ports) {
     if (Array.isArray(p)) {
@@ -43,75 +129,160 @@ function inConfiguredPorts(port: number): boolean {
   return false;
 }
 
-function guessFramework(cmd?: string, name?: string): string | undefined {
-  const s = `${cmd ?? ""} ${name ?? ""}`.toLowerCase();
-  if (s.includes("vite")) return "Vite";
-  if (s.includes("next")) return "Next.js";
-  if (s.includes("nuxt")) return "Nuxt";
-  if (s.includes("remix")) return "Remix";
-  if (s.includes("astro")) return "Astro";
-  if (s.includes("angular") || s.includes("ng ")) return "Angular";
-  if (s.includes("react-scripts")) return "CRA";
-  if (s.includes("webpack-dev-server")) return "Webpack Dev Server";
-  if (s.includes("uvicorn")) return "Uvicorn";
-  if (s.includes("gunicorn")) return "Gunicorn";
-  if (s.includes("django")) return "Django";
-  if (s.includes("rails")) return "Rails";
-  if (s.includes("dotnet")) return ".NET";
-  if (s.includes("php")) return "PHP";
-  if (s.includes("deno")) return "Deno";
-  if (s.includes("go ") || s.includes("go.exe")) return "Go";
-  if (s.includes("autohotkey")) return "AutoHotkey";
-  return undefined;
+// Project manifests change rarely; re-reading them every scan would be
+// wasted disk I/O.
+const MANIFEST_CACHE_TTL = 60_000;
+
+// Drops entries past the TTL before adding one, so caches keyed by cwd or by
+// command line don't grow for as long as the app runs.
+function pruneExpired(cache: Map<string, { time: number }>, now: number) {
+  for (const [key, entry] of cache) {
+    if (now - entry.time >= MANIFEST_CACHE_TTL) cache.delete(key);
+  }
+}
+const manifestCache = new Map<
+  string,
+  { manifests: Promise<ProjectManifests>; time: number }
+>();
+
+function projectManifests(cwd: string): Promise<ProjectManifests> {
+  const cached = manifestCache.get(cwd);
+  if (cached && Date.now() - cached.time < MANIFEST_CACHE_TTL) {
+    return cached.manifests;
+  }
+  const manifests = readProjectManifests(cwd);
+  pruneExpired(manifestCache, Date.now());
+  manifestCache.set(cwd, { manifests, time: Date.now() });
+  return manifests;
 }
 
-// Cache for CWD lookups - keyed by PID
-const cwdCache = new Map<number, { cwd: string | null; time: number }>();
-const CWD_CACHE_TTL = 30000; // 30 seconds
+// Project roots are looked up per cwd on the same schedule as manifests.
+const projectRootCache = new Map<
+  string,
+  { project: Promise<ProjectRoot | undefined>; time: number }
+>();
 
-async function getProcessCwd(pid: number): Promise<string | null> {
-  // Check cache first
-  const cached = cwdCache.get(pid);
-  if (cached && Date.now() - cached.time < CWD_CACHE_TTL) {
-    return cached.cwd;
+function projectRoot(cwd: string): Promise<ProjectRoot | undefined> {
+  const cached = projectRootCache.get(cwd);
+  if (cached && Date.now() - cached.time < MANIFEST_CACHE_TTL) {
+    return cached.project;
   }
+  const project = findProjectRoot(cwd);
+  pruneExpired(projectRootCache, Date.now());
+  projectRootCache.set(cwd, { project, time: Date.now() });
+  return project;
+}
 
-  let cwd: string | null = null;
+// Workspace packages depend on the launchers' command lines as well as the
+// cwd, so those are part of the key.
+const workspacePackageCache = new Map<
+  string,
+  { pkg: Promise<WorkspacePackage | undefined>; time: number }
+>();
 
-  try {
-    if (process.platform === "win32") {
-      // Use wmic to get current directory on Windows
-      const { stdout } = await execAsync(
-        `wmic process where processid=${pid} get CommandLine /format:list`,
-        { timeout: 3000 }
-      );
-      // Try to extract project path from command line
-      // Look for paths containing common project indicators
-      const cmdLine = stdout.replace(/\r?\n/g, " ").trim();
-      cwd = extractProjectPath(cmdLine);
-    } else if (process.platform === "darwin") {
-      const { stdout } = await execFileAsync(
-        "/usr/sbin/lsof",
-        ["-a", "-p", String(pid), "-d", "cwd", "-Fn"],
-        { timeout: 3000 }
-      );
-      const cwdLine = stdout
-        .split(/\r?\n/)
-        .find((line) => line.startsWith("n/"));
-      cwd = cwdLine ? cwdLine.slice(1).trim() : null;
-    } else {
-      const { stdout } = await execFileAsync("readlink", [`/proc/${pid}/cwd`], {
-        timeout: 3000,
-      });
-      cwd = stdout.trim() || null;
-    }
-  } catch {
-    // Process may have exited or we don't have permissions
+function workspacePackage(
+  cwd: string,
+  commandLines: string[],
+): Promise<WorkspacePackage | undefined> {
+  const key = [cwd, ...commandLines].join("\n");
+  const cached = workspacePackageCache.get(key);
+  if (cached && Date.now() - cached.time < MANIFEST_CACHE_TTL) {
+    return cached.pkg;
   }
+  const pkg = resolveWorkspacePackage(cwd, commandLines);
+  pruneExpired(workspacePackageCache, Date.now());
+  workspacePackageCache.set(key, { pkg, time: Date.now() });
+  return pkg;
+}
+
+function commandLine(p?: si.Systeminformation.ProcessesProcessData) {
+  return [p?.command, p?.params].filter(Boolean).join(" ");
+}
+
+// The process's own command line, then those of the scripts and runners that
+// started it (npm, pnpm --filter, turbo, nx), nearest first.
+function launcherCommandLines(
+  pid: number,
+  byPid: Map<number, si.Systeminformation.ProcessesProcessData>,
+): string[] {
+  const lines: string[] = [];
+  const seen = new Set<number>();
+  for (
+    let p = byPid.get(pid);
+    p && !seen.has(p.pid) && lines.length < 8;
+    p = byPid.get(p.parentPid)
+  ) {
+    seen.add(p.pid);
+    lines.push(commandLine(p));
+  }
+  return lines;
+}
 
-  // Cache the result
-  cwdCache.set(pid, { cwd, time: Date.now() });
-  return cwd;
+// Listeners are sniffed for TLS when first seen and again after this long, so
+// a renewed certificate eventually replaces the old expiry date.
+const TLS_RECHECK_MS = 10 * 60 * 1000;
+// Ports HTTPS servers commonly use, for listeners nothing else marks as HTTP.
+const HTTPS_LIKE_PORTS = new Set([443, 3000, 4443, 5001, 8000, 8080, 8443]);
+
+// A ClientHello makes databases and other non-HTTP services log handshake
+// errors, so only listeners that may be web servers are sniffed: ports named
+// in settings, detected frameworks and launched servers, and common HTTPS
+// ports. Forwards to a known remote service never are.
+function mightSpeakTls(rec: ServerInfo): boolean {
+  if (rec.tunnel?.remote) return false;
+  if (inPortList(rec.port) || rec.framework || rec.profileId) return true;
+  return (
+    HTTPS_LIKE_PORTS.has(rec.port) ||
+    (rec.container !== undefined &&
+      HTTPS_LIKE_PORTS.has(rec.container.containerPort))
+  );
+}
+
+// Quick tunnels get a new public URL each time they start, so it is asked
+// for again every minute.
+const TUNNEL_URL_RECHECK_MS = 60_000;
+
+// Between listener changes the process list from the last sweep is reused;
+// it is refreshed this often so new workers join their server's tree.
+const PROCESS_LIST_REFRESH_MS = 30_000;
+
+// Enrichment (cwd, framework, project, tunnel) runs for new listeners and is
+// then repeated this often, or sooner when the server's headers change.
+const ENRICH_REFRESH_MS = 60_000;
+
+// git status walks the working tree, so it runs far less often than the port
+// scan and never holds it up.
+const GIT_STATUS_RECHECK_MS = 30_000;
+
+// Process metadata (working directory, full command line) is fetched in one
+// batch per scan for PIDs not looked up in the last 30 seconds.
+const processMetadata = createProcessMetadataProvider();
+const metadataCache = new Map<
+  number,
+  { metadata?: ProcessMetadata; time: number }
+>();
+const METADATA_CACHE_TTL = 30000;
+
+async function prefetchProcessMetadata(pids: number[]): Promise<void> {
+  const now = Date.now();
+  const due = pids.filter((pid) => {
+    const cached = metadataCache.get(pid);
+    return !cached || now - cached.time >= METADATA_CACHE_TTL;
+  });
+  if (due.length === 0) return;
+  const found = await processMetadata.read(due);
+  for (const pid of due) {
+    metadataCache.set(pid, { metadata: found.get(pid), time: now });
+  }
+}
+
+// Where the OS won't say (another user's process, 32-bit processes on
+// Windows), a project path is guessed from the full command line instead.
+async function getProcessCwd(pid: number): Promise<string | null> {
+  await prefetchProcessMetadata([pid]);
+  const metadata = metadataCache.get(pid)?.metadata;
+  if (metadata?.cwd) return metadata.cwd;
+  return metadata?.commandLine ? extractProjectPath(metadata.commandLine) : null;
 }
 
 function extractProjectPath(cmdLine: string): string | null {
@@ -155,10 +326,43 @@ export class Scanner extends EventEmitter {
   private timer?: NodeJS.Timeout;
   private items = new Map<string, ServerInfo>();
   private lastSnapshot = new Set<string>();
+  private launched = new Map<number, LaunchedProcessRef>();
+  private tlsCheckedAt = new Map<string, number>();
+  private serverHeaders = new Map<string, ServerHeaders>();
+  private tunnelUrls = new Map<
+    string,
+    { url?: string; checkedAt: number; pending?: boolean }
+  >();
+  private gitStatuses = new Map<
+    string,
+    { status?: GitStatus; checkedAt: number; pending?: boolean }
+  >();
+  private containers?: ContainerPortSource;
+  private wsl?: WslListenerSource;
+  private proxy?: ReverseProxy;
+  private generation = 0;
+  private conditions: ScanConditions = {
+    windowVisible: true,
+    onBattery: false,
+  };
+  private burstUntil = 0;
+  private running?: Promise<void>;
+  private queued?: Promise<void>;
+  private lastListeners = new Set<string>();
+  private processList?: {
+    list: si.Systeminformation.ProcessesProcessData[];
+    time: number;
+  };
+  private enrichedAt = new Map<string, number>();
 
+  // Windows-side PIDs only; WSL listeners have Linux PIDs.
   getAllPids(): number[] {
     return Array.from(
-      new Set(Array.from(this.items.values()).map((r) => r.pid))
+      new Set(
+        Array.from(this.items.values())
+          .filter((r) => !r.wslDistro)
+          .map((r) => r.pid),
+      )
     );
   }
 
@@ -166,19 +370,188 @@ export class Scanner extends EventEmitter {
     return Array.from(this.items.values());
   }
 
+  // Root PIDs spawned by the process supervisor, keyed by PID.
+  setLaunchedProcesses(launched: Map<number, LaunchedProcessRef>) {
+    this.launched = launched;
+  }
+
+  // Published container ports are matched to listeners by host port, since
+  // the listening process is only the engine's proxy.
+  setContainerSource(source: ContainerPortSource) {
+    this.containers = source;
+  }
+
+  // Listeners inside running WSL2 distros, which netstat only shows as
+  // wslrelay.exe (or not at all).
+  setWslSource(source: WslListenerSource) {
+    this.wsl = source;
+  }
+
+  // The optional *.localhost proxy is re-pointed after every sweep.
+  setReverseProxy(proxy: ReverseProxy) {
+    this.proxy = proxy;
+  }
+
+  // Identifying headers from the health checker's last response; they are
+  // used from the next scan on.
+  setServerHeaders(key: string, headers: ServerHeaders | undefined) {
+    const previous = this.serverHeaders.get(key);
+    if (headers && this.items.has(key)) this.serverHeaders.set(key, headers);
+    else this.serverHeaders.delete(key);
+    if (
+      previous?.poweredBy !== headers?.poweredBy ||
+      previous?.server !== headers?.server
+    ) {
+      this.enrichedAt.delete(key);
+    }
+  }
+
+  // A hidden dashboard and battery power both slow the scan down; showing
+  // the window scans right away so it never opens on stale cards.
+  setWindowVisible(visible: boolean) {
+    const wasVisible = this.conditions.windowVisible;
+    this.conditions.windowVisible = visible;
+    if (visible && !wasVisible) this.rescheduleNow();
+  }
+
+  setOnBattery(onBattery: boolean) {
+    this.conditions.onBattery = onBattery;
+  }
+
+  // Answers "who owns this port?" for ports outside the regular scan too, so
+  // an EADDRINUSE on an unconfigured port can still be traced.
+  async resolvePorts(ports: number[]): Promise<PortOwner[]> {
+    const wanted = new Set(ports);
+    const listening = (await getListening()).filter((c) =>
+      wanted.has(c.localPort),
+    );
+    const wslListeners = ((await this.wsl?.listListeners()) ?? []).filter(
+      (listener) => wanted.has(listener.port),
+    );
+    if (listening.length === 0 && wslListeners.length === 0) return [];
+
+    const procData = await si.processes();
+    const byPid = new Map<
+      number,
+      si.Systeminformation.ProcessesProcessData
+    >();
+    procData.list.forEach((p) => byPid.set(p.pid, p));
+    const launchedPids = new Set(this.launched.keys());
+
+    await prefetchProcessMetadata(listening.map((c) => c.pid));
+    const owners: PortOwner[] = [];
+    for (const c of listening) {
+      const p = byPid.get(c.pid);
+      // Freeing the port means stopping the Linux server, not the relay.
+      if (isWslRelayFor(p?.name, c.localPort, c.protocol, wslListeners)) {
+        continue;
+      }
+      const launchedRoot = findLaunchedAncestor(
+        c.pid,
+        (pid) => byPid.get(pid)?.parentPid,
+        launchedPids,
+      );
+      const launched = launchedRoot
+        ? this.launched.get(launchedRoot)
+        : undefined;
+      const cwd =
+        (await getProcessCwd(c.pid)) ??
+        extractProjectPath(p?.command || "") ??
+        undefined;
+      owners.push({
+        port: c.localPort,
+        pid: c.pid,
+        protocol: c.protocol,
+        addresses: [...c.addresses].sort(),
+        processName: p?.name,
+        command: p?.command,
+        cwd,
+        framework: detectFramework({
+          manifests: cwd ? await projectManifests(cwd) : undefined,
+          command: commandLine(p),
+          processName: p?.name,
+        })?.name,
+        tree: buildProcessChain(c.pid, (pid) => {
+          const proc = byPid.get(pid);
+          return proc
+            ? {
+                pid,
+                name: proc.name,
+                command: proc.command,
+                parentPid: proc.parentPid,
+              }
+            : undefined;
+        }),
+        profileId: launched?.profileId,
+        profileName: launched?.profileName,
+      });
+    }
+    for (const listener of wslListeners) {
+      const owner = wslPortOwner(listener);
+      owner.framework = detectFramework({
+        manifests: owner.cwd ? await projectManifests(owner.cwd) : undefined,
+        command: listener.command,
+        processName: listener.processName,
+      })?.name;
+      owners.push(owner);
+    }
+    return owners.sort((a, b) => a.port - b.port || a.pid - b.pid);
+  }
+
+  // Each scan schedules the next one when it finishes, so a slow sweep never
+  // overlaps the next and the interval can change between sweeps.
   start() {
-    const interval = settings.get("scanIntervalMs");
     this.stop();
-    this.scan();
-    this.timer = setInterval(() => this.scan(), interval);
+    void this.tick(this.generation);
   }
 
   stop() {
-    if (this.timer) clearInterval(this.timer);
+    this.generation++;
+    if (this.timer) clearTimeout(this.timer);
     this.timer = undefined;
   }
 
-  async scan() {
+  private async tick(generation: number) {
+    await this.scan();
+    if (generation !== this.generation) return;
+    this.timer = setTimeout(
+      () => void this.tick(generation),
+      nextScanDelay(
+        settings.get("scanIntervalMs"),
+        this.conditions,
+        this.burstUntil,
+        Date.now(),
+      ),
+    );
+  }
+
+  private rescheduleNow() {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    void this.tick(this.generation);
+  }
+
+  // Scans asked for while one is running (after a kill, say) are merged into
+  // a single follow-up sweep that starts when the current one ends.
+  scan(): Promise<void> {
+    if (!this.running) {
+      this.running = this.sweep().finally(() => {
+        this.running = undefined;
+      });
+      return this.running;
+    }
+    this.queued ??= this.running.then(() => {
+      this.queued = undefined;
+      return this.scan();
+    });
+    return this.queued;
+  }
+
+  // The listener table is cheap to read and is diffed against the previous
+  // sweep; the process list is only re-read when it changed (or has aged),
+  // and only new or outdated listeners are enriched.
+  private async sweep() {
     try {
       const now = Date.now();
       const listening = await getListening();
@@ -186,30 +559,37 @@ export class Scanner extends EventEmitter {
         (c) =>
           typeof c.localPort === "number" && inConfiguredPorts(c.localPort!)
       );
+      const snapshot = listenerSnapshot(interested);
+      const listenersChanged = !snapshotsEqual(snapshot, this.lastListeners);
+      this.lastListeners = snapshot;
+
+      const wslListeners = ((await this.wsl?.listListeners(now)) ?? []).filter(
+        (listener) => inConfiguredPorts(listener.port),
+      );
+      const processList = await this.listProcesses(now, listenersChanged);
+      const byPid = new Map<
+        number,
+        si.Systeminformation.ProcessesProcessData
+      >();
+      processList.forEach((p) => byPid.set(p.pid, p));
 
       const keys = new Set<string>();
       for (const c of interested) {
         const pid = c.pid ?? 0;
         const port = c.localPort ?? 0;
         if (!pid || !port) continue;
-        const key = `${pid}:${port}`;
-        keys.add(key);
-        let rec = this.items.get(key);
-        if (!rec) {
-          rec = {
-            key,
-            pid,
-            port,
-            protocol: (c.protocol?.toLowerCase() as "tcp") || "tcp",
-            firstSeen: now,
-            lastSeen: now,
-            url: `http://localhost:${port}`,
-          };
-          this.items.set(key, rec);
-          this.emit("new", rec);
-        } else {
-          rec.lastSeen = now;
+        // The relay only forwards to a WSL listener that gets its own card.
+        if (
+          isWslRelayFor(byPid.get(pid)?.name, port, c.protocol, wslListeners)
+        ) {
+          continue;
         }
+        const key = listenerKey(pid, port, c.protocol);
+        keys.add(key);
+        this.track(key, pid, port, c.protocol, c.addresses, now);
+      }
+      for (const listener of wslListeners) {
+        keys.add(await this.trackWslListener(listener, now));
       }
 
       // remove stale
@@ -219,28 +599,43 @@ export class Scanner extends EventEmitter {
           now - rec.lastSeen > settings.get("scanIntervalMs") * 2
         ) {
           this.items.delete(key);
+          this.tlsCheckedAt.delete(key);
+          this.serverHeaders.delete(key);
+          this.tunnelUrls.delete(key);
+          this.enrichedAt.delete(key);
+          this.burstUntil = now + BURST_DURATION_MS;
           this.emit("stopped", rec);
         }
       }
 
-      // enrich processes for all current items
-      const pids = Array.from(
-        new Set(Array.from(this.items.values()).map((r) => r.pid))
+      // enrich processes for new and outdated items
+      const due = Array.from(this.items.values()).filter(
+        (r) =>
+          !r.wslDistro &&
+          now - (this.enrichedAt.get(r.key) ?? -Infinity) >= ENRICH_REFRESH_MS,
       );
-      const procData = await si.processes();
-      const byPid = new Map<
-        number,
-        si.Systeminformation.ProcessesProcessData
-      >();
-      procData.list.forEach((p) => byPid.set(p.pid, p));
+      await prefetchProcessMetadata(Array.from(new Set(due.map((r) => r.pid))));
+      const launchedPids = new Set(this.launched.keys());
 
       for (const rec of this.items.values()) {
+        if (rec.wslDistro) continue;
+        const launchedRoot = findLaunchedAncestor(
+          rec.pid,
+          (pid) => byPid.get(pid)?.parentPid,
+          launchedPids,
+        );
+        const launched = launchedRoot
+          ? this.launched.get(launchedRoot)
+          : undefined;
+        rec.profileId = launched?.profileId;
+        rec.profileName = launched?.profileName;
+
         const p = byPid.get(rec.pid);
-        if (p) {
+        if (p && due.includes(rec)) {
+          this.enrichedAt.set(rec.key, now);
           rec.processName = p.name;
           rec.command = p.command;
           rec.path = p.path;
-          rec.framework = guessFramework(p.command, p.name);
 
           // Get CWD (project directory) - only if not already set
           if (!rec.cwd) {
@@ -253,28 +648,34 @@ export class Scanner extends EventEmitter {
             }
           }
 
-          try {
-            const usage = await pidusage(rec.pid);
-            rec.cpu = usage.cpu; // percent
-            rec.memory = usage.memory; // bytes
-
-            // Track history for sparklines (keep last 6 readings)
-            if (!rec.cpuHistory) rec.cpuHistory = [];
-            if (!rec.memoryHistory) rec.memoryHistory = [];
-            rec.cpuHistory.push(usage.cpu);
-            rec.memoryHistory.push(usage.memory);
-            if (rec.cpuHistory.length > 6) rec.cpuHistory.shift();
-            if (rec.memoryHistory.length > 6) rec.memoryHistory.shift();
-          } catch {
-            // ignore
-          }
+          rec.workspacePackage = rec.cwd
+            ? await workspacePackage(
+                rec.cwd,
+                launcherCommandLines(rec.pid, byPid),
+              )
+            : undefined;
+          // A server started from the workspace root (common on Windows,
+          // where only the command line is known) is described by its
+          // package's manifests rather than the root's.
+          const manifestDir = rec.workspacePackage?.dir ?? rec.cwd;
+          rec.frameworkInfo = detectFramework({
+            manifests: manifestDir
+              ? await projectManifests(manifestDir)
+              : undefined,
+            headers: this.serverHeaders.get(rec.key),
+            command: commandLine(p),
+            processName: p.name,
+          });
+          rec.framework = rec.frameworkInfo?.name;
+          rec.tunnel = detectTunnel(p.name, commandLine(p), rec.port);
+          rec.project = rec.cwd ? await projectRoot(rec.cwd) : undefined;
         }
       }
 
       for (const [key, rec] of this.items) {
         if (
           shouldIgnoreListener(
-            process.platform,
+            rec.wslDistro ? "linux" : process.platform,
             rec.port,
             rec.processName,
             rec.command || rec.path,
@@ -285,6 +686,13 @@ export class Scanner extends EventEmitter {
         }
       }
 
+      await this.updateProcessTrees(processList);
+      await this.matchContainers(now);
+      await this.detectTlsListeners(now);
+      this.applyTunnelUrls(now);
+      this.applyGitStatuses(now);
+      this.applyProxyRoutes();
+
       const payload = Array.from(this.items.values()).sort(
         (a, b) => a.port - b.port
       );
@@ -294,36 +702,339 @@ export class Scanner extends EventEmitter {
       this.emit("error", err);
     }
   }
+
+  private async listProcesses(
+    now: number,
+    listenersChanged: boolean,
+  ): Promise<si.Systeminformation.ProcessesProcessData[]> {
+    if (
+      listenersChanged ||
+      !this.processList ||
+      now - this.processList.time >= PROCESS_LIST_REFRESH_MS
+    ) {
+      this.processList = { list: (await si.processes()).list, time: now };
+    }
+    return this.processList.list;
+  }
+
+  private track(
+    key: string,
+    pid: number,
+    port: number,
+    protocol: ListenerProtocol,
+    listenerAddresses: string[],
+    now: number,
+  ): ServerInfo {
+    const addresses = [...listenerAddresses].sort();
+    let rec = this.items.get(key);
+    const bind = {
+      addresses,
+      family: addressFamily(addresses),
+      exposure: classifyBindExposure(addresses),
+      url: buildListenerUrl(addresses, port, protocol, Boolean(rec?.tls)),
+    };
+    if (!rec) {
+      rec = {
+        key,
+        pid,
+        port,
+        protocol,
+        firstSeen: now,
+        lastSeen: now,
+        ...bind,
+      };
+      this.items.set(key, rec);
+      this.burstUntil = now + BURST_DURATION_MS;
+      this.emit("new", rec);
+    } else {
+      rec.lastSeen = now;
+      Object.assign(rec, bind);
+    }
+    return rec;
+  }
+
+  // WSL2 forwards localhost ports to Windows, so the card URL works as is.
+  // Process details come from inside the distro, and the project is read
+  // through the \\wsl.localhost share.
+  private async trackWslListener(
+    listener: WslListener,
+    now: number,
+  ): Promise<string> {
+    const key = `wsl/${listener.distro}/${listenerKey(
+      listener.pid,
+      listener.port,
+      listener.protocol,
+    )}`;
+    const rec = this.track(
+      key,
+      listener.pid,
+      listener.port,
+      listener.protocol,
+      listener.addresses,
+      now,
+    );
+    rec.wslDistro = listener.distro;
+    rec.processName = listener.processName;
+    rec.command = listener.command;
+    rec.cwd = listener.cwd
+      ? wslUncPath(listener.distro, listener.cwd)
+      : undefined;
+    rec.frameworkInfo = detectFramework({
+      manifests: rec.cwd ? await projectManifests(rec.cwd) : undefined,
+      headers: this.serverHeaders.get(rec.key),
+      command: listener.command,
+      processName: listener.processName,
+    });
+    rec.framework = rec.frameworkInfo?.name;
+    rec.tunnel = detectTunnel(
+      listener.processName,
+      listener.command,
+      listener.port,
+    );
+    rec.project = rec.cwd ? await projectRoot(rec.cwd) : undefined;
+    rec.workspacePackage = rec.cwd
+      ? await workspacePackage(rec.cwd, [])
+      : undefined;
+    return key;
+  }
+
+  private async matchContainers(now: number) {
+    if (!this.containers) return;
+    const ports = await this.containers.listPorts(now);
+    for (const rec of this.items.values()) {
+      rec.container = ports.find(
+        (port) => port.hostPort === rec.port && port.protocol === rec.protocol,
+      );
+    }
+    this.emit("containers", this.containers.getStopped());
+  }
+
+  // CPU and memory are totals over each server's process tree, so the npm
+  // wrapper and a dev server's workers count as part of the server.
+  private async updateProcessTrees(
+    list: si.Systeminformation.ProcessesProcessData[],
+  ) {
+    const rows: ProcessRow[] = list.map((p) => ({
+      pid: p.pid,
+      parentPid: p.parentPid,
+      name: p.name,
+      command: commandLine(p),
+    }));
+    const running = new Set(rows.map((row) => row.pid));
+    const serverPids = new Set(this.getAllPids());
+    const trees = new Map<number, ServerProcessTree>();
+    for (const pid of serverPids) {
+      if (!running.has(pid)) continue;
+      const otherServerPids = new Set(serverPids);
+      otherServerPids.delete(pid);
+      trees.set(pid, buildServerProcessTree(pid, rows, { otherServerPids }));
+    }
+
+    const usage = await sampleProcessUsage(
+      Array.from(new Set(Array.from(trees.values()).flatMap((t) => t.pids))),
+    );
+    for (const rec of this.items.values()) {
+      const tree = rec.wslDistro ? undefined : trees.get(rec.pid);
+      if (!tree || !usage.has(rec.pid)) continue;
+      rec.processTree = applyProcessUsage(tree, usage);
+      rec.cpu = rec.processTree.cpu; // percent
+      rec.memory = rec.processTree.memory; // bytes
+
+      // Track history for sparklines (keep last 6 readings)
+      if (!rec.cpuHistory) rec.cpuHistory = [];
+      if (!rec.memoryHistory) rec.memoryHistory = [];
+      rec.cpuHistory.push(rec.cpu);
+      rec.memoryHistory.push(rec.memory);
+      if (rec.cpuHistory.length > 6) rec.cpuHistory.shift();
+      if (rec.memoryHistory.length > 6) rec.memoryHistory.shift();
+    }
+  }
+
+  // ngrok and cloudflared quick tunnels listen on their local API port, which
+  // is asked for the public URL; one given on the command line is kept when
+  // it has none. Like git statuses, lookups run in the background and land
+  // on the next scan.
+  private applyTunnelUrls(now: number) {
+    for (const rec of this.items.values()) {
+      if (rec.protocol !== "tcp" || !rec.tunnel) continue;
+      if (!hasPublicUrlApi(rec.tunnel)) continue;
+      const cached = this.tunnelUrls.get(rec.key);
+      if (
+        !cached ||
+        (!cached.pending && now - cached.checkedAt >= TUNNEL_URL_RECHECK_MS)
+      ) {
+        this.refreshTunnelUrl(rec, now);
+      }
+      if (cached?.url) rec.tunnel.publicUrl = cached.url;
+    }
+  }
+
+  private refreshTunnelUrl(rec: ServerInfo, now: number) {
+    const key = rec.key;
+    const previous = this.tunnelUrls.get(key);
+    this.tunnelUrls.set(key, {
+      url: previous?.url,
+      checkedAt: previous?.checkedAt ?? now,
+      pending: true,
+    });
+    fetchTunnelPublicUrl(rec.tunnel!.kind, new URL(rec.url).hostname, rec.port)
+      .catch(() => undefined)
+      .then((url) => {
+        if (!this.tunnelUrls.has(key)) return;
+        this.tunnelUrls.set(key, { url, checkedAt: Date.now() });
+      });
+  }
+
+  // Statuses are kept per cwd. A due refresh runs in the background and is
+  // picked up by the next scan; until then cards keep the previous status.
+  private applyGitStatuses(now: number) {
+    const cwds = new Set<string>();
+    for (const rec of this.items.values()) {
+      if (!rec.cwd) continue;
+      cwds.add(rec.cwd);
+      const cached = this.gitStatuses.get(rec.cwd);
+      if (
+        !cached ||
+        (!cached.pending && now - cached.checkedAt >= GIT_STATUS_RECHECK_MS)
+      ) {
+        this.refreshGitStatus(rec.cwd, now);
+      }
+      rec.git = cached?.status;
+    }
+    for (const cwd of this.gitStatuses.keys()) {
+      if (!cwds.has(cwd)) this.gitStatuses.delete(cwd);
+    }
+  }
+
+  private applyProxyRoutes() {
+    if (!this.proxy) return;
+    const items = Array.from(this.items.values());
+    const urls = this.proxy.setRoutes(buildProxyRoutes(items));
+    for (const rec of items) rec.proxyUrl = urls.get(rec.key);
+  }
+
+  private refreshGitStatus(cwd: string, now: number) {
+    const previous = this.gitStatuses.get(cwd);
+    this.gitStatuses.set(cwd, {
+      status: previous?.status,
+      checkedAt: previous?.checkedAt ?? now,
+      pending: true,
+    });
+    readGitStatus(cwd)
+      .catch(() => undefined)
+      .then((status) => {
+        if (!this.gitStatuses.has(cwd)) return;
+        this.gitStatuses.set(cwd, { status, checkedAt: Date.now() });
+      });
+  }
+
+  // Handshakes run in parallel and only for listeners not sniffed recently,
+  // so a steady scan costs nothing extra.
+  private async detectTlsListeners(now: number) {
+    const due = Array.from(this.items.values()).filter(
+      (rec) =>
+        rec.protocol === "tcp" &&
+        mightSpeakTls(rec) &&
+        now - (this.tlsCheckedAt.get(rec.key) ?? 0) >= TLS_RECHECK_MS,
+    );
+    await Promise.all(
+      due.map(async (rec) => {
+        this.tlsCheckedAt.set(rec.key, now);
+        const host = new URL(rec.url).hostname;
+        rec.tls = (await detectTls(host, rec.port)) ?? undefined;
+        rec.url = buildListenerUrl(
+          rec.addresses,
+          rec.port,
+          rec.protocol,
+          Boolean(rec.tls),
+        );
+      }),
+    );
+  }
 }
 
 type SimpleConn = {
-  protocol: string;
+  protocol: ListenerProtocol;
+  addresses: string[];
   localPort: number;
   pid: number;
   state: string;
 };
 
+async function sampleProcessUsage(
+  pids: number[],
+): Promise<Map<number, ProcessUsage>> {
+  const usage = new Map<number, ProcessUsage>();
+  if (pids.length === 0) return usage;
+  try {
+    const stats = await pidusage(pids);
+    for (const [pid, stat] of Object.entries(stats)) {
+      if (stat) usage.set(Number(pid), { cpu: stat.cpu, memory: stat.memory });
+    }
+  } catch {
+    // One process exiting mid-sample fails the whole batch.
+    const results = await Promise.allSettled(pids.map((pid) => pidusage(pid)));
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        usage.set(pids[index], {
+          cpu: result.value.cpu,
+          memory: result.value.memory,
+        });
+      }
+    });
+  }
+  return usage;
+}
+
 async function getListening(): Promise<SimpleConn[]> {
   const byKey = new Map<string, SimpleConn>();
+  // IPv4 and IPv6 sockets of one process share a key, so later sightings add
+  // their address to the listener instead of replacing it.
+  const add = (conn: Omit<SimpleConn, "addresses">, address?: string) => {
+    const key = listenerKey(conn.pid, conn.localPort, conn.protocol);
+    let merged = byKey.get(key);
+    if (!merged) {
+      merged = {
+        protocol: conn.protocol,
+        addresses: [],
+        localPort: conn.localPort,
+        pid: conn.pid,
+        state: conn.state,
+      };
+      byKey.set(key, merged);
+    }
+    if (address && !merged.addresses.includes(address)) {
+      merged.addresses.push(address);
+    }
+  };
+  const addParsed = (listener: ParsedListener) =>
+    add(listener, listener.localAddress);
 
   // 1) systeminformation
   try {
     const conns = await si.networkConnections();
     for (const c of conns) {
-      const proto = (c.protocol || "").toLowerCase();
+      const protocol = normalizeListenerProtocol(c.protocol);
       const state = (c.state || "").toLowerCase();
       const port = parseNumericPort((c as any).localPort ?? (c as any).localport);
-      if (!proto.startsWith("tcp") || !state.startsWith("listen")) continue;
-      if (!port) continue;
+      if (!protocol || !port) continue;
+      if (protocol === "tcp" && !state.startsWith("listen")) continue;
+      // A UDP socket with a peer is a client talking to someone else.
+      if (protocol === "udp" && parseNumericPort(c.peerPort)) continue;
       const pid = parseNumericPid(c.pid);
       if (!pid) continue;
-      const key = `${pid}:${port}`;
-      byKey.set(key, {
-        protocol: c.protocol || "tcp",
-        localPort: port,
-        pid,
-        state: c.state || "LISTENING",
-      });
+      add(
+        {
+          protocol,
+          localPort: port,
+          pid,
+          state: c.state || (protocol === "udp" ? "BOUND" : "LISTENING"),
+        },
+        normalizeBindAddress(
+          c.localAddress,
+          c.protocol.endsWith("6") ? "IPv6" : "IPv4",
+        ),
+      );
     }
   } catch {
     // ignore
@@ -334,13 +1045,20 @@ async function getListening(): Promise<SimpleConn[]> {
     try {
       const { stdout } = await execFileAsync(
         "/usr/sbin/lsof",
-        ["-nP", "-iTCP", "-sTCP:LISTEN", "-Fp", "-Fn"],
+        ["-nP", "-iTCP", "-sTCP:LISTEN", "-Fp", "-Ft", "-Fn"],
         { timeout: 5000, maxBuffer: 1024 * 1024 }
       );
-      for (const listener of parseLsofListeningOutput(stdout)) {
-        const key = `${listener.pid}:${listener.localPort}`;
-        if (!byKey.has(key)) byKey.set(key, listener);
-      }
+      parseLsofListeningOutput(stdout).forEach(addParsed);
+    } catch {
+      // ignore
+    }
+    try {
+      const { stdout } = await execFileAsync(
+        "/usr/sbin/lsof",
+        ["-nP", "-iUDP", "-Fp", "-Ft", "-Fn"],
+        { timeout: 5000, maxBuffer: 1024 * 1024 }
+      );
+      parseLsofListeningOutput(stdout, "udp").forEach(addParsed);
     } catch {
       // ignore
     }
@@ -351,26 +1069,18 @@ async function getListening(): Promise<SimpleConn[]> {
     try {
       // include both TCP and TCPv6 lines
       const { stdout } = await execAsync("netstat -ano");
-      const lines = stdout.split(/\r?\n/);
-      const re = /^\s*TCP\S*\s+\S+:(\d+)\s+\S+\s+LISTENING\s+(\d+)/i;
-      for (const line of lines) {
-        const m = re.exec(line);
-        if (m) {
-          const port = parseInt(m[1], 10);
-          const pid = parseInt(m[2], 10);
-          const key = `${pid}:${port}`;
-          if (!byKey.has(key))
-            byKey.set(key, {
-              protocol: "tcp",
-              localPort: port,
-              pid,
-              state: "LISTENING",
-            });
-        }
-      }
+      parseNetstatTcpOutput(stdout).forEach(addParsed);
     } catch {
       // ignore
     }
+    for (const family of ["UDP", "UDPv6"]) {
+      try {
+        const { stdout } = await execAsync(`netstat -ano -p ${family}`);
+        parseNetstatUdpOutput(stdout).forEach(addParsed);
+      } catch {
+        // ignore
+      }
+    }
   }
 
   return Array.from(byKey.values());
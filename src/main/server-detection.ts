@@ -1,10 +1,119 @@
+export type ListenerProtocol = "tcp" | "udp";
+
 export type ParsedListener = {
-  protocol: "tcp";
+  protocol: ListenerProtocol;
+  localAddress: string;
   localPort: number;
   pid: number;
-  state: "LISTEN";
+  // UDP has no listen state; an unconnected socket is reported as bound.
+  state: "LISTEN" | "BOUND";
 };
 
+export type AddressFamily = "IPv4" | "IPv6" | "dual";
+
+// loopback: reachable only from this machine. all-interfaces: bound to a
+// wildcard, so anything on the LAN can connect. network: bound to a specific
+// non-loopback interface address.
+export type BindExposure = "loopback" | "all-interfaces" | "network";
+
+const WILDCARD_ADDRESSES = new Set(["0.0.0.0", "::"]);
+
+// Collapses the spellings the different tools use ([::1], ::ffff:127.0.0.1,
+// fe80::1%lo0, *) into one plain address. `*` is a wildcard whose family only
+// lsof's type field tells us.
+export function normalizeBindAddress(
+  value: unknown,
+  family?: "IPv4" | "IPv6",
+): string | undefined {
+  if (typeof value !== "string") return undefined;
+  let address = value.trim().toLowerCase();
+  if (address.startsWith("[") && address.endsWith("]")) {
+    address = address.slice(1, -1);
+  }
+  address = address.replace(/%.*$/, "");
+  if (!address) return undefined;
+  if (address === "*") return family === "IPv6" ? "::" : "0.0.0.0";
+  if (address === "localhost") return "127.0.0.1";
+  if (address.startsWith("::ffff:") && address.includes(".")) {
+    return address.slice("::ffff:".length);
+  }
+  return address;
+}
+
+export function isIPv6Address(address: string): boolean {
+  return address.includes(":");
+}
+
+function isLoopbackAddress(address: string): boolean {
+  return address === "::1" || /^127\./.test(address);
+}
+
+export function addressFamily(
+  addresses: readonly string[],
+): AddressFamily | undefined {
+  if (addresses.length === 0) return undefined;
+  const v6 = addresses.filter(isIPv6Address).length;
+  if (v6 === 0) return "IPv4";
+  return v6 === addresses.length ? "IPv6" : "dual";
+}
+
+export function classifyBindExposure(
+  addresses: readonly string[],
+): BindExposure | undefined {
+  if (addresses.length === 0) return undefined;
+  if (addresses.some((address) => WILDCARD_ADDRESSES.has(address))) {
+    return "all-interfaces";
+  }
+  return addresses.every(isLoopbackAddress) ? "loopback" : "network";
+}
+
+// Picks a host that actually reaches the listener: `localhost` whenever IPv4
+// loopback is covered, [::1] for IPv6-only listeners (which `localhost` may not
+// resolve to), and the interface address itself when bound to one address.
+export function buildListenerUrl(
+  addresses: readonly string[],
+  port: number,
+  protocol: ListenerProtocol,
+  secure = false,
+): string {
+  const scheme = protocol === "udp" ? "udp" : secure ? "https" : "http";
+  const v4 = addresses.filter((address) => !isIPv6Address(address));
+  const v6 = addresses.filter(isIPv6Address);
+  const reachesLocalhost =
+    addresses.length === 0 ||
+    v4.some((address) => address === "0.0.0.0" || isLoopbackAddress(address));
+  let host = "localhost";
+  if (!reachesLocalhost) {
+    if (v6.some((address) => address === "::" || address === "::1")) {
+      host = "[::1]";
+    } else if (v4.length > 0) {
+      host = v4[0];
+    } else {
+      host = `[${v6[0]}]`;
+    }
+  }
+  return `${scheme}://${host}:${port}`;
+}
+
+// TCP keys keep the historical pid:port shape so notes, hidden cards and
+// health results stay attached across upgrades.
+export function listenerKey(
+  pid: number,
+  port: number,
+  protocol: ListenerProtocol,
+): string {
+  return protocol === "udp" ? `${pid}:${port}/udp` : `${pid}:${port}`;
+}
+
+export function normalizeListenerProtocol(
+  value: unknown,
+): ListenerProtocol | undefined {
+  const protocol = typeof value === "string" ? value.toLowerCase() : "";
+  if (protocol.startsWith("tcp")) return "tcp";
+  if (protocol.startsWith("udp")) return "udp";
+  return undefined;
+}
+
 export function shouldIgnoreListener(
   platform: NodeJS.Platform,
   port: number,
@@ -40,9 +149,13 @@ export function parseNumericPid(value: unknown): number | undefined {
   return Number.isFinite(pid) && pid > 0 ? pid : undefined;
 }
 
-export function parseLsofListeningOutput(stdout: string): ParsedListener[] {
+export function parseLsofListeningOutput(
+  stdout: string,
+  protocol: ListenerProtocol = "tcp",
+): ParsedListener[] {
   const listeners: ParsedListener[] = [];
   let currentPid: number | undefined;
+  let currentFamily: "IPv4" | "IPv6" | undefined;
 
   for (const rawLine of stdout.split(/\r?\n/)) {
     const line = rawLine.trim();
@@ -51,19 +164,78 @@ export function parseLsofListeningOutput(stdout: string): ParsedListener[] {
     const pidMatch = line.match(/^p(\d+)$/);
     if (pidMatch) {
       currentPid = Number.parseInt(pidMatch[1], 10);
+      currentFamily = undefined;
+      continue;
+    }
+
+    // -Ft reports the socket type (IPv4/IPv6) before each name line.
+    const typeMatch = line.match(/^t(IPv4|IPv6)$/);
+    if (typeMatch) {
+      currentFamily = typeMatch[1] as "IPv4" | "IPv6";
       continue;
     }
 
-    const portMatch = line.match(/^n.+?:(\d+)$/);
+    // Connected UDP sockets carry a peer (n127.0.0.1:5353->10.0.0.2:53);
+    // only the unconnected, bound ones are listeners.
+    if (line.includes("->")) continue;
+    const portMatch = line.match(/^n(.+):(\d+)$/);
     if (portMatch && currentPid) {
       listeners.push({
-        protocol: "tcp",
-        localPort: Number.parseInt(portMatch[1], 10),
+        protocol,
+        localAddress:
+          normalizeBindAddress(portMatch[1], currentFamily) ?? "0.0.0.0",
+        localPort: Number.parseInt(portMatch[2], 10),
         pid: currentPid,
-        state: "LISTEN",
+        state: protocol === "udp" ? "BOUND" : "LISTEN",
       });
     }
   }
 
   return listeners;
 }
+
+// Parses `netstat -ano` TCP listeners from Windows, e.g.
+//   TCP    127.0.0.1:3000         0.0.0.0:0              LISTENING       4120
+//   TCP    [::]:3000              [::]:0                 LISTENING       4120
+export function parseNetstatTcpOutput(stdout: string): ParsedListener[] {
+  const listeners: ParsedListener[] = [];
+  const re = /^\s*TCP\S*\s+(\S+):(\d+)\s+\S+\s+LISTENING\s+(\d+)/i;
+  for (const line of stdout.split(/\r?\n/)) {
+    const m = re.exec(line);
+    if (!m) continue;
+    const localPort = parseNumericPort(m[2]);
+    const pid = parseNumericPid(m[3]);
+    if (!localPort || !pid) continue;
+    listeners.push({
+      protocol: "tcp",
+      localAddress: normalizeBindAddress(m[1]) ?? "0.0.0.0",
+      localPort,
+      pid,
+      state: "LISTEN",
+    });
+  }
+  return listeners;
+}
+
+// Parses `netstat -ano -p UDP` (and UDPv6) output from Windows, e.g.
+//   UDP    0.0.0.0:5353           *:*                                    4120
+//   UDP    [::]:5353              *:*                                    4120
+export function parseNetstatUdpOutput(stdout: string): ParsedListener[] {
+  const listeners: ParsedListener[] = [];
+  const re = /^\s*UDP\S*\s+(\S+):(\d+)\s+(\S+)\s+(\d+)\s*$/i;
+  for (const line of stdout.split(/\r?\n/)) {
+    const m = re.exec(line);
+    if (!m || m[3] !== "*:*") continue;
+    const localPort = parseNumericPort(m[2]);
+    const pid = parseNumericPid(m[4]);
+    if (!localPort || !pid) continue;
+    listeners.push({
+      protocol: "udp",
+      localAddress: normalizeBindAddress(m[1]) ?? "0.0.0.0",
+      localPort,
+      pid,
+      state: "BOUND",
+    });
+  }
+  return listeners;
+}
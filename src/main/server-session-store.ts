@@ -0,0 +1,45 @@
+import Store from 'electron-store';
+import type { ServerSession } from './server-sessions';
+
+type ServerSessionStore = {
+  sessions: ServerSession[]; // oldest first
+};
+
+// Every scan moves lastSeen forward; persisting that each time is wasted I/O.
+const SAVE_DELAY_MS = 30_000;
+
+export const serverSessionStore = new Store<ServerSessionStore>({
+  name: 'server-sessions',
+  fileExtension: 'json',
+  defaults: {
+    sessions: [],
+  },
+});
+
+let pending: ServerSession[] | undefined;
+let saveTimer: NodeJS.Timeout | undefined;
+
+export function getServerSessions(): ServerSession[] {
+  return serverSessionStore.get('sessions');
+}
+
+export function saveServerSessions(
+  sessions: ServerSession[],
+  immediate = false,
+): void {
+  pending = sessions;
+  if (immediate) {
+    flushServerSessions();
+    return;
+  }
+  if (saveTimer) return;
+  saveTimer = setTimeout(flushServerSessions, SAVE_DELAY_MS);
+}
+
+export function flushServerSessions(): void {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = undefined;
+  if (!pending) return;
+  serverSessionStore.set('sessions', pending);
+  pending = undefined;
+}
@@ -0,0 +1,206 @@
+import type { ListenerProtocol } from "./server-detection";
+
+// "stopped": a scan saw the listener go away. "unobserved": it was gone when
+// the dashboard started again, so it stopped some time after `lastSeen`.
+export type SessionEndReason = "stopped" | "unobserved";
+
+export type ServerSession = {
+  id: string;
+  key: string; // scanner key (pid:port) while the session is open
+  port: number;
+  protocol: ListenerProtocol;
+  pid: number;
+  processName?: string;
+  command?: string;
+  cwd?: string;
+  framework?: string;
+  profileName?: string;
+  startedAt: number; // first scan that saw it
+  lastSeen: number;
+  endedAt?: number;
+  endReason?: SessionEndReason;
+};
+
+// The scanner fields a session is built from.
+export type SessionServer = Pick<
+  ServerSession,
+  | "key"
+  | "port"
+  | "protocol"
+  | "pid"
+  | "processName"
+  | "command"
+  | "cwd"
+  | "framework"
+  | "profileName"
+> & { firstSeen: number; lastSeen: number };
+
+export type SessionQuery = {
+  port?: number;
+  from?: number; // sessions overlapping [from, to]
+  to?: number;
+  text?: string; // matched against process, command, project and framework
+  limit?: number;
+};
+
+export const MAX_SERVER_SESSIONS = 5000;
+export const DEFAULT_SESSION_QUERY_LIMIT = 500;
+
+export function validateSessionQuery(value: unknown): SessionQuery {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("History query must be an object.");
+  }
+  const input = value as Record<string, unknown>;
+  const query: SessionQuery = {};
+
+  if (input.port !== undefined && input.port !== null && input.port !== "") {
+    const port = Number(input.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error("Port must be between 1 and 65535.");
+    }
+    query.port = port;
+  }
+  for (const field of ["from", "to"] as const) {
+    const raw = input[field];
+    if (raw === undefined || raw === null || raw === "") continue;
+    const time = typeof raw === "string" ? Date.parse(raw) : raw;
+    if (typeof time !== "number" || !Number.isFinite(time)) {
+      throw new Error(`History "${field}" must be a date.`);
+    }
+    query[field] = time;
+  }
+  if (
+    query.from !== undefined &&
+    query.to !== undefined &&
+    query.from > query.to
+  ) {
+    throw new Error("History range ends before it starts.");
+  }
+  if (typeof input.text === "string" && input.text.trim()) {
+    query.text = input.text.trim().slice(0, 200);
+  }
+  if (input.limit !== undefined) {
+    const limit = Number(input.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SERVER_SESSIONS) {
+      throw new Error(`Limit must be between 1 and ${MAX_SERVER_SESSIONS}.`);
+    }
+    query.limit = limit;
+  }
+  return query;
+}
+
+export function querySessions(
+  sessions: readonly ServerSession[],
+  query: SessionQuery,
+  now = Date.now(),
+): ServerSession[] {
+  const text = query.text?.toLowerCase();
+  return sessions
+    .filter((session) => {
+      if (query.port !== undefined && session.port !== query.port) return false;
+      const end = session.endedAt ?? now;
+      if (query.from !== undefined && end < query.from) return false;
+      if (query.to !== undefined && session.startedAt > query.to) return false;
+      if (text) {
+        const haystack = [
+          session.processName,
+          session.command,
+          session.cwd,
+          session.framework,
+          session.profileName,
+        ]
+          .filter(Boolean)
+          .join(" ")
+          .toLowerCase();
+        if (!haystack.includes(text)) return false;
+      }
+      return true;
+    })
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .slice(0, query.limit ?? DEFAULT_SESSION_QUERY_LIMIT);
+}
+
+// Turns the stream of scanner snapshots into sessions. Open sessions loaded
+// from disk are resumed when the same PID is still listening on the same
+// port; the rest are closed by the first sync of this run.
+export class ServerSessionLog {
+  private sessions: ServerSession[];
+  private nextId: number;
+
+  constructor(
+    sessions: ServerSession[] = [],
+    private readonly runStartedAt = Date.now(),
+  ) {
+    this.sessions = sessions.map((session) => ({ ...session }));
+    this.nextId =
+      sessions.reduce(
+        (max, session) => Math.max(max, Number(session.id) || 0),
+        0,
+      ) + 1;
+  }
+
+  list(): ServerSession[] {
+    return this.sessions.map((session) => ({ ...session }));
+  }
+
+  // Returns true when anything other than lastSeen changed.
+  sync(servers: readonly SessionServer[]): boolean {
+    let changed = false;
+    const open = new Map<string, ServerSession>();
+    for (const session of this.sessions) {
+      if (session.endedAt === undefined) open.set(session.key, session);
+    }
+
+    for (const server of servers) {
+      let session = open.get(server.key);
+      open.delete(server.key);
+      if (!session) {
+        session = {
+          id: String(this.nextId++),
+          key: server.key,
+          port: server.port,
+          protocol: server.protocol,
+          pid: server.pid,
+          startedAt: server.firstSeen,
+          lastSeen: server.lastSeen,
+        };
+        this.sessions.push(session);
+        changed = true;
+      }
+      session.lastSeen = Math.max(session.lastSeen, server.lastSeen);
+      // The project directory in particular can fill in on a later scan.
+      for (const field of [
+        "processName",
+        "command",
+        "cwd",
+        "framework",
+        "profileName",
+      ] as const) {
+        if (server[field] && session[field] !== server[field]) {
+          session[field] = server[field];
+          changed = true;
+        }
+      }
+    }
+
+    for (const session of open.values()) {
+      session.endedAt = session.lastSeen;
+      session.endReason =
+        session.lastSeen < this.runStartedAt ? "unobserved" : "stopped";
+      changed = true;
+    }
+
+    if (this.sessions.length > MAX_SERVER_SESSIONS) {
+      this.sessions = this.sessions.slice(-MAX_SERVER_SESSIONS);
+      changed = true;
+    }
+    return changed;
+  }
+
+  clear(): void {
+    this.sessions = this.sessions.filter(
+      (session) => session.endedAt === undefined,
+    );
+  }
+}
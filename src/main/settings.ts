@@ -44,6 +44,11 @@ function readDefaultSettingsFromFile(): Partial<AppSettings> | null {
     if (typeof json.scanAllPorts === 'boolean') out.scanAllPorts = json.scanAllPorts;
     if (typeof json.closeToTray === 'boolean') out.closeToTray = json.closeToTray;
     if (typeof json.globalHotkey === 'string') out.globalHotkey = json.globalHotkey;
+    if (typeof json.stopGraceMs === 'number') out.stopGraceMs = json.stopGraceMs;
+    if (typeof json.proxyEnabled === 'boolean') out.proxyEnabled = json.proxyEnabled;
+    if (typeof json.proxyPort === 'number') out.proxyPort = json.proxyPort;
+    if (typeof json.controlApiEnabled === 'boolean') out.controlApiEnabled = json.controlApiEnabled;
+    if (typeof json.controlApiPort === 'number') out.controlApiPort = json.controlApiPort;
     return out;
   } catch {
     return null;
@@ -67,6 +72,14 @@ export type AppSettings = {
   closeToTray: boolean;
   // Global hotkey for toggling the dashboard
   globalHotkey: string;
+  // How long Kill waits after SIGINT/SIGTERM before force-killing
+  stopGraceMs: number;
+  // Serve running projects as http://<name>.localhost:<proxyPort>
+  proxyEnabled: boolean;
+  proxyPort: number;
+  // Token-protected loopback HTTP API used by scripts and the CLI
+  controlApiEnabled: boolean;
+  controlApiPort: number;
 };
 
 const defaultPorts = [3000, 3001, 3002, [5173, 5199], 8000, 8080, 5000, 4200] as (number | [number, number])[];
@@ -81,7 +94,12 @@ function codeDefaults(): AppSettings {
     notifyOnStop: true,
     scanAllPorts: false,
     closeToTray: true,
-    globalHotkey: getDefaultGlobalHotkey(process.platform)
+    globalHotkey: getDefaultGlobalHotkey(process.platform),
+    stopGraceMs: 5000,
+    proxyEnabled: false,
+    proxyPort: 1355,
+    controlApiEnabled: false,
+    controlApiPort: 1356
   };
 }
 
@@ -287,6 +305,11 @@ export function seedDefaultsIfNeeded(): { seeded: boolean; path?: string } {
     if (typeof fromFile.scanAllPorts === 'boolean') settings.set('scanAllPorts', fromFile.scanAllPorts);
     if (typeof fromFile.closeToTray === 'boolean') settings.set('closeToTray', fromFile.closeToTray);
     if (typeof fromFile.globalHotkey === 'string') settings.set('globalHotkey', fromFile.globalHotkey);
+    if (typeof fromFile.stopGraceMs === 'number') settings.set('stopGraceMs', fromFile.stopGraceMs);
+    if (typeof fromFile.proxyEnabled === 'boolean') settings.set('proxyEnabled', fromFile.proxyEnabled);
+    if (typeof fromFile.proxyPort === 'number') settings.set('proxyPort', fromFile.proxyPort);
+    if (typeof fromFile.controlApiEnabled === 'boolean') settings.set('controlApiEnabled', fromFile.controlApiEnabled);
+    if (typeof fromFile.controlApiPort === 'number') settings.set('controlApiPort', fromFile.controlApiPort);
     (settings as any).set?.('__seededAt', Date.now());
     return { seeded: true, path: resolveDefaultSettingsPath() || undefined };
   } catch {
@@ -314,6 +337,11 @@ export function resetToDefaults(): AppSettings {
     scanAllPorts: (json?.scanAllPorts ?? false) as boolean,
     closeToTray: (json?.closeToTray ?? true) as boolean,
     globalHotkey: json?.globalHotkey || getDefaultGlobalHotkey(process.platform),
+    stopGraceMs: (json?.stopGraceMs ?? 5000) as number,
+    proxyEnabled: (json?.proxyEnabled ?? false) as boolean,
+    proxyPort: (json?.proxyPort ?? 1355) as number,
+    controlApiEnabled: (json?.controlApiEnabled ?? false) as boolean,
+    controlApiPort: (json?.controlApiPort ?? 1356) as number,
     notifications: undefined
   } satisfies AppSettings;
   settings.set('scanIntervalMs', next.scanIntervalMs);
@@ -325,6 +353,11 @@ export function resetToDefaults(): AppSettings {
   settings.set('scanAllPorts', next.scanAllPorts);
   settings.set('closeToTray', next.closeToTray);
   settings.set('globalHotkey', next.globalHotkey);
+  settings.set('stopGraceMs', next.stopGraceMs);
+  settings.set('proxyEnabled', next.proxyEnabled);
+  settings.set('proxyPort', next.proxyPort);
+  settings.set('controlApiEnabled', next.controlApiEnabled);
+  settings.set('controlApiPort', next.controlApiPort);
   return next;
 }
 
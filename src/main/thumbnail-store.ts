@@ -0,0 +1,26 @@
+import Store from 'electron-store';
+
+type ThumbnailStore = {
+  disabledPorts: number[]; // ports that never get a page preview
+};
+
+export const thumbnailStore = new Store<ThumbnailStore>({
+  name: 'page-thumbnails',
+  fileExtension: 'json',
+  defaults: {
+    disabledPorts: [],
+  },
+});
+
+export function getThumbnailDisabledPorts(): number[] {
+  return thumbnailStore.get('disabledPorts');
+}
+
+export function setThumbnailEnabled(port: number, enabled: boolean): number[] {
+  const ports = new Set(thumbnailStore.get('disabledPorts'));
+  if (enabled) ports.delete(port);
+  else ports.add(port);
+  const disabledPorts = Array.from(ports).sort((a, b) => a - b);
+  thumbnailStore.set('disabledPorts', disabledPorts);
+  return disabledPorts;
+}
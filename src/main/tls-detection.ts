@@ -0,0 +1,120 @@
+import tls from "node:tls";
+
+export type TlsCertificate = {
+  subject: string; // common name, or the full subject when there is none
+  issuer: string;
+  validFrom: number; // epoch ms
+  validTo: number; // epoch ms
+  altNames: string[];
+  selfSigned: boolean;
+  // Whether the chain verifies against Node's CA bundle. mkcert and dev-server
+  // certificates normally do not, which is fine for local probing.
+  trusted: boolean;
+  verifyError?: string;
+  fingerprint256?: string;
+};
+
+export const TLS_DETECT_TIMEOUT_MS = 1500;
+
+type DistinguishedName = Partial<Record<string, string | string[]>>;
+
+function nameField(name: DistinguishedName | undefined, field: string) {
+  const value = name?.[field];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function describeName(name: DistinguishedName | undefined): string {
+  const commonName = nameField(name, "CN") ?? nameField(name, "O");
+  if (commonName) return commonName;
+  const parts = Object.entries(name ?? {}).map(
+    ([field, value]) =>
+      `${field}=${Array.isArray(value) ? value.join("+") : value}`,
+  );
+  return parts.join(", ") || "unknown";
+}
+
+function sameName(
+  a: DistinguishedName | undefined,
+  b: DistinguishedName | undefined,
+): boolean {
+  const fields = new Set([...Object.keys(a ?? {}), ...Object.keys(b ?? {})]);
+  if (fields.size === 0) return false;
+  for (const field of fields) {
+    if (String(a?.[field] ?? "") !== String(b?.[field] ?? "")) return false;
+  }
+  return true;
+}
+
+export function summarizeCertificate(
+  cert: Pick<
+    tls.PeerCertificate,
+    "subject" | "issuer" | "valid_from" | "valid_to"
+  > &
+    Partial<Pick<tls.PeerCertificate, "subjectaltname" | "fingerprint256">>,
+  // Node reports this as an OpenSSL code string despite its Error typing.
+  verifyError?: unknown,
+): TlsCertificate {
+  const error = verifyError ? String(verifyError) : undefined;
+  return {
+    subject: describeName(cert.subject as DistinguishedName),
+    issuer: describeName(cert.issuer as DistinguishedName),
+    validFrom: Date.parse(cert.valid_from),
+    validTo: Date.parse(cert.valid_to),
+    altNames: (cert.subjectaltname ?? "")
+      .split(/,\s*/)
+      .map((entry) => entry.replace(/^(DNS|IP Address):/, "").trim())
+      .filter(Boolean),
+    selfSigned:
+      error === "DEPTH_ZERO_SELF_SIGNED_CERT" ||
+      error === "SELF_SIGNED_CERT_IN_CHAIN" ||
+      sameName(
+        cert.subject as DistinguishedName,
+        cert.issuer as DistinguishedName,
+      ),
+    trusted: !error,
+    ...(error ? { verifyError: error } : {}),
+    ...(cert.fingerprint256 ? { fingerprint256: cert.fingerprint256 } : {}),
+  };
+}
+
+// Opens a TLS handshake against a local listener without trusting anything:
+// a plain HTTP server answers the ClientHello with garbage or closes, which
+// counts as "not TLS". Resolves null rather than rejecting.
+export function detectTls(
+  host: string,
+  port: number,
+  timeoutMs = TLS_DETECT_TIMEOUT_MS,
+): Promise<TlsCertificate | null> {
+  return new Promise((resolve) => {
+    let settled = false;
+    const finish = (result: TlsCertificate | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      resolve(result);
+    };
+
+    const hostname = host.replace(/^\[|\]$/g, "");
+    const socket = tls.connect({
+      host: hostname,
+      port,
+      // SNI must be a name; dev servers generally issue for localhost.
+      servername: /^[\d.:]+$/.test(hostname) ? "localhost" : hostname,
+      rejectUnauthorized: false,
+      ALPNProtocols: ["http/1.1"],
+    });
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    socket.once("secureConnect", () => {
+      const cert = socket.getPeerCertificate();
+      finish(
+        cert && Object.keys(cert).length > 0
+          ? summarizeCertificate(cert, socket.authorizationError)
+          : null,
+      );
+    });
+    socket.once("error", () => finish(null));
+    socket.once("close", () => finish(null));
+  });
+}
@@ -0,0 +1,262 @@
+import { EventEmitter } from "node:events";
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+import tls from "node:tls";
+import {
+  closeServer,
+  forwardedFor,
+  listenServer,
+  upgradeRequestHead,
+  withoutHopByHop,
+} from "./reverse-proxy";
+import {
+  MAX_BODY_CAPTURE,
+  TrafficLog,
+  type TrafficEntry,
+} from "./traffic-log";
+
+export type InspectorTarget = { host: string; port: number; secure: boolean };
+
+const TEXT_CONTENT_TYPE =
+  /^(text\/|application\/([\w.+-]*\+)?(json|xml|javascript|x-www-form-urlencoded|graphql)|image\/svg\+xml)/i;
+
+// The captured start of a body as text; undefined for empty, binary or
+// compressed bodies. A missing content type is treated as text.
+export function bodyText(
+  captured: Buffer,
+  headers: Record<string, string>,
+): string | undefined {
+  if (captured.length === 0) return undefined;
+  const type = headers["content-type"];
+  const encoding = headers["content-encoding"];
+  if (encoding && encoding !== "identity") return undefined;
+  if (type && !TEXT_CONTENT_TYPE.test(type)) return undefined;
+  return captured.subarray(0, MAX_BODY_CAPTURE).toString("utf8");
+}
+
+function flatHeaders(
+  headers: http.IncomingHttpHeaders,
+): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      out[name] = Array.isArray(value) ? value.join(", ") : value;
+    }
+  }
+  return out;
+}
+
+// Keeps the first MAX_BODY_CAPTURE bytes of a stream and counts the rest.
+class BodyCapture {
+  bytes = 0;
+  private chunks: Buffer[] = [];
+  private captured = 0;
+
+  add(chunk: Buffer) {
+    this.bytes += chunk.length;
+    if (this.captured >= MAX_BODY_CAPTURE) return;
+    const part = chunk.subarray(0, MAX_BODY_CAPTURE - this.captured);
+    this.chunks.push(part);
+    this.captured += part.length;
+  }
+
+  text(headers: Record<string, string>): string | undefined {
+    return bodyText(Buffer.concat(this.chunks), headers);
+  }
+}
+
+// Listens on a companion port in front of one server and records every
+// request that passes through. Emits "entry" for each finished exchange.
+export class TrafficInspector extends EventEmitter {
+  readonly log: TrafficLog;
+  private server?: http.Server;
+  private sockets = new Set<net.Socket>();
+  private port?: number;
+
+  constructor(
+    readonly target: InspectorTarget,
+    capacity?: number,
+  ) {
+    super();
+    this.log = new TrafficLog(capacity);
+  }
+
+  get listeningPort(): number | undefined {
+    return this.port;
+  }
+
+  // Tries the preferred companion port first, then any free port.
+  async start(preferredPort: number): Promise<number> {
+    if (this.port !== undefined) return this.port;
+    let server = this.createServer();
+    try {
+      await listenServer(server, preferredPort, "127.0.0.1");
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException)?.code;
+      const taken = code === "EADDRINUSE" || code === "EACCES";
+      if (preferredPort === 0 || !taken) throw err;
+      server = this.createServer();
+      await listenServer(server, 0, "127.0.0.1");
+    }
+    this.server = server;
+    this.port = (server.address() as net.AddressInfo).port;
+    return this.port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    this.port = undefined;
+    for (const socket of this.sockets) socket.destroy();
+    this.sockets.clear();
+    if (server) await closeServer(server);
+  }
+
+  private record(entry: Omit<TrafficEntry, "seq">) {
+    this.emit("entry", this.log.add(entry));
+  }
+
+  private createServer(): http.Server {
+    const server = http.createServer((req, res) => this.forward(req, res));
+    server.on("upgrade", (req, socket, head) =>
+      this.forwardUpgrade(req, socket as net.Socket, head),
+    );
+    server.on("connection", (socket) => {
+      this.sockets.add(socket);
+      socket.on("close", () => this.sockets.delete(socket));
+    });
+    return server;
+  }
+
+  private forward(req: http.IncomingMessage, res: http.ServerResponse) {
+    const started = Date.now();
+    const requestHeaders = flatHeaders(req.headers);
+    const requestBody = new BodyCapture();
+    const responseBody = new BodyCapture();
+    let status: number | undefined;
+    let responseHeaders: Record<string, string> | undefined;
+    let recorded = false;
+    const finish = (error?: string) => {
+      if (recorded) return;
+      recorded = true;
+      this.record({
+        time: started,
+        method: req.method ?? "GET",
+        path: req.url ?? "/",
+        status,
+        durationMs: Date.now() - started,
+        requestHeaders,
+        responseHeaders,
+        requestBody: requestBody.text(requestHeaders),
+        requestBytes: requestBody.bytes,
+        responseBody: responseHeaders && responseBody.text(responseHeaders),
+        responseBytes: responseBody.bytes,
+        error,
+      });
+    };
+
+    const headers = { ...withoutHopByHop(req.headers), ...forwardedFor(req) };
+    // An uncompressed response is what makes its body readable here.
+    delete headers["accept-encoding"];
+    const upstream = (this.target.secure ? https : http).request(
+      {
+        host: this.target.host,
+        port: this.target.port,
+        method: req.method,
+        path: req.url,
+        headers,
+        rejectUnauthorized: false,
+      },
+      (upstreamRes) => {
+        status = upstreamRes.statusCode;
+        responseHeaders = flatHeaders(upstreamRes.headers);
+        res.writeHead(
+          status ?? 502,
+          upstreamRes.statusMessage,
+          withoutHopByHop(upstreamRes.headers),
+        );
+        upstreamRes.on("data", (chunk: Buffer) => responseBody.add(chunk));
+        upstreamRes.on("end", () => finish());
+        upstreamRes.pipe(res);
+      },
+    );
+    req.on("data", (chunk: Buffer) => requestBody.add(chunk));
+    upstream.on("error", (err) => {
+      finish(err.message);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.writeHead(502, { "content-type": "text/plain; charset=utf-8" });
+      res.end(
+        `Could not reach ${this.target.host}:${this.target.port} (${err.message})`,
+      );
+    });
+    // Streaming responses (SSE, long polls) end when the client goes away.
+    res.on("close", () => {
+      if (res.writableFinished) return;
+      finish("Client closed the connection");
+      upstream.destroy();
+    });
+    req.pipe(upstream);
+  }
+
+  // The handshake is recorded once the server answers it; frames after
+  // that are passed through without being captured.
+  private forwardUpgrade(
+    req: http.IncomingMessage,
+    socket: net.Socket,
+    head: Buffer,
+  ) {
+    const started = Date.now();
+    const { host, port, secure } = this.target;
+    const upstream = secure
+      ? tls.connect({ host, port, rejectUnauthorized: false })
+      : net.connect({ host, port });
+    let connected = false;
+    let recorded = false;
+    const finish = (status?: number, error?: string) => {
+      if (recorded) return;
+      recorded = true;
+      this.record({
+        time: started,
+        method: req.method ?? "GET",
+        path: req.url ?? "/",
+        status,
+        durationMs: Date.now() - started,
+        requestHeaders: flatHeaders(req.headers),
+        requestBytes: 0,
+        responseBytes: 0,
+        upgrade: true,
+        error,
+      });
+    };
+    upstream.once(secure ? "secureConnect" : "connect", () => {
+      connected = true;
+      upstream.write(upgradeRequestHead(req));
+      if (head.length > 0) upstream.write(head);
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    upstream.once("data", (chunk: Buffer) => {
+      const match = /^HTTP\/1\.[01] (\d{3})/.exec(chunk.toString("latin1"));
+      finish(match ? Number(match[1]) : undefined);
+    });
+    upstream.on("error", (err) => {
+      finish(undefined, err.message);
+      if (!connected) {
+        socket.end("HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n");
+      }
+      upstream.destroy();
+    });
+    upstream.on("close", () => {
+      if (connected) socket.destroy();
+    });
+    socket.on("error", () => {
+      socket.destroy();
+      upstream.destroy();
+    });
+    socket.on("close", () => upstream.destroy());
+  }
+}
@@ -0,0 +1,139 @@
+// Requests seen by the traffic inspector, oldest first. Bodies are kept as
+// text, cut at MAX_BODY_CAPTURE bytes, and only when they look textual; the
+// byte counts are always the full size.
+export type TrafficEntry = {
+  seq: number;
+  time: number; // when the request arrived
+  method: string;
+  path: string;
+  status?: number; // undefined when the server never answered
+  durationMs?: number;
+  requestHeaders: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  requestBody?: string;
+  requestBytes: number;
+  responseBody?: string;
+  responseBytes: number;
+  upgrade?: boolean; // WebSocket or other protocol upgrade
+  error?: string;
+};
+
+export type TrafficStatusFilter =
+  | "all"
+  | "2xx"
+  | "3xx"
+  | "4xx"
+  | "5xx"
+  | "failed";
+
+export type TrafficFilter = {
+  query?: string; // matched against method, path and status
+  status?: TrafficStatusFilter;
+};
+
+// One inspection proxy in front of a detected server.
+export type InspectorSession = {
+  key: string; // ServerInfo.key of the inspected server
+  port: number; // companion port the proxy listens on
+  url: string;
+  target: string; // host:port requests are forwarded to
+};
+
+export const DEFAULT_TRAFFIC_CAPACITY = 500;
+export const MAX_BODY_CAPTURE = 16_384;
+// Companion ports sit this far above the inspected port when free.
+export const INSPECTOR_PORT_OFFSET = 10_000;
+const MAX_SERVER_KEY_LENGTH = 256;
+
+export function validateServerKey(value: unknown): string {
+  if (
+    typeof value !== "string" ||
+    !value.trim() ||
+    value.length > MAX_SERVER_KEY_LENGTH
+  ) {
+    throw new Error("Server key must be a non-empty string.");
+  }
+  return value;
+}
+
+export function companionPort(port: number): number {
+  const preferred = port + INSPECTOR_PORT_OFFSET;
+  return preferred <= 65535 ? preferred : 0;
+}
+
+export function matchesTrafficFilter(
+  entry: TrafficEntry,
+  filter: TrafficFilter,
+): boolean {
+  const status = filter.status ?? "all";
+  if (status === "failed") {
+    if (entry.status !== undefined) return false;
+  } else if (status !== "all") {
+    if (entry.status === undefined) return false;
+    if (String(entry.status)[0] !== status[0]) return false;
+  }
+  const q = filter.query?.trim().toLowerCase();
+  if (!q) return true;
+  return `${entry.method} ${entry.path} ${entry.status ?? ""}`
+    .toLowerCase()
+    .includes(q);
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Headers curl sets itself or that would not make sense when replayed.
+const CURL_SKIPPED_HEADERS = new Set([
+  "host",
+  "content-length",
+  "connection",
+  "accept-encoding",
+  "x-forwarded-for",
+  "x-forwarded-host",
+  "x-forwarded-proto",
+]);
+
+// Replays the request straight against the server, not through the proxy.
+export function curlCommand(entry: TrafficEntry, baseUrl: string): string {
+  const parts = ["curl"];
+  if (entry.method !== "GET") parts.push("-X", entry.method);
+  parts.push(shellQuote(baseUrl.replace(/\/$/, "") + entry.path));
+  for (const [name, value] of Object.entries(entry.requestHeaders)) {
+    if (CURL_SKIPPED_HEADERS.has(name)) continue;
+    parts.push("-H", shellQuote(`${name}: ${value}`));
+  }
+  // A body that was cut short or not captured cannot be replayed.
+  if (
+    entry.requestBody !== undefined &&
+    entry.requestBytes <= MAX_BODY_CAPTURE
+  ) {
+    parts.push("--data-raw", shellQuote(entry.requestBody));
+  }
+  return parts.join(" ");
+}
+
+// Fixed-capacity list: the oldest entries are dropped once it is full.
+export class TrafficLog {
+  private entries: TrafficEntry[] = [];
+  private nextSeq = 1;
+
+  constructor(private readonly capacity = DEFAULT_TRAFFIC_CAPACITY) {}
+
+  add(entry: Omit<TrafficEntry, "seq">): TrafficEntry {
+    const added = { ...entry, seq: this.nextSeq++ };
+    this.entries.push(added);
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+    return added;
+  }
+
+  list(sinceSeq = 0): TrafficEntry[] {
+    return this.entries.filter((entry) => entry.seq > sinceSeq);
+  }
+
+  clear() {
+    this.entries = [];
+  }
+}
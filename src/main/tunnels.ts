@@ -0,0 +1,373 @@
+import http from "node:http";
+import { baseProcessName } from "./process-tree";
+
+export type TunnelKind = "ssh" | "kubectl" | "cloudflared" | "ngrok";
+
+// What a local port really is when a forwarder owns it. `remote` is where
+// connections to the local port end up; `publicUrl` is where a public tunnel
+// can be reached from the internet.
+export type TunnelInfo = {
+  kind: TunnelKind;
+  remote?: string; // "db.internal:5432", "svc/api:80", "SOCKS proxy"
+  via?: string; // SSH destination, with its jump host
+  namespace?: string;
+  context?: string;
+  name?: string; // named cloudflared tunnel
+  localTarget?: string; // local address a public tunnel exposes
+  publicUrl?: string;
+  quick?: boolean; // cloudflared quick tunnel, which names its URL locally
+};
+
+export const TUNNEL_URL_TIMEOUT_MS = 1500;
+
+// ssh options that take a value (from the OpenBSD getopt string).
+const SSH_VALUE_OPTIONS = new Set("BbcDEeFIiJLlmOopQRSWw");
+
+// Splits a command line into arguments, honouring single and double quotes.
+export function splitCommandLine(command: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  let started = false;
+  for (const char of command) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      started = true;
+    } else if (/\s/.test(char)) {
+      if (started) args.push(current);
+      current = "";
+      started = false;
+    } else {
+      current += char;
+      started = true;
+    }
+  }
+  if (started) args.push(current);
+  return args;
+}
+
+// Splits "[::1]:5432:db:5432" on the colons outside brackets.
+function splitForwardSpec(spec: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  for (const char of spec) {
+    if (char === "[") depth++;
+    else if (char === "]") depth--;
+    if (char === ":" && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function isPort(value: string | undefined): boolean {
+  return /^\d{1,5}$/.test(value ?? "");
+}
+
+// -L [bind_address:]port:host:hostport, or [bind_address:]port:remote_socket.
+function parseLocalForward(
+  spec: string,
+): { localPort: number; remote: string } | undefined {
+  const parts = splitForwardSpec(spec);
+  if (parts.length === 4 && isPort(parts[1])) {
+    return { localPort: Number(parts[1]), remote: `${parts[2]}:${parts[3]}` };
+  }
+  if (parts.length === 3 && isPort(parts[0]) && isPort(parts[2])) {
+    return { localPort: Number(parts[0]), remote: `${parts[1]}:${parts[2]}` };
+  }
+  if (parts.length === 3 && isPort(parts[1])) {
+    return { localPort: Number(parts[1]), remote: parts[2] };
+  }
+  if (parts.length === 2 && isPort(parts[0])) {
+    return { localPort: Number(parts[0]), remote: parts[1] };
+  }
+  return undefined;
+}
+
+// -D [bind_address:]port
+function parseDynamicForward(spec: string): number | undefined {
+  const port = splitForwardSpec(spec).pop();
+  return isPort(port) ? Number(port) : undefined;
+}
+
+export function parseSshTunnel(args: string[], port: number): TunnelInfo {
+  const forwards: { localPort: number; remote: string }[] = [];
+  let destination: string | undefined;
+  let jump: string | undefined;
+  let user: string | undefined;
+  for (let i = 1; i < args.length && !destination; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("-") || arg === "-") {
+      destination = arg;
+      continue;
+    }
+    // Flags combine (-fNL 8080:web:80) and values can be attached (-L8080:…).
+    for (let j = 1; j < arg.length; j++) {
+      const flag = arg[j];
+      if (!SSH_VALUE_OPTIONS.has(flag)) continue;
+      const value = arg.slice(j + 1) || args[++i];
+      if (value === undefined) break;
+      if (flag === "L") {
+        const forward = parseLocalForward(value);
+        if (forward) forwards.push(forward);
+      } else if (flag === "D") {
+        const localPort = parseDynamicForward(value);
+        if (localPort) forwards.push({ localPort, remote: "SOCKS proxy" });
+      } else if (flag === "J") {
+        jump = value;
+      } else if (flag === "l") {
+        user = value;
+      }
+      break;
+    }
+  }
+  const host =
+    destination && user && !destination.includes("@")
+      ? `${user}@${destination}`
+      : destination;
+  return {
+    kind: "ssh",
+    remote: forwards.find((forward) => forward.localPort === port)?.remote,
+    via: host && jump ? `${jump} → ${host}` : host,
+  };
+}
+
+// kubectl long flags that take a separate value.
+const KUBECTL_VALUE_FLAGS = new Set([
+  "namespace",
+  "context",
+  "kubeconfig",
+  "cluster",
+  "user",
+  "address",
+  "pod-running-timeout",
+  "request-timeout",
+  "server",
+  "token",
+]);
+
+// kubectl [global flags] port-forward [-n ns] TYPE/NAME [LOCAL:]REMOTE ...
+export function parseKubectlTunnel(
+  args: string[],
+  port: number,
+): TunnelInfo | undefined {
+  let namespace: string | undefined;
+  let context: string | undefined;
+  let subcommand: string | undefined;
+  const positional: string[] = [];
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    const long = /^--([\w-]+)(?:=(.*))?$/.exec(arg);
+    if (long) {
+      const [, flag, inline] = long;
+      const value =
+        inline ?? (KUBECTL_VALUE_FLAGS.has(flag) ? args[++i] : undefined);
+      if (flag === "namespace") namespace = value;
+      if (flag === "context") context = value;
+    } else if (/^-n/.test(arg)) {
+      namespace = arg.slice(2) || args[++i];
+    } else if (arg.startsWith("-")) {
+      continue;
+    } else if (!subcommand) {
+      subcommand = arg;
+    } else {
+      positional.push(arg);
+    }
+  }
+  if (subcommand !== "port-forward" || positional.length === 0) {
+    return undefined;
+  }
+
+  const [name, ...ports] = positional;
+  const resource = name.includes("/") ? name : `pod/${name}`;
+  const mappings = ports.map((spec) => {
+    const [local, remote = local] = spec.split(":");
+    return { local: isPort(local) ? Number(local) : undefined, remote };
+  });
+  // ":80" picks a random local port, so a lone mapping is assumed to match.
+  const mapping =
+    mappings.find((m) => m.local === port) ??
+    (mappings.length === 1 ? mappings[0] : undefined);
+  return {
+    kind: "kubectl",
+    remote: mapping ? `${resource}:${mapping.remote}` : resource,
+    namespace,
+    context,
+  };
+}
+
+function optionValue(args: string[], names: string[]): string | undefined {
+  for (let i = 1; i < args.length; i++) {
+    for (const name of names) {
+      if (args[i] === name) return args[i + 1];
+      if (args[i].startsWith(`${name}=`)) {
+        return args[i].slice(name.length + 1);
+      }
+    }
+  }
+  return undefined;
+}
+
+// Arguments that are neither flags nor the values of `valueFlags`.
+function positionalArgs(args: string[], valueFlags: string[]): string[] {
+  const positional: string[] = [];
+  for (let i = 1; i < args.length; i++) {
+    if (valueFlags.includes(args[i])) i++;
+    else if (!args[i].startsWith("-")) positional.push(args[i]);
+  }
+  return positional;
+}
+
+const CLOUDFLARED_VALUE_FLAGS = [
+  "--url",
+  "--hostname",
+  "--config",
+  "--metrics",
+  "--loglevel",
+  "--protocol",
+  "--credentials-file",
+  "--origincert",
+];
+
+const NGROK_VALUE_FLAGS = [
+  "--url",
+  "--domain",
+  "--hostname",
+  "--config",
+  "--region",
+  "--authtoken",
+  "--log",
+  "--basic-auth",
+  "--host-header",
+];
+
+function withScheme(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return /^[a-z]+:\/\//i.test(value) ? value : `https://${value}`;
+}
+
+// cloudflared tunnel --url http://localhost:3000   (quick tunnel)
+// cloudflared tunnel run my-tunnel                  (named tunnel)
+// cloudflared access tcp --hostname db.example.com --url localhost:5432
+export function parseCloudflaredTunnel(args: string[]): TunnelInfo {
+  const positional = positionalArgs(args, CLOUDFLARED_VALUE_FLAGS);
+  const url = optionValue(args, ["--url"]);
+  const hostname = optionValue(args, ["--hostname"]);
+  if (positional[0] === "access") {
+    return { kind: "cloudflared", remote: hostname, localTarget: url };
+  }
+  const runIndex = positional.indexOf("run");
+  return {
+    kind: "cloudflared",
+    name: runIndex >= 0 ? positional[runIndex + 1] : undefined,
+    localTarget: url,
+    publicUrl: withScheme(hostname),
+    ...(positional[0] === "tunnel" && runIndex < 0 && url
+      ? { quick: true }
+      : {}),
+  };
+}
+
+// ngrok http 3000 --url=https://shop.ngrok.app, ngrok tcp 22, ngrok start web
+export function parseNgrokTunnel(args: string[]): TunnelInfo {
+  const [protocol, addr] = positionalArgs(args, NGROK_VALUE_FLAGS);
+  const publicUrl = withScheme(
+    optionValue(args, ["--url", "--domain", "--hostname"]),
+  );
+  if (protocol === "start") {
+    return { kind: "ngrok", name: addr, publicUrl };
+  }
+  return {
+    kind: "ngrok",
+    localTarget: isPort(addr) ? `localhost:${addr}` : addr,
+    publicUrl,
+  };
+}
+
+// Recognizes a forwarder from the process owning a local port; undefined for
+// anything else. An ssh without a forward for this port still counts, just
+// without a remote.
+export function detectTunnel(
+  processName: string | undefined,
+  command: string | undefined,
+  port: number,
+): TunnelInfo | undefined {
+  const args = splitCommandLine(command ?? "");
+  const name = baseProcessName(args[0] ?? processName);
+  switch (name) {
+    case "ssh":
+      return parseSshTunnel(args, port);
+    case "kubectl":
+      return parseKubectlTunnel(args, port);
+    case "cloudflared":
+      return parseCloudflaredTunnel(args);
+    case "ngrok":
+      return parseNgrokTunnel(args);
+    default:
+      return undefined;
+  }
+}
+
+function getJson(url: string, timeoutMs: number): Promise<unknown> {
+  return new Promise((resolve) => {
+    const req = http.get(url, { timeout: timeoutMs }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("end", () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+        } catch {
+          resolve(undefined);
+        }
+      });
+      res.on("error", () => resolve(undefined));
+    });
+    req.on("timeout", () => req.destroy());
+    req.on("error", () => resolve(undefined));
+  });
+}
+
+// Only the ngrok agent and a cloudflared quick tunnel serve an HTTP API on
+// the port they own; cloudflared access forwards speak the remote protocol.
+export function hasPublicUrlApi(tunnel: TunnelInfo): boolean {
+  return tunnel.kind === "ngrok" || tunnel.quick === true;
+}
+
+// The port an ngrok agent or cloudflared listens on is its local API: ngrok's
+// inspector lists its tunnels, and cloudflared's metrics server names the
+// quick tunnel hostname. Resolves undefined when neither answers.
+export async function fetchTunnelPublicUrl(
+  kind: TunnelKind,
+  host: string,
+  port: number,
+  timeoutMs = TUNNEL_URL_TIMEOUT_MS,
+): Promise<string | undefined> {
+  if (kind === "ngrok") {
+    const body = (await getJson(
+      `http://${host}:${port}/api/tunnels`,
+      timeoutMs,
+    )) as { tunnels?: { public_url?: unknown }[] } | undefined;
+    const urls = (body?.tunnels ?? [])
+      .map((tunnel) => tunnel.public_url)
+      .filter((url): url is string => typeof url === "string");
+    return urls.find((url) => url.startsWith("https://")) ?? urls[0];
+  }
+  if (kind === "cloudflared") {
+    const body = (await getJson(
+      `http://${host}:${port}/quicktunnel`,
+      timeoutMs,
+    )) as { hostname?: unknown } | undefined;
+    return typeof body?.hostname === "string" && body.hostname
+      ? `https://${body.hostname}`
+      : undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,330 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  isObject,
+  readJson,
+  readText,
+  stringField,
+  walkUp,
+} from "./fs-utils";
+import { baseProcessName } from "./process-tree";
+import { splitCommandLine } from "./tunnels";
+
+export type WorkspaceTool = "pnpm" | "npm" | "nx" | "turbo";
+
+// The package inside a pnpm/npm/yarn/Nx/Turborepo workspace that a server
+// belongs to, so "apps/web" and "apps/api" can be told apart.
+export type WorkspacePackage = {
+  name: string; // package.json or project.json name, else the folder name
+  path: string; // relative to the workspace root with "/" separators
+  dir: string;
+  workspaceRoot: string;
+  tool: WorkspaceTool;
+};
+
+type WorkspaceLayout = {
+  root: string;
+  tool: WorkspaceTool;
+  include: string[];
+  exclude: string[];
+};
+
+const MAX_LISTED_PACKAGES = 500;
+// Where Nx and Turborepo keep packages when nothing else says so.
+const DEFAULT_PATTERNS = ["apps/*", "packages/*", "libs/*"];
+
+// Reads the `packages:` list of a pnpm-workspace.yaml. Only the block and
+// flow sequence forms pnpm documents are understood.
+export function parsePnpmWorkspace(yaml: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const raw of yaml.split(/\r?\n/)) {
+    const line = raw.replace(/\s+#.*$/, "");
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+    const key = /^(\S[^:]*):\s*(.*)$/.exec(line);
+    if (key) {
+      inPackages = key[1].trim() === "packages";
+      const flow = /^\[(.*)\]$/.exec(key[2].trim());
+      if (inPackages && flow) {
+        patterns.push(...flow[1].split(",").map(unquote).filter(Boolean));
+        inPackages = false;
+      }
+      continue;
+    }
+    const item = /^\s+-\s*(.+)$/.exec(line);
+    if (inPackages && item) patterns.push(unquote(item[1]));
+  }
+  return patterns;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, "$2");
+}
+
+// "workspaces" is either the list itself or, in Yarn 1, { packages: [...] }.
+function packageJsonWorkspaces(pkg: unknown): string[] | undefined {
+  if (!isObject(pkg)) return undefined;
+  const workspaces = isObject(pkg.workspaces)
+    ? pkg.workspaces.packages
+    : pkg.workspaces;
+  return Array.isArray(workspaces)
+    ? workspaces.filter((w): w is string => typeof w === "string")
+    : undefined;
+}
+
+// The workspace a directory defines, or undefined when it is not a root.
+export async function readWorkspaceLayout(
+  root: string,
+): Promise<WorkspaceLayout | undefined> {
+  let tool: WorkspaceTool | undefined;
+  let patterns: string[] | undefined;
+
+  const pnpm = await readText(path.join(root, "pnpm-workspace.yaml"));
+  if (pnpm !== undefined) {
+    tool = "pnpm";
+    patterns = parsePnpmWorkspace(pnpm);
+  } else {
+    patterns = packageJsonWorkspaces(
+      await readJson(path.join(root, "package.json")),
+    );
+    if (patterns) tool = "npm";
+  }
+
+  const nx = await readJson(path.join(root, "nx.json"));
+  if (nx !== undefined) {
+    tool = "nx";
+    const layout = isObject(nx) ? nx.workspaceLayout : undefined;
+    const nxPatterns = [
+      `${stringField(layout, "appsDir") ?? "apps"}/*`,
+      `${stringField(layout, "libsDir") ?? "libs"}/*`,
+    ];
+    patterns = [...(patterns ?? DEFAULT_PATTERNS), ...nxPatterns];
+  } else if (await readText(path.join(root, "turbo.json")) !== undefined) {
+    tool = "turbo";
+    patterns ??= DEFAULT_PATTERNS;
+  }
+
+  if (!tool || !patterns) return undefined;
+  const normalized = patterns.map((p) =>
+    p.trim().replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, ""),
+  );
+  return {
+    root,
+    tool,
+    include: normalized.filter((p) => p && !p.startsWith("!")),
+    exclude: normalized.filter((p) => p.startsWith("!")).map((p) => p.slice(1)),
+  };
+}
+
+function matchSegments(parts: string[], pattern: string[]): boolean {
+  if (pattern.length === 0) return parts.length === 0;
+  const [head, ...rest] = pattern;
+  if (head === "**") {
+    for (let i = 0; i <= parts.length; i++) {
+      if (matchSegments(parts.slice(i), rest)) return true;
+    }
+    return false;
+  }
+  if (parts.length === 0) return false;
+  const segment = new RegExp(
+    `^${head
+      .split("*")
+      .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join("[^/]*")}$`,
+  );
+  return segment.test(parts[0]) && matchSegments(parts.slice(1), rest);
+}
+
+// Glob matching for workspace patterns: `*` within a segment, `**` across.
+export function matchesWorkspacePattern(
+  relative: string,
+  pattern: string,
+): boolean {
+  return matchSegments(relative.split("/"), pattern.split("/"));
+}
+
+function isWorkspacePackagePath(
+  layout: WorkspaceLayout,
+  relative: string,
+): boolean {
+  return (
+    !relative.split("/").includes("node_modules") &&
+    layout.include.some((p) => matchesWorkspacePattern(relative, p)) &&
+    !layout.exclude.some((p) => matchesWorkspacePattern(relative, p))
+  );
+}
+
+function relativePath(root: string, target: string): string | undefined {
+  const relative = path.relative(root, target);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    return undefined;
+  }
+  return relative.split(path.sep).join("/");
+}
+
+async function packageAt(
+  layout: WorkspaceLayout,
+  dir: string,
+): Promise<WorkspacePackage | undefined> {
+  const relative = relativePath(layout.root, dir);
+  if (!relative || !isWorkspacePackagePath(layout, relative)) return undefined;
+  const pkg = await readJson(path.join(dir, "package.json"));
+  const project = await readJson(path.join(dir, "project.json"));
+  if (pkg === undefined && project === undefined) return undefined;
+  const name = stringField(project, "name") ?? stringField(pkg, "name");
+  return {
+    name: name ?? path.basename(dir),
+    path: relative,
+    dir,
+    workspaceRoot: layout.root,
+    tool: layout.tool,
+  };
+}
+
+// The nearest enclosing workspace root, stopping below the home directory.
+export async function findWorkspaceLayout(
+  start: string,
+  home = os.homedir(),
+): Promise<WorkspaceLayout | undefined> {
+  return walkUp(start, readWorkspaceLayout, home);
+}
+
+// Walks up from `target` to the workspace root looking for the package that
+// contains it. Paths under node_modules (pnpm's store, hoisted binaries) are
+// cut back to the directory owning that node_modules first.
+async function packageContaining(
+  layout: WorkspaceLayout,
+  target: string,
+): Promise<WorkspacePackage | undefined> {
+  const relative = relativePath(layout.root, target);
+  if (!relative) return undefined;
+  const parts = relative.split("/");
+  const nodeModules = parts.indexOf("node_modules");
+  const owned = nodeModules >= 0 ? parts.slice(0, nodeModules) : parts;
+  for (let length = owned.length; length > 0; length--) {
+    const found = await packageAt(
+      layout,
+      path.join(layout.root, ...owned.slice(0, length)),
+    );
+    if (found) return found;
+  }
+  return undefined;
+}
+
+async function listPackages(
+  layout: WorkspaceLayout,
+): Promise<WorkspacePackage[]> {
+  const found: WorkspacePackage[] = [];
+  const visit = async (dir: string, depth: number) => {
+    if (found.length >= MAX_LISTED_PACKAGES || depth > 4) return;
+    let entries: import("node:fs").Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name === "node_modules") continue;
+      if (entry.name.startsWith(".")) continue;
+      const child = path.join(dir, entry.name);
+      const pkg = await packageAt(layout, child);
+      if (pkg) found.push(pkg);
+      else await visit(child, depth + 1);
+    }
+  };
+  await visit(layout.root, 0);
+  return found;
+}
+
+// "nx", "/repo/node_modules/.bin/nx", "nx.cmd", "yarn.js" all count.
+function isTool(arg: string | undefined, tool: string): boolean {
+  return baseProcessName(arg).replace(/\.(c?js|cmd)$/, "") === tool;
+}
+
+// Package selectors from the runner that started the server:
+// `pnpm --filter web dev`, `npm run dev -w apps/api`, `turbo dev
+// --filter=@shop/web`, `yarn workspace web dev`, `nx serve api`.
+export function workspaceSelectors(commandLine: string): string[] {
+  const args = splitCommandLine(commandLine);
+  const selectors: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = args[i + 1];
+    const inline = /^--(?:filter|workspace)=(.+)$/.exec(arg);
+    if (inline) {
+      selectors.push(...inline[1].split(","));
+    } else if (/^(?:--filter|-F|--workspace|-w)$/.test(arg) && next) {
+      selectors.push(next);
+      i++;
+    } else if (isTool(arg, "yarn") && next === "workspace" && args[i + 2]) {
+      selectors.push(args[i + 2]);
+    } else if (isTool(arg, "nx") && next && args[i + 2]) {
+      // nx run api:serve, nx serve api
+      selectors.push(next === "run" ? args[i + 2].split(":")[0] : args[i + 2]);
+    }
+  }
+  // pnpm's "web...", "...web" and "{apps/web}" forms name a package too;
+  // globs and exclusions do not pin one down.
+  return selectors
+    .map((s) =>
+      s
+        .replace(/^\.\.\.|\^?\.\.\.$/g, "")
+        .replace(/^\{(.*)\}$/, "$1")
+        .replace(/^\.\//, ""),
+    )
+    .filter(
+      (s) => s && !s.startsWith("-") && !s.startsWith("!") && !s.includes("*"),
+    );
+}
+
+function selectPackage(
+  packages: WorkspacePackage[],
+  selector: string,
+): WorkspacePackage | undefined {
+  const wanted = selector.replace(/\\/g, "/").replace(/\/+$/, "");
+  return (
+    packages.find((p) => p.name === wanted || p.path === wanted) ??
+    packages.find((p) => p.name.replace(/^@[^/]+\//, "") === wanted)
+  );
+}
+
+// Absolute paths mentioned on a command line (script paths, --cwd values).
+function commandPaths(commandLine: string): string[] {
+  const matches = commandLine.match(
+    /[A-Za-z]:[\\/][^"'<>|*?\s]*|(?<![\w.])\/[^"'<>|*?\s]+/g,
+  );
+  return matches ?? [];
+}
+
+// Resolves the workspace package a server belongs to from its working
+// directory and the command lines of the process and its launchers (nearest
+// first). Returns undefined outside workspaces and for servers started at the
+// workspace root that no package can be matched to.
+export async function resolveWorkspacePackage(
+  cwd: string,
+  commandLines: string[] = [],
+  home = os.homedir(),
+): Promise<WorkspacePackage | undefined> {
+  const layout = await findWorkspaceLayout(cwd, home);
+  if (!layout) return undefined;
+
+  const fromCwd = await packageContaining(layout, path.resolve(cwd));
+  if (fromCwd) return fromCwd;
+
+  for (const commandLine of commandLines) {
+    for (const candidate of commandPaths(commandLine)) {
+      const found = await packageContaining(layout, path.resolve(candidate));
+      if (found) return found;
+    }
+  }
+
+  const selectors = commandLines.flatMap(workspaceSelectors);
+  if (selectors.length === 0) return undefined;
+  const packages = await listPackages(layout);
+  for (const selector of selectors) {
+    const found = selectPackage(packages, selector);
+    if (found) return found;
+  }
+  return undefined;
+}
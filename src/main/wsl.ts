@@ -0,0 +1,343 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import {
+  normalizeBindAddress,
+  parseNumericPid,
+  parseNumericPort,
+  type ListenerProtocol,
+  type ParsedListener,
+} from "./server-detection";
+import type { StopOutcome, StopResult } from "./process-stop";
+import type { PortOwner } from "./port-owners";
+
+const execFileAsync = promisify(execFile);
+
+// A socket listening inside a WSL2 distro. The PID is a Linux PID, so it
+// must never be looked up or signalled on the Windows side.
+export type WslListener = {
+  distro: string;
+  pid: number;
+  port: number;
+  protocol: ListenerProtocol;
+  addresses: string[];
+  processName?: string;
+  command?: string;
+  cwd?: string; // Linux path inside the distro
+};
+
+type WslProcess = { name?: string; command?: string; cwd?: string };
+
+// Injectable so tests can replay wsl.exe output.
+export type WslRunner = (args: string[], timeoutMs: number) => Promise<Buffer>;
+
+const WSL_COMMAND_TIMEOUT_MS = 5000;
+const WSL_RETRY_MS = 30_000;
+const FORCE_WAIT_TENTHS = 20;
+
+// Docker Desktop's own distros; their ports come from the container engine.
+const IGNORED_DISTROS = /^docker-desktop(-data)?$/i;
+
+// One round trip per distro: TCP and UDP sockets with their owning PIDs,
+// then name, cwd and command line for each of those PIDs. Runs as root so
+// sockets of every user are visible.
+const LISTENER_SCRIPT = [
+  "echo @tcp; ss -Htlnp 2>/dev/null",
+  "echo @udp; ss -Hulnp 2>/dev/null",
+  "echo @proc",
+  "for pid in $(ss -Htulnp 2>/dev/null | grep -o 'pid=[0-9]*' | cut -d= -f2 | sort -u); do",
+  "  printf '%s\\t%s\\t%s\\t%s\\n' $pid \"$(cat /proc/$pid/comm 2>/dev/null)\" \"$(readlink /proc/$pid/cwd 2>/dev/null)\" \"$(tr '\\0' ' ' </proc/$pid/cmdline 2>/dev/null)\"",
+  "done",
+].join("\n");
+
+// The same escalation as stopProcessTree, run inside the distro: SIGINT to
+// the process and its descendants, SIGTERM halfway through the grace period
+// ($2, in tenths of a second), then SIGKILL. Prints the outcome, followed by
+// the surviving PIDs when it failed.
+const STOP_SCRIPT = [
+  "root=$1; grace=$2",
+  "alive() { for p in $pids; do kill -0 $p 2>/dev/null && echo $p; done; }",
+  "wait_for() { n=$1; while [ $n -gt 0 ] && [ -n \"$(alive)\" ]; do sleep 0.1; n=$((n - 1)); done; }",
+  "kill -0 $root 2>/dev/null || { echo already-exited; exit 0; }",
+  "pids=$(ps -A -o pid=,ppid= | awk -v r=$root '{ p[$1] = $2 } END { t[r] = 1; do { c = 0; for (k in p) if (!(k in t) && (p[k] in t)) { t[k] = 1; c = 1 } } while (c); for (k in t) print k }')",
+  "kill -INT $pids 2>/dev/null; wait_for $((grace / 2)); pids=$(alive)",
+  "[ -n \"$pids\" ] && { kill -TERM $pids 2>/dev/null; wait_for $((grace - grace / 2)); pids=$(alive); }",
+  "[ -z \"$pids\" ] && { echo exited; exit 0; }",
+  `kill -KILL $pids 2>/dev/null; wait_for ${FORCE_WAIT_TENTHS}; pids=$(alive)`,
+  "[ -z \"$pids\" ] && echo forced || echo failed $pids",
+].join("\n");
+
+export function validateWslDistro(value: unknown): string {
+  if (typeof value !== "string" || !/^[A-Za-z0-9._-]{1,64}$/.test(value)) {
+    throw new Error("WSL distro name is not valid.");
+  }
+  return value;
+}
+
+// `wsl.exe --list` writes UTF-16LE; anything that is not a plain distro name
+// (such as "There are no running distributions.") is dropped.
+export function parseWslDistroList(output: Buffer): string[] {
+  const text = output.includes(0)
+    ? output.toString("utf16le")
+    : output.toString("utf8");
+  return text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\0/g, "").trim())
+    .filter(
+      (name) =>
+        /^[A-Za-z0-9._-]{1,64}$/.test(name) && !IGNORED_DISTROS.test(name),
+    );
+}
+
+// Parses `ss -Hlnp` lines, e.g.
+//   LISTEN 0 511 0.0.0.0:3000 0.0.0.0:* users:(("node",pid=812,fd=21))
+//   UNCONN 0 0 127.0.0.53%lo:53 0.0.0.0:* users:(("systemd-resolve",pid=90,fd=13))
+export function parseSsOutput(
+  stdout: string,
+  protocol: ListenerProtocol,
+): ParsedListener[] {
+  const listeners: ParsedListener[] = [];
+  for (const line of stdout.split(/\r?\n/)) {
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 6) continue;
+    const local = parts[3];
+    const separator = local.lastIndexOf(":");
+    const localPort = parseNumericPort(local.slice(separator + 1));
+    const pid = parseNumericPid(/pid=(\d+)/.exec(line)?.[1]);
+    if (separator <= 0 || !localPort || !pid) continue;
+    listeners.push({
+      protocol,
+      // ss prints a dual-stack wildcard as `*`.
+      localAddress:
+        normalizeBindAddress(local.slice(0, separator), "IPv6") ?? "0.0.0.0",
+      localPort,
+      pid,
+      state: protocol === "udp" ? "BOUND" : "LISTEN",
+    });
+  }
+  return listeners;
+}
+
+// Splits the LISTENER_SCRIPT output into its sections and groups sockets by
+// PID, port and protocol like the native scanner does.
+export function parseWslListenerReport(
+  stdout: string,
+  distro: string,
+): WslListener[] {
+  const sections: Record<string, string[]> = { tcp: [], udp: [], proc: [] };
+  let current: string[] | undefined;
+  for (const line of stdout.split(/\r?\n/)) {
+    const header = /^@(tcp|udp|proc)$/.exec(line.trim());
+    if (header) current = sections[header[1]];
+    else current?.push(line);
+  }
+
+  const processes = new Map<number, WslProcess>();
+  for (const line of sections.proc) {
+    const [pid, name, cwd, command] = line.split("\t");
+    const parsed = parseNumericPid(pid);
+    if (!parsed) continue;
+    processes.set(parsed, {
+      name: name?.trim() || undefined,
+      cwd: cwd?.trim() || undefined,
+      command: command?.trim() || undefined,
+    });
+  }
+
+  const byKey = new Map<string, WslListener>();
+  const parsed = [
+    ...parseSsOutput(sections.tcp.join("\n"), "tcp"),
+    ...parseSsOutput(sections.udp.join("\n"), "udp"),
+  ];
+  for (const socket of parsed) {
+    const key = `${socket.pid}:${socket.localPort}/${socket.protocol}`;
+    let listener = byKey.get(key);
+    if (!listener) {
+      const proc = processes.get(socket.pid);
+      listener = {
+        distro,
+        pid: socket.pid,
+        port: socket.localPort,
+        protocol: socket.protocol,
+        addresses: [],
+        processName: proc?.name,
+        command: proc?.command,
+        cwd: proc?.cwd,
+      };
+      byKey.set(key, listener);
+    }
+    if (!listener.addresses.includes(socket.localAddress)) {
+      listener.addresses.push(socket.localAddress);
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+// Windows reaches a distro's files through the \\wsl.localhost share, which
+// is what manifest reading, Explorer and VS Code are given.
+export function wslUncPath(distro: string, linuxPath: string): string {
+  return `\\\\wsl.localhost\\${distro}${linuxPath.replace(/\//g, "\\")}`;
+}
+
+// wslrelay.exe (wslhost.exe on older builds) holds the Windows side of a
+// WSL2 localhost forward.
+const WSL_RELAY_PROCESS = /^wsl(relay|host)(\.exe)?$/i;
+
+// True for the relay holding a port a WSL listener covers. It only forwards
+// there, so the Linux listener stands in for it, and stopping the relay would
+// cut localhost forwarding for every distro.
+export function isWslRelayFor(
+  processName: string | undefined,
+  port: number,
+  protocol: ListenerProtocol,
+  listeners: WslListener[],
+): boolean {
+  return (
+    WSL_RELAY_PROCESS.test(processName ?? "") &&
+    listeners.some(
+      (listener) => listener.port === port && listener.protocol === protocol,
+    )
+  );
+}
+
+// A WSL listener as a port owner; the caller adds the framework.
+export function wslPortOwner(listener: WslListener): PortOwner {
+  return {
+    port: listener.port,
+    pid: listener.pid,
+    protocol: listener.protocol,
+    addresses: [...listener.addresses].sort(),
+    processName: listener.processName,
+    command: listener.command,
+    cwd: listener.cwd ? wslUncPath(listener.distro, listener.cwd) : undefined,
+    tree: [
+      {
+        pid: listener.pid,
+        name: listener.processName,
+        command: listener.command,
+      },
+    ],
+    wslDistro: listener.distro,
+  };
+}
+
+export function parseWslUncPath(
+  value: string,
+): { distro: string; path: string } | null {
+  const match = /^\\\\wsl(?:\.localhost|\$)\\([^\\]+)(.*)$/i.exec(value);
+  if (!match) return null;
+  return { distro: match[1], path: match[2].replace(/\\/g, "/") || "/" };
+}
+
+export const runWsl: WslRunner = async (args, timeoutMs) => {
+  const { stdout } = await execFileAsync("wsl.exe", args, {
+    encoding: "buffer",
+    windowsHide: true,
+    timeout: timeoutMs,
+    maxBuffer: 4 * 1024 * 1024,
+  });
+  return stdout;
+};
+
+// Lists listeners in every running distro. Stopped distros are never booted.
+// When wsl.exe is missing or fails, it waits WSL_RETRY_MS before trying
+// again, so machines without WSL pay nothing per scan.
+export class WslListenerSource {
+  private retryAt = 0;
+
+  constructor(
+    private readonly run: WslRunner = runWsl,
+    private readonly retryMs = WSL_RETRY_MS,
+  ) {}
+
+  async listListeners(now = Date.now()): Promise<WslListener[]> {
+    if (now < this.retryAt) return [];
+    let distros: string[];
+    try {
+      distros = parseWslDistroList(
+        await this.run(
+          ["--list", "--quiet", "--running"],
+          WSL_COMMAND_TIMEOUT_MS,
+        ),
+      );
+    } catch {
+      this.retryAt = now + this.retryMs;
+      return [];
+    }
+    const reports = await Promise.allSettled(
+      distros.map(async (distro) => {
+        const stdout = await this.run(
+          ["-d", distro, "-u", "root", "-e", "sh", "-c", LISTENER_SCRIPT],
+          WSL_COMMAND_TIMEOUT_MS,
+        );
+        return parseWslListenerReport(stdout.toString("utf8"), distro);
+      }),
+    );
+    return reports.flatMap((report) =>
+      report.status === "fulfilled" ? report.value : [],
+    );
+  }
+}
+
+// Stops a Linux process inside its distro with the same escalation as
+// stopProcessTree.
+export async function stopWslProcess(
+  distro: string,
+  pid: number,
+  options: { graceMs: number },
+  run: WslRunner = runWsl,
+): Promise<StopResult> {
+  const startedAt = Date.now();
+  const graceTenths = Math.round(options.graceMs / 100);
+  let stdout: string;
+  try {
+    stdout = (
+      await run(
+        [
+          "-d",
+          distro,
+          "-u",
+          "root",
+          "-e",
+          "sh",
+          "-c",
+          STOP_SCRIPT,
+          "sh",
+          String(pid),
+          String(graceTenths),
+        ],
+        options.graceMs + FORCE_WAIT_TENTHS * 100 + WSL_COMMAND_TIMEOUT_MS,
+      )
+    ).toString("utf8");
+  } catch (err) {
+    return {
+      pid,
+      outcome: "failed",
+      elapsedMs: Date.now() - startedAt,
+      survivors: [pid],
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+  return parseWslStopOutput(stdout, pid, Date.now() - startedAt);
+}
+
+export function parseWslStopOutput(
+  stdout: string,
+  pid: number,
+  elapsedMs: number,
+): StopResult {
+  const lines = stdout.trim().split(/\r?\n/);
+  const [outcome, ...rest] = lines[lines.length - 1].trim().split(/\s+/);
+  const outcomes: StopOutcome[] = ["already-exited", "exited", "forced"];
+  if (outcomes.includes(outcome as StopOutcome)) {
+    return { pid, outcome: outcome as StopOutcome, elapsedMs, survivors: [] };
+  }
+  const survivors = rest.map(Number).filter((n) => Number.isInteger(n));
+  return {
+    pid,
+    outcome: "failed",
+    elapsedMs,
+    survivors: outcome === "failed" ? survivors : [pid],
+    error: "Process did not exit",
+  };
+}
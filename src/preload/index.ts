@@ -13,6 +13,22 @@ import {
   validateCliSessionId,
   validateCliUninstallRequest,
 } from "../main/clis/ipc-validation";
+import {
+  validateLaunchProfileId,
+  validateLaunchProfileInput,
+} from "../main/launch-profiles";
+import { validatePortNumber, validatePortQuery } from "../main/port-owners";
+import { validatePid } from "../main/process-stop";
+import { validateServerKey } from "../main/traffic-log";
+import { validateWslDistro } from "../main/wsl";
+import {
+  validateContainerAction,
+  validateContainerId,
+} from "../main/container-engine";
+import {
+  validateHealthProbe,
+  validateHealthProbeKey,
+} from "../main/health-probes";
 
 const requireString = (value: unknown, label: string): string => {
   if (typeof value !== "string" || !value.trim()) {
@@ -100,9 +116,63 @@ contextBridge.exposeInMainWorld("api", {
     return () => ipcRenderer.removeListener("scanner:error", listener);
   },
   refresh: () => ipcRenderer.invoke("scanner:refresh"),
+  // captured output for servers started from launch profiles
+  getLogs: (profileId: string, sinceSeq?: number) =>
+    ipcRenderer.invoke(
+      "logs:get",
+      validateLaunchProfileId(profileId),
+      sinceSeq ?? 0,
+    ),
+  clearLogs: (profileId: string) =>
+    ipcRenderer.invoke("logs:clear", validateLaunchProfileId(profileId)),
+  onLogAppend: (cb: (payload: any) => void) => {
+    const listener = (_: any, payload: any) => cb(payload);
+    ipcRenderer.on("logs:append", listener);
+    return () => ipcRenderer.removeListener("logs:append", listener);
+  },
+  // traffic inspector proxies in front of detected servers
+  getInspectorSessions: () => ipcRenderer.invoke("inspector:sessions"),
+  startInspector: (key: string) =>
+    ipcRenderer.invoke("inspector:start", validateServerKey(key)),
+  stopInspector: (key: string) =>
+    ipcRenderer.invoke("inspector:stop", validateServerKey(key)),
+  getTraffic: (key: string, sinceSeq?: number) =>
+    ipcRenderer.invoke("inspector:get", validateServerKey(key), sinceSeq ?? 0),
+  clearTraffic: (key: string) =>
+    ipcRenderer.invoke("inspector:clear", validateServerKey(key)),
+  onInspectorSessions: (cb: (sessions: any[]) => void) => {
+    const listener = (_: any, payload: any) => cb(payload);
+    ipcRenderer.on("inspector:sessions", listener);
+    return () => ipcRenderer.removeListener("inspector:sessions", listener);
+  },
+  onTrafficAppend: (cb: (payload: any) => void) => {
+    const listener = (_: any, payload: any) => cb(payload);
+    ipcRenderer.on("inspector:append", listener);
+    return () => ipcRenderer.removeListener("inspector:append", listener);
+  },
+  // port ownership
+  resolvePorts: (ports?: number | number[]) =>
+    ipcRenderer.invoke("ports:resolve", validatePortQuery(ports)),
+  freePort: (port: number) =>
+    ipcRenderer.invoke("ports:free", validatePortNumber(port)),
+  getPortConflicts: () => ipcRenderer.invoke("ports:conflicts"),
+  onPortConflicts: (cb: (conflicts: any[]) => void) => {
+    const listener = (_: any, payload: any) => cb(payload);
+    ipcRenderer.on("ports:conflicts", listener);
+    return () => ipcRenderer.removeListener("ports:conflicts", listener);
+  },
   // actions
   openUrl: (url: string) => ipcRenderer.send("app:open-url", url),
-  killPid: (pid: number) => ipcRenderer.send("app:kill-pid", pid),
+  // Resolves once the process is gone, force-killed, or could not be stopped.
+  killPid: (pid: number) =>
+    ipcRenderer.invoke("app:kill-pid", validatePid(pid)),
+  // Same, for a Linux PID inside a WSL distro.
+  killWslPid: (distro: string, pid: number) =>
+    ipcRenderer.invoke(
+      "app:kill-wsl-pid",
+      validateWslDistro(distro),
+      validatePid(pid),
+    ),
   killAllServers: () => ipcRenderer.invoke("app:kill-all-servers"),
   copyText: (text: string) => clipboard.writeText(text),
   openInVSCode: (payload: any) =>
@@ -114,6 +184,8 @@ contextBridge.exposeInMainWorld("api", {
   updateSettings: (partial: any) =>
     ipcRenderer.invoke("settings:update", partial),
   resetSettings: () => ipcRenderer.invoke("settings:reset"),
+  // Bearer token of the control API, or null while it is off
+  getControlApiToken: () => ipcRenderer.invoke("control-api:token"),
   onSettingsUpdate: (cb: (s: any) => void) => {
     const listener = (_: any, payload: any) => cb(payload);
     ipcRenderer.on("settings:update", listener);
@@ -137,11 +209,84 @@ contextBridge.exposeInMainWorld("api", {
     ipcRenderer.on("health:update", listener);
     return () => ipcRenderer.removeListener("health:update", listener);
   },
+  // Rolling health history per server, keyed by server key
+  getHealthHistory: () => ipcRenderer.invoke("health-history:get"),
+  onHealthHistoryUpdate: (cb: (summaries: any) => void) => {
+    const listener = (_: any, payload: any) => cb(payload);
+    ipcRenderer.on("health-history:update", listener);
+    return () =>
+      ipcRenderer.removeListener("health-history:update", listener);
+  },
   // Port notes
   getNote: (port: number | string) => ipcRenderer.invoke("notes:get", port),
   setNote: (port: number | string, note: string) =>
     ipcRenderer.invoke("notes:set", port, note),
   getAllNotes: () => ipcRenderer.invoke("notes:all"),
+  // Notes changed through the control API
+  onNotesUpdate: (cb: (notes: Record<string, string>) => void) => {
+    const listener = (_: any, payload: any) => cb(payload);
+    ipcRenderer.on("notes:update", listener);
+    return () => ipcRenderer.removeListener("notes:update", listener);
+  },
+  // Page thumbnails, keyed by server key; opted out per port
+  getThumbnails: () => ipcRenderer.invoke("thumbnails:get"),
+  getThumbnailDisabledPorts: () =>
+    ipcRenderer.invoke("thumbnails:disabled-ports"),
+  setThumbnailEnabled: (port: number, enabled: boolean) =>
+    ipcRenderer.invoke(
+      "thumbnails:set-enabled",
+      validatePortNumber(port),
+      enabled === true,
+    ),
+  onThumbnailsUpdate: (cb: (thumbnails: any) => void) => {
+    const listener = (_: any, payload: any) => cb(payload);
+    ipcRenderer.on("thumbnails:update", listener);
+    return () => ipcRenderer.removeListener("thumbnails:update", listener);
+  },
+  // Health check probes; validated again in main
+  getHealthProbes: () => ipcRenderer.invoke("health-probes:get"),
+  setHealthProbe: (key: string, probe: unknown) =>
+    ipcRenderer.invoke(
+      "health-probes:set",
+      validateHealthProbeKey(key),
+      probe === null ? null : validateHealthProbe(probe),
+    ),
+  // Server session history; the query is validated in main
+  queryServerSessions: (query?: unknown) =>
+    ipcRenderer.invoke("sessions:query", query),
+  clearServerSessions: () => ipcRenderer.invoke("sessions:clear"),
+  // Containers
+  getStoppedContainers: () => ipcRenderer.invoke("containers:stopped"),
+  onStoppedContainers: (cb: (containers: any) => void) => {
+    const listener = (_: any, payload: any) => cb(payload);
+    ipcRenderer.on("containers:stopped", listener);
+    return () => ipcRenderer.removeListener("containers:stopped", listener);
+  },
+  containerAction: (id: string, action: string) =>
+    ipcRenderer.invoke(
+      "containers:action",
+      validateContainerId(id),
+      validateContainerAction(action),
+    ),
+  getContainerLogs: (id: string) =>
+    ipcRenderer.invoke("containers:logs", validateContainerId(id)),
+  // Launch profiles
+  getLaunchProfiles: () => ipcRenderer.invoke("profiles:get"),
+  saveLaunchProfile: (input: unknown) =>
+    ipcRenderer.invoke("profiles:save", validateLaunchProfileInput(input)),
+  deleteLaunchProfile: (id: string) =>
+    ipcRenderer.invoke("profiles:delete", validateLaunchProfileId(id)),
+  startLaunchProfile: (id: string) =>
+    ipcRenderer.invoke("profiles:start", validateLaunchProfileId(id)),
+  stopLaunchProfile: (id: string) =>
+    ipcRenderer.invoke("profiles:stop", validateLaunchProfileId(id)),
+  restartLaunchProfile: (id: string) =>
+    ipcRenderer.invoke("profiles:restart", validateLaunchProfileId(id)),
+  onLaunchProfilesUpdate: (cb: (state: any) => void) => {
+    const listener = (_: any, payload: any) => cb(payload);
+    ipcRenderer.on("profiles:update", listener);
+    return () => ipcRenderer.removeListener("profiles:update", listener);
+  },
   // Recent scripts
   getRecentScripts: () => ipcRenderer.invoke("scripts:recent:get"),
   onRecentScriptsUpdate: (cb: (items: any[]) => void) => {
@@ -1,8 +1,16 @@
 import React, { useEffect, useMemo, useState } from "react";
 import dayjs from "dayjs";
 import relativeTime from "dayjs/plugin/relativeTime";
+import {
+  FolderTree,
+  History,
+  Layers,
+  Radar,
+  Rocket,
+  TriangleAlert,
+} from "lucide-react";
 import TitleBar from "./components/TitleBar";
-import ServerCard from "./components/ServerCard";
+import ServerCard, { stopServer } from "./components/ServerCard";
 import AHKCard from "./components/AHKCard";
 import AutomatorCard from "./components/AutomatorCard";
 import SettingsPanel from "./components/SettingsPanel";
@@ -11,6 +19,23 @@ import RecentScriptsDrawer from "./components/RecentScriptsDrawer";
 import EnvironmentKeysTab from "./components/EnvironmentKeysTab";
 import CleanerTab from "./components/CleanerTab";
 import ClisTab from "./components/ClisTab";
+import LaunchProfilesDrawer from "./components/LaunchProfilesDrawer";
+import LogViewer from "./components/LogViewer";
+import PortOwnersDialog from "./components/PortOwnersDialog";
+import HealthProbeDialog from "./components/HealthProbeDialog";
+import ServerHistoryDialog from "./components/ServerHistoryDialog";
+import StoppedContainers from "./components/StoppedContainers";
+import ProjectGroup from "./components/ProjectGroup";
+import TrafficInspector from "./components/TrafficInspector";
+import type { LaunchProfilesState } from "../main/launch-profiles";
+import type { PortConflict } from "../main/port-owners";
+import type { HealthProbes } from "../main/health-probes";
+import type { HealthHistorySummary } from "../main/health-history";
+import type { StoppedContainer } from "../main/container-engine";
+import type { ProjectRoot } from "../main/project-root";
+import type { GitStatus } from "../main/git-status";
+import type { InspectorSession } from "../main/traffic-log";
+import type { PageThumbnail } from "../main/page-thumbnails";
 
 dayjs.extend(relativeTime);
 
@@ -18,6 +43,10 @@ type Item = {
   key: string;
   pid: number;
   port: number;
+  protocol?: "tcp" | "udp";
+  addresses?: string[];
+  family?: "IPv4" | "IPv6" | "dual";
+  exposure?: "loopback" | "all-interfaces" | "network";
   processName?: string;
   command?: string;
   path?: string;
@@ -29,8 +58,15 @@ type Item = {
   framework?: string;
   cpuHistory?: number[];
   memoryHistory?: number[];
+  profileId?: string;
+  profileName?: string;
+  wslDistro?: string;
+  project?: ProjectRoot;
+  git?: GitStatus;
 };
 
+type ServerGrouping = "project" | "framework";
+
 type AHKItem = {
   key: string;
   pid: number;
@@ -104,6 +140,8 @@ type HealthResult = {
   url: string;
   status: "healthy" | "slow" | "down";
   responseTime?: number;
+  httpStatus?: number;
+  probeKey?: string;
   lastChecked: number;
   error?: string;
 };
@@ -115,6 +153,9 @@ export default function App() {
   const [healthResults, setHealthResults] = useState<
     Record<string, HealthResult>
   >({});
+  const [healthHistory, setHealthHistory] = useState<
+    Record<string, HealthHistorySummary>
+  >({});
   const [portNotes, setPortNotes] = useState<Record<string, string>>({});
   const [error, setError] = useState<string | null>(null);
   const [settings, setSettings] = useState<any>(null);
@@ -127,6 +168,46 @@ export default function App() {
   >({});
   const [recentScripts, setRecentScripts] = useState<RecentScript[]>([]);
   const [recentOpen, setRecentOpen] = useState(false);
+  const [profilesState, setProfilesState] = useState<LaunchProfilesState>({
+    profiles: [],
+    processes: [],
+    restarts: {},
+  });
+  const [profilesOpen, setProfilesOpen] = useState(false);
+  const [logTarget, setLogTarget] = useState<
+    | { profileId: string; title: string }
+    | { containerId: string; title: string }
+    | null
+  >(null);
+  const [stoppedContainers, setStoppedContainers] = useState<
+    StoppedContainer[]
+  >([]);
+  const [healthProbes, setHealthProbes] = useState<HealthProbes>({});
+  const [probeTarget, setProbeTarget] = useState<{
+    port: number;
+    framework?: string;
+  } | null>(null);
+  const [portConflicts, setPortConflicts] = useState<PortConflict[]>([]);
+  const [portLookup, setPortLookup] = useState<{ port?: number } | null>(
+    null,
+  );
+  const [historyTarget, setHistoryTarget] = useState<{
+    port?: number;
+  } | null>(null);
+  const [trafficTarget, setTrafficTarget] = useState<{
+    key: string;
+    title: string;
+    url: string;
+  } | null>(null);
+  const [inspectorSessions, setInspectorSessions] = useState<
+    InspectorSession[]
+  >([]);
+  const [thumbnails, setThumbnails] = useState<
+    Record<string, PageThumbnail>
+  >({});
+  const [thumbnailDisabledPorts, setThumbnailDisabledPorts] = useState<
+    number[]
+  >([]);
   const [environmentKeyCount, setEnvironmentKeyCount] = useState(0);
   const [cliCount, setCliCount] = useState(0);
   const [activeTab, setActiveTab] = useState<TabType>(() => {
@@ -139,6 +220,21 @@ export default function App() {
       ? saved
       : "servers";
   });
+  const [grouping, setGrouping] = useState<ServerGrouping>(() =>
+    localStorage.getItem("dashboard:serverGrouping") === "framework"
+      ? "framework"
+      : "project",
+  );
+  const [collapsedProjects, setCollapsedProjects] = useState<string[]>(() => {
+    try {
+      const saved = JSON.parse(
+        localStorage.getItem("dashboard:collapsedProjects") ?? "[]",
+      );
+      return Array.isArray(saved) ? saved.filter((k) => typeof k === "string") : [];
+    } catch {
+      return [];
+    }
+  });
   const [meta, setMeta] = useState<AppMeta | null>(null);
   const [version, setVersion] = useState<string | undefined>(undefined);
   const [platform, setPlatform] = useState<string | undefined>(undefined);
@@ -168,7 +264,15 @@ export default function App() {
       });
       setHealthResults(map);
     });
+    const offHealthHistory =
+      window.api.onHealthHistoryUpdate(setHealthHistory);
     const offRecent = window.api.onRecentScriptsUpdate(setRecentScripts);
+    const offProfiles = window.api.onLaunchProfilesUpdate(setProfilesState);
+    const offConflicts = window.api.onPortConflicts(setPortConflicts);
+    const offContainers = window.api.onStoppedContainers(setStoppedContainers);
+    const offInspectors = window.api.onInspectorSessions(setInspectorSessions);
+    const offThumbnails = window.api.onThumbnailsUpdate(setThumbnails);
+    const offNotes = window.api.onNotesUpdate(setPortNotes);
     window.api.getSettings().then((s) =>
       setSettings({
         ...s,
@@ -178,7 +282,15 @@ export default function App() {
       }),
     );
     window.api.getAllNotes().then(setPortNotes);
+    window.api.getHealthProbes().then(setHealthProbes);
+    window.api.getHealthHistory().then(setHealthHistory);
     window.api.getRecentScripts().then(setRecentScripts);
+    window.api.getLaunchProfiles().then(setProfilesState);
+    window.api.getPortConflicts().then(setPortConflicts);
+    window.api.getStoppedContainers().then(setStoppedContainers);
+    window.api.getInspectorSessions().then(setInspectorSessions);
+    window.api.getThumbnails().then(setThumbnails);
+    window.api.getThumbnailDisabledPorts().then(setThumbnailDisabledPorts);
     window.api.getMeta().then((nextMeta) => {
       setMeta(nextMeta);
       setVersion(nextMeta?.version);
@@ -193,7 +305,14 @@ export default function App() {
       offAHK?.();
       offAutomator?.();
       offHealth?.();
+      offHealthHistory?.();
       offRecent?.();
+      offProfiles?.();
+      offConflicts?.();
+      offContainers?.();
+      offInspectors?.();
+      offThumbnails?.();
+      offNotes?.();
     };
   }, []);
 
@@ -202,6 +321,17 @@ export default function App() {
     localStorage.setItem("dashboard:activeTab", activeTab);
   }, [activeTab]);
 
+  useEffect(() => {
+    localStorage.setItem("dashboard:serverGrouping", grouping);
+  }, [grouping]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "dashboard:collapsedProjects",
+      JSON.stringify(collapsedProjects),
+    );
+  }, [collapsedProjects]);
+
   const supportedTabs = useMemo<TabType[]>(() => {
     const tabs: TabType[] = ["servers"];
     if (platformFeatures.clis) tabs.push("clis");
@@ -239,6 +369,9 @@ export default function App() {
         it.command ?? "",
         it.framework ?? "",
         it.url ?? "",
+        it.profileName ?? "",
+        it.protocol ?? "",
+        ...(it.addresses ?? []),
       ]
         .join(" ")
         .toLowerCase();
@@ -295,13 +428,131 @@ export default function App() {
 
   const grouped = useMemo(() => {
     return filtered.reduce<Record<string, Item[]>>((acc, cur) => {
-      const f = cur.framework ?? "Other";
+      // UDP sockets get their own section rather than mixing with web servers.
+      const f = cur.protocol === "udp" ? "UDP" : (cur.framework ?? "Other");
       acc[f] = acc[f] || [];
       acc[f].push(cur);
       return acc;
     }, {});
   }, [filtered]);
 
+  // Servers in the same git repository (or package, outside git) share a
+  // section; the rest fall into "Other", and UDP sockets keep their own.
+  const projectGroups = useMemo(() => {
+    const groups = new Map<
+      string,
+      { key: string; title: string; project?: ProjectRoot; items: Item[] }
+    >();
+    for (const it of filtered) {
+      const key =
+        it.protocol === "udp" ? "udp" : (it.project?.root ?? "other");
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          key,
+          title:
+            key === "udp"
+              ? "UDP"
+              : key === "other"
+                ? "Other"
+                : it.project!.name,
+          project: key === "udp" || key === "other" ? undefined : it.project,
+          items: [],
+        };
+        groups.set(key, group);
+      }
+      group.items.push(it);
+    }
+    const rank = (key: string) => (key === "udp" ? 2 : key === "other" ? 1 : 0);
+    return Array.from(groups.values()).sort(
+      (a, b) => rank(a.key) - rank(b.key) || a.title.localeCompare(b.title),
+    );
+  }, [filtered]);
+
+  const toggleProject = (key: string) =>
+    setCollapsedProjects((keys) =>
+      keys.includes(key) ? keys.filter((k) => k !== key) : [...keys, key],
+    );
+
+  // Stops a set of servers the way each card's Kill does, hiding them right
+  // away and bringing back any that survive.
+  const stopServers = async (list: Item[]) => {
+    const now = Date.now();
+    setHidden((h) => ({
+      ...h,
+      ...Object.fromEntries(list.map((it) => [it.key, now])),
+    }));
+    const results = await Promise.all(list.map(stopServer));
+    const failed = results.filter((result) => result.outcome === "failed");
+    if (failed.length === 0) return;
+    setHidden((h) => {
+      const next = { ...h };
+      list.forEach((it, index) => {
+        if (results[index].outcome === "failed") delete next[it.key];
+      });
+      return next;
+    });
+    setError(
+      `Could not stop ${failed
+        .map((result) => `PID ${result.pid} (${result.error})`)
+        .join(", ")}`,
+    );
+  };
+
+  const renderServerCard = (it: Item) => (
+    <ServerCard
+      key={it.key}
+      item={it}
+      health={healthResults[it.key]}
+      history={healthHistory[it.key]}
+      note={portNotes[String(it.port)] || ""}
+      onNoteChange={async (port, note) => {
+        const all = await window.api.setNote(port, note);
+        setPortNotes(all);
+      }}
+      onOptimisticKill={(key) => {
+        setHidden((h) => ({ ...h, [key]: Date.now() }));
+      }}
+      onEditHealthCheck={(server) =>
+        setProbeTarget({ port: server.port, framework: server.framework })
+      }
+      onShowHistory={(server) => setHistoryTarget({ port: server.port })}
+      inspectorUrl={
+        inspectorSessions.find((session) => session.key === it.key)?.url
+      }
+      onInspectTraffic={(server) =>
+        setTrafficTarget({
+          key: server.key,
+          title: `${server.processName ?? "Server"} :${server.port}`,
+          url: server.url,
+        })
+      }
+      onShowContainerLogs={(container) =>
+        setLogTarget({
+          containerId: container.id,
+          title: `${container.name} :${it.port}`,
+        })
+      }
+      onShowLogs={(server) => {
+        if (!server.profileId) return;
+        setLogTarget({
+          profileId: server.profileId,
+          title: `${server.profileName ?? "Server"} :${server.port}`,
+        });
+      }}
+      thumbnail={thumbnails[it.key]}
+      previewEnabled={!thumbnailDisabledPorts.includes(it.port)}
+      onTogglePreview={async (port, enabled) => {
+        setThumbnailDisabledPorts(
+          await window.api.setThumbnailEnabled(port, enabled),
+        );
+      }}
+      restart={
+        it.profileId ? profilesState.restarts[it.profileId] : undefined
+      }
+    />
+  );
+
   const showTabs = supportedTabs.length > 1;
   const scriptTab = platformFeatures.automatorScripts
     ? "automator"
@@ -420,17 +671,67 @@ export default function App() {
               />
             )}
 
+            {activeTab === "servers" && (
+              <PortsButton
+                conflicts={portConflicts.length}
+                onClick={() => setPortLookup({})}
+              />
+            )}
+
+            {activeTab === "servers" && (
+              <GroupingButton
+                grouping={grouping}
+                onClick={() =>
+                  setGrouping((g) => (g === "project" ? "framework" : "project"))
+                }
+              />
+            )}
+
+            {activeTab === "servers" && (
+              <HistoryButton onClick={() => setHistoryTarget({})} />
+            )}
+
+            {activeTab === "servers" && (
+              <ProfilesButton
+                running={
+                  profilesState.processes.filter(
+                    (run) =>
+                      run.status === "running" || run.status === "starting",
+                  ).length
+                }
+                onClick={() => setProfilesOpen(true)}
+              />
+            )}
+
             {/* Kill All button - only on Servers tab */}
             {activeTab === "servers" && filtered.length > 0 && (
               <KillAllButton
-                onKillAll={() => {
-                  window.api.killAllServers();
+                onKillAll={async () => {
                   // Optimistically hide all servers
                   const allKeys = filtered.reduce(
                     (acc, it) => ({ ...acc, [it.key]: Date.now() }),
                     {},
                   );
                   setHidden((h) => ({ ...h, ...allKeys }));
+                  const results = await window.api.killAllServers();
+                  const failed = results.filter(
+                    (result) => result.outcome === "failed",
+                  );
+                  if (failed.length === 0) return;
+                  // Bring back the cards of servers that are still running.
+                  const failedPids = new Set(failed.map((result) => result.pid));
+                  setHidden((h) => {
+                    const next = { ...h };
+                    for (const it of filtered) {
+                      if (failedPids.has(it.pid)) delete next[it.key];
+                    }
+                    return next;
+                  });
+                  setError(
+                    `Could not stop ${failed
+                      .map((result) => `PID ${result.pid} (${result.error})`)
+                      .join(", ")}`,
+                  );
                 }}
               />
             )}
@@ -440,6 +741,34 @@ export default function App() {
         {/* Server Tab Content */}
         {activeTab === "servers" && (
           <>
+            {portConflicts.length > 0 && (
+              <div className="mb-5 space-y-2">
+                {portConflicts.map((conflict) => (
+                  <div
+                    key={`${conflict.port}:${conflict.reason}`}
+                    className="flex items-center gap-3 rounded-xl border border-yellow-500/40 bg-yellow-400/15 px-4 py-2 text-sm text-yellow-800"
+                  >
+                    <TriangleAlert className="h-4 w-4 shrink-0" />
+                    <span className="min-w-0 flex-1">{conflict.message}</span>
+                    <button
+                      type="button"
+                      onClick={() => setPortLookup({ port: conflict.port })}
+                      className="shrink-0 rounded-full bg-yellow-400/30 px-3 py-1 text-xs font-semibold hover:bg-yellow-400/50"
+                    >
+                      Who owns it?
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {stoppedContainers.length > 0 && (
+              <StoppedContainers
+                containers={stoppedContainers}
+                onError={setError}
+              />
+            )}
+
             {Object.keys(grouped).length === 0 && (
               <div className="text-gray-600 text-center mt-20">
                 No servers detected yet. Start a dev server and it will show up
@@ -447,37 +776,54 @@ export default function App() {
               </div>
             )}
 
-            <div
-              className="grid gap-y-6 gap-x-6"
-              style={{
-                gridTemplateColumns: "repeat(auto-fill, minmax(420px, 1fr))",
-              }}
-            >
-              {(Object.entries(grouped) as [string, Item[]][]).map(
-                ([framework, list]) => (
-                  <div key={framework} className="space-y-5">
-                    <div className="text-gray-700 uppercase tracking-wider text-xs mb-2">
-                      {framework}
+            {grouping === "project" ? (
+              <div className="space-y-8">
+                {projectGroups.map((group) => (
+                  <ProjectGroup
+                    key={group.key}
+                    project={group.project}
+                    title={group.title}
+                    servers={group.items}
+                    health={healthResults}
+                    collapsed={collapsedProjects.includes(group.key)}
+                    onToggle={() => toggleProject(group.key)}
+                    onStopAll={
+                      group.project
+                        ? () => void stopServers(group.items)
+                        : undefined
+                    }
+                  >
+                    <div
+                      className="grid gap-y-5 gap-x-6"
+                      style={{
+                        gridTemplateColumns:
+                          "repeat(auto-fill, minmax(420px, 1fr))",
+                      }}
+                    >
+                      {group.items.map(renderServerCard)}
                     </div>
-                    {list.map((it) => (
-                      <ServerCard
-                        key={it.key}
-                        item={it}
-                        health={healthResults[it.key]}
-                        note={portNotes[String(it.port)] || ""}
-                        onNoteChange={async (port, note) => {
-                          const all = await window.api.setNote(port, note);
-                          setPortNotes(all);
-                        }}
-                        onOptimisticKill={(key) => {
-                          setHidden((h) => ({ ...h, [key]: Date.now() }));
-                        }}
-                      />
-                    ))}
-                  </div>
-                ),
-              )}
-            </div>
+                  </ProjectGroup>
+                ))}
+              </div>
+            ) : (
+              <div
+                className="grid gap-y-6 gap-x-6"
+                style={{
+                  gridTemplateColumns: "repeat(auto-fill, minmax(420px, 1fr))",
+                }}
+              >
+                {(Object.entries(grouped) as [string, Item[]][]).map(
+                  ([framework, list]) => (
+                    <div key={framework} className="space-y-5">
+                      <div className="text-gray-700 uppercase tracking-wider text-xs mb-2">
+                        {framework}
+                      </div>
+                      {list.map(renderServerCard)}
+                    </div>
+                  ),
+                )}
+              </div>
+            )}
           </>
         )}
 
@@ -585,6 +931,44 @@ export default function App() {
       {/* Auto-update notification */}
       <UpdateNotification />
 
+      <LaunchProfilesDrawer
+        open={profilesOpen}
+        state={profilesState}
+        onClose={() => setProfilesOpen(false)}
+        onStateChange={setProfilesState}
+        onShowLogs={(profile) => {
+          setProfilesOpen(false);
+          setLogTarget({ profileId: profile.id, title: profile.name });
+        }}
+      />
+
+      <LogViewer target={logTarget} onClose={() => setLogTarget(null)} />
+
+      <HealthProbeDialog
+        target={probeTarget}
+        probes={healthProbes}
+        onClose={() => setProbeTarget(null)}
+        onProbesChange={setHealthProbes}
+      />
+
+      <PortOwnersDialog
+        target={portLookup}
+        onClose={() => setPortLookup(null)}
+      />
+
+      <ServerHistoryDialog
+        target={historyTarget}
+        onClose={() => setHistoryTarget(null)}
+      />
+
+      <TrafficInspector
+        target={trafficTarget}
+        session={inspectorSessions.find(
+          (session) => session.key === trafficTarget?.key,
+        )}
+        onClose={() => setTrafficTarget(null)}
+      />
+
       <RecentScriptsDrawer
         open={recentOpen}
         scripts={recentScripts}
@@ -627,6 +1011,101 @@ function RecentlyUsedButton({
   );
 }
 
+function ProfilesButton({
+  running,
+  onClick,
+}: {
+  running: number;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="h-9 rounded-full bg-gray-200/70 px-3 text-sm font-medium text-gray-800 transition-all duration-200 hover:bg-gray-300 hover:text-gray-900"
+    >
+      <span className="flex items-center gap-2">
+        <Rocket className="h-4 w-4" />
+        Profiles
+        {running > 0 && (
+          <span className="inline-flex h-5 min-w-[20px] items-center justify-center rounded-full bg-celadon-400 px-1.5 text-xs font-semibold text-night-100">
+            {running}
+          </span>
+        )}
+      </span>
+    </button>
+  );
+}
+
+function GroupingButton({
+  grouping,
+  onClick,
+}: {
+  grouping: ServerGrouping;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={
+        grouping === "project"
+          ? "Grouped by project. Click to group by framework"
+          : "Grouped by framework. Click to group by project"
+      }
+      className="h-9 rounded-full bg-gray-200/70 px-3 text-sm font-medium text-gray-800 transition-all duration-200 hover:bg-gray-300 hover:text-gray-900"
+    >
+      <span className="flex items-center gap-2">
+        {grouping === "project" ? (
+          <FolderTree className="h-4 w-4" />
+        ) : (
+          <Layers className="h-4 w-4" />
+        )}
+        {grouping === "project" ? "Projects" : "Frameworks"}
+      </span>
+    </button>
+  );
+}
+
+function HistoryButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      title="Servers seen in the past"
+      className="h-9 rounded-full bg-gray-200/70 px-3 text-sm font-medium text-gray-800 transition-all duration-200 hover:bg-gray-300 hover:text-gray-900"
+    >
+      <span className="flex items-center gap-2">
+        <History className="h-4 w-4" />
+        History
+      </span>
+    </button>
+  );
+}
+
+function PortsButton({
+  conflicts,
+  onClick,
+}: {
+  conflicts: number;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title="Find which process owns a port"
+      className="h-9 rounded-full bg-gray-200/70 px-3 text-sm font-medium text-gray-800 transition-all duration-200 hover:bg-gray-300 hover:text-gray-900"
+    >
+      <span className="flex items-center gap-2">
+        <Radar className="h-4 w-4" />
+        Ports
+        {conflicts > 0 && (
+          <span className="inline-flex h-5 min-w-[20px] items-center justify-center rounded-full bg-mimi_pink-400 px-1.5 text-xs font-semibold text-mimi_pink-100">
+            {conflicts}
+          </span>
+        )}
+      </span>
+    </button>
+  );
+}
+
 function ClockIcon() {
   return (
     <svg
@@ -0,0 +1,37 @@
+import { GitBranch } from "lucide-react";
+import type { GitStatus } from "../../main/git-status";
+
+function gitTitle(git: GitStatus): string {
+  return [
+    git.branch ? `Branch ${git.branch}` : "Detached HEAD",
+    git.head && `at ${git.head}`,
+    git.upstream && `tracking ${git.upstream}`,
+    git.ahead && `${git.ahead} ahead`,
+    git.behind && `${git.behind} behind`,
+    git.dirty === true && "uncommitted changes",
+    git.dirty === false && "clean",
+    git.dirty === undefined && "working tree state unknown (git not found)",
+    git.root,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+// Branch (or commit, when detached), a dot for uncommitted changes and the
+// ahead/behind counts against the upstream.
+export default function GitBadge({ git }: { git: GitStatus }) {
+  return (
+    <span
+      className="flex min-w-0 shrink items-center gap-1 rounded-md bg-gray-200 px-1.5 py-0.5 font-mono text-[11px] text-gray-700"
+      title={gitTitle(git)}
+    >
+      <GitBranch className="h-3 w-3 shrink-0" />
+      <span className="truncate">{git.branch ?? git.head ?? "HEAD"}</span>
+      {git.dirty && (
+        <span className="h-1.5 w-1.5 shrink-0 rounded-full bg-yellow-400" />
+      )}
+      {!!git.ahead && <span className="shrink-0">↑{git.ahead}</span>}
+      {!!git.behind && <span className="shrink-0">↓{git.behind}</span>}
+    </span>
+  );
+}
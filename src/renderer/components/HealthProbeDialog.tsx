@@ -0,0 +1,343 @@
+import React from "react";
+import cx from "classnames";
+import { Activity, X } from "lucide-react";
+import {
+  DEFAULT_HEALTH_PROBE,
+  healthProbeKeyForFramework,
+  healthProbeKeyForPort,
+  type HealthProbe,
+  type HealthProbeKey,
+  type HealthProbeMethod,
+  type HealthProbes,
+} from "../../main/health-probes";
+
+type Draft = {
+  method: HealthProbeMethod;
+  path: string;
+  headersText: string;
+  statusMin: string;
+  statusMax: string;
+  bodyIncludes: string;
+  slowMs: string;
+  downMs: string;
+  timeoutMs: string;
+};
+
+function toDraft(probe: HealthProbe): Draft {
+  return {
+    method: probe.method,
+    path: probe.path,
+    headersText: Object.entries(probe.headers)
+      .map(([name, value]) => `${name}: ${value}`)
+      .join("\n"),
+    statusMin: String(probe.expectStatus.min),
+    statusMax: String(probe.expectStatus.max),
+    bodyIncludes: probe.bodyIncludes ?? "",
+    slowMs: String(probe.slowMs),
+    downMs: String(probe.downMs),
+    timeoutMs: String(probe.timeoutMs),
+  };
+}
+
+// Field values go to main as typed; main owns validation and its messages.
+function fromDraft(draft: Draft): unknown {
+  const headers: Record<string, string> = {};
+  for (const line of draft.headersText.split(/\r?\n/)) {
+    const index = line.indexOf(":");
+    if (!line.trim()) continue;
+    if (index <= 0) throw new Error(`Header line "${line}" needs Name: value.`);
+    headers[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+  }
+  return {
+    method: draft.method,
+    path: draft.path,
+    headers,
+    expectStatus: { min: draft.statusMin, max: draft.statusMax },
+    bodyIncludes: draft.method === "GET" ? draft.bodyIncludes : "",
+    slowMs: draft.slowMs,
+    downMs: draft.downMs,
+    timeoutMs: draft.timeoutMs,
+  };
+}
+
+export default function HealthProbeDialog({
+  target,
+  probes,
+  onClose,
+  onProbesChange,
+}: {
+  target: { port: number; framework?: string } | null;
+  probes: HealthProbes;
+  onClose: () => void;
+  onProbesChange: (probes: HealthProbes) => void;
+}) {
+  const [scope, setScope] = React.useState<"port" | "framework">("port");
+  const [draft, setDraft] = React.useState<Draft>(() =>
+    toDraft(DEFAULT_HEALTH_PROBE),
+  );
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const key: HealthProbeKey | null = target
+    ? scope === "framework" && target.framework
+      ? healthProbeKeyForFramework(target.framework)
+      : healthProbeKeyForPort(target.port)
+    : null;
+  const existing = key ? probes[key] : undefined;
+
+  // Pick the scope when a different server is opened, not after every save.
+  React.useEffect(() => {
+    if (!target) return;
+    const portKey = healthProbeKeyForPort(target.port);
+    setScope(
+      !probes[portKey] &&
+        target.framework &&
+        probes[healthProbeKeyForFramework(target.framework)]
+        ? "framework"
+        : "port",
+    );
+    setError(null);
+  }, [target]);
+
+  React.useEffect(() => {
+    if (key) setDraft(toDraft(probes[key] ?? DEFAULT_HEALTH_PROBE));
+  }, [key]);
+
+  React.useEffect(() => {
+    if (!target) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [target, onClose]);
+
+  if (!target || !key) return null;
+
+  const save = async (probe: unknown) => {
+    setSaving(true);
+    setError(null);
+    try {
+      onProbesChange(await window.api.setHealthProbe(key, probe as HealthProbe));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Health check is invalid.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const field =
+    "w-full rounded-xl bg-gray-200 px-3 py-2 text-sm outline-none ring-night-700 focus:ring-2";
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/45 p-4 no-drag backdrop-blur-[2px]"
+      onPointerDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Health check for :${target.port}`}
+        className="app-dialog flex max-h-[min(680px,calc(100dvh-2rem))] w-[560px] max-w-[calc(100vw-2rem)] flex-col overflow-hidden border border-gray-300 bg-gray-100 text-gray-900 shadow-soft"
+        onPointerDown={(event) => event.stopPropagation()}
+      >
+        <header className="flex shrink-0 items-center justify-between gap-3 border-b border-gray-300 px-4 py-3">
+          <div className="flex min-w-0 items-center gap-2">
+            <Activity className="h-4 w-4 text-gray-700" />
+            <h2 className="truncate text-base font-semibold">
+              Health check for :{target.port}
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            title="Close"
+            aria-label="Close"
+            className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-gray-200 text-gray-700 transition-colors hover:bg-mimi_pink-300 hover:text-mimi_pink-100"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </header>
+
+        <form
+          className="app-scrollbar min-h-0 flex-1 space-y-3 overflow-auto px-4 py-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            try {
+              void save(fromDraft(draft));
+            } catch (err) {
+              setError(err instanceof Error ? err.message : String(err));
+            }
+          }}
+        >
+          {target.framework && (
+            <div className="flex gap-1">
+              {(["port", "framework"] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setScope(option)}
+                  className={cx(
+                    "h-8 rounded-full px-3 text-xs font-semibold",
+                    scope === option
+                      ? "bg-night-700 text-night-100"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300",
+                  )}
+                >
+                  {option === "port"
+                    ? `Port ${target.port}`
+                    : `All ${target.framework} servers`}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-[120px_1fr] gap-2">
+            <label className="block space-y-1.5">
+              <span className="block text-xs text-gray-700">Method</span>
+              <select
+                value={draft.method}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    method: e.target.value as HealthProbeMethod,
+                  })
+                }
+                className={field}
+              >
+                <option value="HEAD">HEAD</option>
+                <option value="GET">GET</option>
+                <option value="OPTIONS">OPTIONS</option>
+              </select>
+            </label>
+            <label className="block space-y-1.5">
+              <span className="block text-xs text-gray-700">Path</span>
+              <input
+                value={draft.path}
+                onChange={(e) => setDraft({ ...draft, path: e.target.value })}
+                placeholder="/healthz"
+                className={cx(field, "font-mono")}
+              />
+            </label>
+          </div>
+
+          <label className="block space-y-1.5">
+            <span className="block text-xs text-gray-700">
+              Headers (one Name: value per line)
+            </span>
+            <textarea
+              value={draft.headersText}
+              onChange={(e) =>
+                setDraft({ ...draft, headersText: e.target.value })
+              }
+              rows={2}
+              placeholder="Accept: application/json"
+              className={cx(field, "resize-y font-mono")}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block space-y-1.5">
+              <span className="block text-xs text-gray-700">
+                Expected status from
+              </span>
+              <input
+                type="number"
+                value={draft.statusMin}
+                onChange={(e) =>
+                  setDraft({ ...draft, statusMin: e.target.value })
+                }
+                className={field}
+              />
+            </label>
+            <label className="block space-y-1.5">
+              <span className="block text-xs text-gray-700">to</span>
+              <input
+                type="number"
+                value={draft.statusMax}
+                onChange={(e) =>
+                  setDraft({ ...draft, statusMax: e.target.value })
+                }
+                className={field}
+              />
+            </label>
+          </div>
+
+          <label className="block space-y-1.5">
+            <span className="block text-xs text-gray-700">
+              Body contains (GET only)
+            </span>
+            <input
+              value={draft.method === "GET" ? draft.bodyIncludes : ""}
+              disabled={draft.method !== "GET"}
+              onChange={(e) =>
+                setDraft({ ...draft, bodyIncludes: e.target.value })
+              }
+              placeholder='"status":"ok"'
+              className={cx(field, "font-mono disabled:opacity-60")}
+            />
+          </label>
+
+          <div className="grid grid-cols-3 gap-2">
+            {(
+              [
+                ["slowMs", "Slow after (ms)"],
+                ["downMs", "Down after (ms)"],
+                ["timeoutMs", "Timeout (ms)"],
+              ] as const
+            ).map(([name, label]) => (
+              <label key={name} className="block space-y-1.5">
+                <span className="block text-xs text-gray-700">{label}</span>
+                <input
+                  type="number"
+                  value={draft[name]}
+                  onChange={(e) =>
+                    setDraft({ ...draft, [name]: e.target.value })
+                  }
+                  className={field}
+                />
+              </label>
+            ))}
+          </div>
+
+          {error && (
+            <div className="rounded-lg bg-mimi_pink-700/30 px-3 py-2 text-sm text-mimi_pink-200">
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2 pt-1">
+            <button
+              type="button"
+              disabled={!existing || saving}
+              onClick={() => void save(null)}
+              title="Remove this health check and fall back to the default"
+              className="rounded-full bg-mimi_pink-300/25 px-3 py-1.5 text-sm text-mimi_pink-500 hover:bg-mimi_pink-300/40 disabled:opacity-40"
+            >
+              Use default
+            </button>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="rounded-full bg-gray-300 px-3 py-1.5 text-sm text-gray-900 hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-full bg-night-700 px-3 py-1.5 text-sm text-night-100 hover:bg-night-800 disabled:opacity-60"
+              >
+                {saving ? "Saving" : "Save health check"}
+              </button>
+            </div>
+          </div>
+        </form>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import cx from "classnames";
+import dayjs from "dayjs";
+import type {
+  HealthHistorySummary,
+  HealthTimelineBucket,
+} from "../../main/health-history";
+
+const BAR_COLORS = {
+  healthy: "bg-celadon-400",
+  slow: "bg-yellow-400",
+  down: "bg-mimi_pink-400",
+} as const;
+
+function formatUptime(uptime: number): string {
+  return uptime >= 99.95 || uptime === 0
+    ? `${Math.round(uptime)}%`
+    : `${uptime.toFixed(1)}%`;
+}
+
+function bucketTitle(bucket: HealthTimelineBucket): string {
+  const time = dayjs(bucket.start).format("HH:mm");
+  if (!bucket.status) return `${time} • not checked`;
+  return [
+    time,
+    bucket.status,
+    bucket.responseTime !== undefined && `${bucket.responseTime}ms`,
+    bucket.error,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+// One bar per minute of the last hour: height is the average response time,
+// color the worst status seen in that minute.
+export default function HealthTimeline({
+  history,
+}: {
+  history: HealthHistorySummary;
+}) {
+  if (history.uptime === undefined) return null;
+  const slowest = Math.max(
+    1,
+    ...history.timeline.map((bucket) => bucket.responseTime ?? 0),
+  );
+  const transitionsTitle =
+    history.transitions.length > 0
+      ? history.transitions
+          .map(
+            (transition) =>
+              `${dayjs(transition.t).format("HH:mm:ss")} ${transition.from ?? "first check"} → ${transition.to}${transition.error ? ` (${transition.error})` : ""}`,
+          )
+          .join("\n")
+      : "No status changes in the last hour";
+
+  return (
+    <div className="mt-3">
+      <div className="mb-1 flex items-center justify-between gap-2 text-[11px] text-gray-600">
+        <span className="flex items-center gap-1.5">
+          <span
+            className={cx(
+              "rounded-md px-1.5 py-0.5 font-semibold",
+              history.uptime >= 99.9
+                ? "text-celadon-700 bg-celadon-400/20"
+                : history.uptime >= 95
+                  ? "text-yellow-700 bg-yellow-400/20"
+                  : "text-mimi_pink-200 bg-mimi_pink-400/20",
+            )}
+          >
+            {formatUptime(history.uptime)} up
+          </span>
+          last hour
+          {history.averageMs !== undefined && ` • avg ${history.averageMs}ms`}
+        </span>
+        <span className="cursor-help" title={transitionsTitle}>
+          {history.transitions.length === 1
+            ? "1 change"
+            : `${history.transitions.length} changes`}
+        </span>
+      </div>
+      <div
+        className="flex h-6 items-end gap-px"
+        role="img"
+        aria-label={`Health over the last hour: ${formatUptime(history.uptime)} up`}
+      >
+        {history.timeline.map((bucket) => (
+          <div
+            key={bucket.start}
+            title={bucketTitle(bucket)}
+            className={cx(
+              "flex-1 rounded-[1px]",
+              bucket.status ? BAR_COLORS[bucket.status] : "bg-gray-300/60",
+            )}
+            style={{
+              height: !bucket.status
+                ? "2px"
+                : bucket.status === "down"
+                  ? "100%"
+                  : `${Math.max(15, ((bucket.responseTime ?? 0) / slowest) * 100)}%`,
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,581 @@
+import React from "react";
+import cx from "classnames";
+import dayjs from "dayjs";
+import {
+  Pencil,
+  Play,
+  Plus,
+  RotateCw,
+  ScrollText,
+  Square,
+  Trash,
+  X,
+} from "lucide-react";
+import type {
+  LaunchProfile,
+  LaunchProfileInput,
+  LaunchProfilesState,
+  LaunchedProcess,
+} from "../../main/launch-profiles";
+import {
+  describeGiveUp,
+  type RestartStatus,
+} from "../../main/restart-policy";
+
+type BusyState = {
+  id: string;
+  action: "start" | "stop" | "restart" | "delete" | "save";
+};
+
+type Draft = {
+  id?: string;
+  name: string;
+  cwd: string;
+  command: string;
+  port: string;
+  envText: string;
+  autoRestart: boolean;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  cwd: "",
+  command: "npm run dev",
+  port: "",
+  envText: "",
+  autoRestart: false,
+};
+
+function toDraft(profile: LaunchProfile): Draft {
+  return {
+    id: profile.id,
+    name: profile.name,
+    cwd: profile.cwd,
+    command: profile.command,
+    port: profile.port ? String(profile.port) : "",
+    envText: Object.entries(profile.env)
+      .map(([key, value]) => `${key}=${value}`)
+      .join("\n"),
+    autoRestart: profile.autoRestart === true,
+  };
+}
+
+function parseEnvText(text: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const eq = line.indexOf("=");
+    if (eq <= 0) throw new Error(`Expected KEY=VALUE, got "${line}".`);
+    env[line.slice(0, eq).trim()] = line.slice(eq + 1);
+  }
+  return env;
+}
+
+function isActive(run?: LaunchedProcess): boolean {
+  return (
+    run?.status === "starting" ||
+    run?.status === "running" ||
+    run?.status === "stopping"
+  );
+}
+
+export default function LaunchProfilesDrawer({
+  open,
+  state,
+  onClose,
+  onStateChange,
+  onShowLogs,
+}: {
+  open: boolean;
+  state: LaunchProfilesState;
+  onClose: () => void;
+  onStateChange: (state: LaunchProfilesState) => void;
+  onShowLogs: (profile: LaunchProfile) => void;
+}) {
+  const [busy, setBusy] = React.useState<BusyState | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [draft, setDraft] = React.useState<Draft | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [open, onClose]);
+
+  React.useEffect(() => {
+    if (!open) {
+      setBusy(null);
+      setError(null);
+      setDraft(null);
+    }
+  }, [open]);
+
+  const runs = React.useMemo(() => {
+    const map: Record<string, LaunchedProcess> = {};
+    state.processes.forEach((run) => {
+      map[run.profileId] = run;
+    });
+    return map;
+  }, [state.processes]);
+
+  const perform = async (
+    id: string,
+    action: BusyState["action"],
+    task: () => Promise<LaunchProfilesState>,
+  ) => {
+    if (busy) return;
+    setBusy({ id, action });
+    setError(null);
+    try {
+      onStateChange(await task());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not ${action}.`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    let input: LaunchProfileInput;
+    try {
+      input = {
+        ...(draft.id ? { id: draft.id } : {}),
+        name: draft.name,
+        cwd: draft.cwd,
+        command: draft.command,
+        env: parseEnvText(draft.envText),
+        ...(draft.port.trim() ? { port: Number(draft.port) } : {}),
+        autoRestart: draft.autoRestart,
+      };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Profile is invalid.");
+      return;
+    }
+    await perform(draft.id ?? "new", "save", async () => {
+      const next = await window.api.saveLaunchProfile(input);
+      setDraft(null);
+      return next;
+    });
+  };
+
+  return (
+    <div
+      className={cx(
+        "fixed inset-0 z-40 transition pointer-events-none",
+        open && "pointer-events-auto",
+      )}
+      aria-hidden={!open}
+    >
+      <div
+        className={cx(
+          "absolute inset-0 bg-black/55 transition-opacity duration-200 backdrop-blur-[2px]",
+          open ? "opacity-100" : "opacity-0",
+        )}
+        onClick={onClose}
+      />
+
+      <aside
+        className={cx(
+          "app-dialog absolute right-0 top-0 h-full w-[430px] max-w-[calc(100vw-24px)] overflow-hidden border-l border-gray-300 bg-gray-100 shadow-soft transition-transform duration-300",
+          open ? "translate-x-0" : "translate-x-full",
+        )}
+        role="dialog"
+        aria-modal={open}
+        aria-label="Launch profiles"
+      >
+        <div className="flex h-full flex-col">
+          <header className="border-b border-gray-300 px-5 py-4">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="text-[11px] font-semibold uppercase tracking-wider text-celadon-500">
+                  Launch Profiles
+                </div>
+                <h2 className="mt-1 text-lg font-semibold text-gray-900">
+                  Start your stack
+                </h2>
+              </div>
+              <button
+                onClick={onClose}
+                className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full text-gray-700 transition-colors hover:bg-gray-200 hover:text-gray-900"
+                title="Close"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="mt-3 flex items-center justify-between text-xs text-gray-600">
+              <span>
+                {state.profiles.length} saved{" "}
+                {state.profiles.length === 1 ? "profile" : "profiles"}
+              </span>
+              {!draft && (
+                <button
+                  onClick={() => setDraft({ ...EMPTY_DRAFT })}
+                  className="flex h-7 items-center gap-1.5 rounded-full bg-celadon-400 px-3 font-semibold text-night-100 hover:bg-celadon-500"
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                  New profile
+                </button>
+              )}
+            </div>
+          </header>
+
+          {error && (
+            <div className="mx-5 mt-4 rounded-lg border border-mimi_pink-400/40 bg-mimi_pink-300/15 px-3 py-2 text-xs text-mimi_pink-500">
+              {error}
+            </div>
+          )}
+
+          <div className="app-scrollbar min-h-0 flex-1 overflow-y-auto px-5 py-4">
+            {draft ? (
+              <ProfileForm
+                draft={draft}
+                saving={busy?.action === "save"}
+                onChange={setDraft}
+                onCancel={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                onSave={save}
+              />
+            ) : state.profiles.length === 0 ? (
+              <div className="mt-16 text-center">
+                <div className="mx-auto flex h-11 w-11 items-center justify-center rounded-full border border-gray-300 bg-gray-200 text-gray-700">
+                  <Play className="h-5 w-5" />
+                </div>
+                <div className="mt-4 text-sm font-medium text-gray-900">
+                  No launch profiles yet
+                </div>
+                <p className="mt-1 text-xs leading-5 text-gray-600">
+                  Save a directory and command to start servers from here.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {state.profiles.map((profile) => {
+                  const run = runs[profile.id];
+                  const active = isActive(run);
+                  const busyHere = busy?.id === profile.id;
+
+                  return (
+                    <div
+                      key={profile.id}
+                      className="app-card rounded-lg border border-gray-300 bg-gray-200/70 p-3"
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <div
+                            className="truncate text-sm font-semibold text-gray-900"
+                            title={profile.name}
+                          >
+                            {profile.name}
+                            {profile.port && (
+                              <span className="ml-2 font-mono text-xs text-gray-600">
+                                :{profile.port}
+                              </span>
+                            )}
+                          </div>
+                          <div
+                            className="mt-1 truncate font-mono text-[11px] text-gray-700"
+                            title={profile.command}
+                          >
+                            {profile.command}
+                          </div>
+                          <div
+                            className="mt-0.5 truncate text-[11px] text-gray-600"
+                            title={profile.cwd}
+                          >
+                            {profile.cwd}
+                          </div>
+                        </div>
+                        <RunStatusPill run={run} />
+                      </div>
+
+                      {run && (
+                        <div className="mt-2 text-[11px] text-gray-600">
+                          {active
+                            ? `PID ${run.pid ?? "—"} • started ${dayjs(run.startedAt).fromNow()}`
+                            : run.error ||
+                              `Stopped ${dayjs(run.exitedAt).fromNow()}`}
+                        </div>
+                      )}
+                      {profile.autoRestart && state.restarts[profile.id] && (
+                        <RestartSummary restart={state.restarts[profile.id]} />
+                      )}
+
+                      <div className="mt-3 grid grid-cols-5 gap-2">
+                        {active ? (
+                          <DrawerButton
+                            tone="danger"
+                            disabled={Boolean(busy) || run?.status === "stopping"}
+                            onClick={() =>
+                              perform(profile.id, "stop", () =>
+                                window.api.stopLaunchProfile(profile.id),
+                              )
+                            }
+                          >
+                            <Square className="h-3.5 w-3.5" />
+                            {busyHere && busy?.action === "stop"
+                              ? "Stopping"
+                              : "Stop"}
+                          </DrawerButton>
+                        ) : (
+                          <DrawerButton
+                            tone="primary"
+                            disabled={Boolean(busy)}
+                            onClick={() =>
+                              perform(profile.id, "start", () =>
+                                window.api.startLaunchProfile(profile.id),
+                              )
+                            }
+                          >
+                            <Play className="h-3.5 w-3.5" />
+                            {busyHere && busy?.action === "start"
+                              ? "Starting"
+                              : "Start"}
+                          </DrawerButton>
+                        )}
+                        <DrawerButton
+                          disabled={Boolean(busy) || !active}
+                          onClick={() =>
+                            perform(profile.id, "restart", () =>
+                              window.api.restartLaunchProfile(profile.id),
+                            )
+                          }
+                        >
+                          <RotateCw className="h-3.5 w-3.5" />
+                          Restart
+                        </DrawerButton>
+                        <DrawerButton
+                          disabled={!run}
+                          onClick={() => onShowLogs(profile)}
+                        >
+                          <ScrollText className="h-3.5 w-3.5" />
+                          Logs
+                        </DrawerButton>
+                        <DrawerButton
+                          disabled={Boolean(busy)}
+                          onClick={() => {
+                            setError(null);
+                            setDraft(toDraft(profile));
+                          }}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                          Edit
+                        </DrawerButton>
+                        <DrawerButton
+                          tone="danger"
+                          disabled={Boolean(busy)}
+                          onClick={() => {
+                            if (
+                              !window.confirm(
+                                `Delete the "${profile.name}" profile?`,
+                              )
+                            )
+                              return;
+                            perform(profile.id, "delete", () =>
+                              window.api.deleteLaunchProfile(profile.id),
+                            );
+                          }}
+                        >
+                          <Trash className="h-3.5 w-3.5" />
+                          Delete
+                        </DrawerButton>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </aside>
+    </div>
+  );
+}
+
+function ProfileForm({
+  draft,
+  saving,
+  onChange,
+  onCancel,
+  onSave,
+}: {
+  draft: Draft;
+  saving: boolean;
+  onChange: (draft: Draft) => void;
+  onCancel: () => void;
+  onSave: () => void;
+}) {
+  const field =
+    "w-full rounded-xl bg-gray-200 px-3 py-2 text-sm outline-none ring-night-700 focus:ring-2";
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSave();
+      }}
+    >
+      <label className="block space-y-1.5">
+        <span className="block text-xs text-gray-700">Name</span>
+        <input
+          value={draft.name}
+          onChange={(e) => onChange({ ...draft, name: e.target.value })}
+          placeholder="Web frontend"
+          className={field}
+          autoFocus
+        />
+      </label>
+      <label className="block space-y-1.5">
+        <span className="block text-xs text-gray-700">
+          Working directory (absolute path)
+        </span>
+        <input
+          value={draft.cwd}
+          onChange={(e) => onChange({ ...draft, cwd: e.target.value })}
+          placeholder="/Users/me/code/web"
+          className={cx(field, "font-mono")}
+        />
+      </label>
+      <label className="block space-y-1.5">
+        <span className="block text-xs text-gray-700">Command</span>
+        <input
+          value={draft.command}
+          onChange={(e) => onChange({ ...draft, command: e.target.value })}
+          className={cx(field, "font-mono")}
+        />
+      </label>
+      <label className="block space-y-1.5">
+        <span className="block text-xs text-gray-700">
+          Expected port (optional)
+        </span>
+        <input
+          type="number"
+          value={draft.port}
+          onChange={(e) => onChange({ ...draft, port: e.target.value })}
+          placeholder="3000"
+          className={field}
+        />
+      </label>
+      <label className="block space-y-1.5">
+        <span className="block text-xs text-gray-700">
+          Environment (one KEY=VALUE per line)
+        </span>
+        <textarea
+          value={draft.envText}
+          onChange={(e) => onChange({ ...draft, envText: e.target.value })}
+          rows={4}
+          placeholder="PORT=3000"
+          className={cx(field, "resize-y font-mono")}
+        />
+      </label>
+      <label className="flex items-center gap-2.5">
+        <input
+          type="checkbox"
+          className="h-5 w-5 accent-night-700"
+          checked={draft.autoRestart}
+          onChange={(e) =>
+            onChange({ ...draft, autoRestart: e.target.checked })
+          }
+        />
+        <span className="text-sm">
+          Restart automatically when it exits unexpectedly
+        </span>
+      </label>
+      <div className="flex justify-end gap-2 pt-1">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full bg-gray-300 px-3 py-1.5 text-sm text-gray-900 hover:bg-gray-400"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-full bg-night-700 px-3 py-1.5 text-sm text-night-100 hover:bg-night-800 disabled:opacity-60"
+        >
+          {saving ? "Saving" : "Save profile"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function RestartSummary({ restart }: { restart: RestartStatus }) {
+  const parts = [
+    restart.count > 0 && `Restarted ${restart.count}x`,
+    restart.nextRestartAt &&
+      `restarting ${dayjs(restart.nextRestartAt).fromNow()}`,
+    restart.gaveUp && `gave up: ${describeGiveUp(restart.gaveUp)}`,
+  ].filter(Boolean);
+  if (parts.length === 0) return null;
+  return (
+    <div
+      className={cx(
+        "mt-1 text-[11px]",
+        restart.gaveUp ? "text-mimi_pink-500" : "text-gray-600",
+      )}
+      title={restart.lastExitReason && `Last exit: ${restart.lastExitReason}`}
+    >
+      {parts.join(" • ")}
+    </div>
+  );
+}
+
+function RunStatusPill({ run }: { run?: LaunchedProcess }) {
+  const status = run?.status ?? "idle";
+  return (
+    <div
+      className={cx(
+        "shrink-0 rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase",
+        status === "running" && "bg-celadon-400/20 text-celadon-600",
+        (status === "starting" || status === "stopping") &&
+          "bg-yellow-400/20 text-yellow-700",
+        status === "failed" && "bg-mimi_pink-300/25 text-mimi_pink-500",
+        (status === "idle" || status === "exited") &&
+          "bg-gray-300 text-gray-700",
+      )}
+    >
+      {status === "exited" ? "stopped" : status}
+    </div>
+  );
+}
+
+function DrawerButton({
+  tone = "neutral",
+  disabled,
+  onClick,
+  children,
+}: {
+  tone?: "neutral" | "primary" | "danger";
+  disabled?: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={cx(
+        "flex h-8 items-center justify-center gap-1.5 rounded-full text-xs font-semibold transition-all disabled:opacity-60",
+        tone === "primary" &&
+          "bg-celadon-400 text-night-100 hover:bg-celadon-500",
+        tone === "danger" &&
+          "bg-mimi_pink-300/25 text-mimi_pink-500 hover:bg-mimi_pink-300/40",
+        tone === "neutral" &&
+          "bg-gray-300 text-gray-900 hover:bg-gray-400",
+      )}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,345 @@
+import React from "react";
+import cx from "classnames";
+import dayjs from "dayjs";
+import { ArrowDownToLine, Pause, Play, Trash, X } from "lucide-react";
+import type { LogEntry, LogLevel } from "../../main/log-buffer";
+
+const MAX_VIEW_ENTRIES = 2000;
+// Container logs come from the engine as a snapshot, so they are re-read on
+// this interval instead of streamed.
+const CONTAINER_LOG_POLL_MS = 3000;
+
+type LevelFilter = "all" | "warn" | "error";
+
+const LEVEL_CLASSES: Record<LogLevel, string> = {
+  error: "text-mimi_pink-500",
+  warn: "text-yellow-700",
+  info: "text-gray-900",
+  debug: "text-gray-600",
+};
+
+function matchesLevel(entry: LogEntry, filter: LevelFilter): boolean {
+  if (filter === "all") return true;
+  if (filter === "warn") return entry.level === "warn" || entry.level === "error";
+  return entry.level === "error";
+}
+
+function appendBounded(current: LogEntry[], next: LogEntry[]): LogEntry[] {
+  const merged = current.concat(next);
+  return merged.length > MAX_VIEW_ENTRIES
+    ? merged.slice(merged.length - MAX_VIEW_ENTRIES)
+    : merged;
+}
+
+export default function LogViewer({
+  target,
+  onClose,
+}: {
+  target:
+    | { profileId: string; containerId?: undefined; title: string }
+    | { containerId: string; profileId?: undefined; title: string }
+    | null;
+  onClose: () => void;
+}) {
+  const [entries, setEntries] = React.useState<LogEntry[]>([]);
+  const [query, setQuery] = React.useState("");
+  const [levelFilter, setLevelFilter] = React.useState<LevelFilter>("all");
+  const [follow, setFollow] = React.useState(true);
+  const [paused, setPaused] = React.useState(false);
+  const [heldCount, setHeldCount] = React.useState(0);
+  const held = React.useRef<LogEntry[]>([]);
+  const pausedRef = React.useRef(paused);
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const profileId = target?.profileId;
+  const containerId = target?.containerId;
+  const [containerError, setContainerError] = React.useState<string | null>(
+    null,
+  );
+  // Engine logs cannot be truncated; Clear hides everything up to now.
+  const clearedAt = React.useRef(0);
+
+  pausedRef.current = paused;
+
+  React.useEffect(() => {
+    if (!profileId) return;
+    let cancelled = false;
+    setEntries([]);
+    setPaused(false);
+    setHeldCount(0);
+    held.current = [];
+
+    window.api.getLogs(profileId).then((initial) => {
+      if (!cancelled) setEntries(appendBounded([], initial));
+    });
+    const off = window.api.onLogAppend((payload) => {
+      if (payload.profileId !== profileId) return;
+      if (pausedRef.current) {
+        held.current = appendBounded(held.current, payload.entries);
+        setHeldCount(held.current.length);
+        return;
+      }
+      setEntries((current) => {
+        const lastSeq = current[current.length - 1]?.seq ?? 0;
+        return appendBounded(
+          current,
+          payload.entries.filter((entry) => entry.seq > lastSeq),
+        );
+      });
+    });
+    return () => {
+      cancelled = true;
+      off?.();
+    };
+  }, [profileId]);
+
+  React.useEffect(() => {
+    if (!containerId) return;
+    let cancelled = false;
+    setEntries([]);
+    setPaused(false);
+    setHeldCount(0);
+    setContainerError(null);
+    held.current = [];
+    clearedAt.current = 0;
+
+    const load = async () => {
+      if (pausedRef.current) return;
+      try {
+        const logs = await window.api.getContainerLogs(containerId);
+        if (cancelled) return;
+        setContainerError(null);
+        setEntries(
+          appendBounded(
+            [],
+            logs.filter((entry) => entry.time > clearedAt.current),
+          ),
+        );
+      } catch (err) {
+        if (!cancelled) {
+          setContainerError(err instanceof Error ? err.message : String(err));
+        }
+      }
+    };
+    void load();
+    const timer = setInterval(load, CONTAINER_LOG_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [containerId]);
+
+  React.useEffect(() => {
+    if (!target) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [target, onClose]);
+
+  const visible = React.useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return entries.filter(
+      (entry) =>
+        matchesLevel(entry, levelFilter) &&
+        (!q || entry.text.toLowerCase().includes(q)),
+    );
+  }, [entries, query, levelFilter]);
+
+  React.useLayoutEffect(() => {
+    if (!follow || !scrollRef.current) return;
+    scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [visible, follow]);
+
+  const resume = () => {
+    setEntries((current) => appendBounded(current, held.current));
+    held.current = [];
+    setHeldCount(0);
+    setPaused(false);
+  };
+
+  const clear = async () => {
+    if (containerId) {
+      clearedAt.current = Date.now();
+      setEntries([]);
+      return;
+    }
+    if (!profileId) return;
+    await window.api.clearLogs(profileId);
+    held.current = [];
+    setHeldCount(0);
+    setEntries([]);
+  };
+
+  if (!target) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/45 p-4 no-drag backdrop-blur-[2px]"
+      onPointerDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Logs for ${target.title}`}
+        className="app-dialog flex h-[min(640px,calc(100dvh-2rem))] w-[900px] max-w-[calc(100vw-2rem)] flex-col overflow-hidden border border-gray-300 bg-gray-100 text-gray-900 shadow-soft"
+        onPointerDown={(event) => event.stopPropagation()}
+      >
+        <header className="flex shrink-0 items-center justify-between gap-3 border-b border-gray-300 px-4 py-3">
+          <div className="min-w-0">
+            <h2 className="truncate text-base font-semibold">
+              {target.title}
+            </h2>
+            <div className="mt-0.5 text-[11px] text-gray-600">
+              {entries.length} lines captured
+              {paused && heldCount > 0 && ` • ${heldCount} new while paused`}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            title="Close logs"
+            aria-label="Close logs"
+            className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-gray-200 text-gray-700 transition-colors hover:bg-mimi_pink-300 hover:text-mimi_pink-100"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </header>
+
+        <div className="flex shrink-0 flex-wrap items-center gap-2 border-b border-gray-300 px-4 py-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search output"
+            className="h-8 min-w-[200px] flex-1 rounded-full bg-gray-200 px-3 text-sm outline-none ring-night-700 focus:ring-2"
+          />
+          {(["all", "warn", "error"] as LevelFilter[]).map((level) => (
+            <button
+              key={level}
+              type="button"
+              onClick={() => setLevelFilter(level)}
+              className={cx(
+                "h-8 rounded-full px-3 text-xs font-semibold capitalize",
+                levelFilter === level
+                  ? "bg-night-700 text-night-100"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300",
+              )}
+            >
+              {level === "warn" ? "Warnings+" : level}
+            </button>
+          ))}
+          <ToolbarButton
+            active={paused}
+            title={paused ? "Resume live output" : "Pause live output"}
+            onClick={() => (paused ? resume() : setPaused(true))}
+          >
+            {paused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+            {paused ? "Resume" : "Pause"}
+          </ToolbarButton>
+          <ToolbarButton
+            active={follow}
+            title="Keep the newest line in view"
+            onClick={() => setFollow((v) => !v)}
+          >
+            <ArrowDownToLine className="h-3.5 w-3.5" />
+            Follow
+          </ToolbarButton>
+          <ToolbarButton title="Clear captured output" onClick={clear}>
+            <Trash className="h-3.5 w-3.5" />
+            Clear
+          </ToolbarButton>
+        </div>
+
+        <div
+          ref={scrollRef}
+          onWheel={(event) => {
+            if (event.deltaY < 0 && follow) setFollow(false);
+          }}
+          className="app-scrollbar min-h-0 flex-1 select-text overflow-auto bg-gray-200/50 px-4 py-2 font-mono text-[12px] leading-5"
+        >
+          {visible.length === 0 ? (
+            <div className="mt-16 text-center font-sans text-sm text-gray-600">
+              {containerError
+                ? containerError
+                : entries.length === 0
+                ? "No output captured yet."
+                : "No lines match the current filter."}
+            </div>
+          ) : (
+            visible.map((entry) => (
+              <div
+                key={entry.seq}
+                className={cx(
+                  "flex gap-3 whitespace-pre-wrap break-all",
+                  LEVEL_CLASSES[entry.level],
+                  entry.stream === "system" && "italic text-celadon-600",
+                )}
+              >
+                <span className="shrink-0 select-none text-gray-500">
+                  {dayjs(entry.time).format("HH:mm:ss")}
+                </span>
+                <span>
+                  <Highlight text={entry.text} query={query} />
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function Highlight({ text, query }: { text: string; query: string }) {
+  const q = query.trim();
+  if (!q) return <>{text}</>;
+  const lower = text.toLowerCase();
+  const needle = q.toLowerCase();
+  const parts: React.ReactNode[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const found = lower.indexOf(needle, index);
+    if (found === -1) {
+      parts.push(text.slice(index));
+      break;
+    }
+    if (found > index) parts.push(text.slice(index, found));
+    parts.push(
+      <mark key={found} className="rounded bg-yellow-400/60 text-gray-900">
+        {text.slice(found, found + needle.length)}
+      </mark>,
+    );
+    index = found + needle.length;
+  }
+  return <>{parts}</>;
+}
+
+function ToolbarButton({
+  active,
+  title,
+  onClick,
+  children,
+}: {
+  active?: boolean;
+  title: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      title={title}
+      onClick={onClick}
+      className={cx(
+        "flex h-8 items-center gap-1.5 rounded-full px-3 text-xs font-semibold transition-colors",
+        active
+          ? "bg-celadon-400 text-night-100"
+          : "bg-gray-200 text-gray-700 hover:bg-gray-300",
+      )}
+    >
+      {children}
+    </button>
+  );
+}
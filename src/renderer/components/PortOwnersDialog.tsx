@@ -0,0 +1,299 @@
+import React from "react";
+import cx from "classnames";
+import { Loader2, Radar, TriangleAlert, X } from "lucide-react";
+import type { PortOwner, PortResolution } from "../../main/port-owners";
+
+export default function PortOwnersDialog({
+  target,
+  onClose,
+}: {
+  // `port` undefined means "all configured ports".
+  target: { port?: number } | null;
+  onClose: () => void;
+}) {
+  const [portText, setPortText] = React.useState("");
+  const [resolution, setResolution] = React.useState<PortResolution | null>(
+    null,
+  );
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const lookup = React.useCallback(async (port?: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setResolution(await window.api.resolvePorts(port));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (!target) return;
+    setPortText(target.port ? String(target.port) : "");
+    setResolution(null);
+    void lookup(target.port);
+  }, [target, lookup]);
+
+  React.useEffect(() => {
+    if (!target) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [target, onClose]);
+
+  const byPort = React.useMemo(() => {
+    const groups = new Map<number, PortOwner[]>();
+    for (const owner of resolution?.owners ?? []) {
+      const list = groups.get(owner.port) ?? [];
+      list.push(owner);
+      groups.set(owner.port, list);
+    }
+    return Array.from(groups.entries());
+  }, [resolution]);
+
+  if (!target) return null;
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = portText.trim();
+    void lookup(trimmed ? Number(trimmed) : undefined);
+  };
+
+  const free = async (port: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const remaining = await window.api.freePort(port);
+      setResolution((current) => {
+        if (!current) return remaining;
+        return {
+          ...current,
+          owners: current.owners
+            .filter((owner) => owner.port !== port)
+            .concat(remaining.owners),
+          conflicts: current.conflicts
+            .filter((conflict) => conflict.port !== port)
+            .concat(remaining.conflicts),
+        };
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const singlePort =
+    resolution?.ports.length === 1 ? resolution.ports[0] : undefined;
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/45 p-4 no-drag backdrop-blur-[2px]"
+      onPointerDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label="Port owners"
+        className="app-dialog flex max-h-[min(640px,calc(100dvh-2rem))] w-[720px] max-w-[calc(100vw-2rem)] flex-col overflow-hidden border border-gray-300 bg-gray-100 text-gray-900 shadow-soft"
+        onPointerDown={(event) => event.stopPropagation()}
+      >
+        <header className="flex shrink-0 items-center justify-between gap-3 border-b border-gray-300 px-4 py-3">
+          <div className="flex min-w-0 items-center gap-2">
+            <Radar className="h-4 w-4 text-gray-700" />
+            <h2 className="truncate text-base font-semibold">
+              Who owns this port?
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            title="Close"
+            aria-label="Close"
+            className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-gray-200 text-gray-700 transition-colors hover:bg-mimi_pink-300 hover:text-mimi_pink-100"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </header>
+
+        <form
+          onSubmit={submit}
+          className="flex shrink-0 items-center gap-2 border-b border-gray-300 px-4 py-2"
+        >
+          <input
+            value={portText}
+            onChange={(e) => setPortText(e.target.value.replace(/[^0-9]/g, ""))}
+            placeholder="Port, or leave empty for configured ports"
+            inputMode="numeric"
+            className="h-8 flex-1 rounded-full bg-gray-200 px-3 text-sm outline-none ring-night-700 focus:ring-2"
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="h-8 rounded-full bg-night-700 px-4 text-xs font-semibold text-night-100 disabled:opacity-60"
+          >
+            Look up
+          </button>
+        </form>
+
+        <div className="app-scrollbar min-h-0 flex-1 space-y-3 overflow-auto px-4 py-3">
+          {error && (
+            <div className="rounded-lg bg-mimi_pink-700/30 px-3 py-2 text-sm text-mimi_pink-200">
+              {error}
+            </div>
+          )}
+
+          {loading && !resolution && (
+            <div className="flex items-center justify-center gap-2 py-10 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Resolving listeners…
+            </div>
+          )}
+
+          {resolution?.conflicts.map((conflict) => (
+            <div
+              key={`${conflict.port}:${conflict.reason}`}
+              className="flex items-start gap-2 rounded-lg border border-yellow-500/40 bg-yellow-400/15 px-3 py-2 text-sm text-yellow-800"
+            >
+              <TriangleAlert className="mt-0.5 h-4 w-4 shrink-0" />
+              <span>{conflict.message}</span>
+            </div>
+          ))}
+
+          {resolution && byPort.length === 0 && (
+            <div className="py-10 text-center text-sm text-gray-600">
+              {singlePort
+                ? `Nothing is listening on :${singlePort}.`
+                : "None of the configured ports are in use."}
+            </div>
+          )}
+
+          {byPort.map(([port, owners]) => (
+            <div
+              key={port}
+              className="rounded-xl border border-gray-300 bg-gray-200/50 p-3"
+            >
+              <div className="mb-2 flex items-center justify-between gap-2">
+                <span className="font-mono text-sm font-semibold">:{port}</span>
+                <FreePortButton
+                  disabled={loading}
+                  onConfirm={() => free(port)}
+                />
+              </div>
+              <div className="space-y-2">
+                {owners.map((owner) => (
+                  <OwnerRow
+                    key={`${owner.pid}:${owner.port}:${owner.protocol}`}
+                    owner={owner}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function OwnerRow({ owner }: { owner: PortOwner }) {
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold">{owner.processName ?? "Unknown"}</span>
+        <span className="text-xs text-gray-600">PID {owner.pid}</span>
+        {owner.protocol === "udp" && (
+          <span className="rounded-full bg-gray-300/70 px-2 py-0.5 text-[11px] font-semibold uppercase text-gray-700">
+            UDP
+          </span>
+        )}
+        {owner.addresses.length > 0 && (
+          <span className="font-mono text-[11px] text-gray-600">
+            {owner.addresses.join(", ")}
+          </span>
+        )}
+        {owner.wslDistro && (
+          <span className="rounded-full bg-night-400/20 px-2 py-0.5 text-[11px] font-semibold text-night-600">
+            WSL • {owner.wslDistro}
+          </span>
+        )}
+        {owner.framework && (
+          <span className="rounded-full bg-gray-300/70 px-2 py-0.5 text-[11px] font-medium text-gray-700">
+            {owner.framework}
+          </span>
+        )}
+        {owner.profileName && (
+          <span className="rounded-full bg-celadon-400/25 px-2 py-0.5 text-[11px] font-medium text-celadon-700">
+            {owner.profileName}
+          </span>
+        )}
+      </div>
+      {owner.cwd && (
+        <div
+          className="truncate font-mono text-[11px] text-gray-700"
+          title={owner.cwd}
+        >
+          {owner.cwd}
+        </div>
+      )}
+      {owner.tree.length > 1 && (
+        <div className="flex flex-wrap items-center gap-1 text-[11px] text-gray-600">
+          {owner.tree.map((node, index) => (
+            <React.Fragment key={node.pid}>
+              {index > 0 && <span aria-hidden="true">←</span>}
+              <span title={node.command}>
+                {node.name ?? "?"} <span className="text-gray-500">{node.pid}</span>
+              </span>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FreePortButton({
+  disabled,
+  onConfirm,
+}: {
+  disabled: boolean;
+  onConfirm: () => void;
+}) {
+  const [confirming, setConfirming] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!confirming) return;
+    const timer = setTimeout(() => setConfirming(false), 3000);
+    return () => clearTimeout(timer);
+  }, [confirming]);
+
+  return (
+    <button
+      type="button"
+      disabled={disabled}
+      onClick={() => {
+        if (confirming) {
+          setConfirming(false);
+          onConfirm();
+        } else {
+          setConfirming(true);
+        }
+      }}
+      className={cx(
+        "h-7 rounded-full px-3 text-xs font-semibold transition-colors disabled:opacity-60",
+        confirming
+          ? "animate-pulse bg-mimi_pink-400 text-mimi_pink-100"
+          : "bg-mimi_pink-400/20 text-mimi_pink-100 hover:bg-mimi_pink-400/40",
+      )}
+    >
+      {confirming ? "Click to confirm" : "Free port"}
+    </button>
+  );
+}
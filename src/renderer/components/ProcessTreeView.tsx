@@ -0,0 +1,105 @@
+import React from "react";
+import cx from "classnames";
+import { ChevronRight } from "lucide-react";
+import type {
+  ProcessTreeNode,
+  ServerProcessTree,
+} from "../../main/process-tree";
+
+function launcherText(tree: ServerProcessTree): string | null {
+  const { shell, script } = tree.launcher;
+  if (!shell && !script) return null;
+  const from = shell ? `${shell.name ?? "shell"} (PID ${shell.pid})` : null;
+  if (from && script) return `Started from ${from} via ${script}`;
+  return from ? `Started from ${from}` : `Started via ${script}`;
+}
+
+// Collapsed, it names the terminal and script that own the server; expanded,
+// it lists every process in the tree with its own share of the totals.
+export default function ProcessTreeView({
+  tree,
+}: {
+  tree: ServerProcessTree;
+}) {
+  const [expanded, setExpanded] = React.useState(false);
+  const launcher = launcherText(tree);
+  const count = tree.pids.length;
+  if (count < 2 && !launcher) return null;
+
+  return (
+    <div className="mt-2 text-[11px] text-gray-600">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        aria-expanded={expanded}
+        disabled={count < 2}
+        className="flex max-w-full items-center gap-1 text-left enabled:hover:text-gray-800"
+      >
+        {count > 1 && (
+          <ChevronRight
+            className={cx(
+              "h-3 w-3 shrink-0 transition-transform",
+              expanded && "rotate-90",
+            )}
+          />
+        )}
+        <span className="truncate">
+          {count > 1 && `${count} processes`}
+          {count > 1 && launcher && " • "}
+          {launcher}
+        </span>
+      </button>
+      {expanded && (
+        <ul className="mt-1 space-y-0.5 rounded-lg bg-gray-200/50 px-2 py-1.5 font-mono">
+          <TreeRow node={tree.root} depth={0} />
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function TreeRow({ node, depth }: { node: ProcessTreeNode; depth: number }) {
+  return (
+    <>
+      <li
+        className="flex items-center gap-2"
+        style={{ paddingLeft: `${depth * 12}px` }}
+        title={node.command || node.name}
+      >
+        <span
+          className={cx(
+            "min-w-0 truncate",
+            node.listening && "font-semibold text-gray-800",
+          )}
+        >
+          {node.name || "?"}
+        </span>
+        <span className="shrink-0 text-gray-500">{node.pid}</span>
+        {node.listening && (
+          <span className="shrink-0 rounded bg-celadon-400/20 px-1 text-celadon-700">
+            listening
+          </span>
+        )}
+        <span className="ml-auto shrink-0 whitespace-nowrap">
+          {node.cpu !== undefined ? `${node.cpu.toFixed(1)}%` : "—"}
+          {" • "}
+          {node.memory !== undefined ? readableBytes(node.memory) : "—"}
+        </span>
+      </li>
+      {node.children.map((child) => (
+        <TreeRow key={child.pid} node={child} depth={depth + 1} />
+      ))}
+    </>
+  );
+}
+
+function readableBytes(bytes: number) {
+  const units = ["B", "KB", "MB", "GB"];
+  let i = 0;
+  let v = bytes;
+  while (v >= 1024 && i < units.length - 1) {
+    v /= 1024;
+    i++;
+  }
+  return `${v.toFixed(1)} ${units[i]}`;
+}
@@ -0,0 +1,159 @@
+import React from "react";
+import cx from "classnames";
+import { ChevronDown, ChevronRight, Code, FolderOpen } from "lucide-react";
+import type { ProjectRoot } from "../../main/project-root";
+import type { GitStatus } from "../../main/git-status";
+import GitBadge from "./GitBadge";
+
+type GroupServer = {
+  key: string;
+  protocol?: "tcp" | "udp";
+  cpu?: number;
+  memory?: number;
+  git?: GitStatus;
+};
+
+type GroupHealth = { status: "healthy" | "slow" | "down" };
+
+const HEALTH_ORDER = ["down", "slow", "healthy"] as const;
+
+// A project's servers under one header: frontend, API and storybook of a
+// monorepo show up together, with their totals and worst health.
+export default function ProjectGroup({
+  project,
+  title,
+  servers,
+  health,
+  collapsed,
+  onToggle,
+  onStopAll,
+  children,
+}: {
+  project?: ProjectRoot;
+  title: string;
+  servers: GroupServer[];
+  health: Record<string, GroupHealth | undefined>;
+  collapsed: boolean;
+  onToggle: () => void;
+  onStopAll?: () => void;
+  children: React.ReactNode;
+}) {
+  const [confirming, setConfirming] = React.useState(false);
+
+  const cpu = servers.reduce((sum, server) => sum + (server.cpu ?? 0), 0);
+  const memory = servers.reduce((sum, server) => sum + (server.memory ?? 0), 0);
+  const counts = { healthy: 0, slow: 0, down: 0 };
+  for (const server of servers) {
+    const status = health[server.key]?.status;
+    if (server.protocol !== "udp" && status) counts[status]++;
+  }
+  const worst = HEALTH_ORDER.find((status) => counts[status] > 0);
+  // The checkout at the project root; worktrees elsewhere show on their cards.
+  const git = servers.find(
+    (server) => project && server.git?.root === project.root,
+  )?.git;
+
+  const stopAll = () => {
+    if (!confirming) {
+      setConfirming(true);
+      window.setTimeout(() => setConfirming(false), 3000);
+      return;
+    }
+    setConfirming(false);
+    onStopAll?.();
+  };
+
+  const iconButton =
+    "flex h-7 w-7 items-center justify-center rounded-full text-gray-600 transition-colors hover:bg-gray-200 hover:text-gray-900";
+
+  return (
+    <section>
+      <div className="mb-3 flex items-center gap-3 border-b border-gray-300/50 pb-2">
+        <button
+          type="button"
+          onClick={onToggle}
+          className="flex min-w-0 flex-1 items-center gap-2 text-left"
+          title={project?.root}
+        >
+          {collapsed ? (
+            <ChevronRight className="h-4 w-4 shrink-0 text-gray-600" />
+          ) : (
+            <ChevronDown className="h-4 w-4 shrink-0 text-gray-600" />
+          )}
+          {worst && (
+            <span
+              className={cx(
+                "h-2.5 w-2.5 shrink-0 rounded-full",
+                worst === "healthy" && "bg-celadon-400",
+                worst === "slow" && "bg-yellow-400",
+                worst === "down" && "bg-mimi_pink-400",
+              )}
+              title={HEALTH_ORDER.filter((status) => counts[status] > 0)
+                .map((status) => `${counts[status]} ${status}`)
+                .join(", ")}
+            />
+          )}
+          <span className="truncate text-sm font-semibold text-gray-900">
+            {title}
+          </span>
+          {project && (
+            <span className="truncate font-mono text-xs text-gray-600">
+              {project.root}
+            </span>
+          )}
+        </button>
+        {git && <GitBadge git={git} />}
+        <span className="shrink-0 text-xs text-gray-600">
+          {servers.length} server{servers.length !== 1 ? "s" : ""} • CPU{" "}
+          {cpu.toFixed(1)}% • {readableBytes(memory)}
+        </span>
+        {project && (
+          <>
+            <button
+              type="button"
+              onClick={() => window.api.openInVSCode({ path: project.root })}
+              className={iconButton}
+              title="Open project in VS Code"
+            >
+              <Code className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => window.api.openExplorer(project.root)}
+              className={iconButton}
+              title="Open project folder"
+            >
+              <FolderOpen className="h-4 w-4" />
+            </button>
+          </>
+        )}
+        {onStopAll && (
+          <button
+            type="button"
+            onClick={stopAll}
+            className={cx(
+              "h-7 shrink-0 rounded-full px-3 text-xs font-semibold transition-colors",
+              confirming
+                ? "bg-mimi_pink-400 text-mimi_pink-100"
+                : "bg-mimi_pink-400/20 text-mimi_pink-100 hover:bg-mimi_pink-400/40",
+            )}
+          >
+            {confirming ? "Click to confirm" : "Stop all"}
+          </button>
+        )}
+      </div>
+      {!collapsed && children}
+    </section>
+  );
+}
+
+function readableBytes(bytes: number) {
+  const units = ["B", "KB", "MB", "GB"];
+  let i = 0;
+  let v = bytes;
+  while (v >= 1024 && i < units.length - 1) {
+    v /= 1024;
+    i++;
+  }
+  return `${v.toFixed(1)} ${units[i]}`;
+}
@@ -1,6 +1,18 @@
 import React from "react";
 import cx from "classnames";
 import dayjs from "dayjs";
+import HealthTimeline from "./HealthTimeline";
+import ProcessTreeView from "./ProcessTreeView";
+import GitBadge from "./GitBadge";
+import type { HealthHistorySummary } from "../../main/health-history";
+import type { FrameworkDetection } from "../../main/framework-detection";
+import type {
+  ContainerAction,
+  ContainerPort,
+} from "../../main/container-engine";
+import type { TunnelInfo } from "../../main/tunnels";
+import type { PageThumbnail } from "../../main/page-thumbnails";
+import type { RestartStatus } from "../../main/restart-policy";
 
 type ButtonState = "idle" | "active" | "done";
 
@@ -9,6 +21,8 @@ type HealthStatus = {
   url: string;
   status: "healthy" | "slow" | "down";
   responseTime?: number;
+  httpStatus?: number;
+  probeKey?: string;
   lastChecked: number;
   error?: string;
 };
@@ -31,30 +45,96 @@ const FRAMEWORK_COLORS: Record<string, string> = {
   Gunicorn: "#499848",
   PHP: "#777BB4",
   Deno: "#000000",
+  SvelteKit: "#FF3E00",
+  NestJS: "#E0234E",
+  Express: "#404040",
+  FastAPI: "#009688",
+  Flask: "#3BABC3",
+  "ASP.NET Core": "#512BD4",
+  Gin: "#00ADD8",
 };
 
+const FRAMEWORK_SOURCES: Record<FrameworkDetection["source"], string> = {
+  manifest: "project manifest",
+  header: "HTTP response headers",
+  config: "config file",
+  command: "command line",
+};
+
+const UDP_COLOR = "#9CA3AF"; // gray-400
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CERT_WARNING_DAYS = 14;
+
 function getFrameworkColor(framework?: string): string {
   if (!framework) return "#6B7280"; // gray-500
   return FRAMEWORK_COLORS[framework] || "#6B7280";
 }
 
+type StopServerResult = { pid: number; outcome: string; error?: string };
+
+// Stops what a card stands for: a container through its engine, since the
+// PID is only the engine's port proxy; a WSL server inside its distro; and
+// otherwise the process tree.
+export async function stopServer(item: any): Promise<StopServerResult> {
+  if (item.container) {
+    try {
+      await window.api.containerAction(item.container.id, "stop");
+      return { pid: item.pid, outcome: "exited" };
+    } catch (err) {
+      return {
+        pid: item.pid,
+        outcome: "failed",
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+  return item.wslDistro
+    ? window.api.killWslPid(item.wslDistro, item.pid)
+    : window.api.killPid(item.pid);
+}
+
 export default function ServerCard({
   item,
   health,
+  history,
   note,
   onNoteChange,
   onOptimisticKill,
+  onShowLogs,
+  onEditHealthCheck,
+  onShowHistory,
+  onShowContainerLogs,
+  inspectorUrl,
+  onInspectTraffic,
+  thumbnail,
+  previewEnabled = true,
+  onTogglePreview,
+  restart,
 }: {
   item: any;
   health?: HealthStatus;
+  history?: HealthHistorySummary;
   note?: string;
   onNoteChange?: (port: number, note: string) => void;
   onOptimisticKill?: (key: string) => void;
+  onShowLogs?: (item: any) => void;
+  onEditHealthCheck?: (item: any) => void;
+  onShowHistory?: (item: any) => void;
+  onShowContainerLogs?: (container: ContainerPort) => void;
+  inspectorUrl?: string; // set while a traffic inspector is in front
+  onInspectTraffic?: (item: any) => void;
+  thumbnail?: PageThumbnail;
+  previewEnabled?: boolean; // false once the port is opted out
+  onTogglePreview?: (port: number, enabled: boolean) => void;
+  restart?: RestartStatus; // auto-restart status of its launch profile
 }) {
   const uptime = dayjs(item.lastSeen).from(item.firstSeen, true);
   const cpu = item.cpu ? `${item.cpu.toFixed(1)}%` : "—";
   const mem = item.memory ? readableBytes(item.memory) : "—";
   const projectDir = item.cwd || null;
+  // UDP sockets have no HTTP endpoint: no health dot, no Open, and the copy
+  // action yields a host:port address instead of a URL.
+  const isUdp = item.protocol === "udp";
 
   const healthColor =
     health?.status === "healthy"
@@ -69,6 +149,8 @@ export default function ServerCard({
 
   const ref = React.useRef<HTMLDivElement>(null);
   const [exiting, setExiting] = React.useState<null | "left" | "right">(null);
+  const [stopping, setStopping] = React.useState(false);
+  const [killError, setKillError] = React.useState<string | null>(null);
   const [editingNote, setEditingNote] = React.useState(false);
   const [noteValue, setNoteValue] = React.useState(note || "");
 
@@ -95,7 +177,7 @@ export default function ServerCard({
   const copy = () => {
     if (copyState !== "idle") return;
     setCopyState("active");
-    window.api.copyText(item.url);
+    window.api.copyText(isUdp ? `localhost:${item.port}` : item.url);
 
     setTimeout(() => {
       setCopyState("done");
@@ -103,13 +185,30 @@ export default function ServerCard({
     }, 150);
   };
 
-  const kill = () => {
-    if (exiting) return;
+  // The card leaves only once main reports the process gone; a server that
+  // ignores SIGINT/SIGTERM is force-killed after the grace period.
+  const kill = async () => {
+    if (exiting || stopping) return;
+    setStopping(true);
+    setKillError(null);
+    let result: { outcome: string; error?: string };
+    try {
+      result = await stopServer(item);
+    } catch (err) {
+      result = {
+        outcome: "failed",
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+    setStopping(false);
+    if (result.outcome === "failed") {
+      setKillError(result.error ?? "Process is still running");
+      return;
+    }
     const rect = ref.current?.getBoundingClientRect();
     const centerX = (rect?.left ?? 0) + (rect?.width ?? 0) / 2;
     const dir = centerX < window.innerWidth / 2 ? "left" : "right";
     setExiting(dir);
-    window.api.killPid(item.pid);
     window.setTimeout(() => onOptimisticKill?.(item.key), 260);
   };
 
@@ -140,23 +239,43 @@ export default function ServerCard({
       ref={ref}
       className={cx(
         "app-card rounded-xl border border-gray-300/40 bg-gray-100/94 p-4 shadow-soft transition-all duration-300 will-change-transform border-l-4",
+        isUdp && "border-dashed",
         exiting === "left" && "-translate-x-[120%] opacity-0",
         exiting === "right" && "translate-x-[120%] opacity-0"
       )}
-      style={{ borderLeftColor: frameworkColor }}
+      style={{ borderLeftColor: isUdp ? UDP_COLOR : frameworkColor }}
     >
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
-          <div
-            className={cx(
-              "w-2.5 h-2.5 rounded-full transition-colors",
-              healthColor,
-              health?.status === "down" && "animate-pulse"
-            )}
-            title={health?.status || "checking..."}
-          />
+          {isUdp ? (
+            <span
+              className="rounded-md bg-gray-300/70 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wider text-gray-700"
+              title="Bound UDP socket; not health checked"
+            >
+              UDP
+            </span>
+          ) : (
+            <div
+              className={cx(
+                "w-2.5 h-2.5 rounded-full transition-colors",
+                healthColor,
+                health?.status === "down" && "animate-pulse"
+              )}
+              title={
+                health
+                  ? [
+                      health.status,
+                      health.httpStatus && `HTTP ${health.httpStatus}`,
+                      health.error,
+                    ]
+                      .filter(Boolean)
+                      .join(" • ")
+                  : "checking..."
+              }
+            />
+          )}
           <div className="text-2xl font-mono text-night-900">:{item.port}</div>
-          {responseTimeText && (
+          {!isUdp && responseTimeText && (
             <span
               className={cx(
                 "text-xs px-1.5 py-0.5 rounded-md",
@@ -170,17 +289,84 @@ export default function ServerCard({
               {responseTimeText}
             </span>
           )}
+          <BindBadge
+            addresses={item.addresses ?? []}
+            exposure={item.exposure}
+            family={item.family}
+          />
+          {item.tls && (
+            <span
+              className="text-[10px] font-semibold uppercase px-1.5 py-0.5 rounded-md text-celadon-700 bg-celadon-400/20"
+              title={[
+                `Subject: ${item.tls.subject}`,
+                `Issuer: ${item.tls.issuer}`,
+                item.tls.selfSigned
+                  ? "Self-signed"
+                  : !item.tls.trusted && "Not from a trusted CA",
+                `Valid until ${dayjs(item.tls.validTo).format("YYYY-MM-DD")}`,
+              ]
+                .filter(Boolean)
+                .join("\n")}
+            >
+              HTTPS
+            </span>
+          )}
         </div>
         <div className="text-xs text-gray-600">
           PID {item.pid} • Seen {seenCount}x
         </div>
       </div>
-      <div
-        className="text-sm text-gray-700 mt-1 truncate"
-        title={item.command || item.processName}
-      >
-        {item.processName || "Process"}
+      <div className="mt-1 flex items-center gap-2 min-w-0">
+        <div
+          className="text-sm text-gray-700 truncate"
+          title={item.command || item.processName}
+        >
+          {item.processName || "Process"}
+        </div>
+        {item.workspacePackage && (
+          <span
+            className="min-w-0 truncate rounded-md bg-gray-200 px-1.5 py-0.5 font-mono text-[11px] text-gray-700"
+            title={`${item.workspacePackage.name} in the ${item.workspacePackage.tool} workspace at ${item.workspacePackage.workspaceRoot}`}
+          >
+            {item.workspacePackage.path}
+          </span>
+        )}
+        {item.git && <GitBadge git={item.git} />}
+        {item.wslDistro && (
+          <span
+            className="shrink-0 rounded-full bg-night-400/20 px-2 py-0.5 text-[10px] font-semibold text-night-600"
+            title={`Running inside the ${item.wslDistro} WSL2 distro (Linux PID ${item.pid})`}
+          >
+            WSL • {item.wslDistro}
+          </span>
+        )}
+        {item.profileName && (
+          <span
+            className="shrink-0 rounded-full bg-celadon-400/20 px-2 py-0.5 text-[10px] font-semibold uppercase text-celadon-600"
+            title="Started from a launch profile"
+          >
+            {item.profileName}
+          </span>
+        )}
+        {restart && restart.count > 0 && <RestartBadge restart={restart} />}
+        {item.frameworkInfo && (
+          <FrameworkBadge detection={item.frameworkInfo} />
+        )}
+        {item.tls && <CertExpiry validTo={item.tls.validTo} />}
       </div>
+      {item.proxyUrl && (
+        <ProxyUrlRow url={item.url} proxyUrl={item.proxyUrl} />
+      )}
+      {!isUdp && previewEnabled && thumbnail && (
+        <PagePreview thumbnail={thumbnail} />
+      )}
+      {item.tunnel && <TunnelPanel tunnel={item.tunnel} />}
+      {item.container && (
+        <ContainerPanel
+          container={item.container}
+          onShowLogs={() => onShowContainerLogs?.(item.container)}
+        />
+      )}
 
       {/* Quick Actions Row */}
       <div className="flex items-center gap-1 mt-2">
@@ -202,6 +388,54 @@ export default function ServerCard({
           title="Open in VS Code"
           icon={<CodeIcon />}
         />
+        <QuickActionButton
+          onClick={() => onShowLogs?.(item)}
+          disabled={!item.profileId}
+          title={
+            item.profileId
+              ? "Show output"
+              : "Output is captured only for servers started from a launch profile"
+          }
+          icon={<LogsIcon />}
+        />
+        {!isUdp && (
+          <QuickActionButton
+            onClick={() => onInspectTraffic?.(item)}
+            title={
+              inspectorUrl
+                ? `Inspecting traffic sent to ${inspectorUrl}`
+                : "Inspect HTTP traffic"
+            }
+            icon={<TrafficIcon active={Boolean(inspectorUrl)} />}
+          />
+        )}
+        {!isUdp && (
+          <QuickActionButton
+            onClick={() => onTogglePreview?.(item.port, !previewEnabled)}
+            title={
+              previewEnabled
+                ? `Stop capturing page previews for :${item.port}`
+                : `Capture page previews for :${item.port}`
+            }
+            icon={<PreviewIcon enabled={previewEnabled} />}
+          />
+        )}
+        {!isUdp && (
+          <QuickActionButton
+            onClick={() => onEditHealthCheck?.(item)}
+            title={
+              health?.probeKey
+                ? "Edit custom health check"
+                : "Configure health check"
+            }
+            icon={<HealthIcon />}
+          />
+        )}
+        <QuickActionButton
+          onClick={() => onShowHistory?.(item)}
+          title={`What else ran on :${item.port}`}
+          icon={<HistoryIcon />}
+        />
       </div>
 
       {/* Port Note */}
@@ -244,7 +478,14 @@ export default function ServerCard({
         </div>
       )}
 
-      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-700 mt-3">
+      <div
+        className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-700 mt-3"
+        title={
+          item.processTree?.pids.length > 1
+            ? `Totals for ${item.processTree.pids.length} processes`
+            : undefined
+        }
+      >
         <span className="flex items-center gap-1.5">
           CPU {cpu}
           {item.cpuHistory && item.cpuHistory.length > 1 && (
@@ -261,49 +502,53 @@ export default function ServerCard({
         <span className="opacity-50">•</span>
         <span>Up {uptime}</span>
       </div>
+      {item.processTree && <ProcessTreeView tree={item.processTree} />}
+      {!isUdp && history && <HealthTimeline history={history} />}
       <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
         <div className="flex flex-wrap items-center gap-2.5">
           {/* Open Button */}
-          <button
-            type="button"
-            onClick={open}
-            disabled={openState !== "idle"}
-            className={cx(
-              "h-10 min-w-[76px] rounded-xl px-4 text-sm font-medium transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-night-700/35 disabled:cursor-wait",
-              openState === "idle" &&
-                "bg-night-700 text-night-100 hover:-translate-y-0.5 hover:bg-night-800 active:translate-y-0",
-              openState === "active" && "bg-night-800 text-night-100",
-              openState === "done" && "bg-night-600 text-night-100",
-            )}
-          >
-            <span className="flex items-center gap-1.5">
-              {openState === "idle" && "Open"}
-              {openState === "active" && (
-                <>
-                  <span className="inline-block w-3 h-3 border-2 border-night-100 border-t-transparent rounded-full animate-spin"></span>
-                  Opening...
-                </>
-              )}
-              {openState === "done" && (
-                <>
-                  <svg
-                    className="w-4 h-4"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
-                    />
-                  </svg>
-                  Opened
-                </>
+          {!isUdp && (
+            <button
+              type="button"
+              onClick={open}
+              disabled={openState !== "idle"}
+              className={cx(
+                "h-10 min-w-[76px] rounded-xl px-4 text-sm font-medium transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-night-700/35 disabled:cursor-wait",
+                openState === "idle" &&
+                  "bg-night-700 text-night-100 hover:-translate-y-0.5 hover:bg-night-800 active:translate-y-0",
+                openState === "active" && "bg-night-800 text-night-100",
+                openState === "done" && "bg-night-600 text-night-100",
               )}
-            </span>
-          </button>
+            >
+              <span className="flex items-center gap-1.5">
+                {openState === "idle" && "Open"}
+                {openState === "active" && (
+                  <>
+                    <span className="inline-block w-3 h-3 border-2 border-night-100 border-t-transparent rounded-full animate-spin"></span>
+                    Opening...
+                  </>
+                )}
+                {openState === "done" && (
+                  <>
+                    <svg
+                      className="w-4 h-4"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+                      />
+                    </svg>
+                    Opened
+                  </>
+                )}
+              </span>
+            </button>
+          )}
 
           {/* Copy URL Button */}
           <button
@@ -319,7 +564,7 @@ export default function ServerCard({
             )}
           >
             <span className="flex items-center gap-1.5 min-w-[72px] justify-center">
-              {copyState === "idle" && "Copy URL"}
+              {copyState === "idle" && (isUdp ? "Copy Address" : "Copy URL")}
               {copyState === "active" && (
                 <span className="inline-block animate-ping">📋</span>
               )}
@@ -348,16 +593,376 @@ export default function ServerCard({
         {/* Kill Button */}
         <button
           type="button"
-          onClick={kill}
+          onClick={() => void kill()}
+          disabled={stopping}
+          title={killError ? `Could not stop: ${killError}` : undefined}
           className="h-10 min-w-[68px] rounded-xl bg-mimi_pink-300 px-4 text-sm font-medium text-mimi_pink-100 transition-all duration-200 hover:-translate-y-0.5 hover:bg-mimi_pink-300/85 hover:text-mimi_pink-100 active:translate-y-0 active:bg-mimi_pink-300 active:text-mimi_pink-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-mimi_pink-400/45 disabled:cursor-not-allowed disabled:bg-mimi_pink-300/55 disabled:text-mimi_pink-100 disabled:opacity-70"
         >
-          Kill
+          {stopping ? (
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block w-3 h-3 border-2 border-mimi_pink-100 border-t-transparent rounded-full animate-spin"></span>
+              Stopping...
+            </span>
+          ) : (
+            "Kill"
+          )}
+        </button>
+      </div>
+      {killError && (
+        <div className="mt-2 rounded-lg bg-mimi_pink-400/20 px-2 py-1 text-xs text-mimi_pink-200">
+          Could not stop PID {item.pid}: {killError}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BindBadge({
+  addresses,
+  exposure,
+  family,
+}: {
+  addresses: string[];
+  exposure?: "loopback" | "all-interfaces" | "network";
+  family?: "IPv4" | "IPv6" | "dual";
+}) {
+  if (!exposure) return null;
+  const bound = addresses.join(", ");
+  const badge =
+    exposure === "all-interfaces"
+      ? {
+          label: "All interfaces",
+          title: `Bound to ${bound}: reachable from other devices on your network`,
+          className: "text-mimi_pink-200 bg-mimi_pink-400/20",
+        }
+      : exposure === "network"
+        ? {
+            label: `LAN ${addresses[0]}`,
+            title: `Bound to ${bound}: reachable on that network interface`,
+            className: "text-yellow-700 bg-yellow-400/20",
+          }
+        : {
+            label: "Local only",
+            title: `Bound to ${bound}: reachable only from this machine`,
+            className: "text-gray-700 bg-gray-300/60",
+          };
+
+  return (
+    <>
+      <span
+        className={cx(
+          "text-[10px] font-semibold uppercase px-1.5 py-0.5 rounded-md",
+          badge.className,
+        )}
+        title={badge.title}
+      >
+        {badge.label}
+      </span>
+      {family === "IPv6" && (
+        <span
+          className="text-[10px] font-semibold px-1.5 py-0.5 rounded-md text-gray-700 bg-gray-300/60"
+          title="Listening on IPv6 only"
+        >
+          IPv6
+        </span>
+      )}
+    </>
+  );
+}
+
+function ContainerPanel({
+  container,
+  onShowLogs,
+}: {
+  container: ContainerPort;
+  onShowLogs: () => void;
+}) {
+  const [busy, setBusy] = React.useState<ContainerAction | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const run = async (action: ContainerAction) => {
+    setBusy(action);
+    setError(null);
+    try {
+      await window.api.containerAction(container.id, action);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const button =
+    "h-6 rounded-full bg-gray-200 px-2.5 text-[11px] font-semibold text-gray-700 transition-colors hover:bg-gray-300 disabled:cursor-wait disabled:opacity-60";
+
+  return (
+    <div className="mt-2 rounded-lg bg-gray-200/50 px-2.5 py-2 text-xs">
+      <div className="flex min-w-0 flex-wrap items-center gap-x-2 gap-y-1">
+        <span
+          className="rounded-md bg-night-700/15 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-night-700"
+          title={`${container.engine === "podman" ? "Podman" : "Docker"} container ${container.id.slice(0, 12)} • ${container.status ?? container.state}`}
+        >
+          {container.engine}
+        </span>
+        <span className="truncate font-semibold text-gray-800">
+          {container.name}
+        </span>
+        <span className="truncate font-mono text-[11px] text-gray-600">
+          {container.image}
+        </span>
+        <span className="text-[11px] text-gray-600">
+          :{container.containerPort} in container
+        </span>
+      </div>
+      {(container.composeProject || container.composeService) && (
+        <div className="mt-1 text-[11px] text-gray-600">
+          Compose {container.composeProject}
+          {container.composeService && ` / ${container.composeService}`}
+        </div>
+      )}
+      <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+        {container.state !== "running" && (
+          <button
+            type="button"
+            disabled={busy !== null}
+            onClick={() => void run("start")}
+            className={button}
+          >
+            {busy === "start" ? "Starting..." : "Start"}
+          </button>
+        )}
+        <button
+          type="button"
+          disabled={busy !== null}
+          onClick={() => void run("restart")}
+          className={button}
+        >
+          {busy === "restart" ? "Restarting..." : "Restart"}
+        </button>
+        <button
+          type="button"
+          disabled={busy !== null}
+          onClick={() => void run("stop")}
+          className={button}
+        >
+          {busy === "stop" ? "Stopping..." : "Stop"}
         </button>
+        <button type="button" onClick={onShowLogs} className={button}>
+          Logs
+        </button>
+      </div>
+      {error && <div className="mt-1 text-mimi_pink-200">{error}</div>}
+    </div>
+  );
+}
+
+// The stable *.localhost name next to the address it currently points at.
+function ProxyUrlRow({ url, proxyUrl }: { url: string; proxyUrl: string }) {
+  const [copied, setCopied] = React.useState(false);
+
+  const copy = () => {
+    window.api.copyText(proxyUrl);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="mt-1 flex min-w-0 items-center gap-1.5 font-mono text-[11px] text-gray-600">
+      <span className="truncate">{url}</span>
+      <span className="shrink-0">•</span>
+      <button
+        type="button"
+        onClick={() => window.api.openUrl(proxyUrl)}
+        className="truncate font-semibold text-night-700 hover:underline"
+        title={`Open ${proxyUrl} (proxied to ${url})`}
+      >
+        {proxyUrl}
+      </button>
+      <button
+        type="button"
+        onClick={copy}
+        className="h-5 shrink-0 rounded-full bg-gray-200 px-2 font-sans text-[10px] font-semibold text-gray-700 transition-colors hover:bg-gray-300"
+      >
+        {copied ? "Copied" : "Copy"}
+      </button>
+    </div>
+  );
+}
+
+// Offscreen snapshot of the root page; clicking it opens the page.
+function RestartBadge({ restart }: { restart: RestartStatus }) {
+  return (
+    <span
+      className="shrink-0 rounded-full bg-yellow-400/20 px-2 py-0.5 text-[10px] font-semibold text-yellow-700"
+      title={[
+        `Restarted automatically ${restart.count}x`,
+        restart.lastExitReason &&
+          `Last exit: ${restart.lastExitReason}${
+            restart.lastExitAt
+              ? ` (${dayjs(restart.lastExitAt).fromNow()})`
+              : ""
+          }`,
+      ]
+        .filter(Boolean)
+        .join("\n")}
+    >
+      ↻ {restart.count}
+    </span>
+  );
+}
+
+function PagePreview({ thumbnail }: { thumbnail: PageThumbnail }) {
+  return (
+    <button
+      type="button"
+      onClick={() => window.api.openUrl(thumbnail.url)}
+      className="mt-2 block w-full overflow-hidden rounded-lg border border-gray-300/60 bg-white transition-opacity hover:opacity-90"
+      title={`${thumbnail.url} • captured ${dayjs(thumbnail.capturedAt).fromNow()}`}
+    >
+      <img
+        src={thumbnail.dataUrl}
+        alt={`Preview of ${thumbnail.url}`}
+        className="block aspect-[16/10] w-full object-cover object-top"
+        draggable={false}
+      />
+    </button>
+  );
+}
+
+const TUNNEL_LABELS: Record<TunnelInfo["kind"], string> = {
+  ssh: "SSH tunnel",
+  kubectl: "port-forward",
+  cloudflared: "cloudflared",
+  ngrok: "ngrok",
+};
+
+function TunnelPanel({ tunnel }: { tunnel: TunnelInfo }) {
+  const [copied, setCopied] = React.useState<string | null>(null);
+
+  const copy = (text: string) => {
+    window.api.copyText(text);
+    setCopied(text);
+    window.setTimeout(() => setCopied(null), 1500);
+  };
+
+  const details = [
+    tunnel.via && `via ${tunnel.via}`,
+    tunnel.namespace && `namespace ${tunnel.namespace}`,
+    tunnel.context && `context ${tunnel.context}`,
+    tunnel.name && `tunnel ${tunnel.name}`,
+    tunnel.localTarget && `exposes ${tunnel.localTarget}`,
+  ].filter(Boolean);
+  const copyableRemote =
+    tunnel.remote && tunnel.remote !== "SOCKS proxy" ? tunnel.remote : null;
+  const button =
+    "h-6 rounded-full bg-gray-200 px-2.5 text-[11px] font-semibold text-gray-700 transition-colors hover:bg-gray-300";
+
+  return (
+    <div className="mt-2 rounded-lg bg-gray-200/50 px-2.5 py-2 text-xs">
+      <div className="flex min-w-0 flex-wrap items-center gap-x-2 gap-y-1">
+        <span className="rounded-md bg-celadon-400/20 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-celadon-700">
+          {TUNNEL_LABELS[tunnel.kind]}
+        </span>
+        {tunnel.remote && (
+          <span className="truncate font-mono text-[11px] font-semibold text-gray-800">
+            → {tunnel.remote}
+          </span>
+        )}
+        {tunnel.publicUrl && (
+          <span className="truncate font-mono text-[11px] text-gray-800">
+            {tunnel.publicUrl}
+          </span>
+        )}
       </div>
+      {details.length > 0 && (
+        <div className="mt-1 truncate text-[11px] text-gray-600">
+          {details.join(" • ")}
+        </div>
+      )}
+      {(tunnel.publicUrl || copyableRemote) && (
+        <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+          {tunnel.publicUrl && (
+            <>
+              <button
+                type="button"
+                onClick={() => window.api.openUrl(tunnel.publicUrl!)}
+                className={button}
+              >
+                Open public URL
+              </button>
+              <button
+                type="button"
+                onClick={() => copy(tunnel.publicUrl!)}
+                className={button}
+              >
+                {copied === tunnel.publicUrl ? "Copied" : "Copy public URL"}
+              </button>
+            </>
+          )}
+          {copyableRemote && (
+            <button
+              type="button"
+              onClick={() => copy(copyableRemote)}
+              className={button}
+            >
+              {copied === copyableRemote ? "Copied" : "Copy target"}
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
 
+function FrameworkBadge({ detection }: { detection: FrameworkDetection }) {
+  const confidence = Math.round(detection.confidence * 100);
+  return (
+    <span
+      className={cx(
+        "shrink-0 rounded-full bg-gray-300/60 px-2 py-0.5 text-[10px] font-medium text-gray-700",
+        detection.confidence < 0.6 && "opacity-60",
+      )}
+      title={`Detected from ${FRAMEWORK_SOURCES[detection.source]} • ${confidence}% confidence`}
+    >
+      {detection.name}
+      {detection.version && ` ${detection.version}`}
+      {detection.confidence < 0.6 && "?"}
+    </span>
+  );
+}
+
+function CertExpiry({ validTo }: { validTo: number }) {
+  const now = Date.now();
+  let label: string;
+  let className: string;
+  if (validTo <= now) {
+    const days = Math.ceil((now - validTo) / DAY_MS);
+    label = days <= 1 ? "cert expired" : `cert expired ${days} days ago`;
+    className = "text-mimi_pink-200 bg-mimi_pink-400/20";
+  } else {
+    const days = Math.floor((validTo - now) / DAY_MS);
+    label =
+      days === 0
+        ? "cert expires today"
+        : `cert expires in ${days} ${days === 1 ? "day" : "days"}`;
+    className =
+      days <= CERT_WARNING_DAYS
+        ? "text-yellow-700 bg-yellow-400/20"
+        : "text-gray-700 bg-gray-300/60";
+  }
+  return (
+    <span
+      className={cx(
+        "shrink-0 rounded-full px-2 py-0.5 text-[10px] font-medium",
+        className,
+      )}
+      title={`Certificate valid until ${dayjs(validTo).format("YYYY-MM-DD HH:mm")}`}
+    >
+      {label}
+    </span>
+  );
+}
+
 function QuickActionButton({
   onClick,
   disabled,
@@ -450,6 +1055,99 @@ function CodeIcon() {
   );
 }
 
+function HealthIcon() {
+  return (
+    <svg
+      className="w-4 h-4"
+      fill="none"
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+      strokeWidth={1.5}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M3 12h4l2.25-6 4.5 12L16 12h5"
+      />
+    </svg>
+  );
+}
+
+function HistoryIcon() {
+  return (
+    <svg
+      className="w-4 h-4"
+      fill="none"
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+      strokeWidth={1.5}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M3 12a9 9 0 109-9 9.75 9.75 0 00-6.74 2.74L3 8m0-5v5h5m4-1v5l4 2"
+      />
+    </svg>
+  );
+}
+
+function TrafficIcon({ active }: { active: boolean }) {
+  return (
+    <svg
+      className={cx("w-4 h-4", active && "text-celadon-600")}
+      fill="none"
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+      strokeWidth={1.5}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M7.5 21L3 16.5m0 0L7.5 12M3 16.5h13.5m0-13.5L21 7.5m0 0L16.5 12M21 7.5H7.5"
+      />
+    </svg>
+  );
+}
+
+function PreviewIcon({ enabled }: { enabled: boolean }) {
+  return (
+    <svg
+      className={cx("w-4 h-4", !enabled && "opacity-50")}
+      fill="none"
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+      strokeWidth={1.5}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M2.25 15.75l5.16-5.16a2.25 2.25 0 013.18 0l5.16 5.16m-1.5-1.5l1.41-1.41a2.25 2.25 0 013.18 0l2.91 2.91M3.75 21h16.5A1.5 1.5 0 0021.75 19.5v-15A1.5 1.5 0 0020.25 3H3.75A1.5 1.5 0 002.25 4.5v15A1.5 1.5 0 003.75 21z"
+      />
+      {!enabled && (
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 3l18 18" />
+      )}
+    </svg>
+  );
+}
+
+function LogsIcon() {
+  return (
+    <svg
+      className="w-4 h-4"
+      fill="none"
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+      strokeWidth={1.5}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M3.75 6.75h16.5M3.75 12h16.5m-16.5 5.25H12"
+      />
+    </svg>
+  );
+}
+
 function Sparkline({
   data,
   color,
@@ -0,0 +1,380 @@
+import React from "react";
+import cx from "classnames";
+import dayjs from "dayjs";
+import { History, Loader2, X } from "lucide-react";
+import type { ServerSession } from "../../main/server-sessions";
+
+type Range = "hour" | "today" | "yesterday" | "week" | "all" | "custom";
+
+const RANGE_LABELS: Record<Exclude<Range, "custom">, string> = {
+  hour: "Last hour",
+  today: "Today",
+  yesterday: "Yesterday",
+  week: "Last 7 days",
+  all: "All",
+};
+
+// datetime-local inputs work in local time without seconds.
+const INPUT_FORMAT = "YYYY-MM-DDTHH:mm";
+
+function rangeBounds(range: Range): { from?: string; to?: string } {
+  const now = dayjs();
+  switch (range) {
+    case "hour":
+      return { from: now.subtract(1, "hour").format(INPUT_FORMAT) };
+    case "today":
+      return { from: now.startOf("day").format(INPUT_FORMAT) };
+    case "yesterday": {
+      const day = now.subtract(1, "day");
+      return {
+        from: day.startOf("day").format(INPUT_FORMAT),
+        to: day.endOf("day").format(INPUT_FORMAT),
+      };
+    }
+    case "week":
+      return { from: now.subtract(7, "day").format(INPUT_FORMAT) };
+    default:
+      return {};
+  }
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return "<1m";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export default function ServerHistoryDialog({
+  target,
+  onClose,
+}: {
+  target: { port?: number } | null;
+  onClose: () => void;
+}) {
+  const [port, setPort] = React.useState("");
+  const [range, setRange] = React.useState<Range>("today");
+  const [from, setFrom] = React.useState("");
+  const [to, setTo] = React.useState("");
+  const [text, setText] = React.useState("");
+  const [sessions, setSessions] = React.useState<ServerSession[] | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [confirmClear, setConfirmClear] = React.useState(false);
+
+  const search = React.useCallback(
+    async (query: { port: string; from: string; to: string; text: string }) => {
+      setLoading(true);
+      setError(null);
+      try {
+        setSessions(
+          await window.api.queryServerSessions({
+            port: query.port ? Number(query.port) : undefined,
+            from: query.from ? dayjs(query.from).valueOf() : undefined,
+            to: query.to ? dayjs(query.to).endOf("minute").valueOf() : undefined,
+            text: query.text,
+          }),
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [],
+  );
+
+  React.useEffect(() => {
+    if (!target) return;
+    const nextPort = target.port ? String(target.port) : "";
+    const bounds = rangeBounds(target.port ? "week" : "today");
+    setPort(nextPort);
+    setRange(target.port ? "week" : "today");
+    setFrom(bounds.from ?? "");
+    setTo(bounds.to ?? "");
+    setText("");
+    setConfirmClear(false);
+    void search({
+      port: nextPort,
+      from: bounds.from ?? "",
+      to: bounds.to ?? "",
+      text: "",
+    });
+  }, [target, search]);
+
+  React.useEffect(() => {
+    if (!target) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [target, onClose]);
+
+  const byDay = React.useMemo(() => {
+    const groups = new Map<string, ServerSession[]>();
+    for (const session of sessions ?? []) {
+      const day = dayjs(session.startedAt).format("dddd, MMM D");
+      const list = groups.get(day) ?? [];
+      list.push(session);
+      groups.set(day, list);
+    }
+    return Array.from(groups.entries());
+  }, [sessions]);
+
+  if (!target) return null;
+
+  const pickRange = (next: Exclude<Range, "custom">) => {
+    const bounds = rangeBounds(next);
+    setRange(next);
+    setFrom(bounds.from ?? "");
+    setTo(bounds.to ?? "");
+    void search({ port, text, from: bounds.from ?? "", to: bounds.to ?? "" });
+  };
+
+  const clear = async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    setConfirmClear(false);
+    await window.api.clearServerSessions();
+    void search({ port, from, to, text });
+  };
+
+  const field =
+    "h-8 rounded-full bg-gray-200 px-3 text-sm outline-none ring-night-700 focus:ring-2";
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/45 p-4 no-drag backdrop-blur-[2px]"
+      onPointerDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label="Server history"
+        className="app-dialog flex max-h-[min(680px,calc(100dvh-2rem))] w-[760px] max-w-[calc(100vw-2rem)] flex-col overflow-hidden border border-gray-300 bg-gray-100 text-gray-900 shadow-soft"
+        onPointerDown={(event) => event.stopPropagation()}
+      >
+        <header className="flex shrink-0 items-center justify-between gap-3 border-b border-gray-300 px-4 py-3">
+          <div className="flex min-w-0 items-center gap-2">
+            <History className="h-4 w-4 text-gray-700" />
+            <h2 className="truncate text-base font-semibold">
+              Server history
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            title="Close"
+            aria-label="Close"
+            className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-gray-200 text-gray-700 transition-colors hover:bg-mimi_pink-300 hover:text-mimi_pink-100"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </header>
+
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            void search({ port, from, to, text });
+          }}
+          className="shrink-0 space-y-2 border-b border-gray-300 px-4 py-2"
+        >
+          <div className="flex flex-wrap gap-1">
+            {(Object.keys(RANGE_LABELS) as Exclude<Range, "custom">[]).map(
+              (option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => pickRange(option)}
+                  className={cx(
+                    "h-7 rounded-full px-3 text-xs font-semibold",
+                    range === option
+                      ? "bg-night-700 text-night-100"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300",
+                  )}
+                >
+                  {RANGE_LABELS[option]}
+                </button>
+              ),
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={port}
+              onChange={(e) => setPort(e.target.value.replace(/[^0-9]/g, ""))}
+              placeholder="Port"
+              inputMode="numeric"
+              className={cx(field, "w-20")}
+            />
+            <input
+              type="datetime-local"
+              value={from}
+              onChange={(e) => {
+                setFrom(e.target.value);
+                setRange("custom");
+              }}
+              title="From"
+              className={field}
+            />
+            <span className="text-xs text-gray-600">to</span>
+            <input
+              type="datetime-local"
+              value={to}
+              onChange={(e) => {
+                setTo(e.target.value);
+                setRange("custom");
+              }}
+              title="To"
+              className={field}
+            />
+            <input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Process, project or command"
+              className={cx(field, "min-w-[140px] flex-1")}
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="h-8 rounded-full bg-night-700 px-4 text-xs font-semibold text-night-100 disabled:opacity-60"
+            >
+              Search
+            </button>
+          </div>
+        </form>
+
+        <div className="app-scrollbar min-h-0 flex-1 space-y-4 overflow-auto px-4 py-3">
+          {error && (
+            <div className="rounded-lg bg-mimi_pink-700/30 px-3 py-2 text-sm text-mimi_pink-200">
+              {error}
+            </div>
+          )}
+
+          {loading && !sessions && (
+            <div className="flex items-center justify-center gap-2 py-10 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading history…
+            </div>
+          )}
+
+          {sessions && sessions.length === 0 && (
+            <div className="py-10 text-center text-sm text-gray-600">
+              No servers were seen in this range.
+            </div>
+          )}
+
+          {byDay.map(([day, list]) => (
+            <div key={day}>
+              <div className="mb-2 text-xs uppercase tracking-wider text-gray-700">
+                {day}
+              </div>
+              <div className="space-y-2">
+                {list.map((session) => (
+                  <SessionRow key={session.id} session={session} />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <footer className="flex shrink-0 items-center justify-between gap-2 border-t border-gray-300 px-4 py-2 text-xs text-gray-600">
+          <span>
+            {sessions
+              ? `${sessions.length} session${sessions.length === 1 ? "" : "s"}`
+              : ""}
+          </span>
+          <button
+            type="button"
+            onClick={() => void clear()}
+            className={cx(
+              "h-7 rounded-full px-3 font-semibold transition-colors",
+              confirmClear
+                ? "animate-pulse bg-mimi_pink-400 text-mimi_pink-100"
+                : "bg-mimi_pink-400/20 text-mimi_pink-100 hover:bg-mimi_pink-400/40",
+            )}
+          >
+            {confirmClear ? "Click to confirm" : "Clear history"}
+          </button>
+        </footer>
+      </section>
+    </div>
+  );
+}
+
+function SessionRow({ session }: { session: ServerSession }) {
+  const running = session.endedAt === undefined;
+  const end = session.endedAt ?? Date.now();
+  return (
+    <div className="space-y-1 rounded-xl border border-gray-300 bg-gray-200/50 px-3 py-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono font-semibold">:{session.port}</span>
+        {session.protocol === "udp" && (
+          <span className="rounded-full bg-gray-300/70 px-2 py-0.5 text-[11px] font-semibold uppercase text-gray-700">
+            UDP
+          </span>
+        )}
+        <span className="font-semibold">
+          {session.processName ?? "Unknown"}
+        </span>
+        <span className="text-xs text-gray-600">PID {session.pid}</span>
+        {session.framework && (
+          <span className="rounded-full bg-gray-300/70 px-2 py-0.5 text-[11px] font-medium text-gray-700">
+            {session.framework}
+          </span>
+        )}
+        {session.profileName && (
+          <span className="rounded-full bg-celadon-400/25 px-2 py-0.5 text-[11px] font-medium text-celadon-700">
+            {session.profileName}
+          </span>
+        )}
+        <span className="ml-auto text-xs text-gray-700">
+          {dayjs(session.startedAt).format("HH:mm")} –{" "}
+          {running ? (
+            <span className="font-semibold text-celadon-700">running</span>
+          ) : (
+            <span
+              title={
+                session.endReason === "unobserved"
+                  ? "Stopped while the dashboard was closed; last seen at this time"
+                  : "Stop observed by the scanner"
+              }
+            >
+              {session.endReason === "unobserved" && "after "}
+              {dayjs(end).format(
+                dayjs(end).isSame(session.startedAt, "day")
+                  ? "HH:mm"
+                  : "MMM D HH:mm",
+              )}
+            </span>
+          )}{" "}
+          <span className="text-gray-500">
+            ({formatDuration(end - session.startedAt)})
+          </span>
+        </span>
+      </div>
+      {session.cwd && (
+        <div
+          className="truncate font-mono text-[11px] text-gray-700"
+          title={session.cwd}
+        >
+          {session.cwd}
+        </div>
+      )}
+      {session.command && (
+        <div
+          className="truncate font-mono text-[11px] text-gray-600"
+          title={session.command}
+        >
+          {session.command}
+        </div>
+      )}
+    </div>
+  );
+}
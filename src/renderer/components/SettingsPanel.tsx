@@ -22,6 +22,7 @@ export default function SettingsPanel({
 }: Props) {
   const { resetPreferences } = useThemePreferences();
   const [scanIntervalMs, setScanIntervalMs] = useState(5000);
+  const [stopGraceMs, setStopGraceMs] = useState(5000);
   const [portsText, setPortsText] = useState(
     "3000-3999, 8000, 8080, 5000, 4200, 5173-5199"
   );
@@ -31,6 +32,12 @@ export default function SettingsPanel({
   const [notifyOnStop, setNotifyOnStop] = useState(true);
   const [scanAllPorts, setScanAllPorts] = useState(false);
   const [closeToTray, setCloseToTray] = useState(true);
+  const [proxyEnabled, setProxyEnabled] = useState(false);
+  const [proxyPort, setProxyPort] = useState(1355);
+  const [controlApiEnabled, setControlApiEnabled] = useState(false);
+  const [controlApiPort, setControlApiPort] = useState(1356);
+  const [controlApiToken, setControlApiToken] = useState<string | null>(null);
+  const [tokenCopied, setTokenCopied] = useState(false);
   const [globalHotkey, setGlobalHotkey] = useState("Ctrl+Shift+D");
   const [recording, setRecording] = useState(false);
   const [recordedKeys, setRecordedKeys] = useState<string[]>([]);
@@ -41,6 +48,7 @@ export default function SettingsPanel({
   useEffect(() => {
     if (settings) {
       setScanIntervalMs(settings.scanIntervalMs ?? 5000);
+      setStopGraceMs(settings.stopGraceMs ?? 5000);
       setPortsText(settings.portsText ?? portsToString(settings.ports || []));
       setStartAtLogin(Boolean(settings.startAtLogin));
       setOpenInTrayAtLogin(
@@ -49,6 +57,11 @@ export default function SettingsPanel({
           : true,
       );
       setScanAllPorts(Boolean(settings.scanAllPorts));
+      setProxyEnabled(Boolean(settings.proxyEnabled));
+      setProxyPort(settings.proxyPort ?? 1355);
+      setControlApiEnabled(Boolean(settings.controlApiEnabled));
+      setControlApiPort(settings.controlApiPort ?? 1356);
+      window.api.getControlApiToken().then(setControlApiToken);
       setCloseToTray(
         typeof settings.closeToTray === "boolean" ? settings.closeToTray : true
       );
@@ -145,6 +158,26 @@ export default function SettingsPanel({
                   className="w-full rounded-xl bg-gray-200 px-3 py-2 outline-none ring-night-700 focus:ring-2"
                 />
               </label>
+              <label className="block space-y-1.5 pb-1">
+                <span className="block text-sm text-gray-700">
+                  Stop grace period (ms)
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={60000}
+                  step={500}
+                  value={stopGraceMs}
+                  onChange={(e) =>
+                    setStopGraceMs(parseInt(e.target.value || "0", 10))
+                  }
+                  className="w-full rounded-xl bg-gray-200 px-3 py-2 outline-none ring-night-700 focus:ring-2"
+                />
+                <span className="block text-xs text-gray-600">
+                  How long Kill waits after Ctrl+C and SIGTERM before forcing
+                  the process tree to exit.
+                </span>
+              </label>
               <label className="block space-y-1.5">
                 <span className="block text-sm text-gray-700">
                   Ports (comma separated, allow ranges like 3000-3999)
@@ -252,6 +285,95 @@ export default function SettingsPanel({
               </div>
             </section>
 
+            <section className="settings-section p-3.5 text-gray-900">
+              <div className="mb-3 text-sm font-semibold text-gray-900">
+                Friendly URLs
+              </div>
+              <div className="space-y-3">
+                <label className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    className="h-5 w-5 accent-night-700"
+                    checked={proxyEnabled}
+                    onChange={(e) => setProxyEnabled(e.target.checked)}
+                  />
+                  <span>Serve projects as name.localhost</span>
+                </label>
+                <label className="block space-y-1.5">
+                  <span className="block text-sm text-gray-700">
+                    Proxy port
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={65535}
+                    value={proxyPort}
+                    disabled={!proxyEnabled}
+                    onChange={(e) =>
+                      setProxyPort(parseInt(e.target.value || "0", 10))
+                    }
+                    className="w-full rounded-xl bg-gray-200 px-3 py-2 outline-none ring-night-700 focus:ring-2 disabled:opacity-50"
+                  />
+                  <span className="block text-xs text-gray-600">
+                    Each project or launch profile is reachable at
+                    http://name.localhost:{proxyPort || 1355}, whatever port it
+                    is on today. WebSockets (HMR) are forwarded too.
+                  </span>
+                </label>
+              </div>
+            </section>
+
+            <section className="settings-section p-3.5 text-gray-900">
+              <div className="mb-3 text-sm font-semibold text-gray-900">
+                Control API
+              </div>
+              <div className="space-y-3">
+                <label className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    className="h-5 w-5 accent-night-700"
+                    checked={controlApiEnabled}
+                    onChange={(e) => setControlApiEnabled(e.target.checked)}
+                  />
+                  <span>Let scripts and the CLI control the dashboard</span>
+                </label>
+                <label className="block space-y-1.5">
+                  <span className="block text-sm text-gray-700">
+                    API port
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={65535}
+                    value={controlApiPort}
+                    disabled={!controlApiEnabled}
+                    onChange={(e) =>
+                      setControlApiPort(parseInt(e.target.value || "0", 10))
+                    }
+                    className="w-full rounded-xl bg-gray-200 px-3 py-2 outline-none ring-night-700 focus:ring-2 disabled:opacity-50"
+                  />
+                  <span className="block text-xs text-gray-600">
+                    JSON over http://127.0.0.1:{controlApiPort || 1356} with a
+                    bearer token. The localhost-dashboard CLI finds both in
+                    control-api.json in the app data folder.
+                  </span>
+                </label>
+                <button
+                  type="button"
+                  disabled={!controlApiToken}
+                  onClick={() => {
+                    if (!controlApiToken) return;
+                    window.api.copyText(controlApiToken);
+                    setTokenCopied(true);
+                    window.setTimeout(() => setTokenCopied(false), 1500);
+                  }}
+                  className="rounded-full bg-gray-200 px-3 py-1.5 text-xs font-semibold text-gray-800 hover:bg-gray-300 disabled:opacity-50"
+                >
+                  {tokenCopied ? "Copied" : "Copy token"}
+                </button>
+              </div>
+            </section>
+
             <section className="settings-section p-3.5 text-gray-900">
               <div className="mb-2 flex items-center justify-between gap-3">
                 <div>
@@ -388,6 +510,7 @@ export default function SettingsPanel({
                 if (!accel) return;
                 onSave({
                   scanIntervalMs,
+                  stopGraceMs: Math.min(60000, Math.max(0, stopGraceMs || 0)),
                   portsText,
                   startAtLogin,
                   openInTrayAtLogin,
@@ -395,6 +518,10 @@ export default function SettingsPanel({
                   notifyOnStop,
                   scanAllPorts,
                   closeToTray,
+                  proxyEnabled,
+                  proxyPort,
+                  controlApiEnabled,
+                  controlApiPort,
                   globalHotkey: accel,
                 });
                 setRecording(false);
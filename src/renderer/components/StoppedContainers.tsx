@@ -0,0 +1,69 @@
+import React from "react";
+import { Container, Loader2 } from "lucide-react";
+import type { StoppedContainer } from "../../main/container-engine";
+
+// Containers that published ports earlier in this session. Their listeners
+// are gone, so they have no card, but they can be started again from here.
+export default function StoppedContainers({
+  containers,
+  onError,
+}: {
+  containers: StoppedContainer[];
+  onError: (message: string) => void;
+}) {
+  const [starting, setStarting] = React.useState<string | null>(null);
+
+  const start = async (container: StoppedContainer) => {
+    setStarting(container.id);
+    try {
+      await window.api.containerAction(container.id, "start");
+    } catch (err) {
+      onError(
+        `Could not start ${container.name}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    } finally {
+      setStarting(null);
+    }
+  };
+
+  return (
+    <div className="mb-5 space-y-2">
+      <div className="text-xs uppercase tracking-wider text-gray-700">
+        Stopped containers
+      </div>
+      {containers.map((container) => (
+        <div
+          key={container.id}
+          className="flex items-center gap-3 rounded-xl border border-dashed border-gray-300 bg-gray-100/80 px-4 py-2 text-sm"
+        >
+          <Container className="h-4 w-4 shrink-0 text-gray-600" />
+          <span className="font-semibold text-gray-800">{container.name}</span>
+          <span className="min-w-0 flex-1 truncate font-mono text-xs text-gray-600">
+            {container.image}
+            {container.composeProject &&
+              ` • ${container.composeProject}${container.composeService ? ` / ${container.composeService}` : ""}`}
+          </span>
+          <span className="shrink-0 font-mono text-xs text-gray-600">
+            {container.ports
+              .map(
+                (port) =>
+                  `:${port.hostPort}${port.protocol === "udp" ? "/udp" : ""}`,
+              )
+              .join(" ")}
+          </span>
+          <button
+            type="button"
+            disabled={starting !== null}
+            onClick={() => void start(container)}
+            className="flex shrink-0 items-center gap-1.5 rounded-full bg-night-700 px-3 py-1 text-xs font-semibold text-night-100 hover:bg-night-800 disabled:cursor-wait disabled:opacity-60"
+          >
+            {starting === container.id && (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            )}
+            Start
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
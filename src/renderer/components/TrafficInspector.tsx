@@ -0,0 +1,411 @@
+import React from "react";
+import cx from "classnames";
+import dayjs from "dayjs";
+import { Copy, Play, Square, Trash, X } from "lucide-react";
+import {
+  DEFAULT_TRAFFIC_CAPACITY,
+  MAX_BODY_CAPTURE,
+  curlCommand,
+  matchesTrafficFilter,
+  type InspectorSession,
+  type TrafficEntry,
+  type TrafficStatusFilter,
+} from "../../main/traffic-log";
+
+const STATUS_FILTERS: TrafficStatusFilter[] = [
+  "all",
+  "2xx",
+  "3xx",
+  "4xx",
+  "5xx",
+  "failed",
+];
+
+function appendBounded(
+  current: TrafficEntry[],
+  next: TrafficEntry[],
+): TrafficEntry[] {
+  const merged = current.concat(next);
+  return merged.length > DEFAULT_TRAFFIC_CAPACITY
+    ? merged.slice(merged.length - DEFAULT_TRAFFIC_CAPACITY)
+    : merged;
+}
+
+function statusClass(entry: TrafficEntry): string {
+  if (entry.status === undefined) return "text-mimi_pink-500";
+  if (entry.status >= 500) return "text-mimi_pink-500";
+  if (entry.status >= 400) return "text-yellow-700";
+  if (entry.status >= 300) return "text-gray-600";
+  return "text-celadon-600";
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export default function TrafficInspector({
+  target,
+  session,
+  onClose,
+}: {
+  target: { key: string; title: string; url: string } | null;
+  session?: InspectorSession;
+  onClose: () => void;
+}) {
+  const [entries, setEntries] = React.useState<TrafficEntry[]>([]);
+  const [selectedSeq, setSelectedSeq] = React.useState<number | null>(null);
+  const [query, setQuery] = React.useState("");
+  const [statusFilter, setStatusFilter] =
+    React.useState<TrafficStatusFilter>("all");
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [copied, setCopied] = React.useState(false);
+  const key = target?.key;
+  const sessionPort = session?.port;
+  const active = sessionPort !== undefined;
+
+  React.useEffect(() => {
+    setEntries([]);
+    setSelectedSeq(null);
+    setError(null);
+  }, [key]);
+
+  // Requests recorded before Stop stay on screen; a new session starts over.
+  React.useEffect(() => {
+    if (!key || sessionPort === undefined) return;
+    let cancelled = false;
+    setEntries([]);
+    setSelectedSeq(null);
+    window.api.getTraffic(key).then((initial) => {
+      if (!cancelled) setEntries(appendBounded([], initial));
+    });
+    const off = window.api.onTrafficAppend((payload) => {
+      if (payload.key !== key) return;
+      setEntries((current) => {
+        const lastSeq = current[current.length - 1]?.seq ?? 0;
+        return appendBounded(
+          current,
+          payload.entries.filter((entry) => entry.seq > lastSeq),
+        );
+      });
+    });
+    return () => {
+      cancelled = true;
+      off?.();
+    };
+  }, [key, sessionPort]);
+
+  React.useEffect(() => {
+    if (!target) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [target, onClose]);
+
+  const visible = React.useMemo(
+    () =>
+      entries
+        .filter((entry) =>
+          matchesTrafficFilter(entry, { query, status: statusFilter }),
+        )
+        .reverse(),
+    [entries, query, statusFilter],
+  );
+  const selected = entries.find((entry) => entry.seq === selectedSeq);
+
+  const toggle = async () => {
+    if (!key || busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      if (active) await window.api.stopInspector(key);
+      else await window.api.startInspector(key);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const clear = async () => {
+    if (!key) return;
+    if (active) await window.api.clearTraffic(key);
+    setEntries([]);
+    setSelectedSeq(null);
+  };
+
+  const copyCurl = () => {
+    if (!selected || !target) return;
+    window.api.copyText(curlCommand(selected, target.url));
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1500);
+  };
+
+  if (!target) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/45 p-4 no-drag backdrop-blur-[2px]"
+      onPointerDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Traffic for ${target.title}`}
+        className="app-dialog flex h-[min(680px,calc(100dvh-2rem))] w-[1000px] max-w-[calc(100vw-2rem)] flex-col overflow-hidden border border-gray-300 bg-gray-100 text-gray-900 shadow-soft"
+        onPointerDown={(event) => event.stopPropagation()}
+      >
+        <header className="flex shrink-0 items-center justify-between gap-3 border-b border-gray-300 px-4 py-3">
+          <div className="min-w-0">
+            <h2 className="truncate text-base font-semibold">
+              Traffic • {target.title}
+            </h2>
+            <div className="mt-0.5 truncate text-[11px] text-gray-600">
+              {session ? (
+                <>
+                  Send requests to{" "}
+                  <button
+                    type="button"
+                    onClick={() => window.api.copyText(session.url)}
+                    title="Copy the inspector URL"
+                    className="font-mono font-semibold text-night-700 hover:underline"
+                  >
+                    {session.url}
+                  </button>{" "}
+                  to record them on their way to {session.target}
+                </>
+              ) : (
+                "Start inspecting to put a recording proxy in front of this server."
+              )}
+            </div>
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            <button
+              type="button"
+              onClick={toggle}
+              disabled={busy}
+              className={cx(
+                "flex h-8 items-center gap-1.5 rounded-full px-3 text-xs font-semibold transition-colors disabled:cursor-wait",
+                active
+                  ? "bg-mimi_pink-600/20 text-mimi_pink-800 hover:bg-mimi_pink-600/30"
+                  : "bg-night-700 text-night-100 hover:bg-night-800",
+              )}
+            >
+              {active ? (
+                <Square className="h-3.5 w-3.5" />
+              ) : (
+                <Play className="h-3.5 w-3.5" />
+              )}
+              {active ? "Stop inspecting" : "Start inspecting"}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              title="Close traffic inspector"
+              aria-label="Close traffic inspector"
+              className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-gray-200 text-gray-700 transition-colors hover:bg-mimi_pink-300 hover:text-mimi_pink-100"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </header>
+
+        <div className="flex shrink-0 flex-wrap items-center gap-2 border-b border-gray-300 px-4 py-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter by method, path or status"
+            className="h-8 min-w-[200px] flex-1 rounded-full bg-gray-200 px-3 text-sm outline-none ring-night-700 focus:ring-2"
+          />
+          {STATUS_FILTERS.map((status) => (
+            <button
+              key={status}
+              type="button"
+              onClick={() => setStatusFilter(status)}
+              className={cx(
+                "h-8 rounded-full px-3 text-xs font-semibold capitalize",
+                statusFilter === status
+                  ? "bg-night-700 text-night-100"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300",
+              )}
+            >
+              {status}
+            </button>
+          ))}
+          <button
+            type="button"
+            title="Clear recorded requests"
+            onClick={clear}
+            className="flex h-8 items-center gap-1.5 rounded-full bg-gray-200 px-3 text-xs font-semibold text-gray-700 transition-colors hover:bg-gray-300"
+          >
+            <Trash className="h-3.5 w-3.5" />
+            Clear
+          </button>
+        </div>
+
+        {error && (
+          <div className="shrink-0 border-b border-gray-300 bg-mimi_pink-400/20 px-4 py-2 text-xs text-mimi_pink-200">
+            {error}
+          </div>
+        )}
+
+        <div className="flex min-h-0 flex-1">
+          <div className="app-scrollbar min-h-0 w-1/2 overflow-auto border-r border-gray-300 font-mono text-[12px]">
+            {visible.length === 0 ? (
+              <div className="mt-16 px-4 text-center font-sans text-sm text-gray-600">
+                {entries.length === 0
+                  ? "No requests recorded yet."
+                  : "No requests match the current filter."}
+              </div>
+            ) : (
+              visible.map((entry) => (
+                <button
+                  key={entry.seq}
+                  type="button"
+                  onClick={() => setSelectedSeq(entry.seq)}
+                  className={cx(
+                    "flex w-full items-center gap-2 px-3 py-1 text-left hover:bg-gray-200",
+                    entry.seq === selectedSeq && "bg-gray-200",
+                  )}
+                >
+                  <span className="shrink-0 text-gray-500">
+                    {dayjs(entry.time).format("HH:mm:ss")}
+                  </span>
+                  <span className="w-14 shrink-0 font-semibold">
+                    {entry.method}
+                  </span>
+                  <span className="min-w-0 flex-1 truncate" title={entry.path}>
+                    {entry.path}
+                  </span>
+                  <span className={cx("shrink-0", statusClass(entry))}>
+                    {entry.status ?? "ERR"}
+                  </span>
+                  <span className="w-14 shrink-0 text-right text-gray-500">
+                    {entry.durationMs !== undefined
+                      ? `${entry.durationMs}ms`
+                      : ""}
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+          <div className="app-scrollbar min-h-0 w-1/2 select-text overflow-auto px-4 py-3 text-xs">
+            {selected ? (
+              <TrafficDetails
+                entry={selected}
+                copied={copied}
+                onCopyCurl={copyCurl}
+              />
+            ) : (
+              <div className="mt-16 text-center text-sm text-gray-600">
+                Select a request to see its headers and body.
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function TrafficDetails({
+  entry,
+  copied,
+  onCopyCurl,
+}: {
+  entry: TrafficEntry;
+  copied: boolean;
+  onCopyCurl: () => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 break-all font-mono text-[12px]">
+          <span className="font-semibold">{entry.method}</span> {entry.path}
+          <div className={cx("mt-0.5", statusClass(entry))}>
+            {entry.status ?? "No response"}
+            {entry.upgrade && " • upgrade"}
+            {entry.durationMs !== undefined && ` • ${entry.durationMs}ms`}
+            {entry.error && ` • ${entry.error}`}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onCopyCurl}
+          className="flex h-7 shrink-0 items-center gap-1.5 rounded-full bg-gray-200 px-2.5 text-[11px] font-semibold text-gray-700 transition-colors hover:bg-gray-300"
+        >
+          <Copy className="h-3 w-3" />
+          {copied ? "Copied" : "Copy as curl"}
+        </button>
+      </div>
+      <HeaderTable title="Request headers" headers={entry.requestHeaders} />
+      <BodyView
+        title="Request body"
+        body={entry.requestBody}
+        bytes={entry.requestBytes}
+      />
+      {entry.responseHeaders && (
+        <HeaderTable title="Response headers" headers={entry.responseHeaders} />
+      )}
+      <BodyView
+        title="Response body"
+        body={entry.responseBody}
+        bytes={entry.responseBytes}
+      />
+    </div>
+  );
+}
+
+function HeaderTable({
+  title,
+  headers,
+}: {
+  title: string;
+  headers: Record<string, string>;
+}) {
+  return (
+    <div>
+      <div className="mb-1 font-semibold text-gray-700">{title}</div>
+      <div className="rounded-lg bg-gray-200/50 px-2.5 py-1.5 font-mono text-[11px]">
+        {Object.entries(headers).map(([name, value]) => (
+          <div key={name} className="break-all">
+            <span className="text-gray-600">{name}:</span> {value}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BodyView({
+  title,
+  body,
+  bytes,
+}: {
+  title: string;
+  body?: string;
+  bytes: number;
+}) {
+  if (bytes === 0) return null;
+  return (
+    <div>
+      <div className="mb-1 font-semibold text-gray-700">
+        {title}{" "}
+        <span className="font-normal text-gray-500">
+          {formatBytes(bytes)}
+          {body !== undefined &&
+            bytes > MAX_BODY_CAPTURE &&
+            ` • first ${formatBytes(MAX_BODY_CAPTURE)} shown`}
+        </span>
+      </div>
+      <pre className="app-scrollbar max-h-64 overflow-auto whitespace-pre-wrap break-all rounded-lg bg-gray-200/50 px-2.5 py-1.5 font-mono text-[11px]">
+        {body ?? "Binary or compressed body not shown."}
+      </pre>
+    </div>
+  );
+}
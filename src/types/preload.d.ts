@@ -5,6 +5,9 @@ export type ServerInfo = {
   pid: number;
   port: number;
   protocol?: "tcp" | "udp";
+  addresses?: string[];
+  family?: import("../main/server-detection").AddressFamily;
+  exposure?: import("../main/server-detection").BindExposure;
   processName?: string;
   command?: string;
   path?: string;
@@ -12,13 +15,76 @@ export type ServerInfo = {
   firstSeen: number;
   lastSeen: number;
   url: string;
+  tls?: import("../main/tls-detection").TlsCertificate;
   cpu?: number;
   memory?: number;
+  processTree?: import("../main/process-tree").ServerProcessTree;
   framework?: string;
+  frameworkInfo?: import("../main/framework-detection").FrameworkDetection;
   cpuHistory?: number[];
   memoryHistory?: number[];
+  profileId?: string;
+  profileName?: string;
+  container?: ContainerPort;
+  wslDistro?: string;
+  tunnel?: TunnelInfo;
+  project?: ProjectRoot;
+  workspacePackage?: WorkspacePackage;
+  git?: GitStatus;
+  proxyUrl?: string;
 };
 
+export type LaunchProfile = import("../main/launch-profiles").LaunchProfile;
+export type LaunchProfileInput =
+  import("../main/launch-profiles").LaunchProfileInput;
+export type LaunchedProcess = import("../main/launch-profiles").LaunchedProcess;
+export type LaunchProfilesState =
+  import("../main/launch-profiles").LaunchProfilesState;
+
+export type LogEntry = import("../main/log-buffer").LogEntry;
+
+export type LogAppendPayload = {
+  profileId: string;
+  entries: LogEntry[];
+};
+
+export type TrafficEntry = import("../main/traffic-log").TrafficEntry;
+export type InspectorSession = import("../main/traffic-log").InspectorSession;
+
+export type TrafficAppendPayload = {
+  key: string;
+  entries: TrafficEntry[];
+};
+
+export type PageThumbnail = import("../main/page-thumbnails").PageThumbnail;
+
+export type HealthProbe = import("../main/health-probes").HealthProbe;
+export type HealthProbeKey = import("../main/health-probes").HealthProbeKey;
+export type HealthProbes = import("../main/health-probes").HealthProbes;
+export type HealthHistorySummary =
+  import("../main/health-history").HealthHistorySummary;
+
+export type ServerSession = import("../main/server-sessions").ServerSession;
+export type SessionQuery = import("../main/server-sessions").SessionQuery;
+
+export type StopResult = import("../main/process-stop").StopResult;
+
+export type ContainerPort = import("../main/container-engine").ContainerPort;
+export type ContainerAction =
+  import("../main/container-engine").ContainerAction;
+export type StoppedContainer =
+  import("../main/container-engine").StoppedContainer;
+
+export type TunnelInfo = import("../main/tunnels").TunnelInfo;
+export type ProjectRoot = import("../main/project-root").ProjectRoot;
+export type WorkspacePackage =
+  import("../main/workspace-packages").WorkspacePackage;
+export type GitStatus = import("../main/git-status").GitStatus;
+
+export type PortOwner = import("../main/port-owners").PortOwner;
+export type PortConflict = import("../main/port-owners").PortConflict;
+export type PortResolution = import("../main/port-owners").PortResolution;
+
 export type AHKScriptInfo = {
   key: string; // pid as string
   pid: number;
@@ -149,6 +215,8 @@ export type HealthStatus = {
   url: string;
   status: "healthy" | "slow" | "down";
   responseTime?: number;
+  httpStatus?: number;
+  probeKey?: HealthProbeKey;
   lastChecked: number;
   error?: string;
 };
@@ -179,6 +247,10 @@ export type AppSettings = {
   // legacy retained only for migration
   notifications?: boolean;
   globalHotkey: string;
+  proxyEnabled: boolean;
+  proxyPort: number;
+  controlApiEnabled: boolean;
+  controlApiPort: number;
 };
 
 export type RendererSettings = AppSettings & { portsText?: string };
@@ -192,11 +264,30 @@ export interface Api {
   onScanUpdate(cb: (items: ServerInfo[]) => void): () => void;
   onScanError(cb: (msg: string) => void): () => void;
   refresh(): Promise<void>;
+  getLogs(profileId: string, sinceSeq?: number): Promise<LogEntry[]>;
+  clearLogs(profileId: string): Promise<void>;
+  onLogAppend(cb: (payload: LogAppendPayload) => void): () => void;
+
+  // traffic inspector proxies in front of detected servers
+  getInspectorSessions(): Promise<InspectorSession[]>;
+  startInspector(key: string): Promise<InspectorSession[]>;
+  stopInspector(key: string): Promise<InspectorSession[]>;
+  getTraffic(key: string, sinceSeq?: number): Promise<TrafficEntry[]>;
+  clearTraffic(key: string): Promise<void>;
+  onInspectorSessions(cb: (sessions: InspectorSession[]) => void): () => void;
+  onTrafficAppend(cb: (payload: TrafficAppendPayload) => void): () => void;
+
+  // port ownership; no ports means the configured ports from settings
+  resolvePorts(ports?: number | number[]): Promise<PortResolution>;
+  freePort(port: number): Promise<PortResolution>;
+  getPortConflicts(): Promise<PortConflict[]>;
+  onPortConflicts(cb: (conflicts: PortConflict[]) => void): () => void;
 
   // actions
   openUrl(url: string): void;
-  killPid(pid: number): void;
-  killAllServers(): Promise<number>;
+  killPid(pid: number): Promise<StopResult>;
+  killWslPid(distro: string, pid: number): Promise<StopResult>;
+  killAllServers(): Promise<StopResult[]>;
   copyText(text: string): void;
   openInVSCode(payload: any): Promise<void>;
   openTerminal(path: string): Promise<void>;
@@ -207,6 +298,7 @@ export interface Api {
   updateSettings(partial: Partial<RendererSettings>): Promise<RendererSettings>;
   resetSettings(): Promise<RendererSettings>;
   onSettingsUpdate(cb: (s: RendererSettings) => void): () => void;
+  getControlApiToken(): Promise<string | null>;
 
   // stats
   getStats(): Promise<StatsPayload>;
@@ -214,11 +306,51 @@ export interface Api {
 
   // health checks
   onHealthUpdate(cb: (results: HealthStatus[]) => void): () => void;
+  // uptime and latency over the last hour, keyed by server key
+  getHealthHistory(): Promise<Record<string, HealthHistorySummary>>;
+  onHealthHistoryUpdate(
+    cb: (summaries: Record<string, HealthHistorySummary>) => void,
+  ): () => void;
 
   // port notes
   getNote(port: number | string): Promise<string>;
   setNote(port: number | string, note: string): Promise<Record<string, string>>;
   getAllNotes(): Promise<Record<string, string>>;
+  onNotesUpdate(cb: (notes: Record<string, string>) => void): () => void;
+
+  // page thumbnails by server key; disabled ports are never captured
+  getThumbnails(): Promise<Record<string, PageThumbnail>>;
+  getThumbnailDisabledPorts(): Promise<number[]>;
+  setThumbnailEnabled(port: number, enabled: boolean): Promise<number[]>;
+  onThumbnailsUpdate(
+    cb: (thumbnails: Record<string, PageThumbnail>) => void,
+  ): () => void;
+
+  // health check probes, keyed "port:3000" or "framework:vite"
+  getHealthProbes(): Promise<HealthProbes>;
+  setHealthProbe(
+    key: HealthProbeKey,
+    probe: HealthProbe | null,
+  ): Promise<HealthProbes>;
+
+  // server session history, newest first
+  queryServerSessions(query?: SessionQuery): Promise<ServerSession[]>;
+  clearServerSessions(): Promise<void>;
+
+  // Docker/Podman containers; actions and logs need a running engine
+  getStoppedContainers(): Promise<StoppedContainer[]>;
+  onStoppedContainers(cb: (containers: StoppedContainer[]) => void): () => void;
+  containerAction(id: string, action: ContainerAction): Promise<void>;
+  getContainerLogs(id: string): Promise<LogEntry[]>;
+
+  // launch profiles
+  getLaunchProfiles(): Promise<LaunchProfilesState>;
+  saveLaunchProfile(input: LaunchProfileInput): Promise<LaunchProfilesState>;
+  deleteLaunchProfile(id: string): Promise<LaunchProfilesState>;
+  startLaunchProfile(id: string): Promise<LaunchProfilesState>;
+  stopLaunchProfile(id: string): Promise<LaunchProfilesState>;
+  restartLaunchProfile(id: string): Promise<LaunchProfilesState>;
+  onLaunchProfilesUpdate(cb: (state: LaunchProfilesState) => void): () => void;
 
   // recent scripts
   getRecentScripts(): Promise<RecentScriptInfo[]>;
@@ -0,0 +1,294 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import http from "node:http";
+import { mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  ContainerPortSource,
+  connectContainerEngine,
+  createEngineClient,
+  demuxDockerLogs,
+  engineSocketCandidates,
+  mapPublishedPorts,
+  parseContainerLogs,
+  validateContainerAction,
+  validateContainerId,
+} from "../src/main/container-engine";
+import type {
+  ContainerEngineClient,
+  EngineContainer,
+} from "../src/main/container-engine";
+
+const posixOnly = { skip: process.platform === "win32" };
+
+const WEB_ID = "a".repeat(64);
+const DB_ID = "b".repeat(64);
+
+const containers: EngineContainer[] = [
+  {
+    Id: WEB_ID,
+    Names: ["/shop-web-1"],
+    Image: "shop-web:latest",
+    State: "running",
+    Status: "Up 3 minutes",
+    Ports: [
+      { IP: "0.0.0.0", PrivatePort: 3000, PublicPort: 8080, Type: "tcp" },
+      { IP: "::", PrivatePort: 3000, PublicPort: 8080, Type: "tcp" },
+      { PrivatePort: 9229, Type: "tcp" }, // exposed, not published
+    ],
+    Labels: {
+      "com.docker.compose.project": "shop",
+      "com.docker.compose.service": "web",
+    },
+  },
+  {
+    Id: DB_ID,
+    Names: ["/dns"],
+    Image: "coredns/coredns",
+    State: "running",
+    Ports: [
+      { IP: "127.0.0.1", PrivatePort: 53, PublicPort: 5353, Type: "udp" },
+    ],
+    Labels: null,
+  },
+  {
+    Id: "c".repeat(64),
+    Names: ["/old"],
+    Image: "old",
+    State: "exited",
+    Ports: [],
+  },
+];
+
+function frame(stream: 1 | 2, text: string): Buffer {
+  const payload = Buffer.from(text, "utf8");
+  const header = Buffer.alloc(8);
+  header[0] = stream;
+  header.writeUInt32BE(payload.length, 4);
+  return Buffer.concat([header, payload]);
+}
+
+test("container ids and actions are validated", () => {
+  assert.equal(validateContainerId(WEB_ID.slice(0, 12)), WEB_ID.slice(0, 12));
+  assert.throws(() => validateContainerId("../etc"), /hex/);
+  assert.throws(() => validateContainerId(42), /hex/);
+  assert.equal(validateContainerAction("restart"), "restart");
+  assert.throws(() => validateContainerAction("rm"), /start, stop or restart/);
+});
+
+test("engine sockets honour DOCKER_HOST, then the usual locations", () => {
+  const posix = engineSocketCandidates(
+    {
+      DOCKER_HOST: "unix:///custom/docker.sock",
+      XDG_RUNTIME_DIR: "/run/user/1000",
+    },
+    "linux",
+    "/home/me",
+  );
+  assert.deepEqual(posix[0], {
+    socketPath: "/custom/docker.sock",
+    engine: "docker",
+  });
+  assert.ok(
+    posix.some(
+      (socket) =>
+        socket.socketPath === "/run/user/1000/podman/podman.sock" &&
+        socket.engine === "podman",
+    ),
+  );
+  assert.ok(
+    posix.some((socket) => socket.socketPath === "/var/run/docker.sock"),
+  );
+
+  const windows = engineSocketCandidates(
+    { DOCKER_HOST: "npipe:////./pipe/podman-machine-default" },
+    "win32",
+    "C:\\Users\\me",
+  );
+  assert.deepEqual(windows[0], {
+    socketPath: "//./pipe/podman-machine-default",
+    engine: "podman",
+  });
+  assert.ok(
+    windows.some((socket) => socket.socketPath === "//./pipe/docker_engine"),
+  );
+});
+
+test("published ports map to container, image and compose service", () => {
+  const ports = mapPublishedPorts(containers, "docker");
+  assert.deepEqual(
+    ports.map((port) => [port.hostPort, port.protocol, port.name]),
+    [
+      [5353, "udp", "dns"],
+      [8080, "tcp", "shop-web-1"],
+    ],
+  );
+  const web = ports[1];
+  assert.equal(web.containerPort, 3000);
+  assert.equal(web.image, "shop-web:latest");
+  assert.equal(web.composeProject, "shop");
+  assert.equal(web.composeService, "web");
+  assert.equal(web.engine, "docker");
+  assert.equal(ports[0].composeProject, undefined);
+});
+
+test("multiplexed and TTY log streams are both read", () => {
+  const framed = Buffer.concat([
+    frame(1, "2024-05-01T10:00:00.000000000Z listening on :3000\n"),
+    frame(2, "2024-05-01T10:00:01.500000000Z Error: boom\n"),
+  ]);
+  assert.deepEqual(
+    demuxDockerLogs(framed).map((chunk) => chunk.stream),
+    ["stdout", "stderr"],
+  );
+  const entries = parseContainerLogs(framed);
+  assert.deepEqual(
+    entries.map((entry) => [entry.seq, entry.stream, entry.level, entry.text]),
+    [
+      [1, "stdout", "info", "listening on :3000"],
+      [2, "stderr", "error", "Error: boom"],
+    ],
+  );
+  assert.equal(entries[1].time, Date.parse("2024-05-01T10:00:01.500Z"));
+
+  const tty = parseContainerLogs(
+    Buffer.from("2024-05-01T10:00:00Z \u001b[32mready\u001b[0m\n"),
+  );
+  assert.deepEqual(tty.map((entry) => entry.text), ["ready"]);
+});
+
+test("the client talks to an engine over its socket", posixOnly, async () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "engine-"));
+  const socketPath = path.join(dir, "docker.sock");
+  const requests: string[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(`${req.method} ${req.url}`);
+    if (req.url === "/_ping") {
+      res.end("OK");
+    } else if (req.url === "/containers/json?all=1") {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(containers));
+    } else if (req.url?.startsWith(`/containers/${WEB_ID}/logs`)) {
+      res.end(frame(1, "2024-05-01T10:00:00Z hello\n"));
+    } else if (req.url === `/containers/${WEB_ID}/restart`) {
+      res.statusCode = 204;
+      res.end();
+    } else {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ message: "No such container: nope" }));
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+  try {
+    const client = await connectContainerEngine([
+      { socketPath: path.join(dir, "missing.sock"), engine: "podman" },
+      { socketPath, engine: "docker" },
+    ]);
+    assert.ok(client);
+    assert.equal(client.socketPath, socketPath);
+
+    assert.equal((await client.listContainers()).length, 3);
+    await client.runAction(WEB_ID, "restart");
+    const logs = await client.readLogs(WEB_ID, 50);
+    assert.deepEqual(logs.map((entry) => entry.text), ["hello"]);
+    await assert.rejects(
+      client.runAction(DB_ID, "stop"),
+      /No such container: nope/,
+    );
+    assert.ok(
+      requests.includes(
+        `GET /containers/${WEB_ID}/logs?stdout=1&stderr=1&timestamps=1&tail=50`,
+      ),
+    );
+
+    assert.equal(
+      await connectContainerEngine([
+        { socketPath: path.join(dir, "missing.sock"), engine: "docker" },
+      ]),
+      null,
+    );
+    await assert.rejects(
+      createEngineClient({
+        socketPath: path.join(dir, "missing.sock"),
+        engine: "docker",
+      }).listContainers(),
+    );
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("oversized engine responses settle instead of hanging", posixOnly, async () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "engine-"));
+  const socketPath = path.join(dir, "docker.sock");
+  const line = "2024-05-01T10:00:00Z " + "x".repeat(1000) + "\n";
+  const server = http.createServer((req, res) => {
+    res.setHeader("Content-Type", "application/json");
+    // 3 MB, past the 2 MB limit
+    res.end(
+      req.url === "/containers/json?all=1"
+        ? `[${"0,".repeat(1_500_000)}0]`
+        : line.repeat(3000),
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+  try {
+    const client = createEngineClient({ socketPath, engine: "docker" });
+    const logs = await client.readLogs(WEB_ID, 5000);
+    assert.ok(logs.length > 1000 && logs.length < 3000);
+    await assert.rejects(client.listContainers(), /too many containers/);
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("the port source remembers stopped containers and backs off without an engine", async () => {
+  let list = containers;
+  const fake: ContainerEngineClient = {
+    engine: "podman",
+    socketPath: "/fake.sock",
+    ping: async () => {},
+    listContainers: async () => list,
+    runAction: async () => {},
+    readLogs: async () => [],
+  };
+  const source = new ContainerPortSource(async () => fake, 1000);
+  assert.equal((await source.listPorts(0)).length, 2);
+  assert.deepEqual(source.getStopped(), []);
+
+  list = containers.map((container) =>
+    container.Id === WEB_ID
+      ? { ...container, State: "exited", Status: "Exited (0)", Ports: [] }
+      : container,
+  );
+  assert.equal((await source.listPorts(1)).length, 1);
+  assert.deepEqual(
+    source.getStopped().map((container) => [container.name, container.ports]),
+    [
+      [
+        "shop-web-1",
+        [{ hostPort: 8080, containerPort: 3000, protocol: "tcp" }],
+      ],
+    ],
+  );
+
+  // Removed containers are forgotten.
+  list = containers.filter((container) => container.Id !== WEB_ID);
+  await source.listPorts(2);
+  assert.deepEqual(source.getStopped(), []);
+
+  let connects = 0;
+  const offline = new ContainerPortSource(async () => {
+    connects++;
+    return null;
+  }, 1000);
+  assert.deepEqual(await offline.listPorts(0), []);
+  assert.deepEqual(await offline.listPorts(500), []);
+  assert.equal(connects, 1);
+  await offline.listPorts(1000);
+  assert.equal(connects, 2);
+});
@@ -0,0 +1,235 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { cliExitCode, parseCliArgs } from "../src/cli/commands";
+import {
+  ControlApi,
+  portStatus,
+  type ControlApiHandlers,
+} from "../src/main/control-api";
+import {
+  controlApiFileCandidates,
+  readControlApiInfo,
+  writeControlApiInfo,
+} from "../src/main/control-api-info";
+
+const servers = [
+  { key: "100:3000", port: 3000, protocol: "tcp", pid: 100 },
+  { key: "200:8000", port: 8000, protocol: "tcp", pid: 200 },
+  { key: "300:5353", port: 5353, protocol: "udp", pid: 300 },
+];
+const health = [
+  { key: "100:3000", status: "healthy" },
+  { key: "200:8000", status: "down" },
+];
+
+test("a port is up when its server passes the health check", () => {
+  const status = portStatus(3000, servers, health);
+  assert.equal(status.up, true);
+  assert.deepEqual(status.servers, [{ ...servers[0], health: health[0] }]);
+  assert.equal(portStatus(8000, servers, health).up, false);
+  assert.equal(portStatus(5353, servers, health).up, true);
+  assert.deepEqual(portStatus(9999, servers, health), {
+    port: 9999,
+    up: false,
+    servers: [],
+  });
+});
+
+test("CLI commands map to API requests and exit codes", () => {
+  assert.equal(parseCliArgs([]), undefined);
+  assert.equal(parseCliArgs(["--help"]), undefined);
+  assert.deepEqual(parseCliArgs(["status", "8000"]), {
+    request: { method: "GET", path: "/v1/ports/8000" },
+    check: "up",
+  });
+  assert.deepEqual(parseCliArgs(["kill", "3000"]), {
+    request: { method: "POST", path: "/v1/ports/3000/kill" },
+    check: "free",
+  });
+  assert.deepEqual(parseCliArgs(["note", "3000", "api", "server"]), {
+    request: {
+      method: "PUT",
+      path: "/v1/notes/3000",
+      body: { note: "api server" },
+    },
+  });
+  assert.deepEqual(parseCliArgs(["note", "3000"]), {
+    request: { method: "GET", path: "/v1/notes/3000" },
+  });
+  assert.throws(() => parseCliArgs(["kill"]), /port is required/);
+  assert.throws(() => parseCliArgs(["status", "http"]), /between 1 and 65535/);
+  assert.throws(() => parseCliArgs(["restart"]), /Unknown command/);
+
+  const status = parseCliArgs(["status", "8000"])!;
+  assert.equal(cliExitCode(status, { up: true }), 0);
+  assert.equal(cliExitCode(status, { up: false }), 1);
+  const kill = parseCliArgs(["kill", "8000"])!;
+  assert.equal(cliExitCode(kill, { owners: [] }), 0);
+  assert.equal(cliExitCode(kill, { owners: [{ pid: 1 }] }), 1);
+});
+
+test("the CLI finds control-api.json in the app data folder", () => {
+  assert.deepEqual(controlApiFileCandidates("linux", {}, "/home/ada"), [
+    "/home/ada/.config/Localhost Dashboard/control-api.json",
+    "/home/ada/.config/local-dashboard/control-api.json",
+  ]);
+  assert.equal(
+    controlApiFileCandidates("darwin", {}, "/Users/ada")[0],
+    "/Users/ada/Library/Application Support/Localhost Dashboard/control-api.json",
+  );
+  assert.equal(
+    controlApiFileCandidates(
+      "win32",
+      { APPDATA: "C:\\Users\\ada\\AppData\\Roaming" },
+      "C:\\Users\\ada",
+    )[0],
+    "C:\\Users\\ada\\AppData\\Roaming\\Localhost Dashboard\\control-api.json",
+  );
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "control-api-"));
+  try {
+    const file = path.join(dir, "control-api.json");
+    assert.equal(readControlApiInfo(file), undefined);
+    writeControlApiInfo(file, { port: 1356, token: "secret", pid: 42 });
+    assert.deepEqual(readControlApiInfo(file), {
+      port: 1356,
+      token: "secret",
+      pid: 42,
+    });
+    if (process.platform !== "win32") {
+      assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function call(
+  port: number,
+  method: string,
+  urlPath: string,
+  options: { token?: string; host?: string; body?: string } = {},
+): Promise<{ status: number; data: any }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      {
+        host: "127.0.0.1",
+        port,
+        method,
+        path: urlPath,
+        headers: {
+          host: options.host ?? `127.0.0.1:${port}`,
+          ...(options.token
+            ? { authorization: `Bearer ${options.token}` }
+            : {}),
+        },
+      },
+      (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (text += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode ?? 0, data: JSON.parse(text) }),
+        );
+      },
+    );
+    req.on("error", reject);
+    req.end(options.body);
+  });
+}
+
+test("the control API answers token-bearing local requests", async () => {
+  const notes: Record<string, string> = { "3000": "web" };
+  const freed: number[] = [];
+  let scans = 0;
+  const handlers: ControlApiHandlers = {
+    servers: () => servers,
+    health: () => health,
+    scan: async () => {
+      scans++;
+    },
+    freePort: async (port) => {
+      freed.push(port);
+      return { ports: [port], owners: [], conflicts: [] };
+    },
+    notes: () => notes,
+    setNote: (port, note) => {
+      if (note) notes[String(port)] = note;
+      else delete notes[String(port)];
+      return notes;
+    },
+  };
+  const api = new ControlApi(handlers, "s3cret");
+  try {
+    await api.start(0);
+    const port = api.listeningPort!;
+    const token = "s3cret";
+
+    assert.equal((await call(port, "GET", "/v1/servers")).status, 401);
+    assert.equal(
+      (await call(port, "GET", "/v1/servers", { token: "s3cre7" })).status,
+      401,
+    );
+    const rebound = await call(port, "GET", "/v1/servers", {
+      token,
+      host: `evil.example:${port}`,
+    });
+    assert.equal(rebound.status, 403);
+
+    const list = await call(port, "GET", "/v1/servers", { token });
+    assert.equal(list.status, 200);
+    assert.deepEqual(
+      list.data.map((s: any) => [s.port, s.health?.status]),
+      [
+        [3000, "healthy"],
+        [8000, "down"],
+        [5353, undefined],
+      ],
+    );
+
+    const status = await call(port, "GET", "/v1/ports/8000", { token });
+    assert.equal(status.data.up, false);
+    assert.equal(
+      (await call(port, "GET", "/v1/ports/99999", { token })).status,
+      400,
+    );
+
+    const killed = await call(port, "POST", "/v1/ports/8000/kill", { token });
+    assert.deepEqual(killed.data.owners, []);
+    assert.deepEqual(freed, [8000]);
+
+    await call(port, "POST", "/v1/scan", { token });
+    assert.equal(scans, 1);
+
+    const set = await call(port, "PUT", "/v1/notes/8000", {
+      token,
+      body: JSON.stringify({ note: "api" }),
+    });
+    assert.deepEqual(set.data, { "3000": "web", "8000": "api" });
+    assert.deepEqual(
+      (await call(port, "GET", "/v1/notes/8000", { token })).data,
+      { port: 8000, note: "api" },
+    );
+    assert.equal(
+      (await call(port, "PUT", "/v1/notes/8000", { token, body: "{" }))
+        .status,
+      400,
+    );
+    assert.equal(
+      (await call(port, "PUT", "/v1/notes/8000", { token, body: "{}" }))
+        .status,
+      400,
+    );
+
+    const missing = await call(port, "DELETE", "/v1/servers", { token });
+    assert.equal(missing.status, 404);
+    assert.match(missing.data.error, /No such endpoint/);
+  } finally {
+    await api.stop();
+  }
+  assert.equal(api.listeningPort, undefined);
+});
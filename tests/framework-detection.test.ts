@@ -0,0 +1,234 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  cleanVersion,
+  combineDetections,
+  detectFramework,
+  detectFromCommand,
+  detectFromCsproj,
+  detectFromGemfile,
+  detectFromGoMod,
+  detectFromHeaders,
+  detectFromPackageJson,
+  detectFromPythonManifest,
+  detectRuntime,
+  readProjectManifests,
+} from "../src/main/framework-detection";
+
+const nextPackage = JSON.stringify({
+  dependencies: { next: "^14.2.3", react: "18.3.1" },
+  devDependencies: { eslint: "8" },
+});
+
+test("versions are pulled out of ranges", () => {
+  assert.equal(cleanVersion("^14.2.3"), "14.2.3");
+  assert.equal(cleanVersion("~5.0.0-beta.2"), "5.0.0-beta.2");
+  assert.equal(cleanVersion(">=4.2,<5"), "4.2");
+  assert.equal(cleanVersion("workspace:*"), undefined);
+});
+
+test("package.json dependencies name the framework, preferring the installed version", () => {
+  const [next] = detectFromPackageJson(nextPackage);
+  assert.deepEqual(next, {
+    name: "Next.js",
+    version: "14.2.3",
+    confidence: 0.85,
+    source: "manifest",
+  });
+  assert.equal(
+    detectFromPackageJson(nextPackage, { next: "14.2.5" })[0].version,
+    "14.2.5",
+  );
+  assert.deepEqual(detectFromPackageJson("{ not json"), []);
+});
+
+test("a dev server dependency the command does not run loses to the app framework", () => {
+  const pkg = JSON.stringify({
+    dependencies: { express: "^4.19.0" },
+    devDependencies: { vite: "^5.2.0" },
+  });
+  const viaVite = detectFramework({
+    manifests: { packageJson: pkg, files: [] },
+    command: "node /code/app/node_modules/.bin/vite",
+  });
+  assert.equal(viaVite?.name, "Vite");
+  assert.equal(viaVite?.version, "5.2.0");
+
+  const viaServer = detectFramework({
+    manifests: { packageJson: pkg, files: [] },
+    command: "node server.js",
+  });
+  assert.equal(viaServer?.name, "Express");
+});
+
+test("the running process wins over manifests from another toolchain", () => {
+  const manifests = {
+    packageJson: JSON.stringify({ dependencies: { express: "^4.19.0" } }),
+    requirements: "fastapi==0.110.0\n",
+    files: ["package.json", "requirements.txt", "vite.config.ts"],
+  };
+  const python = detectFramework({
+    manifests,
+    command: "python3 -m uvicorn app:app",
+    processName: "python3.12",
+  });
+  assert.equal(python?.name, "FastAPI");
+  assert.equal(python?.version, "0.110.0");
+
+  const withoutPythonManifest = detectFramework({
+    manifests: { ...manifests, requirements: undefined },
+    command: "python3 -m uvicorn app:app",
+  });
+  assert.equal(withoutPythonManifest?.name, "Uvicorn");
+  assert.equal(withoutPythonManifest?.source, "command");
+
+  assert.equal(
+    detectFramework({ manifests, command: "node server.js" })?.name,
+    "Express",
+  );
+  assert.equal(
+    detectRuntime('"C:\\Program Files\\nodejs\\node.exe" x.js'),
+    "node",
+  );
+  assert.equal(detectRuntime("/tmp/go-build123/b001/exe/main"), "go");
+  assert.equal(detectRuntime("./server", "server"), undefined);
+});
+
+test("python manifests are read in requirements, PEP 621 and Poetry shapes", () => {
+  assert.deepEqual(
+    detectFromPythonManifest("django==4.2.7\ngunicorn>=21\n").map((d) => [
+      d.name,
+      d.version,
+    ]),
+    [
+      ["Django", "4.2.7"],
+      ["Gunicorn", "21"],
+    ],
+  );
+  assert.equal(
+    detectFromPythonManifest(
+      '[project]\ndependencies = ["fastapi[all]>=0.110.0", "pydantic"]\n',
+    )[0].version,
+    "0.110.0",
+  );
+  assert.equal(
+    detectFromPythonManifest(
+      '[tool.poetry.dependencies]\nflask = { version = "^3.0.2" }\n',
+    )[0].version,
+    "3.0.2",
+  );
+  // flask-cors alone is not Flask.
+  assert.deepEqual(detectFromPythonManifest("flask-cors==4.0\n"), []);
+});
+
+test("Gemfile.lock, go.mod and csproj files give versions", () => {
+  const [rails] = detectFromGemfile(
+    "source 'https://rubygems.org'\ngem 'rails', '~> 7.1'\n",
+    "GEM\n  specs:\n    rails (7.1.3)\n      actionpack (= 7.1.3)\n",
+  );
+  assert.equal(rails.name, "Rails");
+  assert.equal(rails.version, "7.1.3");
+
+  const goDetections = detectFromGoMod(
+    "module example.com/api\n\ngo 1.22\n\nrequire github.com/gin-gonic/gin v1.9.1\n",
+  );
+  assert.deepEqual(
+    goDetections.map((d) => [d.name, d.version]),
+    [
+      ["Gin", "1.9.1"],
+      ["Go", "1.22"],
+    ],
+  );
+
+  assert.deepEqual(
+    detectFromCsproj(
+      '<Project Sdk="Microsoft.NET.Sdk.Web">\n  <PropertyGroup>\n    <TargetFramework>net8.0</TargetFramework>\n',
+    ).map((d) => [d.name, d.version]),
+    [["ASP.NET Core", "8.0"]],
+  );
+});
+
+test("response headers identify the server", () => {
+  assert.deepEqual(detectFromHeaders({ poweredBy: "Next.js" }), [
+    { name: "Next.js", version: undefined, confidence: 0.8, source: "header" },
+  ]);
+  assert.equal(
+    detectFromHeaders({ poweredBy: "PHP/8.3.4" })[0].version,
+    "8.3.4",
+  );
+  assert.equal(
+    detectFromHeaders({ server: "Werkzeug/3.0.1 Python/3.12.2" })[0].name,
+    "Flask",
+  );
+  assert.deepEqual(detectFromHeaders({ server: "nginx" }), []);
+});
+
+test("command matching no longer trips over substrings", () => {
+  assert.deepEqual(detectFromCommand("node /srv/nextcloud-sync.js"), []);
+  assert.deepEqual(detectFromCommand("cargo run --bin go-between"), []);
+  assert.equal(
+    detectFromCommand("node node_modules/.bin/next dev")[0].name,
+    "Next.js",
+  );
+  assert.equal(detectFromCommand("go run ./cmd/api")[0].name, "Go");
+  assert.equal(
+    detectFromCommand("python manage.py runserver 8000")[0].name,
+    "Django",
+  );
+});
+
+test("sources that agree raise confidence", () => {
+  const combined = combineDetections([
+    { name: "Next.js", confidence: 0.8, source: "header" },
+    {
+      name: "Next.js",
+      version: "14.2.3",
+      confidence: 0.85,
+      source: "manifest",
+    },
+    { name: "Next.js", confidence: 0.7, source: "config" },
+    { name: "Express", confidence: 0.6, source: "manifest" },
+  ]);
+  assert.deepEqual(combined, {
+    name: "Next.js",
+    version: "14.2.3",
+    confidence: 0.99,
+    source: "manifest",
+  });
+  assert.equal(combineDetections([]), undefined);
+});
+
+test("project manifests are read from disk, including installed versions", async () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "framework-detect-"));
+  try {
+    writeFileSync(path.join(dir, "package.json"), nextPackage);
+    writeFileSync(path.join(dir, "next.config.mjs"), "export default {}");
+    mkdirSync(path.join(dir, "node_modules", "next"), { recursive: true });
+    writeFileSync(
+      path.join(dir, "node_modules", "next", "package.json"),
+      JSON.stringify({ name: "next", version: "14.2.5" }),
+    );
+
+    const manifests = await readProjectManifests(dir);
+    assert.deepEqual(manifests.installedVersions, { next: "14.2.5" });
+    assert.equal(manifests.goMod, undefined);
+
+    const detection = detectFramework({
+      manifests,
+      command: "node /code/web/node_modules/next/dist/bin/next dev",
+    });
+    assert.equal(detection?.name, "Next.js");
+    assert.equal(detection?.version, "14.2.5");
+    assert.equal(detection?.source, "manifest");
+    assert.ok(detection!.confidence > 0.95);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  assert.deepEqual(await readProjectManifests(path.join(dir, "missing")), {
+    files: [],
+  });
+});
@@ -0,0 +1,14 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Writes `files` (relative path -> contents) under a new temporary directory
+// and returns that directory. Callers remove it when done.
+export async function makeTree(files: Record<string, string>): Promise<string> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "tree-"));
+  for (const [file, contents] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), contents);
+  }
+  return root;
+}
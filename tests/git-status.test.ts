@@ -0,0 +1,125 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import { execFile } from "node:child_process";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import {
+  parseGitStatusOutput,
+  readGitHead,
+  readGitStatus,
+} from "../src/main/git-status";
+import { makeTree } from "./fs-test-helpers";
+
+const execFileAsync = promisify(execFile);
+const sha = "4f9c2e1d8b7a6c5e4d3f2a1b0c9d8e7f6a5b4c3d";
+
+test("porcelain v2 output gives branch, upstream, counts and dirty state", () => {
+  assert.deepEqual(
+    parseGitStatusOutput(
+      [
+        `# branch.oid ${sha}`,
+        "# branch.head feature/login",
+        "# branch.upstream origin/feature/login",
+        "# branch.ab +2 -5",
+        "1 .M N... 100644 100644 100644 abc abc src/app.ts",
+        "? notes.txt",
+      ].join("\n"),
+      "/repo",
+    ),
+    {
+      root: "/repo",
+      dirty: true,
+      head: "4f9c2e1",
+      branch: "feature/login",
+      upstream: "origin/feature/login",
+      ahead: 2,
+      behind: 5,
+    },
+  );
+  assert.deepEqual(
+    parseGitStatusOutput(
+      `# branch.oid ${sha}\n# branch.head (detached)\n`,
+      "/repo",
+    ),
+    { root: "/repo", dirty: false, head: "4f9c2e1" },
+  );
+  assert.deepEqual(
+    parseGitStatusOutput("# branch.oid (initial)\n# branch.head main\n", "/r"),
+    { root: "/r", dirty: false, branch: "main" },
+  );
+});
+
+test("without git the branch and commit come from .git files", async () => {
+  const tmp = await makeTree({
+    "shop/.git/HEAD": "ref: refs/heads/main\n",
+    "shop/.git/packed-refs": `# pack-refs with: peeled\n${sha} refs/heads/main\n`,
+    "shop/apps/web/package.json": "{}",
+    "main/.git/HEAD": "ref: refs/heads/main\n",
+    "main/.git/refs/heads/main": `${sha}\n`,
+    "main/.git/worktrees/hotfix/HEAD": `${sha}\n`,
+    "main/.git/worktrees/hotfix/commondir": "../..\n",
+    "hotfix/.git": "gitdir: ../main/.git/worktrees/hotfix\n",
+  });
+  try {
+    assert.deepEqual(await readGitHead(path.join(tmp, "shop/apps/web")), {
+      root: path.join(tmp, "shop"),
+      head: "4f9c2e1",
+      branch: "main",
+    });
+    assert.deepEqual(await readGitHead(path.join(tmp, "hotfix")), {
+      root: path.join(tmp, "hotfix"),
+      head: "4f9c2e1",
+      branch: undefined,
+    });
+
+    const viaMissingGit = await readGitStatus(
+      path.join(tmp, "main"),
+      async () => {
+        throw Object.assign(new Error("spawn git ENOENT"), { code: "ENOENT" });
+      },
+    );
+    assert.equal(viaMissingGit?.branch, "main");
+    assert.equal(viaMissingGit?.dirty, undefined);
+    assert.equal(await readGitHead(os.tmpdir()), undefined);
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+});
+
+test("a real repository reports its branch and changes", async (t) => {
+  try {
+    await execFileAsync("git", ["--version"]);
+  } catch {
+    t.skip("git is not installed");
+    return;
+  }
+  const tmp = await fs.realpath(
+    await fs.mkdtemp(path.join(os.tmpdir(), "git-status-")),
+  );
+  const git = (...args: string[]) =>
+    execFileAsync(
+      "git",
+      ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+      { cwd: tmp },
+    );
+  try {
+    await git("init", "-q", "-b", "develop");
+    await fs.writeFile(path.join(tmp, "README.md"), "hello\n");
+    await git("add", "README.md");
+    await git("commit", "-q", "-m", "init");
+    await fs.mkdir(path.join(tmp, "src"));
+
+    const clean = await readGitStatus(path.join(tmp, "src"));
+    assert.equal(clean?.root, tmp);
+    assert.equal(clean?.branch, "develop");
+    assert.equal(clean?.dirty, false);
+    assert.match(clean?.head ?? "", /^[0-9a-f]{7}$/);
+
+    await fs.writeFile(path.join(tmp, "README.md"), "changed\n");
+    assert.equal((await readGitStatus(tmp))?.dirty, true);
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  HEALTH_HISTORY_RETENTION_MS,
+  HEALTH_HISTORY_WINDOW_MS,
+  healthHistoryKey,
+  pruneHealthHistories,
+  recordHealthSample,
+  summarizeHealthHistory,
+  type HealthHistory,
+  type HealthSample,
+} from "../src/main/health-history";
+
+const MINUTE = 60_000;
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+function replay(samples: HealthSample[]): HealthHistory | undefined {
+  return samples.reduce<HealthHistory | undefined>(
+    (history, sample) => recordHealthSample(history, sample),
+    undefined,
+  );
+}
+
+test("history keys follow the port and project, not the PID", () => {
+  assert.equal(healthHistoryKey(3000, "/home/me/api/"), "3000@/home/me/api");
+  assert.equal(
+    healthHistoryKey(3000, "C:\\Users\\Me\\API"),
+    "3000@c:/users/me/api",
+  );
+  assert.equal(healthHistoryKey(5173), "5173");
+});
+
+test("recording keeps an hour of samples and logs only status changes", () => {
+  const history = replay([
+    { t: NOW - 2 * HEALTH_HISTORY_WINDOW_MS, status: "healthy", responseTime: 5 },
+    { t: NOW - 3 * MINUTE, status: "healthy", responseTime: 10 },
+    { t: NOW - 2 * MINUTE, status: "down", error: "ECONNREFUSED" },
+    { t: NOW - 1 * MINUTE, status: "down", error: "ECONNREFUSED" },
+    { t: NOW, status: "healthy", responseTime: 12 },
+  ]);
+  assert.ok(history);
+  assert.deepEqual(
+    history.samples.map((sample) => sample.t),
+    [NOW - 3 * MINUTE, NOW - 2 * MINUTE, NOW - MINUTE, NOW],
+  );
+  assert.deepEqual(history.transitions, [
+    { t: NOW - 2 * HEALTH_HISTORY_WINDOW_MS, from: undefined, to: "healthy" },
+    {
+      t: NOW - 2 * MINUTE,
+      from: "healthy",
+      to: "down",
+      error: "ECONNREFUSED",
+    },
+    { t: NOW, from: "down", to: "healthy" },
+  ]);
+});
+
+test("summaries report uptime, average latency and per-minute buckets", () => {
+  const history = replay([
+    { t: NOW - 90 * MINUTE, status: "down" },
+    { t: NOW - 30 * MINUTE, status: "healthy", responseTime: 20 },
+    { t: NOW - 30 * MINUTE + 5000, status: "slow", responseTime: 700 },
+    { t: NOW - 10 * MINUTE, status: "down", error: "Timeout" },
+    { t: NOW - 5 * MINUTE, status: "healthy", responseTime: 40 },
+  ]);
+  const summary = summarizeHealthHistory(history, NOW);
+  assert.equal(summary.uptime, 75);
+  assert.equal(summary.averageMs, 253);
+  assert.equal(summary.timeline.length, 60);
+
+  const slowMinute = summary.timeline[30];
+  assert.equal(slowMinute.status, "slow");
+  assert.equal(slowMinute.responseTime, 360);
+  assert.deepEqual(
+    { status: summary.timeline[50].status, error: summary.timeline[50].error },
+    { status: "down", error: "Timeout" },
+  );
+  assert.equal(summary.timeline[0].status, undefined);
+
+  assert.deepEqual(
+    summary.transitions.map((transition) => transition.to),
+    ["healthy", "down", "slow", "healthy"],
+  );
+  assert.equal(summarizeHealthHistory(undefined, NOW).uptime, undefined);
+});
+
+test("pruning drops stale histories and keeps the most recent ones", () => {
+  const fresh = replay([{ t: NOW - MINUTE, status: "healthy" }])!;
+  const stale = replay([
+    { t: NOW - HEALTH_HISTORY_RETENTION_MS - MINUTE, status: "healthy" },
+  ])!;
+  assert.deepEqual(
+    Object.keys(
+      pruneHealthHistories({ "3000": fresh, "4000@/old": stale }, NOW),
+    ),
+    ["3000"],
+  );
+});
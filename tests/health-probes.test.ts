@@ -0,0 +1,127 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { HealthChecker, type HealthStatus } from "../src/main/health-checker";
+import {
+  DEFAULT_HEALTH_PROBE,
+  evaluateProbeResponse,
+  resolveHealthProbe,
+  validateHealthProbe,
+  validateHealthProbeKey,
+  type HealthProbe,
+} from "../src/main/health-probes";
+
+const healthz: HealthProbe = {
+  method: "GET",
+  path: "/healthz",
+  headers: { Accept: "application/json" },
+  expectStatus: { min: 200, max: 299 },
+  bodyIncludes: '"ok"',
+  slowMs: 500,
+  downMs: 2000,
+  timeoutMs: 3000,
+};
+
+test("health probe validation coerces form values and rejects unsafe input", () => {
+  assert.deepEqual(
+    validateHealthProbe({
+      ...healthz,
+      method: "get",
+      expectStatus: { min: "200", max: "299" },
+      slowMs: "500",
+    }),
+    healthz,
+  );
+  assert.throws(
+    () => validateHealthProbe({ ...healthz, path: "healthz" }),
+    /start with \//,
+  );
+  assert.throws(
+    () => validateHealthProbe({ ...healthz, method: "HEAD" }),
+    /needs a GET/,
+  );
+  assert.throws(
+    () => validateHealthProbe({ ...healthz, headers: { Host: "evil" } }),
+    /Host/,
+  );
+  assert.throws(
+    () => validateHealthProbe({ ...healthz, expectStatus: { min: 300, max: 200 } }),
+    /reversed/,
+  );
+  assert.throws(
+    () => validateHealthProbe({ ...healthz, slowMs: 3000, downMs: 1000 }),
+    /slow ≤ down ≤ timeout/,
+  );
+  assert.equal(validateHealthProbeKey("port:3000"), "port:3000");
+  assert.equal(validateHealthProbeKey("framework:next.js"), "framework:next.js");
+  assert.throws(() => validateHealthProbeKey("port:70000"));
+});
+
+test("port probes win over framework probes, which win over the default", () => {
+  const probes = {
+    "port:3000": healthz,
+    "framework:next.js": { ...healthz, path: "/api/health" },
+  };
+  assert.equal(resolveHealthProbe(probes, 3000, "Next.js").key, "port:3000");
+  assert.equal(
+    resolveHealthProbe(probes, 3001, "Next.js").probe.path,
+    "/api/health",
+  );
+  assert.equal(resolveHealthProbe(probes, 3001, "Vite").probe, DEFAULT_HEALTH_PROBE);
+});
+
+test("probe responses are judged on status, body and thresholds", () => {
+  assert.deepEqual(
+    evaluateProbeResponse(healthz, { statusCode: 200, body: '{"status":"ok"}', responseTime: 12 }),
+    { status: "healthy" },
+  );
+  assert.equal(
+    evaluateProbeResponse(healthz, { statusCode: 200, body: '{"status":"ok"}', responseTime: 700 }).status,
+    "slow",
+  );
+  assert.match(
+    evaluateProbeResponse(healthz, { statusCode: 404, body: "", responseTime: 5 }).error ?? "",
+    /Expected status 200-299, got 404/,
+  );
+  assert.match(
+    evaluateProbeResponse(healthz, { statusCode: 200, body: "starting", responseTime: 5 }).error ?? "",
+    /does not contain/,
+  );
+  assert.equal(
+    evaluateProbeResponse(DEFAULT_HEALTH_PROBE, { statusCode: 404, body: "", responseTime: 5 }).status,
+    "healthy",
+  );
+});
+
+test("the checker runs the configured probe against a live server", async () => {
+  const server = http.createServer((req, res) => {
+    if (req.url === "/healthz" && req.method === "GET") {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end('{"status":"ok"}');
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  const checker = new HealthChecker();
+  checker.setServers([
+    { key: `1:${port}`, url: `http://127.0.0.1:${port}`, port },
+  ]);
+  checker.setProbes({ [`port:${port}`]: healthz });
+  try {
+    const results = await new Promise<HealthStatus[]>((resolve) => {
+      checker.once("update", resolve);
+      checker.start();
+    });
+    assert.equal(results[0].status, "healthy");
+    assert.equal(results[0].httpStatus, 200);
+    assert.equal(results[0].probeKey, `port:${port}`);
+  } finally {
+    checker.stop();
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
@@ -0,0 +1,173 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import {
+  findLaunchedAncestor,
+  validateLaunchProfileId,
+  validateLaunchProfileInput,
+} from "../src/main/launch-profiles";
+import { ProcessSupervisor } from "../src/main/process-supervisor";
+import type { LaunchedProcess } from "../src/main/launch-profiles";
+
+test("launch profile validation trims fields and keeps env and port", () => {
+  const input = validateLaunchProfileInput({
+    name: "  Web  ",
+    cwd: "/Users/me/code/web",
+    command: " npm run dev ",
+    env: { PORT: "3000", NODE_OPTIONS: "--inspect" },
+    port: "3000",
+  });
+
+  assert.deepEqual(input, {
+    name: "Web",
+    cwd: "/Users/me/code/web",
+    command: "npm run dev",
+    env: { PORT: "3000", NODE_OPTIONS: "--inspect" },
+    port: 3000,
+  });
+  assert.equal(
+    validateLaunchProfileInput({
+      name: "Api",
+      cwd: "C:\\code\\api",
+      command: "dotnet run",
+    }).cwd,
+    "C:\\code\\api",
+  );
+});
+
+test("launch profile validation rejects relative paths, bad env and bad ports", () => {
+  const base = { name: "Web", cwd: "/code/web", command: "npm run dev" };
+  assert.throws(
+    () => validateLaunchProfileInput({ ...base, cwd: "code/web" }),
+    /absolute path/,
+  );
+  assert.throws(
+    () => validateLaunchProfileInput({ ...base, env: { "BAD-NAME": "1" } }),
+    /BAD-NAME/,
+  );
+  assert.throws(
+    () => validateLaunchProfileInput({ ...base, port: 70000 }),
+    /between 1 and 65535/,
+  );
+  assert.throws(() => validateLaunchProfileInput({ ...base, command: " " }));
+  assert.throws(
+    () => validateLaunchProfileInput({ ...base, autoRestart: "yes" }),
+    /auto-restart/,
+  );
+  assert.throws(() => validateLaunchProfileId("../etc/passwd"));
+});
+
+test("listeners link to the launched shell through their parent chain", () => {
+  // sh(100) -> npm(200) -> node(300) listening
+  const parents = new Map([
+    [300, 200],
+    [200, 100],
+    [100, 1],
+  ]);
+  const parentOf = (pid: number) => parents.get(pid);
+
+  assert.equal(findLaunchedAncestor(300, parentOf, new Set([100])), 100);
+  assert.equal(findLaunchedAncestor(300, parentOf, new Set([999])), undefined);
+  assert.equal(findLaunchedAncestor(100, parentOf, new Set([100])), 100);
+});
+
+test("the supervisor starts a profile, reports it running and stops the tree", async () => {
+  const supervisor = new ProcessSupervisor();
+  const updates: LaunchedProcess[][] = [];
+  supervisor.on("update", (processes) => updates.push(processes));
+
+  const started = supervisor.start({
+    id: "0f8a6f8e-5d2c-4d3b-9f7e-1c2b3a4d5e6f",
+    name: "Sleeper",
+    cwd: os.tmpdir(),
+    command: `"${process.execPath}" -e "setInterval(() => {}, 1000)"`,
+    env: {},
+    createdAt: 0,
+    updatedAt: 0,
+  });
+  assert.equal(started.status, "starting");
+  assert.ok(started.pid);
+  await new Promise((resolve) => supervisor.once("update", resolve));
+  assert.equal(
+    supervisor.getActivePids().get(started.pid!),
+    "0f8a6f8e-5d2c-4d3b-9f7e-1c2b3a4d5e6f",
+  );
+
+  const stopped = await supervisor.stop("0f8a6f8e-5d2c-4d3b-9f7e-1c2b3a4d5e6f");
+  assert.equal(stopped?.status, "exited");
+  assert.equal(stopped?.stopRequested, true);
+  assert.equal(supervisor.getActivePids().size, 0);
+  assert.ok(updates.some((list) => list[0]?.status === "stopping"));
+});
+
+test("the supervisor captures stdout and stderr for the log pane", async () => {
+  const supervisor = new ProcessSupervisor();
+  const profileId = "2f8a6f8e-5d2c-4d3b-9f7e-1c2b3a4d5e6f";
+  const exited = new Promise((resolve) => supervisor.once("exit", resolve));
+
+  supervisor.start({
+    id: profileId,
+    name: "Printer",
+    cwd: os.tmpdir(),
+    command: `"${process.execPath}" -e "console.log('ready on 3000'); console.error('warning: slow disk')"`,
+    env: {},
+    createdAt: 0,
+    updatedAt: 0,
+  });
+  await exited;
+
+  const logs = supervisor.getLogs(profileId);
+  assert.ok(logs.some((e) => e.stream === "stdout" && e.text === "ready on 3000"));
+  assert.ok(
+    logs.some(
+      (e) => e.stream === "stderr" && e.text === "warning: slow disk" && e.level === "warn",
+    ),
+  );
+  assert.equal(logs[logs.length - 1].text, "Process exited with code 0");
+  supervisor.clearLogs(profileId);
+  assert.equal(supervisor.getLogs(profileId).length, 0);
+});
+
+test("the supervisor refuses to start in a missing directory", () => {
+  const supervisor = new ProcessSupervisor();
+  assert.throws(
+    () =>
+      supervisor.start({
+        id: "1f8a6f8e-5d2c-4d3b-9f7e-1c2b3a4d5e6f",
+        name: "Missing",
+        cwd: "/definitely/not/a/real/dir",
+        command: "npm run dev",
+        env: {},
+        createdAt: 0,
+        updatedAt: 0,
+      }),
+    /Directory was not found/,
+  );
+});
+
+test("a failed spawn is reported as one exit", async (t) => {
+  const supervisor = new ProcessSupervisor();
+  const exits: LaunchedProcess[] = [];
+  supervisor.on("exit", (exit) => exits.push(exit));
+  // The directory passes the check and is gone by the time spawn runs.
+  const statSync = t.mock.method(fs, "statSync", () => ({
+    isDirectory: () => true,
+  }));
+  const started = supervisor.start({
+    id: "3f8a6f8e-5d2c-4d3b-9f7e-1c2b3a4d5e6f",
+    name: "Vanished",
+    cwd: "/definitely/not/a/real/dir",
+    command: "npm run dev",
+    env: {},
+    createdAt: 0,
+    updatedAt: 0,
+  });
+  statSync.mock.restore();
+  assert.equal(started.status, "starting");
+
+  await new Promise((resolve) => setTimeout(resolve, 500));
+  assert.equal(exits.length, 1);
+  assert.equal(exits[0].status, "failed");
+  assert.match(exits[0].error ?? "", /ENOENT/);
+});
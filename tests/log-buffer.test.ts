@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  detectLogLevel,
+  LogRingBuffer,
+  stripAnsi,
+} from "../src/main/log-buffer";
+
+test("log buffer splits chunks into lines and carries partial lines", () => {
+  const buffer = new LogRingBuffer(10);
+  assert.deepEqual(
+    buffer.append("stdout", "ready in 300ms\nLocal: http", 1).map((e) => e.text),
+    ["ready in 300ms"],
+  );
+  assert.deepEqual(
+    buffer.append("stdout", "://localhost:5173/\r\n", 2).map((e) => e.text),
+    ["Local: http://localhost:5173/"],
+  );
+  buffer.append("stderr", "no newline yet", 3);
+  assert.deepEqual(
+    buffer.flush(4).map((e) => [e.stream, e.text]),
+    [["stderr", "no newline yet"]],
+  );
+});
+
+test("log buffer keeps only the newest lines once full", () => {
+  const buffer = new LogRingBuffer(3);
+  buffer.append("stdout", "a\nb\nc\nd\ne\n");
+  const entries = buffer.list();
+  assert.deepEqual(
+    entries.map((e) => e.text),
+    ["c", "d", "e"],
+  );
+  assert.deepEqual(
+    buffer.list(entries[1].seq).map((e) => e.text),
+    ["e"],
+  );
+  buffer.clear();
+  assert.equal(buffer.list().length, 0);
+});
+
+test("log levels come from the text, not the stream", () => {
+  assert.equal(detectLogLevel("npm ERR! code ELIFECYCLE"), "error");
+  assert.equal(detectLogLevel("Error: listen EADDRINUSE :::3000"), "error");
+  assert.equal(detectLogLevel("(!) Warning: chunk is larger than 500 kB"), "warn");
+  assert.equal(detectLogLevel("VITE v5.0.0  ready in 412 ms"), "info");
+  assert.equal(
+    stripAnsi("\u001b[32m➜\u001b[39m  Local: \u001b[36mhttp://localhost:5173/\u001b[39m"),
+    "➜  Local: http://localhost:5173/",
+  );
+});
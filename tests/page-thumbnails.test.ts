@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  THUMBNAIL_REFRESH_MS,
+  THUMBNAIL_RETRY_MS,
+  ThumbnailCache,
+  isThumbnailNavigationAllowed,
+  thumbnailPageUrl,
+  type ThumbnailTarget,
+} from "../src/main/page-thumbnails";
+
+function target(port: number): ThumbnailTarget {
+  return {
+    key: `${1000 + port}:${port}`,
+    port,
+    url: `http://localhost:${port}/`,
+  };
+}
+
+test("the root page of http servers is captured", () => {
+  assert.equal(
+    thumbnailPageUrl("http://localhost:5173/app?x=1"),
+    "http://localhost:5173/",
+  );
+  assert.equal(thumbnailPageUrl("https://[::1]:8443"), "https://[::1]:8443/");
+  assert.equal(thumbnailPageUrl("ftp://localhost:21"), undefined);
+  assert.equal(thumbnailPageUrl("not a url"), undefined);
+});
+
+test("the capture window stays on the page's origin", () => {
+  const page = "http://localhost:3000/";
+  assert.ok(isThumbnailNavigationAllowed("http://localhost:3000/login", page));
+  assert.ok(!isThumbnailNavigationAllowed("http://localhost:3001/", page));
+  assert.ok(!isThumbnailNavigationAllowed("https://localhost:3000/", page));
+  assert.ok(!isThumbnailNavigationAllowed("https://accounts.example.com", page));
+  assert.ok(!isThumbnailNavigationAllowed("file:///etc/passwd", page));
+  assert.ok(!isThumbnailNavigationAllowed("javascript:alert(1)", page));
+});
+
+test("pictures are refreshed, retried and skipped per port", () => {
+  const cache = new ThumbnailCache();
+  const web = target(3000);
+  const api = target(4000);
+  const now = 1_000_000;
+  assert.deepEqual(cache.due([web, api], [4000], now), [web]);
+
+  cache.set({ ...web, dataUrl: "data:image/jpeg;base64,AA", capturedAt: now });
+  cache.failed(api.key, now);
+  assert.deepEqual(cache.due([web, api], [], now + 1), []);
+  assert.deepEqual(cache.due([web, api], [], now + THUMBNAIL_RETRY_MS), [api]);
+  assert.deepEqual(
+    cache.due([web, api], [], now + THUMBNAIL_REFRESH_MS),
+    [web, api],
+  );
+
+  assert.deepEqual(Object.keys(cache.all()), [web.key]);
+  assert.equal(cache.retain([web.key, api.key]), false);
+  assert.equal(cache.dropPort(3000), true);
+  assert.deepEqual(cache.all(), {});
+  // An opted-in port starts over with a fresh capture.
+  assert.deepEqual(cache.due([web], [], now + 1), [web]);
+
+  cache.set({ ...web, dataUrl: "data:image/jpeg;base64,AA", capturedAt: now });
+  assert.equal(cache.retain([api.key]), true);
+  assert.deepEqual(cache.all(), {});
+});
@@ -0,0 +1,151 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  buildProcessChain,
+  expandConfiguredPorts,
+  findPortConflicts,
+  parseAddressInUsePort,
+  validatePortQuery,
+  type PortClaim,
+} from "../src/main/port-owners";
+
+test("configured ports expand ranges and stay bounded", () => {
+  assert.deepEqual(expandConfiguredPorts([3000, [5173, 5175], 3000]), [
+    3000, 5173, 5174, 5175,
+  ]);
+  assert.equal(expandConfiguredPorts([[1024, 65535]], 50).length, 50);
+  assert.deepEqual(validatePortQuery("3000"), [3000]);
+  assert.deepEqual(validatePortQuery([8080, 3000, 8080]), [3000, 8080]);
+  assert.equal(validatePortQuery(undefined), undefined);
+  assert.throws(() => validatePortQuery(0), /between 1 and 65535/);
+});
+
+test("EADDRINUSE messages from common dev servers yield the port", () => {
+  assert.equal(
+    parseAddressInUsePort("Error: listen EADDRINUSE: address already in use :::3000"),
+    3000,
+  );
+  assert.equal(
+    parseAddressInUsePort("Error: listen EADDRINUSE 127.0.0.1:5173"),
+    5173,
+  );
+  assert.equal(parseAddressInUsePort("Port 4200 is already in use."), 4200);
+  assert.equal(parseAddressInUsePort("compiled successfully"), undefined);
+});
+
+test("process chains walk parents and stop on cycles", () => {
+  const procs = new Map([
+    [300, { pid: 300, name: "node", parentPid: 200 }],
+    [200, { pid: 200, name: "npm", parentPid: 100 }],
+    [100, { pid: 100, name: "sh", parentPid: 300 }],
+  ]);
+  assert.deepEqual(
+    buildProcessChain(300, (pid) => procs.get(pid)).map((node) => node.name),
+    ["node", "npm", "sh"],
+  );
+});
+
+test("port conflicts flag competing projects but not one project's listeners", () => {
+  const web: PortClaim = {
+    profileId: "a",
+    profileName: "Web",
+    cwd: "/code/web",
+    port: 3000,
+  };
+  const docs: PortClaim = {
+    profileId: "b",
+    profileName: "Docs",
+    cwd: "/code/docs",
+    port: 3000,
+  };
+
+  const shared = findPortConflicts([], [web, docs]);
+  assert.equal(shared.length, 1);
+  assert.equal(shared[0].reason, "shared-profile-port");
+
+  const heldElsewhere = findPortConflicts(
+    [{ port: 3000, pid: 42, processName: "node", cwd: "/code/api" }],
+    [web],
+  );
+  assert.equal(heldElsewhere[0].reason, "held-by-other-project");
+  assert.match(heldElsewhere[0].message, /Web expects port 3000/);
+
+  // A workspace package inside the profile's directory is the same project.
+  assert.deepEqual(
+    findPortConflicts(
+      [{ port: 3000, pid: 42, processName: "node", cwd: "/code/web/apps/site" }],
+      [web],
+    ),
+    [],
+  );
+
+  const twoListeners = findPortConflicts(
+    [
+      { port: 8080, pid: 1, cwd: "/code/a" },
+      { port: 8080, pid: 2, cwd: "C:\\code\\b" },
+    ],
+    [],
+  );
+  assert.equal(twoListeners[0].reason, "multiple-owners");
+  assert.deepEqual(
+    findPortConflicts(
+      [
+        { port: 5353, pid: 1, protocol: "tcp", cwd: "/code/a" },
+        { port: 5353, pid: 2, protocol: "udp", cwd: "/code/b" },
+      ],
+      [],
+    ),
+    [],
+  );
+  assert.deepEqual(
+    findPortConflicts(
+      [
+        { port: 8080, pid: 1, cwd: "C:\\Code\\A" },
+        { port: 8080, pid: 2, cwd: "c:/code/a/" },
+      ],
+      [],
+    ),
+    [],
+  );
+});
+
+test("a preforking server with unreadable directories is one project", () => {
+  const master = {
+    port: 8000,
+    pid: 10,
+    processName: "gunicorn",
+    treePids: [10, 11, 12],
+  };
+  const workers = [11, 12].map((pid) => ({
+    port: 8000,
+    pid,
+    processName: "gunicorn",
+    tree: [
+      { pid },
+      { pid: 10, name: "gunicorn" },
+    ],
+  }));
+  assert.deepEqual(findPortConflicts([master, ...workers], []), []);
+  // Unknown directories alone never mean different projects.
+  assert.deepEqual(
+    findPortConflicts(
+      [
+        { port: 8000, pid: 1 },
+        { port: 8000, pid: 2, cwd: "/code/a" },
+      ],
+      [],
+    ),
+    [],
+  );
+  // Workers share the master's directory even when it comes from the master.
+  const other = { port: 8000, pid: 99, cwd: "/code/b" };
+  const conflict = findPortConflicts(
+    [{ ...master, cwd: "/code/a" }, ...workers, other],
+    [],
+  );
+  assert.equal(conflict[0].reason, "multiple-owners");
+  assert.deepEqual(
+    findPortConflicts([{ ...master, cwd: "/code/a" }, ...workers], []),
+    [],
+  );
+});
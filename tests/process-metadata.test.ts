@@ -0,0 +1,185 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  LinuxProcessMetadata,
+  MacProcessMetadata,
+  WindowsProcessMetadata,
+  parseLsofCwdOutput,
+  parsePsCommandOutput,
+  parseWindowsMetadata,
+  windowsMetadataScript,
+  type MetadataCommandRunner,
+} from "../src/main/process-metadata";
+
+const linuxOnly = { skip: process.platform !== "linux" };
+
+// What the CIM script prints through ConvertTo-Json -Compress.
+const windowsOutput =
+  "\uFEFF" +
+  JSON.stringify([
+    {
+      pid: 9412,
+      commandLine:
+        '"C:\\Program Files\\nodejs\\node.exe" C:\\code\\shop\\node_modules\\vite\\bin\\vite.js --port 5173',
+      executablePath: "C:\\Program Files\\nodejs\\node.exe",
+      cwd: "C:\\code\\shop\\apps\\web\\",
+    },
+    {
+      pid: 4,
+      commandLine: null,
+      executablePath: null,
+      cwd: null,
+    },
+    { pid: 7710, commandLine: "php -S 0.0.0.0:8000", cwd: "D:\\" },
+  ]);
+
+const lsofOutput = [
+  "p812",
+  "fcwd",
+  "n/Users/me/code/shop",
+  "ftxt",
+  "n/opt/homebrew/Cellar/node/22.1.0/bin/node",
+  "ftxt",
+  "n/usr/lib/dyld",
+  "p913",
+  "fcwd",
+  "n/",
+].join("\n");
+
+const psOutput = [
+  "  812 node /Users/me/code/shop/node_modules/.bin/next dev -p 3000",
+  "  913 /usr/sbin/cupsd -l",
+  "",
+].join("\n");
+
+test("Windows CIM output keeps the real cwd and full command line", () => {
+  const metadata = parseWindowsMetadata(windowsOutput);
+  assert.deepEqual(metadata.get(9412), {
+    pid: 9412,
+    commandLine:
+      '"C:\\Program Files\\nodejs\\node.exe" C:\\code\\shop\\node_modules\\vite\\bin\\vite.js --port 5173',
+    executablePath: "C:\\Program Files\\nodejs\\node.exe",
+    cwd: "C:\\code\\shop\\apps\\web",
+  });
+  assert.deepEqual(metadata.get(4), {
+    pid: 4,
+    commandLine: undefined,
+    executablePath: undefined,
+    cwd: undefined,
+  });
+  assert.equal(metadata.get(7710)?.cwd, "D:\\");
+
+  // A single process comes back as a bare object.
+  const single = parseWindowsMetadata(
+    JSON.stringify({ pid: 12, commandLine: "x.exe", cwd: "C:\\x" }),
+  );
+  assert.equal(single.get(12)?.commandLine, "x.exe");
+  assert.equal(parseWindowsMetadata("").size, 0);
+  assert.equal(parseWindowsMetadata("Add-Type : error").size, 0);
+});
+
+test("the Windows provider sends one encoded CIM query for all PIDs", async () => {
+  const calls: { file: string; args: string[] }[] = [];
+  const provider = new WindowsProcessMetadata(async (file, args) => {
+    calls.push({ file, args });
+    return windowsOutput;
+  });
+  const metadata = await provider.read([9412, 4, 9412, -1, 1.5]);
+  assert.equal(metadata.size, 3);
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0].file, "powershell.exe");
+  const script = Buffer.from(calls[0].args.at(-1)!, "base64").toString(
+    "utf16le",
+  );
+  assert.equal(script, windowsMetadataScript([9412, 4]));
+  assert.match(script, /\$filter = 'ProcessId=9412 OR ProcessId=4'/);
+  assert.doesNotMatch(script, /wmic/i);
+
+  assert.equal((await provider.read([])).size, 0);
+  assert.equal(calls.length, 1);
+  const failing = new WindowsProcessMetadata(async () => {
+    throw new Error("spawn powershell.exe ENOENT");
+  });
+  assert.equal((await failing.read([1])).size, 0);
+});
+
+test("macOS metadata combines lsof cwd/txt and ps command lines", async () => {
+  assert.deepEqual(parseLsofCwdOutput(lsofOutput).get(812), {
+    cwd: "/Users/me/code/shop",
+    executablePath: "/opt/homebrew/Cellar/node/22.1.0/bin/node",
+  });
+  assert.equal(
+    parsePsCommandOutput(psOutput).get(913),
+    "/usr/sbin/cupsd -l",
+  );
+
+  const calls: string[][] = [];
+  const run: MetadataCommandRunner = async (file, args) => {
+    calls.push([file, ...args]);
+    if (file.endsWith("lsof")) {
+      // lsof exits 1 when one of the PIDs is gone.
+      throw Object.assign(new Error("exit 1"), { stdout: lsofOutput });
+    }
+    return psOutput;
+  };
+  const metadata = await new MacProcessMetadata(run).read([812, 913, 999]);
+  assert.deepEqual(metadata.get(812), {
+    pid: 812,
+    commandLine: "node /Users/me/code/shop/node_modules/.bin/next dev -p 3000",
+    cwd: "/Users/me/code/shop",
+    executablePath: "/opt/homebrew/Cellar/node/22.1.0/bin/node",
+  });
+  assert.equal(metadata.get(913)?.cwd, "/");
+  assert.equal(metadata.has(999), false);
+  assert.deepEqual(calls[0], [
+    "/usr/sbin/lsof",
+    "-a",
+    "-p",
+    "812,913,999",
+    "-d",
+    "cwd,txt",
+    "-Fpfn",
+  ]);
+});
+
+test("Linux metadata is read from a /proc tree", async () => {
+  const proc = await fs.mkdtemp(path.join(os.tmpdir(), "proc-"));
+  try {
+    await fs.mkdir(path.join(proc, "812"));
+    await fs.writeFile(
+      path.join(proc, "812/cmdline"),
+      "node\0/srv/shop/node_modules/.bin/vite\0--host\0\0",
+    );
+    await fs.symlink("/srv/shop", path.join(proc, "812/cwd"));
+    await fs.symlink("/usr/bin/node (deleted)", path.join(proc, "812/exe"));
+    // Another user's process: cmdline is readable, the links are not.
+    await fs.mkdir(path.join(proc, "1"));
+    await fs.writeFile(path.join(proc, "1/cmdline"), "/sbin/init\0");
+
+    const metadata = await new LinuxProcessMetadata(proc).read([812, 1, 404]);
+    assert.deepEqual(metadata.get(812), {
+      pid: 812,
+      commandLine: "node /srv/shop/node_modules/.bin/vite --host",
+      cwd: "/srv/shop",
+      executablePath: "/usr/bin/node",
+    });
+    assert.deepEqual(metadata.get(1), {
+      pid: 1,
+      commandLine: "/sbin/init",
+      cwd: undefined,
+      executablePath: undefined,
+    });
+    assert.equal(metadata.has(404), false);
+  } finally {
+    await fs.rm(proc, { recursive: true, force: true });
+  }
+});
+
+test("this process can be looked up through the real /proc", linuxOnly, async () => {
+  const metadata = await new LinuxProcessMetadata().read([process.pid]);
+  assert.equal(metadata.get(process.pid)?.cwd, process.cwd());
+  assert.equal(metadata.get(process.pid)?.executablePath, process.execPath);
+});
@@ -0,0 +1,211 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import { spawn } from "node:child_process";
+import {
+  collectDescendants,
+  parsePsProcessTable,
+  stopProcessTree,
+  systemStopDeps,
+  validatePid,
+  validateStopGraceMs,
+} from "../src/main/process-stop";
+import type { StopDeps } from "../src/main/process-stop";
+
+const posixOnly = { skip: process.platform === "win32" };
+
+function fakeDeps(overrides: Partial<StopDeps> & { alive: Set<number> }) {
+  const calls: string[] = [];
+  const deps: StopDeps = {
+    isAlive: (pid) => overrides.alive.has(pid),
+    sendSignal: (pid, signal) => calls.push(`${signal} ${pid}`),
+    listProcesses: async () => [],
+    taskkill: async (args) => {
+      calls.push(`taskkill ${args.join(" ")}`);
+    },
+    ...overrides,
+  };
+  return { deps, calls };
+}
+
+test("stop validation accepts whole-number grace periods and PIDs", () => {
+  assert.equal(validateStopGraceMs(0), 0);
+  assert.equal(validateStopGraceMs(" 2500 "), 2500);
+  assert.throws(() => validateStopGraceMs(-1), /0 to 60000/);
+  assert.throws(() => validateStopGraceMs(1.5), /whole number/);
+  assert.throws(() => validateStopGraceMs(120_000), /0 to 60000/);
+  assert.equal(validatePid(4321), 4321);
+  assert.throws(() => validatePid(0), /positive/);
+  assert.throws(() => validatePid("4321"), /positive/);
+});
+
+test("ps output is parsed into a table and walked breadth-first", () => {
+  const table = parsePsProcessTable(
+    [
+      "    1     0",
+      "  100     1",
+      "  101   100",
+      "  102   101",
+      "  200     1",
+      "garbage",
+      "",
+    ].join("\n"),
+  );
+  assert.equal(table.length, 5);
+  assert.deepEqual(collectDescendants(100, table), [101, 102]);
+  assert.deepEqual(collectDescendants(102, table), []);
+  // A cycle in a stale snapshot must not loop forever.
+  assert.deepEqual(
+    collectDescendants(5, [
+      { pid: 6, parentPid: 5 },
+      { pid: 5, parentPid: 6 },
+    ]),
+    [6],
+  );
+});
+
+test("a PID that is already gone is reported without signalling", async () => {
+  const { deps, calls } = fakeDeps({ alive: new Set() });
+  const result = await stopProcessTree(42, { platform: "linux" }, deps);
+  assert.equal(result.outcome, "already-exited");
+  assert.deepEqual(calls, []);
+});
+
+test("posix stops send SIGINT, then SIGTERM, then SIGKILL to the whole tree", async () => {
+  const alive = new Set([10, 11]);
+  const { deps, calls } = fakeDeps({
+    alive,
+    listProcesses: async () => [{ pid: 11, parentPid: 10 }],
+    sendSignal(pid, signal) {
+      calls.push(`${signal} ${pid}`);
+      if (signal === "SIGKILL") alive.delete(pid);
+    },
+  });
+
+  const result = await stopProcessTree(
+    10,
+    { platform: "linux", graceMs: 20, pollMs: 5 },
+    deps,
+  );
+  assert.equal(result.outcome, "forced");
+  assert.deepEqual(result.survivors, []);
+  assert.deepEqual(calls, [
+    "SIGINT 10",
+    "SIGINT 11",
+    "SIGTERM 10",
+    "SIGTERM 11",
+    "SIGKILL 10",
+    "SIGKILL 11",
+  ]);
+});
+
+test("posix stops finish early when the tree exits after SIGINT", async () => {
+  const alive = new Set([10]);
+  const { deps, calls } = fakeDeps({
+    alive,
+    sendSignal(pid, signal) {
+      calls.push(`${signal} ${pid}`);
+      alive.delete(pid);
+    },
+  });
+  const result = await stopProcessTree(
+    10,
+    { platform: "darwin", graceMs: 5000, pollMs: 5 },
+    deps,
+  );
+  assert.equal(result.outcome, "exited");
+  assert.deepEqual(calls, ["SIGINT 10"]);
+  assert.ok(result.elapsedMs < 1000);
+});
+
+test("posix stops report failure when signals are refused", async () => {
+  const { deps } = fakeDeps({
+    alive: new Set([10]),
+    sendSignal() {
+      throw Object.assign(new Error("kill EPERM"), { code: "EPERM" });
+    },
+  });
+  const result = await stopProcessTree(
+    10,
+    { platform: "linux", graceMs: 10, pollMs: 5 },
+    deps,
+  );
+  assert.equal(result.outcome, "failed");
+  assert.deepEqual(result.survivors, [10]);
+  assert.equal(result.error, "Permission denied");
+});
+
+test("windows stops try taskkill /T before escalating to /F", async () => {
+  const alive = new Set([10]);
+  const { deps, calls } = fakeDeps({
+    alive,
+    async taskkill(args) {
+      calls.push(`taskkill ${args.join(" ")}`);
+      if (args.includes("/F")) alive.delete(10);
+    },
+  });
+  const result = await stopProcessTree(
+    10,
+    { platform: "win32", graceMs: 20, pollMs: 5 },
+    deps,
+  );
+  assert.equal(result.outcome, "forced");
+  assert.deepEqual(calls, ["taskkill /PID 10 /T", "taskkill /PID 10 /T /F"]);
+});
+
+test("windows stops skip the grace period when taskkill /T is refused", async () => {
+  const alive = new Set([10]);
+  const { deps, calls } = fakeDeps({
+    alive,
+    async taskkill(args) {
+      calls.push(`taskkill ${args.join(" ")}`);
+      if (!args.includes("/F")) throw new Error("could not be terminated");
+      alive.delete(10);
+    },
+  });
+  const result = await stopProcessTree(
+    10,
+    { platform: "win32", graceMs: 60_000, pollMs: 5 },
+    deps,
+  );
+  assert.equal(result.outcome, "forced");
+  assert.ok(result.elapsedMs < 1000);
+});
+
+function spawnNode(script: string) {
+  const child = spawn(process.execPath, ["-e", script], {
+    stdio: ["ignore", "pipe", "ignore"],
+  });
+  const ready = new Promise<string>((resolve) => {
+    child.stdout!.once("data", (chunk) => resolve(String(chunk).trim()));
+  });
+  return { child, ready };
+}
+
+test("a process that handles Ctrl+C exits within the grace period", posixOnly, async () => {
+  const { child, ready } = spawnNode(
+    "process.on('SIGINT', () => process.exit(0)); console.log('ready'); setInterval(() => {}, 1000);",
+  );
+  await ready;
+  const result = await stopProcessTree(child.pid!, { graceMs: 3000 });
+  assert.equal(result.outcome, "exited");
+  assert.equal(systemStopDeps.isAlive(child.pid!), false);
+});
+
+test("a tree that ignores SIGINT and SIGTERM is killed, children included", posixOnly, async () => {
+  const { child, ready } = spawnNode(
+    [
+      "const { spawn } = require('node:child_process');",
+      "process.on('SIGINT', () => {}); process.on('SIGTERM', () => {});",
+      "const grandchild = spawn(process.execPath, ['-e', \"process.on('SIGINT', () => {}); process.on('SIGTERM', () => {}); setInterval(() => {}, 1000)\"], { stdio: 'ignore' });",
+      "setTimeout(() => console.log(grandchild.pid), 200);",
+      "setInterval(() => {}, 1000);",
+    ].join("\n"),
+  );
+  const grandchildPid = Number(await ready);
+  assert.ok(grandchildPid > 0);
+
+  const result = await stopProcessTree(child.pid!, { graceMs: 300 });
+  assert.equal(result.outcome, "forced");
+  assert.deepEqual(result.survivors, []);
+  assert.equal(systemStopDeps.isAlive(grandchildPid), false);
+});
@@ -0,0 +1,145 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  applyProcessUsage,
+  baseProcessName,
+  buildServerProcessTree,
+  findLauncher,
+  findServerRoot,
+  parseScriptName,
+} from "../src/main/process-tree";
+import type { ProcessRow } from "../src/main/process-tree";
+
+// zsh -> npm run dev -> sh -c vite -> node vite (listening) -> esbuild
+const viteRows: ProcessRow[] = [
+  { pid: 1, parentPid: 0, name: "launchd", command: "/sbin/launchd" },
+  { pid: 90, parentPid: 1, name: "iTerm2", command: "/Applications/iTerm2" },
+  { pid: 100, parentPid: 90, name: "zsh", command: "-zsh" },
+  { pid: 200, parentPid: 100, name: "npm", command: "npm run dev" },
+  { pid: 300, parentPid: 200, name: "sh", command: "sh -c vite" },
+  {
+    pid: 400,
+    parentPid: 300,
+    name: "node",
+    command: "node /code/web/node_modules/.bin/vite",
+  },
+  { pid: 500, parentPid: 400, name: "esbuild", command: "esbuild --service" },
+];
+
+test("process names are reduced to the executable's base name", () => {
+  assert.equal(baseProcessName("C:\\Program Files\\nodejs\\node.exe"), "node");
+  assert.equal(baseProcessName("/bin/zsh"), "zsh");
+  assert.equal(baseProcessName("npm run dev"), "npm");
+  assert.equal(baseProcessName(undefined), "");
+});
+
+test("package manager scripts are recognised in their usual shapes", () => {
+  assert.equal(parseScriptName("npm run dev"), "npm run dev");
+  assert.equal(
+    parseScriptName("node /usr/lib/node_modules/npm/bin/npm-cli.js run dev"),
+    "npm run dev",
+  );
+  assert.equal(parseScriptName("npm start"), "npm start");
+  assert.equal(
+    parseScriptName("node /Users/me/.yarn/releases/yarn.cjs dev"),
+    "yarn dev",
+  );
+  assert.equal(
+    parseScriptName('"C:\\Program Files\\nodejs\\pnpm.cmd" run build:watch'),
+    "pnpm run build:watch",
+  );
+  assert.equal(parseScriptName("npm install"), undefined);
+  assert.equal(parseScriptName("node server.js"), undefined);
+});
+
+test("the server root climbs through wrappers and stops below the terminal", () => {
+  assert.equal(findServerRoot(400, viteRows), 200);
+  assert.deepEqual(findLauncher(200, viteRows), {
+    script: "npm run dev",
+    shell: { pid: 100, name: "zsh" },
+  });
+});
+
+test("a parent that also owns another server is not merged into the tree", () => {
+  // concurrently runs two servers side by side.
+  const rows: ProcessRow[] = [
+    { pid: 100, parentPid: 1, name: "bash", command: "bash" },
+    {
+      pid: 200,
+      parentPid: 100,
+      name: "node",
+      command: "node node_modules/.bin/concurrently npm:web npm:api",
+    },
+    { pid: 300, parentPid: 200, name: "node", command: "node web.js" },
+    { pid: 400, parentPid: 200, name: "node", command: "node api.js" },
+  ];
+  assert.equal(findServerRoot(300, rows, new Set([400])), 300);
+  assert.equal(findServerRoot(300, rows), 200);
+});
+
+test("a Windows cmd /c wrapper is climbed but an interactive cmd is not", () => {
+  const rows: ProcessRow[] = [
+    { pid: 10, parentPid: 1, name: "WindowsTerminal.exe" },
+    { pid: 20, parentPid: 10, name: "cmd.exe", command: "cmd.exe" },
+    {
+      pid: 30,
+      parentPid: 20,
+      name: "node.exe",
+      command: '"C:\\nodejs\\node.exe" "C:\\nodejs\\node_modules\\npm\\bin\\npm-cli.js" run dev',
+    },
+    {
+      pid: 40,
+      parentPid: 30,
+      name: "cmd.exe",
+      command: 'C:\\WINDOWS\\system32\\cmd.exe /d /s /c "next dev"',
+    },
+    { pid: 50, parentPid: 40, name: "node.exe", command: "node next dev" },
+  ];
+  const tree = buildServerProcessTree(50, rows);
+  assert.equal(tree.root.pid, 30);
+  assert.deepEqual(tree.pids.sort(), [30, 40, 50]);
+  assert.deepEqual(tree.launcher, {
+    script: "npm run dev",
+    shell: { pid: 20, name: "cmd.exe" },
+  });
+});
+
+test("the tree nests children, marks the listener and sums usage", () => {
+  const tree = buildServerProcessTree(400, viteRows);
+  assert.equal(tree.root.pid, 200);
+  assert.deepEqual(tree.pids.sort(), [200, 300, 400, 500]);
+  const vite = tree.root.children[0].children[0];
+  assert.equal(vite.pid, 400);
+  assert.equal(vite.listening, true);
+  assert.equal(tree.root.listening, false);
+  assert.deepEqual(
+    vite.children.map((child) => child.pid),
+    [500],
+  );
+
+  const sampled = applyProcessUsage(
+    tree,
+    new Map([
+      [200, { cpu: 0.5, memory: 40 }],
+      [400, { cpu: 12, memory: 200 }],
+      [500, { cpu: 3, memory: 60 }],
+    ]),
+  );
+  assert.equal(sampled.cpu, 15.5);
+  assert.equal(sampled.memory, 300);
+  assert.equal(sampled.root.children[0].cpu, undefined);
+  assert.equal(sampled.root.children[0].children[0].memory, 200);
+  // The unsampled tree is left as it was.
+  assert.equal(tree.cpu, 0);
+});
+
+test("a lone process is its own tree", () => {
+  const rows: ProcessRow[] = [
+    { pid: 1, parentPid: 0, name: "systemd" },
+    { pid: 700, parentPid: 1, name: "python3", command: "python3 -m http.server" },
+  ];
+  const tree = buildServerProcessTree(700, rows);
+  assert.equal(tree.root.pid, 700);
+  assert.deepEqual(tree.pids, [700]);
+  assert.deepEqual(tree.launcher, {});
+});
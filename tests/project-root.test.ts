@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { findProjectRoot } from "../src/main/project-root";
+import { makeTree } from "./fs-test-helpers";
+
+test("servers in a monorepo share the git toplevel", async () => {
+  const tmp = await makeTree({
+    "shop/.git/HEAD": "ref: refs/heads/main\n",
+    "shop/package.json": JSON.stringify({ name: "shop-monorepo" }),
+    "shop/apps/web/package.json": JSON.stringify({ name: "web" }),
+    "shop/apps/api/src/index.ts": "",
+  });
+  try {
+    const expected = {
+      root: path.join(tmp, "shop"),
+      name: "shop-monorepo",
+      source: "git",
+    };
+    assert.deepEqual(
+      await findProjectRoot(path.join(tmp, "shop/apps/web"), tmp),
+      expected,
+    );
+    assert.deepEqual(
+      await findProjectRoot(path.join(tmp, "shop/apps/api/src"), tmp),
+      expected,
+    );
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+});
+
+test("a .git file (worktree) marks the root, named after its folder", async () => {
+  const tmp = await makeTree({
+    "feature/.git": "gitdir: /repos/shop/.git/worktrees/feature\n",
+    "feature/server/main.go": "",
+  });
+  try {
+    assert.deepEqual(
+      await findProjectRoot(path.join(tmp, "feature/server"), tmp),
+      { root: path.join(tmp, "feature"), name: "feature", source: "git" },
+    );
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+});
+
+test("outside git the nearest package.json is the project", async () => {
+  const tmp = await makeTree({
+    "work/package.json": JSON.stringify({ name: "outer" }),
+    "work/site/package.json": JSON.stringify({ name: "site" }),
+    "work/site/src/pages/index.tsx": "",
+    "work/unnamed/package.json": "{}",
+  });
+  try {
+    assert.deepEqual(
+      await findProjectRoot(path.join(tmp, "work/site/src/pages"), tmp),
+      { root: path.join(tmp, "work/site"), name: "site", source: "package" },
+    );
+    assert.equal(
+      (await findProjectRoot(path.join(tmp, "work/unnamed"), tmp))?.name,
+      "unnamed",
+    );
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+});
+
+test("the search stops at the home directory", async () => {
+  const tmp = await makeTree({
+    ".git/HEAD": "ref: refs/heads/main\n",
+    "scratch/server.py": "",
+  });
+  try {
+    assert.equal(
+      await findProjectRoot(path.join(tmp, "scratch"), tmp),
+      undefined,
+    );
+    assert.equal(await findProjectRoot(tmp, tmp), undefined);
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,190 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import http from "node:http";
+import net from "node:net";
+import {
+  buildProxyRoutes,
+  proxyLabel,
+  routeNameFromHost,
+  validateProxyPort,
+  type ProxyRouteSource,
+} from "../src/main/proxy-routes";
+import { ReverseProxy } from "../src/main/reverse-proxy";
+
+function server(
+  port: number,
+  extra: Partial<ProxyRouteSource> = {},
+): ProxyRouteSource {
+  return {
+    key: `${1000 + port}:${port}`,
+    port,
+    protocol: "tcp",
+    addresses: ["127.0.0.1"],
+    url: `http://localhost:${port}`,
+    firstSeen: 100,
+    ...extra,
+  };
+}
+
+test("routes are named after profiles, packages and projects", () => {
+  assert.equal(proxyLabel("@acme/Web App"), "web-app");
+  assert.equal(proxyLabel("--"), undefined);
+
+  const routes = buildProxyRoutes([
+    server(5173, {
+      workspacePackage: { name: "@acme/web" },
+      project: { name: "acme" },
+    }),
+    server(3000, { profileName: "API", cwd: "/code/acme/api" }),
+    server(8080, { cwd: "/code/Legacy Admin" }),
+    server(5432, {
+      container: { name: "acme-db-1", composeService: "db" },
+    }),
+    server(5353, { protocol: "udp", cwd: "/code/mdns" }),
+    server(9999), // nothing to name it after
+  ]);
+  assert.deepEqual(
+    routes.map((r) => [r.name, r.port]),
+    [
+      ["api", 3000],
+      ["db", 5432],
+      ["legacy-admin", 8080],
+      ["web", 5173],
+    ],
+  );
+  assert.deepEqual(routes.find((r) => r.name === "web"), {
+    name: "web",
+    key: "6173:5173",
+    host: "127.0.0.1",
+    port: 5173,
+    secure: false,
+  });
+});
+
+test("a profile or the longest-running server keeps a contested name", () => {
+  const routes = buildProxyRoutes([
+    server(5174, { cwd: "/code/shop", firstSeen: 300 }),
+    server(5173, { cwd: "/code/shop", firstSeen: 200 }),
+    server(4000, { cwd: "/code/shop", profileName: "shop", firstSeen: 900 }),
+    server(5443, {
+      cwd: "/srv/shop",
+      firstSeen: 50,
+      addresses: ["::1"],
+      url: "https://[::1]:5443",
+    }),
+  ]);
+  assert.deepEqual(
+    routes.map((r) => [r.name, r.port, r.host, r.secure]),
+    [
+      ["shop", 4000, "127.0.0.1", false],
+      ["shop-5173", 5173, "127.0.0.1", false],
+      ["shop-5174", 5174, "127.0.0.1", false],
+      ["shop-5443", 5443, "::1", true],
+    ],
+  );
+});
+
+test("only *.localhost hosts select a route", () => {
+  assert.equal(routeNameFromHost("web.localhost:1355"), "web");
+  assert.equal(routeNameFromHost("API.localhost."), "api");
+  assert.equal(routeNameFromHost("localhost:1355"), undefined);
+  assert.equal(routeNameFromHost("web.example.com"), undefined);
+  assert.equal(routeNameFromHost("a.b.localhost"), undefined);
+  assert.equal(routeNameFromHost(undefined), undefined);
+
+  assert.equal(validateProxyPort("8081"), 8081);
+  assert.throws(() => validateProxyPort(0), /1 to 65535/);
+  assert.throws(() => validateProxyPort(1.5), /1 to 65535/);
+});
+
+function listen(target: http.Server): Promise<number> {
+  return new Promise((resolve) =>
+    target.listen(0, "127.0.0.1", () =>
+      resolve((target.address() as net.AddressInfo).port),
+    ),
+  );
+}
+
+function get(
+  port: number,
+  host: string,
+): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ host: "127.0.0.1", port, path: "/hello?x=1", headers: { host } })
+      .on("response", (res) => {
+        let body = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, body }));
+      })
+      .on("error", reject);
+  });
+}
+
+test("the proxy forwards requests and upgrades by Host header", async () => {
+  const target = http.createServer((req, res) => {
+    const forwardedHost = req.headers["x-forwarded-host"];
+    res.end(`${req.url} via ${req.headers.host} ${forwardedHost}`);
+  });
+  target.on("upgrade", (req, socket) => {
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+        "Upgrade: websocket\r\nConnection: Upgrade\r\n\r\n",
+    );
+    socket.write(`hello ${req.headers.host}\n`);
+    socket.on("data", (data) => socket.end(`echo ${data}`));
+  });
+  const targetPort = await listen(target);
+  const proxy = new ReverseProxy();
+  try {
+    await proxy.start(0);
+    const port = proxy.listeningPort!;
+    const urls = proxy.setRoutes(
+      buildProxyRoutes([server(targetPort, { cwd: "/code/web" })]),
+    );
+    assert.equal(
+      urls.get(`${1000 + targetPort}:${targetPort}`),
+      `http://web.localhost:${port}`,
+    );
+
+    const ok = await get(port, `web.localhost:${port}`);
+    assert.equal(ok.status, 200);
+    assert.equal(
+      ok.body,
+      `/hello?x=1 via web.localhost:${port} web.localhost:${port}`,
+    );
+
+    const missing = await get(port, `nope.localhost:${port}`);
+    assert.equal(missing.status, 404);
+    assert.match(missing.body, new RegExp(`web\\.localhost:${port}`));
+
+    const socket = net.connect(port, "127.0.0.1");
+    let received = "";
+    let pinged = false;
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk) => {
+      received += chunk;
+      if (!pinged && received.includes("hello")) {
+        pinged = true;
+        socket.write("ping");
+      }
+    });
+    socket.write(
+      "GET /hmr HTTP/1.1\r\n" +
+        `Host: web.localhost:${port}\r\n` +
+        "Upgrade: websocket\r\nConnection: Upgrade\r\n\r\n",
+    );
+    await new Promise((resolve) => socket.on("close", resolve));
+    assert.match(received, /^HTTP\/1\.1 101 Switching Protocols/);
+    assert.match(received, new RegExp(`hello web\\.localhost:${port}\\n`));
+    assert.match(received, /echo ping$/);
+
+    await proxy.stop();
+    assert.equal(proxy.listeningPort, undefined);
+    assert.equal(proxy.setRoutes([]).size, 0);
+  } finally {
+    await proxy.stop();
+    await new Promise((resolve) => target.close(resolve));
+  }
+});
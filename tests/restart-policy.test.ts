@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import { validateLaunchProfileInput } from "../src/main/launch-profiles";
+import {
+  MAX_RESTARTS_PER_WINDOW,
+  RESTART_MAX_DELAY_MS,
+  RESTART_WINDOW_MS,
+  planRestart,
+  recordRestart,
+  type RestartStatus,
+} from "../src/main/restart-policy";
+
+const crash = (startedAt: number, exitedAt: number) => ({
+  startedAt,
+  exitedAt,
+  exitCode: 1,
+});
+
+test("auto-restart is stored only when turned on", () => {
+  const base = { name: "Web", cwd: "/code/web", command: "npm run dev" };
+  assert.equal(
+    validateLaunchProfileInput({ ...base, autoRestart: true }).autoRestart,
+    true,
+  );
+  const off = validateLaunchProfileInput({ ...base, autoRestart: false });
+  assert.equal("autoRestart" in off, false);
+});
+
+test("restarts back off exponentially up to the maximum delay", () => {
+  let status: RestartStatus | undefined;
+  let now = 0;
+  const delays: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    now += 60_000;
+    status = planRestart(status, crash(now - 30_000, now), now);
+    assert.equal(status.gaveUp, undefined);
+    delays.push(status.nextRestartAt! - now);
+    status = recordRestart(status, status.nextRestartAt!);
+  }
+  assert.deepEqual(delays, [1_000, 2_000, 4_000, 8_000]);
+  assert.equal(status!.count, 4);
+  assert.equal(status!.lastExitReason, "Exited with code 1");
+
+  const long = planRestart(
+    { count: 9, recent: [1, 2, 3, 4], quickExits: 0 },
+    { startedAt: 0, exitedAt: 60_000, exitCode: null, signal: "SIGSEGV" },
+    60_000,
+  );
+  assert.ok(long.nextRestartAt! - 60_000 <= RESTART_MAX_DELAY_MS);
+  assert.equal(long.lastExitReason, "Terminated by SIGSEGV");
+});
+
+test("restarts stop at the per-window limit and resume after it", () => {
+  const now = 20 * 60_000;
+  const recent = Array.from(
+    { length: MAX_RESTARTS_PER_WINDOW },
+    (_, i) => now - i * 60_000,
+  );
+  const status = { count: recent.length, recent, quickExits: 0 };
+  const limited = planRestart(status, crash(now - 30_000, now), now);
+  assert.equal(limited.gaveUp, "limit");
+  assert.equal(limited.nextRestartAt, undefined);
+
+  const later = now + RESTART_WINDOW_MS;
+  const resumed = planRestart(status, crash(later - 30_000, later), later);
+  assert.equal(resumed.gaveUp, undefined);
+  assert.equal(resumed.recent.length, 0);
+});
+
+test("servers that die right after starting are treated as a crash loop", () => {
+  let status = planRestart(undefined, crash(0, 500), 500);
+  status = recordRestart(status, 1_500);
+  status = planRestart(status, crash(1_500, 2_000), 2_000);
+  assert.equal(status.quickExits, 2);
+  status = recordRestart(status, 4_000);
+  status = planRestart(status, crash(4_000, 4_200), 4_200);
+  assert.equal(status.gaveUp, "crash-loop");
+
+  // A run that stayed up resets the streak
+  const steady = planRestart(
+    { count: 2, recent: [], quickExits: 2 },
+    crash(0, 120_000),
+    120_000,
+  );
+  assert.equal(steady.quickExits, 0);
+  assert.equal(steady.gaveUp, undefined);
+});
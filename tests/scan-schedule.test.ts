@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  BURST_DURATION_MS,
+  listenerSnapshot,
+  nextScanDelay,
+  snapshotsEqual,
+} from "../src/main/scan-schedule";
+
+const visible = { windowVisible: true, onBattery: false };
+
+test("the configured interval applies while visible on AC power", () => {
+  assert.equal(nextScanDelay(5000, visible, 0, 1000), 5000);
+});
+
+test("hidden windows and battery power slow scanning down, within a cap", () => {
+  const hidden = { windowVisible: false, onBattery: false };
+  const battery = { windowVisible: true, onBattery: true };
+  const both = { windowVisible: false, onBattery: true };
+  assert.equal(nextScanDelay(5000, hidden, 0, 1000), 15_000);
+  assert.equal(nextScanDelay(5000, battery, 0, 1000), 10_000);
+  assert.equal(nextScanDelay(5000, both, 0, 1000), 30_000);
+  assert.equal(nextScanDelay(20_000, both, 0, 1000), 60_000);
+  // An interval already above the cap is never shortened.
+  assert.equal(nextScanDelay(90_000, both, 0, 1000), 90_000);
+});
+
+test("a server starting or stopping speeds scans up for a while", () => {
+  const both = { windowVisible: false, onBattery: true };
+  const burstUntil = 1000 + BURST_DURATION_MS;
+  assert.equal(nextScanDelay(5000, both, burstUntil, 1000), 1000);
+  assert.equal(nextScanDelay(500, visible, burstUntil, 1000), 500);
+  assert.equal(nextScanDelay(5000, both, burstUntil, burstUntil), 30_000);
+});
+
+test("listener snapshots compare pid, port, protocol and addresses", () => {
+  const a = listenerSnapshot([
+    { pid: 10, localPort: 3000, protocol: "tcp", addresses: ["::", "0.0.0.0"] },
+    { pid: 11, localPort: 5353, protocol: "udp", addresses: ["0.0.0.0"] },
+  ]);
+  const reordered = listenerSnapshot([
+    { pid: 11, localPort: 5353, protocol: "udp", addresses: ["0.0.0.0"] },
+    { pid: 10, localPort: 3000, protocol: "tcp", addresses: ["0.0.0.0", "::"] },
+  ]);
+  const restarted = listenerSnapshot([
+    { pid: 12, localPort: 3000, protocol: "tcp", addresses: ["::", "0.0.0.0"] },
+    { pid: 11, localPort: 5353, protocol: "udp", addresses: ["0.0.0.0"] },
+  ]);
+  assert.ok(snapshotsEqual(a, reordered));
+  assert.ok(!snapshotsEqual(a, restarted));
+  assert.ok(!snapshotsEqual(a, new Set()));
+});
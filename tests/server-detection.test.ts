@@ -1,7 +1,15 @@
 import { test } from "node:test";
 import { strict as assert } from "node:assert";
 import {
+  addressFamily,
+  buildListenerUrl,
+  classifyBindExposure,
+  listenerKey,
+  normalizeBindAddress,
+  normalizeListenerProtocol,
   parseLsofListeningOutput,
+  parseNetstatTcpOutput,
+  parseNetstatUdpOutput,
   parseNumericPid,
   parseNumericPort,
   shouldIgnoreListener,
@@ -23,11 +31,137 @@ n127.0.0.1:3000
 `;
 
   assert.deepEqual(parseLsofListeningOutput(output), [
-    { protocol: "tcp", localPort: 5173, pid: 93751, state: "LISTEN" },
-    { protocol: "tcp", localPort: 3000, pid: 93786, state: "LISTEN" },
+    {
+      protocol: "tcp",
+      localAddress: "127.0.0.1",
+      localPort: 5173,
+      pid: 93751,
+      state: "LISTEN",
+    },
+    {
+      protocol: "tcp",
+      localAddress: "127.0.0.1",
+      localPort: 3000,
+      pid: 93786,
+      state: "LISTEN",
+    },
   ]);
 });
 
+test("parses bound UDP sockets from lsof and skips connected ones", () => {
+  const output = `
+p412
+n*:5353
+n127.0.0.1:5353->224.0.0.251:5353
+p9001
+n[::1]:53
+`;
+
+  assert.deepEqual(parseLsofListeningOutput(output, "udp"), [
+    {
+      protocol: "udp",
+      localAddress: "0.0.0.0",
+      localPort: 5353,
+      pid: 412,
+      state: "BOUND",
+    },
+    {
+      protocol: "udp",
+      localAddress: "::1",
+      localPort: 53,
+      pid: 9001,
+      state: "BOUND",
+    },
+  ]);
+});
+
+test("parses Windows netstat UDP output for IPv4 and IPv6", () => {
+  const output = `
+Active Connections
+
+  Proto  Local Address          Foreign Address        State           PID
+  UDP    0.0.0.0:5353           *:*                                    4120
+  UDP    [::]:27015             *:*                                    8800
+  UDP    192.168.1.5:50000      10.0.0.1:53                            77
+`;
+
+  assert.deepEqual(parseNetstatUdpOutput(output), [
+    {
+      protocol: "udp",
+      localAddress: "0.0.0.0",
+      localPort: 5353,
+      pid: 4120,
+      state: "BOUND",
+    },
+    {
+      protocol: "udp",
+      localAddress: "::",
+      localPort: 27015,
+      pid: 8800,
+      state: "BOUND",
+    },
+  ]);
+});
+
+test("keeps the bound address and family from lsof and netstat", () => {
+  const lsof = `
+p501
+tIPv6
+n*:3000
+tIPv4
+n*:3000
+p502
+tIPv6
+n[fe80::1%lo0]:8080
+`;
+  assert.deepEqual(
+    parseLsofListeningOutput(lsof).map((l) => `${l.pid} ${l.localAddress}`),
+    ["501 ::", "501 0.0.0.0", "502 fe80::1"],
+  );
+
+  const netstat = `
+  TCP    0.0.0.0:135            0.0.0.0:0              LISTENING       1024
+  TCP    127.0.0.1:3000         0.0.0.0:0              LISTENING       4120
+  TCP    [::1]:5173             [::]:0                 LISTENING       7312
+  TCP    192.168.1.5:50123      140.82.112.4:443       ESTABLISHED     880
+`;
+  assert.deepEqual(
+    parseNetstatTcpOutput(netstat).map(
+      (l) => `${l.pid} ${l.localAddress}:${l.localPort}`,
+    ),
+    ["1024 0.0.0.0:135", "4120 127.0.0.1:3000", "7312 ::1:5173"],
+  );
+  assert.equal(normalizeBindAddress("::ffff:127.0.0.1"), "127.0.0.1");
+  assert.equal(normalizeBindAddress("*", "IPv6"), "::");
+});
+
+test("classifies exposure and builds URLs that reach the listener", () => {
+  assert.equal(classifyBindExposure(["127.0.0.1", "::1"]), "loopback");
+  assert.equal(classifyBindExposure(["::"]), "all-interfaces");
+  assert.equal(classifyBindExposure(["192.168.1.5"]), "network");
+  assert.equal(classifyBindExposure([]), undefined);
+  assert.equal(addressFamily(["::1"]), "IPv6");
+  assert.equal(addressFamily(["0.0.0.0", "::"]), "dual");
+
+  assert.equal(buildListenerUrl(["127.0.0.1"], 3000, "tcp"), "http://localhost:3000");
+  assert.equal(buildListenerUrl(["0.0.0.0", "::"], 3000, "tcp"), "http://localhost:3000");
+  assert.equal(buildListenerUrl(["::1"], 5173, "tcp"), "http://[::1]:5173");
+  assert.equal(buildListenerUrl(["::"], 5173, "tcp"), "http://[::1]:5173");
+  assert.equal(
+    buildListenerUrl(["192.168.1.5"], 8080, "tcp"),
+    "http://192.168.1.5:8080",
+  );
+  assert.equal(buildListenerUrl([], 53, "udp"), "udp://localhost:53");
+});
+
+test("keeps TCP keys stable and gives UDP sockets their own key", () => {
+  assert.equal(listenerKey(10, 3000, "tcp"), "10:3000");
+  assert.equal(listenerKey(10, 3000, "udp"), "10:3000/udp");
+  assert.equal(normalizeListenerProtocol("tcp6"), "tcp");
+  assert.equal(normalizeListenerProtocol("UDP"), "udp");
+  assert.equal(normalizeListenerProtocol("unix"), undefined);
+});
+
 test("ignores the macOS Control Center listener on port 5000 without affecting Windows", () => {
   assert.equal(
     shouldIgnoreListener(
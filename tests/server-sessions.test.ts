@@ -0,0 +1,151 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  querySessions,
+  ServerSessionLog,
+  validateSessionQuery,
+  type ServerSession,
+  type SessionServer,
+} from "../src/main/server-sessions";
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 9, 18, 13, 0, 0);
+
+function server(overrides: Partial<SessionServer> = {}): SessionServer {
+  return {
+    key: "4242:3001",
+    port: 3001,
+    protocol: "tcp",
+    pid: 4242,
+    firstSeen: T0,
+    lastSeen: T0,
+    ...overrides,
+  };
+}
+
+test("sessions open on first sight, fill in details and close when gone", () => {
+  const log = new ServerSessionLog([], T0);
+  assert.equal(log.sync([server()]), true);
+  assert.equal(
+    log.sync([
+      server({
+        lastSeen: T0 + 5000,
+        processName: "node",
+        cwd: "/work/api",
+        framework: "Vite",
+      }),
+    ]),
+    true,
+  );
+  assert.equal(log.sync([server({ lastSeen: T0 + 10_000 })]), false);
+  assert.equal(log.sync([]), true);
+
+  const [session] = log.list();
+  assert.equal(session.id, "1");
+  assert.equal(session.startedAt, T0);
+  assert.equal(session.endedAt, T0 + 10_000);
+  assert.equal(session.endReason, "stopped");
+  assert.equal(session.cwd, "/work/api");
+  assert.equal(session.framework, "Vite");
+});
+
+test("open sessions from a previous run resume or close as unobserved", () => {
+  const saved: ServerSession[] = [
+    { ...server(), id: "7", startedAt: T0, lastSeen: T0 + HOUR },
+    {
+      ...server({ key: "99:5173", port: 5173, pid: 99 }),
+      id: "8",
+      startedAt: T0,
+      lastSeen: T0 + HOUR,
+    },
+  ];
+  const log = new ServerSessionLog(saved, T0 + 2 * HOUR);
+  log.sync([server({ firstSeen: T0 + 2 * HOUR, lastSeen: T0 + 2 * HOUR })]);
+  log.sync([
+    server({ firstSeen: T0 + 2 * HOUR, lastSeen: T0 + 2 * HOUR }),
+    server({ key: "100:5173", port: 5173, pid: 100, lastSeen: T0 + 2 * HOUR }),
+  ]);
+
+  const [resumed, closed, fresh] = log.list();
+  assert.equal(resumed.endedAt, undefined);
+  assert.equal(resumed.startedAt, T0);
+  assert.equal(resumed.lastSeen, T0 + 2 * HOUR);
+  assert.equal(closed.endedAt, T0 + HOUR);
+  assert.equal(closed.endReason, "unobserved");
+  assert.equal(fresh.id, "9");
+
+  log.clear();
+  assert.deepEqual(
+    log.list().map((session) => session.id),
+    ["7", "9"],
+  );
+});
+
+test("queries find what ran on a port during a time range", () => {
+  const sessions: ServerSession[] = [
+    {
+      ...server(),
+      id: "1",
+      processName: "node",
+      cwd: "/work/api",
+      startedAt: T0,
+      lastSeen: T0 + 3 * HOUR,
+      endedAt: T0 + 3 * HOUR,
+      endReason: "stopped",
+    },
+    {
+      ...server({ key: "5:3001", pid: 5 }),
+      id: "2",
+      processName: "python",
+      command: "uvicorn main:app --port 3001",
+      startedAt: T0 + 5 * HOUR,
+      lastSeen: T0 + 6 * HOUR,
+    },
+    {
+      ...server({ key: "6:8080", port: 8080, pid: 6 }),
+      id: "3",
+      startedAt: T0 + HOUR,
+      lastSeen: T0 + 2 * HOUR,
+      endedAt: T0 + 2 * HOUR,
+      endReason: "stopped",
+    },
+  ];
+  const afternoon = { from: T0 + HOUR, to: T0 + 4 * HOUR };
+  assert.deepEqual(
+    querySessions(sessions, { port: 3001, ...afternoon }).map((s) => s.id),
+    ["1"],
+  );
+  assert.deepEqual(
+    querySessions(sessions, { from: T0 + 4 * HOUR }, T0 + 6 * HOUR).map(
+      (s) => s.id,
+    ),
+    ["2"],
+  );
+  assert.deepEqual(
+    querySessions(sessions, { text: "UVICORN" }).map((s) => s.id),
+    ["2"],
+  );
+  assert.deepEqual(
+    querySessions(sessions, {}).map((s) => s.id),
+    ["2", "3", "1"],
+  );
+});
+
+test("session queries are validated before they reach the log", () => {
+  assert.deepEqual(validateSessionQuery(undefined), {});
+  assert.deepEqual(
+    validateSessionQuery({
+      port: "3001",
+      from: "2026-10-18T13:00:00Z",
+      to: T0 + HOUR,
+      text: "  api  ",
+    }),
+    { port: 3001, from: T0, to: T0 + HOUR, text: "api" },
+  );
+  assert.throws(() => validateSessionQuery({ port: 70000 }), /Port/);
+  assert.throws(() => validateSessionQuery({ from: "yesterday" }), /date/);
+  assert.throws(
+    () => validateSessionQuery({ from: T0 + HOUR, to: T0 }),
+    /ends before/,
+  );
+});
@@ -0,0 +1,214 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import http from "node:http";
+import net from "node:net";
+import { TrafficInspector, bodyText } from "../src/main/traffic-inspector";
+import {
+  MAX_BODY_CAPTURE,
+  TrafficLog,
+  companionPort,
+  curlCommand,
+  matchesTrafficFilter,
+  type TrafficEntry,
+} from "../src/main/traffic-log";
+
+function entry(extra: Partial<TrafficEntry> = {}): TrafficEntry {
+  return {
+    seq: 1,
+    time: 0,
+    method: "GET",
+    path: "/api/items",
+    status: 200,
+    durationMs: 12,
+    requestHeaders: { host: "localhost:13000", accept: "application/json" },
+    requestBytes: 0,
+    responseBytes: 2,
+    ...extra,
+  };
+}
+
+test("the traffic log keeps only the newest entries", () => {
+  const log = new TrafficLog(3);
+  for (let i = 0; i < 5; i++) log.add(entry({ path: `/${i}` }));
+  assert.deepEqual(
+    log.list().map((e) => [e.seq, e.path]),
+    [
+      [3, "/2"],
+      [4, "/3"],
+      [5, "/4"],
+    ],
+  );
+  assert.deepEqual(log.list(4).map((e) => e.seq), [5]);
+  log.clear();
+  assert.equal(log.list().length, 0);
+  assert.equal(log.add(entry()).seq, 6);
+
+  assert.equal(companionPort(3000), 13000);
+  assert.equal(companionPort(60000), 0);
+});
+
+test("entries are filtered by status class and text", () => {
+  const ok = entry();
+  const missing = entry({ method: "POST", path: "/login", status: 404 });
+  const failed = entry({ status: undefined, error: "ECONNREFUSED" });
+  const pick = (filter: Parameters<typeof matchesTrafficFilter>[1]) =>
+    [ok, missing, failed].filter((e) => matchesTrafficFilter(e, filter));
+
+  assert.deepEqual(pick({}), [ok, missing, failed]);
+  assert.deepEqual(pick({ status: "4xx" }), [missing]);
+  assert.deepEqual(pick({ status: "failed" }), [failed]);
+  assert.deepEqual(pick({ query: "post /LOG" }), [missing]);
+  assert.deepEqual(pick({ query: "404", status: "2xx" }), []);
+});
+
+test("copy as curl replays the request against the server", () => {
+  const post = entry({
+    method: "POST",
+    path: "/api/items?draft=1",
+    requestHeaders: {
+      host: "localhost:13000",
+      "content-type": "application/json",
+      "content-length": "17",
+      "x-forwarded-for": "127.0.0.1",
+      authorization: "Bearer it's",
+    },
+    requestBody: '{"name":"Widget"}',
+    requestBytes: 17,
+  });
+  assert.equal(
+    curlCommand(post, "http://localhost:3000/"),
+    "curl -X POST 'http://localhost:3000/api/items?draft=1'" +
+      " -H 'content-type: application/json'" +
+      " -H 'authorization: Bearer it'\\''s'" +
+      ` --data-raw '{"name":"Widget"}'`,
+  );
+  // A body that was cut short is left out rather than replayed wrong.
+  assert.doesNotMatch(
+    curlCommand(
+      { ...post, requestBytes: MAX_BODY_CAPTURE + 1 },
+      "http://localhost:3000",
+    ),
+    /--data-raw/,
+  );
+  assert.equal(
+    curlCommand(entry(), "http://localhost:3000"),
+    "curl 'http://localhost:3000/api/items' -H 'accept: application/json'",
+  );
+});
+
+test("only textual, uncompressed bodies are kept as text", () => {
+  const json = Buffer.from('{"ok":true}');
+  assert.equal(
+    bodyText(json, { "content-type": "application/json; charset=utf-8" }),
+    '{"ok":true}',
+  );
+  assert.equal(
+    bodyText(json, { "content-type": "application/ld+json" }),
+    '{"ok":true}',
+  );
+  assert.equal(bodyText(json, {}), '{"ok":true}');
+  assert.equal(bodyText(json, { "content-type": "image/png" }), undefined);
+  assert.equal(
+    bodyText(json, { "content-type": "text/html", "content-encoding": "br" }),
+    undefined,
+  );
+  assert.equal(bodyText(Buffer.alloc(0), {}), undefined);
+});
+
+test("the inspector records requests on their way to the server", async () => {
+  const target = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (req.url === "/missing") {
+        res.writeHead(404, { "content-type": "text/plain" });
+        res.end("nope");
+        return;
+      }
+      res.writeHead(201, { "content-type": "application/json" });
+      res.end(
+        JSON.stringify({
+          got: body,
+          encoding: req.headers["accept-encoding"] ?? null,
+        }),
+      );
+    });
+  });
+  await new Promise<void>((resolve) =>
+    target.listen(0, "127.0.0.1", () => resolve()),
+  );
+  const targetPort = (target.address() as net.AddressInfo).port;
+  const inspector = new TrafficInspector({
+    host: "127.0.0.1",
+    port: targetPort,
+    secure: false,
+  });
+  const recorded: TrafficEntry[] = [];
+  inspector.on("entry", (e: TrafficEntry) => recorded.push(e));
+
+  const request = (method: string, path: string, body?: string) =>
+    new Promise<{ status: number; body: string }>((resolve, reject) => {
+      const req = http.request(
+        {
+          host: "127.0.0.1",
+          port: inspector.listeningPort,
+          method,
+          path,
+          headers: { "accept-encoding": "gzip", "content-type": "text/plain" },
+        },
+        (res) => {
+          let text = "";
+          res.setEncoding("utf8");
+          res.on("data", (chunk) => (text += chunk));
+          res.on("end", () =>
+            resolve({ status: res.statusCode!, body: text }),
+          );
+        },
+      );
+      req.on("error", reject);
+      req.end(body);
+    });
+
+  try {
+    // The preferred port is taken (by the target itself here), so the
+    // inspector falls back to any free port.
+    const port = await inspector.start(targetPort);
+    assert.notEqual(port, targetPort);
+
+    const created = await request("POST", "/items", "hello");
+    assert.equal(created.status, 201);
+    assert.deepEqual(JSON.parse(created.body), {
+      got: "hello",
+      encoding: null,
+    });
+    assert.equal((await request("GET", "/missing")).status, 404);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.deepEqual(
+      recorded.map((e) => [e.method, e.path, e.status]),
+      [
+        ["POST", "/items", 201],
+        ["GET", "/missing", 404],
+      ],
+    );
+    const [post] = recorded;
+    assert.equal(post.requestBody, "hello");
+    assert.equal(post.requestBytes, 5);
+    assert.equal(post.responseHeaders?.["content-type"], "application/json");
+    assert.equal(post.responseBody, created.body);
+    assert.equal(post.responseBytes, Buffer.byteLength(created.body));
+    assert.equal(inspector.log.list().length, 2);
+
+    // Stopping the server leaves a failed entry and a 502 for the client.
+    target.closeAllConnections();
+    await new Promise((resolve) => target.close(resolve));
+    const down = await request("GET", "/after");
+    assert.equal(down.status, 502);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(recorded.at(-1)?.status, undefined);
+    assert.ok(recorded.at(-1)?.error);
+  } finally {
+    await inspector.stop();
+    target.close();
+  }
+});
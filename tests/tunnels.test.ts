@@ -0,0 +1,186 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  detectTunnel,
+  fetchTunnelPublicUrl,
+  hasPublicUrlApi,
+  splitCommandLine,
+} from "../src/main/tunnels";
+
+test("command lines split on whitespace outside quotes", () => {
+  assert.deepEqual(
+    splitCommandLine(`"C:\\Program Files\\ngrok\\ngrok.exe" http  '' 3000`),
+    ["C:\\Program Files\\ngrok\\ngrok.exe", "http", "", "3000"],
+  );
+});
+
+test("ssh forwards resolve the remote target for the card's port", () => {
+  const command =
+    "/usr/bin/ssh -fNL 5432:db.internal:5432 -L127.0.0.1:6380:cache:6379 -J jump.example.com -l deploy bastion";
+  assert.deepEqual(detectTunnel("ssh", command, 5432), {
+    kind: "ssh",
+    remote: "db.internal:5432",
+    via: "jump.example.com → deploy@bastion",
+  });
+  assert.equal(detectTunnel("ssh", command, 6380)?.remote, "cache:6379");
+
+  assert.equal(
+    detectTunnel("ssh", "ssh -L [::1]:8443:[2001:db8::5]:443 me@host", 8443)
+      ?.remote,
+    "[2001:db8::5]:443",
+  );
+  assert.equal(
+    detectTunnel("ssh", "ssh -L 3307:/var/run/mysqld.sock host", 3307)?.remote,
+    "/var/run/mysqld.sock",
+  );
+  assert.deepEqual(detectTunnel("ssh", "ssh -D 1080 -p 2222 me@host", 1080), {
+    kind: "ssh",
+    remote: "SOCKS proxy",
+    via: "me@host",
+  });
+  // Arguments after the destination are the remote command, not options.
+  assert.equal(
+    detectTunnel("ssh", "ssh host -L 9000:x:9000", 9000)?.remote,
+    undefined,
+  );
+});
+
+test("kubectl port-forward gives resource, namespace and context", () => {
+  assert.deepEqual(
+    detectTunnel(
+      "kubectl",
+      "kubectl --context=staging -n shop port-forward svc/api 8080:80 9090:9090",
+      8080,
+    ),
+    {
+      kind: "kubectl",
+      remote: "svc/api:80",
+      namespace: "shop",
+      context: "staging",
+    },
+  );
+  assert.deepEqual(
+    detectTunnel(
+      "kubectl.exe",
+      "kubectl.exe port-forward --namespace prod web-5d9c 5000",
+      5000,
+    ),
+    {
+      kind: "kubectl",
+      remote: "pod/web-5d9c:5000",
+      namespace: "prod",
+      context: undefined,
+    },
+  );
+  // A random local port (":80") still matches the only mapping.
+  assert.equal(
+    detectTunnel("kubectl", "kubectl port-forward deploy/web :80", 53211)
+      ?.remote,
+    "deploy/web:80",
+  );
+  assert.equal(
+    detectTunnel("kubectl", "kubectl proxy --port 8001", 8001),
+    undefined,
+  );
+});
+
+test("cloudflared and ngrok show what they expose", () => {
+  assert.deepEqual(
+    detectTunnel(
+      "cloudflared",
+      "cloudflared tunnel --url http://localhost:3000",
+      20241,
+    ),
+    {
+      kind: "cloudflared",
+      name: undefined,
+      localTarget: "http://localhost:3000",
+      publicUrl: undefined,
+      quick: true,
+    },
+  );
+  assert.equal(
+    detectTunnel(
+      "cloudflared",
+      "cloudflared tunnel --config c.yml run shop",
+      20241,
+    )?.name,
+    "shop",
+  );
+  assert.deepEqual(
+    detectTunnel(
+      "cloudflared",
+      "cloudflared access tcp --hostname db.example.com --url localhost:5432",
+      5432,
+    ),
+    {
+      kind: "cloudflared",
+      remote: "db.example.com",
+      localTarget: "localhost:5432",
+    },
+  );
+  assert.deepEqual(
+    detectTunnel("ngrok", "ngrok http --url shop.ngrok.app 3000", 4040),
+    {
+      kind: "ngrok",
+      localTarget: "localhost:3000",
+      publicUrl: "https://shop.ngrok.app",
+    },
+  );
+  assert.equal(detectTunnel("node", "node server.js", 3000), undefined);
+});
+
+test("only ngrok and quick tunnels are asked for a public URL", () => {
+  const ask = (command: string, port: number) =>
+    hasPublicUrlApi(detectTunnel(undefined, command, port)!);
+  assert.equal(ask("cloudflared tunnel --url localhost:3000", 20241), true);
+  assert.equal(ask("cloudflared tunnel run shop", 20241), false);
+  assert.equal(ask("cloudflared access tcp --url localhost:5432", 5432), false);
+  assert.equal(ask("ngrok http 3000", 4040), true);
+});
+
+test("public URLs come from the ngrok and cloudflared local APIs", async () => {
+  const server = http.createServer((req, res) => {
+    res.setHeader("Content-Type", "application/json");
+    if (req.url === "/api/tunnels") {
+      res.end(
+        JSON.stringify({
+          tunnels: [
+            { public_url: "tcp://0.tcp.ngrok.io:12345" },
+            { public_url: "https://abc.ngrok-free.app" },
+          ],
+        }),
+      );
+    } else if (req.url === "/quicktunnel") {
+      res.end(JSON.stringify({ hostname: "calm-river.trycloudflare.com" }));
+    } else {
+      res.statusCode = 404;
+      res.end("404 page not found");
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    assert.equal(
+      await fetchTunnelPublicUrl("ngrok", "127.0.0.1", port),
+      "https://abc.ngrok-free.app",
+    );
+    assert.equal(
+      await fetchTunnelPublicUrl("cloudflared", "127.0.0.1", port),
+      "https://calm-river.trycloudflare.com",
+    );
+    assert.equal(
+      await fetchTunnelPublicUrl("ssh", "127.0.0.1", port),
+      undefined,
+    );
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+  // Nothing listens there any more.
+  assert.equal(
+    await fetchTunnelPublicUrl("ngrok", "127.0.0.1", port),
+    undefined,
+  );
+});
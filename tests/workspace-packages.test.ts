@@ -0,0 +1,165 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import {
+  matchesWorkspacePattern,
+  parsePnpmWorkspace,
+  resolveWorkspacePackage,
+  workspaceSelectors,
+} from "../src/main/workspace-packages";
+import { makeTree } from "./fs-test-helpers";
+
+const pkg = (name: string) => JSON.stringify({ name });
+
+test("pnpm-workspace.yaml package lists are read in both YAML forms", () => {
+  assert.deepEqual(
+    parsePnpmWorkspace(
+      [
+        "# workspace",
+        "packages:",
+        "  - 'apps/*'",
+        '  - "packages/**" # shared code',
+        "  - '!**/test/**'",
+        "catalog:",
+        "  react: ^19.0.0",
+      ].join("\n"),
+    ),
+    ["apps/*", "packages/**", "!**/test/**"],
+  );
+  assert.deepEqual(parsePnpmWorkspace("packages: [apps/*, 'tools/cli']\n"), [
+    "apps/*",
+    "tools/cli",
+  ]);
+});
+
+test("workspace globs match one segment with * and any depth with **", () => {
+  assert.ok(matchesWorkspacePattern("apps/web", "apps/*"));
+  assert.ok(!matchesWorkspacePattern("apps/web/src", "apps/*"));
+  assert.ok(matchesWorkspacePattern("packages/ui/button", "packages/**"));
+  assert.ok(matchesWorkspacePattern("services/api-v2", "services/api-*"));
+  assert.ok(!matchesWorkspacePattern("tools", "tools/*"));
+});
+
+test("runner command lines name the package they run", () => {
+  assert.deepEqual(workspaceSelectors("pnpm --filter @shop/web... dev"), [
+    "@shop/web",
+  ]);
+  assert.deepEqual(workspaceSelectors("npm run dev -w apps/api"), [
+    "apps/api",
+  ]);
+  assert.deepEqual(
+    workspaceSelectors("node /repo/node_modules/.bin/turbo dev --filter=web"),
+    ["web"],
+  );
+  assert.deepEqual(workspaceSelectors("yarn workspace admin dev"), ["admin"]);
+  assert.deepEqual(workspaceSelectors("nx run api:serve"), ["api"]);
+  assert.deepEqual(workspaceSelectors("npx nx serve api --port 4200"), [
+    "api",
+  ]);
+  assert.deepEqual(workspaceSelectors("pnpm --filter './apps/*' dev"), []);
+  assert.deepEqual(workspaceSelectors("vite --port 5173"), []);
+});
+
+test("servers in a pnpm workspace resolve to their own package", async () => {
+  const tmp = await makeTree({
+    "shop/pnpm-workspace.yaml": "packages:\n  - apps/*\n  - packages/*\n",
+    "shop/package.json": pkg("shop"),
+    "shop/apps/web/package.json": pkg("@shop/web"),
+    "shop/apps/web/src/main.tsx": "",
+    "shop/apps/api/package.json": pkg("@shop/api"),
+    "shop/packages/ui/package.json": pkg("@shop/ui"),
+  });
+  const root = path.join(tmp, "shop");
+  try {
+    assert.deepEqual(
+      await resolveWorkspacePackage(path.join(root, "apps/web/src"), [], tmp),
+      {
+        name: "@shop/web",
+        path: "apps/web",
+        dir: path.join(root, "apps/web"),
+        workspaceRoot: root,
+        tool: "pnpm",
+      },
+    );
+
+    // Started from the root: the script path gives it away...
+    const fromScript = await resolveWorkspacePackage(
+      root,
+      [
+        `node ${root}/apps/api/node_modules/.bin/../tsx/dist/cli.mjs watch src/index.ts`,
+      ],
+      tmp,
+    );
+    assert.equal(fromScript?.path, "apps/api");
+
+    // ...or the runner's --filter does, when the binary is hoisted.
+    const fromFilter = await resolveWorkspacePackage(
+      root,
+      [
+        `node ${root}/node_modules/.pnpm/vite@6.0.0/node_modules/vite/bin/vite.js`,
+        "sh -c vite",
+        "pnpm --filter @shop/web dev",
+      ],
+      tmp,
+    );
+    assert.equal(fromFilter?.path, "apps/web");
+
+    assert.equal(await resolveWorkspacePackage(root, ["vite"], tmp), undefined);
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+});
+
+test("package.json workspaces, Nx and Turborepo layouts are recognised", async () => {
+  const tmp = await makeTree({
+    "npm/package.json": JSON.stringify({
+      name: "npm-root",
+      workspaces: { packages: ["services/*", "!services/legacy"] },
+    }),
+    "npm/services/billing/package.json": pkg("billing"),
+    "npm/services/legacy/package.json": pkg("legacy"),
+    "nx/nx.json": JSON.stringify({ workspaceLayout: { appsDir: "projects" } }),
+    "nx/projects/store/project.json": JSON.stringify({ name: "store" }),
+    "turbo/turbo.json": "{}",
+    "turbo/apps/docs/package.json": "{}",
+    "plain/package.json": pkg("plain"),
+  });
+  try {
+    const billing = await resolveWorkspacePackage(
+      path.join(tmp, "npm/services/billing"),
+      [],
+      tmp,
+    );
+    assert.deepEqual([billing?.name, billing?.tool], ["billing", "npm"]);
+    assert.equal(
+      await resolveWorkspacePackage(
+        path.join(tmp, "npm/services/legacy"),
+        [],
+        tmp,
+      ),
+      undefined,
+    );
+
+    const store = await resolveWorkspacePackage(
+      path.join(tmp, "nx"),
+      ["npx nx serve store"],
+      tmp,
+    );
+    assert.deepEqual([store?.path, store?.tool], ["projects/store", "nx"]);
+
+    const docs = await resolveWorkspacePackage(
+      path.join(tmp, "turbo/apps/docs"),
+      [],
+      tmp,
+    );
+    assert.deepEqual([docs?.name, docs?.tool], ["docs", "turbo"]);
+
+    assert.equal(
+      await resolveWorkspacePackage(path.join(tmp, "plain"), [], tmp),
+      undefined,
+    );
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+});
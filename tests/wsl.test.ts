@@ -0,0 +1,247 @@
+import { test } from "node:test";
+import { strict as assert } from "node:assert";
+import { execFile, spawn } from "node:child_process";
+import { promisify } from "node:util";
+import {
+  WslListenerSource,
+  isWslRelayFor,
+  parseSsOutput,
+  parseWslDistroList,
+  parseWslListenerReport,
+  parseWslStopOutput,
+  parseWslUncPath,
+  stopWslProcess,
+  validateWslDistro,
+  wslPortOwner,
+  wslUncPath,
+  type WslRunner,
+} from "../src/main/wsl";
+
+const execFileAsync = promisify(execFile);
+const posixOnly = { skip: process.platform === "win32" };
+
+// Runs the command wsl.exe would run inside the distro, on this machine.
+const localRunner: WslRunner = async (args, timeoutMs) => {
+  const command = args.slice(args.indexOf("-e") + 1);
+  const { stdout } = await execFileAsync(command[0], command.slice(1), {
+    encoding: "buffer",
+    timeout: timeoutMs,
+  });
+  return stdout;
+};
+
+const report = [
+  "@tcp",
+  'LISTEN 0      511          0.0.0.0:3000      0.0.0.0:*    users:(("node",pid=812,fd=21))',
+  'LISTEN 0      511             [::]:3000         [::]:*    users:(("node",pid=812,fd=22))',
+  'LISTEN 0      4096   127.0.0.53%lo:53        0.0.0.0:*    users:(("systemd-resolve",pid=90,fd=14))',
+  "LISTEN 0      128          0.0.0.0:22        0.0.0.0:*",
+  "@udp",
+  'UNCONN 0      0                  *:5353            *:*    users:(("avahi-daemon",pid=77,fd=12))',
+  "@proc",
+  "77\tavahi-daemon\t/\tavahi-daemon: running",
+  "90\tsystemd-resolve\t/\t/lib/systemd/systemd-resolved ",
+  "812\tnode\t/home/me/shop\tnode /home/me/shop/node_modules/.bin/vite ",
+].join("\n");
+
+test("running distros are read from UTF-16 wsl.exe output", () => {
+  const output = Buffer.from(
+    "\uFEFFUbuntu-22.04\r\ndocker-desktop\r\nkali-linux\r\n",
+    "utf16le",
+  );
+  assert.deepEqual(parseWslDistroList(output), ["Ubuntu-22.04", "kali-linux"]);
+  assert.deepEqual(
+    parseWslDistroList(
+      Buffer.from("There are no running distributions.\r\n", "utf16le"),
+    ),
+    [],
+  );
+  assert.equal(validateWslDistro("Ubuntu-22.04"), "Ubuntu-22.04");
+  assert.throws(() => validateWslDistro("Ubuntu; rm -rf /"), /not valid/);
+});
+
+test("ss output gives address, port and owning PID", () => {
+  const listeners = parseSsOutput(report, "tcp");
+  assert.deepEqual(
+    listeners.map((l) => [l.localAddress, l.localPort, l.pid]),
+    [
+      ["0.0.0.0", 3000, 812],
+      ["::", 3000, 812],
+      ["127.0.0.53", 53, 90],
+      ["::", 5353, 77],
+    ],
+  );
+});
+
+test("listener reports group sockets and attach process details", () => {
+  const listeners = parseWslListenerReport(report, "Ubuntu");
+  assert.deepEqual(
+    listeners.map((l) => [l.port, l.protocol, l.addresses, l.processName]),
+    [
+      [3000, "tcp", ["0.0.0.0", "::"], "node"],
+      [53, "tcp", ["127.0.0.53"], "systemd-resolve"],
+      [5353, "udp", ["::"], "avahi-daemon"],
+    ],
+  );
+  assert.deepEqual(listeners[0], {
+    distro: "Ubuntu",
+    pid: 812,
+    port: 3000,
+    protocol: "tcp",
+    addresses: ["0.0.0.0", "::"],
+    processName: "node",
+    command: "node /home/me/shop/node_modules/.bin/vite",
+    cwd: "/home/me/shop",
+  });
+});
+
+test("project paths map to and from the wsl.localhost share", () => {
+  const unc = wslUncPath("Ubuntu", "/home/me/shop");
+  assert.equal(unc, "\\\\wsl.localhost\\Ubuntu\\home\\me\\shop");
+  assert.deepEqual(parseWslUncPath(unc), {
+    distro: "Ubuntu",
+    path: "/home/me/shop",
+  });
+  assert.deepEqual(parseWslUncPath("\\\\wsl$\\Debian"), {
+    distro: "Debian",
+    path: "/",
+  });
+  assert.equal(parseWslUncPath("C:\\code\\shop"), null);
+});
+
+test("a WSL-covered port resolves to the Linux server, not the relay", () => {
+  const listeners = [
+    {
+      distro: "Ubuntu",
+      pid: 812,
+      port: 3000,
+      protocol: "tcp" as const,
+      addresses: ["0.0.0.0"],
+      processName: "node",
+      command: "node server.js",
+      cwd: "/home/ada/web",
+    },
+  ];
+  assert.equal(isWslRelayFor("wslrelay.exe", 3000, "tcp", listeners), true);
+  assert.equal(isWslRelayFor("wslrelay.exe", 3000, "udp", listeners), false);
+  assert.equal(isWslRelayFor("wslrelay.exe", 8080, "tcp", listeners), false);
+  assert.equal(isWslRelayFor("node.exe", 3000, "tcp", listeners), false);
+
+  const owner = wslPortOwner(listeners[0]);
+  assert.equal(owner.wslDistro, "Ubuntu");
+  assert.equal(owner.pid, 812);
+  assert.equal(owner.cwd, "\\\\wsl.localhost\\Ubuntu\\home\\ada\\web");
+  assert.deepEqual(owner.tree, [
+    { pid: 812, name: "node", command: "node server.js" },
+  ]);
+});
+
+test("the listener source skips failing distros and backs off without WSL", async () => {
+  const calls: string[][] = [];
+  const source = new WslListenerSource(async (args) => {
+    calls.push(args);
+    if (args[0] === "--list") {
+      return Buffer.from("Ubuntu\r\nDebian\r\n", "utf16le");
+    }
+    if (args[1] === "Debian") throw new Error("distro crashed");
+    return Buffer.from(report);
+  }, 1000);
+  const listeners = await source.listListeners(0);
+  assert.equal(listeners.length, 3);
+  assert.ok(listeners.every((l) => l.distro === "Ubuntu"));
+  assert.deepEqual(calls[1].slice(0, 6), [
+    "-d",
+    "Ubuntu",
+    "-u",
+    "root",
+    "-e",
+    "sh",
+  ]);
+
+  let runs = 0;
+  const missing = new WslListenerSource(async () => {
+    runs++;
+    throw Object.assign(new Error("spawn wsl.exe ENOENT"), { code: "ENOENT" });
+  }, 1000);
+  assert.deepEqual(await missing.listListeners(0), []);
+  assert.deepEqual(await missing.listListeners(999), []);
+  assert.equal(runs, 1);
+  await missing.listListeners(1000);
+  assert.equal(runs, 2);
+});
+
+test("stop output becomes a stop result", () => {
+  assert.deepEqual(parseWslStopOutput("forced\n", 812, 40), {
+    pid: 812,
+    outcome: "forced",
+    elapsedMs: 40,
+    survivors: [],
+  });
+  assert.deepEqual(parseWslStopOutput("failed 812 813\n", 812, 40).survivors, [
+    812, 813,
+  ]);
+  assert.equal(parseWslStopOutput("", 812, 40).outcome, "failed");
+});
+
+test("the stop script escalates inside the distro", posixOnly, async () => {
+  const child = spawn("sleep", ["30"], { stdio: "ignore" });
+  await new Promise((resolve) => child.once("spawn", resolve));
+  const exited = new Promise((resolve) => child.once("exit", resolve));
+  const result = await stopWslProcess(
+    "Ubuntu",
+    child.pid!,
+    { graceMs: 2000 },
+    localRunner,
+  );
+  await exited;
+  assert.equal(result.outcome, "exited");
+  assert.deepEqual(result.survivors, []);
+
+  const again = await stopWslProcess(
+    "Ubuntu",
+    child.pid!,
+    { graceMs: 0 },
+    localRunner,
+  );
+  assert.equal(again.outcome, "already-exited");
+
+  const unreachable = await stopWslProcess(
+    "Ubuntu",
+    child.pid!,
+    { graceMs: 0 },
+    async () => {
+      throw new Error("The distribution is not running.");
+    },
+  );
+  assert.equal(unreachable.outcome, "failed");
+  assert.equal(unreachable.error, "The distribution is not running.");
+});
+
+test("the listener script reports this machine's sockets", posixOnly, async (t) => {
+  try {
+    await execFileAsync("ss", ["-V"]);
+  } catch {
+    t.skip("ss is not installed");
+    return;
+  }
+  const net = await import("node:net");
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+  try {
+    const source = new WslListenerSource(async (args, timeoutMs) =>
+      args[0] === "--list"
+        ? Buffer.from("Local\n")
+        : localRunner(args, timeoutMs),
+    );
+    const listener = (await source.listListeners()).find(
+      (l) => l.port === port,
+    );
+    assert.ok(listener, `port ${port} not reported`);
+    assert.equal(listener.pid, process.pid);
+    assert.equal(listener.cwd, process.cwd());
+    assert.deepEqual(listener.addresses, ["127.0.0.1"]);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});